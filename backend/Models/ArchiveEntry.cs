@@ -0,0 +1,16 @@
+namespace ForgeModApi.Models;
+
+/// <summary>
+/// A file or folder of an extracted archive waiting for its install location.
+/// </summary>
+public class ArchiveEntry
+{
+    // Relative to the archive root with forward slashes; empty for the root itself
+    public string Path { get; set; } = "";
+    public string Name { get; set; } = "";
+    public bool IsDirectory { get; set; }
+
+    // Bytes of the file, or of every file below a folder
+    public long Size { get; set; }
+    public List<ArchiveEntry> Children { get; set; } = new();
+}
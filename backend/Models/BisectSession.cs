@@ -0,0 +1,46 @@
+namespace ForgeModApi.Models;
+
+public static class BisectStatus
+{
+    public const string Testing = "testing";
+    public const string Found = "found";
+}
+
+public static class BisectOutcome
+{
+    public const string Booted = "booted";
+    public const string Crashed = "crashed";
+}
+
+public class BisectStep
+{
+    public int Round { get; set; }
+    public List<int> EnabledModIds { get; set; } = new();
+    public string Outcome { get; set; } = BisectOutcome.Booted;
+}
+
+public class BisectSession
+{
+    public string ListName { get; set; } = "";
+    public string Status { get; set; } = BisectStatus.Testing;
+    public DateTime StartedAt { get; set; } = DateTime.UtcNow;
+
+    // State to put back when the bisect ends
+    public List<int> OriginalEnabledModIds { get; set; } = new();
+    public bool ServerWasRunning { get; set; }
+
+    // Mods that may still be the culprit, and the half of them enabled in the current round
+    public List<int> Suspects { get; set; } = new();
+    public List<int> TestingModIds { get; set; } = new();
+    public int Round { get; set; }
+    public List<BisectStep> Steps { get; set; } = new();
+
+    public int? CulpritModId { get; set; }
+    public string? CulpritModName { get; set; }
+
+    // Console line the current round's restart began after; output past it decides the detected outcome
+    public long ConsoleMark { get; set; }
+
+    // Booted or crashed when the console output of the round gives it away, null while undecided
+    public string? DetectedOutcome { get; set; }
+}
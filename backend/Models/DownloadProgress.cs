@@ -0,0 +1,30 @@
+namespace ForgeModApi.Models;
+
+public static class DownloadPhase
+{
+    public const string Queued = "queued";
+    public const string FetchingMetadata = "fetching_metadata";
+    public const string Downloading = "downloading";
+    public const string Extracting = "extracting";
+    public const string Installing = "installing";
+    public const string AwaitingChoice = "awaiting_choice";
+    public const string Completed = "completed";
+    public const string Skipped = "skipped";
+    public const string Failed = "failed";
+    public const string Cancelled = "cancelled";
+}
+
+public class DownloadProgress
+{
+    public string OperationId { get; set; } = "";
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string Phase { get; set; } = DownloadPhase.Queued;
+    public long BytesReceived { get; set; }
+    public long? TotalBytes { get; set; }
+    public string? Target { get; set; }
+    public string? Message { get; set; }
+    public int Index { get; set; }
+    public int Total { get; set; }
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+}
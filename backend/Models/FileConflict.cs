@@ -0,0 +1,21 @@
+namespace ForgeModApi.Models;
+
+public class FileConflict
+{
+    public string Path { get; set; } = "";
+    public int OwnerModId { get; set; }
+    public string OwnerModName { get; set; } = "";
+}
+
+public class FileConflictOwner
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public bool IsCurrent { get; set; }
+}
+
+public class ListFileConflict
+{
+    public string Path { get; set; } = "";
+    public List<FileConflictOwner> Owners { get; set; } = new();
+}
@@ -0,0 +1,30 @@
+using System.Text.Json.Serialization;
+
+namespace ForgeModApi.Models;
+
+public static class InstalledFileStatus
+{
+    public const string Ok = "ok";
+    public const string Modified = "modified";
+    public const string Missing = "missing";
+}
+
+public class InstalledFile
+{
+    public string Path { get; set; } = "";
+    public long Size { get; set; }
+    public string Sha256 { get; set; } = "";
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Status { get; set; }
+}
+
+public class InstallManifest
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string Version { get; set; } = "";
+    public DateTime InstalledAt { get; set; } = DateTime.UtcNow;
+    public List<InstalledFile> Files { get; set; } = new();
+    public List<string> Directories { get; set; } = new();
+}
@@ -0,0 +1,38 @@
+namespace ForgeModApi.Models;
+
+public static class InstallTargetKind
+{
+    public const string Server = "server";
+    public const string Client = "client";
+    public const string Custom = "custom";
+
+    // Folders of the archive are sent to different places, see InstallTarget.Mapping
+    public const string Mapped = "mapped";
+
+    public static bool IsValid(string? kind) => kind is Server or Client or Custom or Mapped;
+}
+
+public static class InstallMappingTarget
+{
+    public const string Server = "server";
+    public const string Client = "client";
+    public const string Config = "config";
+    public const string Skip = "skip";
+
+    public static bool IsValid(string? target) => target is Server or Client or Config or Skip;
+}
+
+/// <summary>
+/// Where the files of an archive without SPT/ or BepInEx/ folders are installed.
+/// </summary>
+public class InstallTarget
+{
+    public string Kind { get; set; } = InstallTargetKind.Server;
+
+    // Folder relative to the server directory the archive is copied into, only for custom targets
+    public string? Path { get; set; }
+
+    // Archive folder ("" for the root) to an InstallMappingTarget, only for mapped targets.
+    // A file follows the closest mapped folder above it; files under no mapped folder are skipped.
+    public Dictionary<string, string>? Mapping { get; set; }
+}
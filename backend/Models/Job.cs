@@ -0,0 +1,73 @@
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace ForgeModApi.Models;
+
+public static class JobType
+{
+    public const string DownloadMod = "download_mod";
+    public const string DownloadAll = "download_all";
+    public const string ForceUpdate = "force_update";
+    public const string SptUpdate = "spt_update";
+    public const string FikaUpdate = "fika_update";
+    public const string ActivateList = "activate_list";
+    public const string ApplyUpdates = "apply_updates";
+    public const string UpdateMods = "update_mods";
+}
+
+public static class JobStatus
+{
+    public const string Queued = "queued";
+    public const string Running = "running";
+    public const string Succeeded = "succeeded";
+    public const string AwaitingChoice = "awaiting_choice";
+    public const string Failed = "failed";
+    public const string Cancelled = "cancelled";
+
+    public static bool IsFinished(string status) =>
+        status is Succeeded or AwaitingChoice or Failed or Cancelled;
+}
+
+public class JobRequest
+{
+    public string Type { get; set; } = "";
+    public string? ListName { get; set; }
+    public int? ModId { get; set; }
+
+    // Mods of an update_mods job, updated in this order
+    public List<int>? ModIds { get; set; }
+    public bool OverwriteConflicts { get; set; }
+    public string? DownloadUrl { get; set; }
+
+    // Hash of the activation plan the user reviewed for an activate_list job
+    public string? PlanHash { get; set; }
+
+    // Queued by the nightly scheduler rather than by a user
+    public bool Scheduled { get; set; }
+}
+
+public class JobLogEntry
+{
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+    public string Message { get; set; } = "";
+}
+
+public class Job
+{
+    public string Id { get; set; } = "";
+    public string Type { get; set; } = "";
+    public string Title { get; set; } = "";
+    public JobRequest Request { get; set; } = new();
+    public string Status { get; set; } = JobStatus.Queued;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? StartedAt { get; set; }
+    public DateTime? FinishedAt { get; set; }
+    public List<JobLogEntry> Logs { get; set; } = new();
+
+    // Stored already serialized (camelCase) so it reads the same before and after a restart
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public JsonElement? Result { get; set; }
+
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    public string? Error { get; set; }
+}
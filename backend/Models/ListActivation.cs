@@ -0,0 +1,40 @@
+namespace ForgeModApi.Models;
+
+public static class ActivationAction
+{
+    public const string Install = "install";
+    public const string Update = "update";
+    public const string Remove = "remove";
+    public const string Keep = "keep";
+}
+
+public class ActivationPlanItem
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string Action { get; set; } = ActivationAction.Keep;
+    public string? InstalledVersion { get; set; }
+    public string? TargetVersion { get; set; }
+
+    // Installed before manifests were recorded and found by its folder, which removing deletes
+    public bool Unmanaged { get; set; }
+}
+
+public class ActivationPlan
+{
+    public string ListName { get; set; } = "";
+    public List<ActivationPlanItem> Items { get; set; } = new();
+
+    // Sent back with the activate_list job, which fails when the plan changed since it was reviewed
+    public string Hash { get; set; } = "";
+    public int ChangeCount => Items.Count(i => i.Action != ActivationAction.Keep);
+}
+
+public class ActiveListState
+{
+    public string? Name { get; set; }
+    public DateTime? ActivatedAt { get; set; }
+
+    // False once mods were installed, updated or removed outside the list since it was activated
+    public bool InSync { get; set; }
+}
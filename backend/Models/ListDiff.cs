@@ -0,0 +1,30 @@
+namespace ForgeModApi.Models;
+
+public class ModVersionDifference
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public Mod Left { get; set; } = new();
+    public Mod Right { get; set; } = new();
+
+    // Positive when the left list has the newer version
+    public int Comparison { get; set; }
+}
+
+public class ListDiff
+{
+    public string LeftList { get; set; } = "";
+    public string RightList { get; set; } = "";
+    public string LeftSptVersion { get; set; } = "";
+    public string RightSptVersion { get; set; } = "";
+    public List<Mod> OnlyInLeft { get; set; } = new();
+    public List<Mod> OnlyInRight { get; set; } = new();
+    public List<ModVersionDifference> VersionDifferences { get; set; } = new();
+    public int IdenticalCount { get; set; }
+}
+
+public class CherryPickRequest
+{
+    public string SourceList { get; set; } = "";
+    public List<int> ModIds { get; set; } = new();
+}
@@ -0,0 +1,34 @@
+namespace ForgeModApi.Models;
+
+public static class LoadOrderRule
+{
+    public const string LoadAfter = "load_after";
+    public const string LoadBefore = "load_before";
+}
+
+public class LoadOrderEntry
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string? Folder { get; set; }
+    public string? PackageName { get; set; }
+    public bool Enabled { get; set; } = true;
+    public List<string> LoadAfter { get; set; } = new();
+    public List<string> LoadBefore { get; set; } = new();
+}
+
+public class LoadOrderWarning
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string Rule { get; set; } = LoadOrderRule.LoadAfter;
+    public int OtherModId { get; set; }
+    public string OtherModName { get; set; } = "";
+}
+
+public class LoadOrder
+{
+    public string ListName { get; set; } = "";
+    public List<LoadOrderEntry> Entries { get; set; } = new();
+    public List<LoadOrderWarning> Warnings { get; set; } = new();
+}
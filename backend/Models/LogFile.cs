@@ -0,0 +1,43 @@
+namespace ForgeModApi.Models;
+
+public static class LogSource
+{
+    public const string Spt = "spt";
+    public const string BepInEx = "bepinex";
+}
+
+public static class LogLineLevel
+{
+    public const string Info = "info";
+    public const string Warning = "warning";
+    public const string Error = "error";
+}
+
+public class LogFile
+{
+    // Path relative to the SPT server directory; also the file's ID in the API
+    public string Path { get; set; } = "";
+    public string Source { get; set; } = LogSource.Spt;
+    public string Name { get; set; } = "";
+    public long SizeBytes { get; set; }
+    public DateTime ModifiedAt { get; set; }
+}
+
+public class LogLine
+{
+    public int Number { get; set; }
+    public string Text { get; set; } = "";
+    public string Level { get; set; } = LogLineLevel.Info;
+
+    // The mod of the requested list an exception's stack trace points at
+    public int? ModId { get; set; }
+    public string? ModName { get; set; }
+}
+
+public class LogPage
+{
+    public string Path { get; set; } = "";
+    public int Offset { get; set; }
+    public int TotalLines { get; set; }
+    public List<LogLine> Lines { get; set; } = new();
+}
@@ -11,8 +11,27 @@ public class Mod
     public string Teaser { get; set; } = "";
     public string DownloadUrl { get; set; } = "";
     public string ContentLength { get; set; } = "";
+    public long? ContentLengthBytes { get; set; }
+    public DateTime? UpdatedAt { get; set; }
     public string LatestVersion { get; set; } = "";
+    public string LatestSptVersionConstraint { get; set; } = "";
     public string ModType { get; set; } = "unknown";
-    public bool UpdateAvailable => !string.IsNullOrEmpty(LatestVersion) && LatestVersion != Version;
+
+    // Release the list is held at; update checks skip pinned mods and force updates reinstall this release
+    public string? PinnedVersion { get; set; }
+
+    // Overrides the list's update policy; null follows the list
+    public string? UpdatePolicy { get; set; }
+
+    // Remembered answer for archives without SPT/ or BepInEx/ folders; null asks on the next install
+    public InstallTarget? InstallTarget { get; set; }
+
+    // Disabled mods keep their files outside the server directory until re-enabled
+    public bool Enabled { get; set; } = true;
+    public List<ModDependency> Dependencies { get; set; } = new();
+
+    // Release notes of the versions after Version up to LatestVersion, newest first
+    public List<ModChangelogEntry> Changelog { get; set; } = new();
+    public bool UpdateAvailable => PinnedVersion == null && !string.IsNullOrEmpty(LatestVersion) && LatestVersion != Version;
 }
 
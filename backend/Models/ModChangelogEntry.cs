@@ -0,0 +1,10 @@
+namespace ForgeModApi.Models;
+
+public class ModChangelogEntry
+{
+    public string Version { get; set; } = "";
+    public DateTime? PublishedAt { get; set; }
+
+    // Release notes as written on Forge, empty when the author left none
+    public string Notes { get; set; } = "";
+}
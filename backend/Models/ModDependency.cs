@@ -0,0 +1,25 @@
+namespace ForgeModApi.Models;
+
+public class ModDependency
+{
+    public int ModId { get; set; }
+    public string Name { get; set; } = "";
+    public string Constraint { get; set; } = "*";
+    public string? ResolvedVersion { get; set; }
+}
+
+public class MissingDependency
+{
+    public Mod Mod { get; set; } = new();
+    public string Constraint { get; set; } = "*";
+    public string RequiredBy { get; set; } = "";
+}
+
+public class DependencyResolution
+{
+    public Mod Mod { get; set; } = new();
+    public List<MissingDependency> MissingDependencies { get; set; } = new();
+
+    // Dependencies with no release matching their constraint; they are not added with the mod
+    public List<MissingDependency> UnresolvableDependencies { get; set; } = new();
+}
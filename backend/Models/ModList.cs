@@ -5,4 +5,18 @@ public class ModList
     public string Name { get; set; } = "";
     public string SelectedSptVersion { get; set; } = "unknown";
     public List<Mod> Mods { get; set; } = new();
-}
\ No newline at end of file
+
+    // Mod IDs of the list's server mods, in the order SPT should load them
+    public List<int> LoadOrder { get; set; } = new();
+
+    // Default for mods without their own policy, see UpdatePolicy
+    public string UpdatePolicy { get; set; } = Models.UpdatePolicy.Notify;
+}
+
+public class DuplicateListRequest
+{
+    public string NewName { get; set; } = "";
+
+    // Leave out the mods that are not installed on the server
+    public bool InstalledOnly { get; set; }
+}
@@ -0,0 +1,88 @@
+namespace ForgeModApi.Models;
+
+public static class ModListExportSchema
+{
+    public const string Format = "tarkhub-modlist";
+
+    // 1 is the unversioned {listName, mods, selectedSptVersion, exportedAt} file older releases wrote
+    public const int LegacyVersion = 1;
+    public const int CurrentVersion = 2;
+}
+
+/// <summary>
+/// A mod list as written to an export file. The layout is documented in the README under "Export Format";
+/// bump <see cref="ModListExportSchema.CurrentVersion"/> and add a migration for any breaking change.
+/// </summary>
+public class ModListExport
+{
+    public string Format { get; set; } = ModListExportSchema.Format;
+    public int SchemaVersion { get; set; } = ModListExportSchema.CurrentVersion;
+    public DateTime ExportedAt { get; set; } = DateTime.UtcNow;
+    public string ListName { get; set; } = "";
+    public string SptVersion { get; set; } = "unknown";
+    public List<ExportedMod> Mods { get; set; } = new();
+
+    // Mod IDs of the server mods in load order
+    public List<int> LoadOrder { get; set; } = new();
+}
+
+public class ExportedMod
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = "";
+    public string DetailUrl { get; set; } = "";
+
+    // The version the list holds, empty when the file did not record one
+    public string Version { get; set; } = "";
+
+    // Whether the list is pinned to Version rather than following the latest release
+    public bool Pinned { get; set; }
+    public string SptVersionConstraint { get; set; } = "";
+    public string ModType { get; set; } = "unknown";
+    public bool Enabled { get; set; } = true;
+
+    // Where a non-standard archive is installed, null when the list never recorded a choice
+    public InstallTarget? InstallTarget { get; set; }
+
+    // SHA-256 over the installed files' paths and hashes, null when the mod was not installed
+    public string? Checksum { get; set; }
+}
+
+public class ImportValidationError
+{
+    // JSON path of the offending value, e.g. "mods[3].detailUrl"
+    public string Path { get; set; } = "";
+    public string Message { get; set; } = "";
+}
+
+public class ImportValidation
+{
+    public bool Valid => Errors.Count == 0;
+    public int SourceVersion { get; set; }
+    public bool Migrated => SourceVersion != ModListExportSchema.CurrentVersion;
+
+    // The file upgraded to the current schema; null when it could not be read at all
+    public ModListExport? Export { get; set; }
+    public List<ImportValidationError> Errors { get; set; } = new();
+}
+
+public class ImportedModResult
+{
+    // Position of the entry in the file's mods array
+    public int Index { get; set; }
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string Version { get; set; } = "";
+    public bool Success { get; set; }
+    public string? Error { get; set; }
+}
+
+public class ListImportResult
+{
+    // True only when the list was written; otherwise nothing was created
+    public bool Success { get; set; }
+    public string ListName { get; set; } = "";
+    public int SourceVersion { get; set; }
+    public List<ImportValidationError> Errors { get; set; } = new();
+    public List<ImportedModResult> Mods { get; set; } = new();
+}
@@ -0,0 +1,12 @@
+namespace ForgeModApi.Models;
+
+public class ModVersion
+{
+    public string Version { get; set; } = "";
+    public string SptVersionConstraint { get; set; } = "N/A";
+    public string DownloadUrl { get; set; } = "";
+    public string ContentLength { get; set; } = "";
+    public long? ContentLengthBytes { get; set; }
+    public DateTime? PublishedAt { get; set; }
+    public string Description { get; set; } = "";
+}
@@ -0,0 +1,18 @@
+namespace ForgeModApi.Models;
+
+public static class ServerConsoleStream
+{
+    public const string Stdout = "stdout";
+    public const string Stderr = "stderr";
+
+    // Lines written by the manager itself (started, stopped, exited)
+    public const string System = "system";
+}
+
+public class ServerConsoleLine
+{
+    public long Id { get; set; }
+    public string Stream { get; set; } = ServerConsoleStream.Stdout;
+    public string Text { get; set; } = "";
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+}
@@ -4,6 +4,9 @@ public class ServerStatus
 {
     public string SptVersion { get; set; } = "";
     public bool IsRunning { get; set; }
+
+    // False when the running server was started outside the manager, so its output is not captured
+    public bool ConsoleAttached { get; set; }
     public string Players { get; set; } = "0/0";
     public string Uptime { get; set; } = "0s";
     public DateTime Timestamp { get; set; }
@@ -0,0 +1,26 @@
+namespace ForgeModApi.Models;
+
+public static class SnapshotKind
+{
+    public const string Spt = "spt";
+    public const string Fika = "fika";
+    public const string Mod = "mod";
+}
+
+public class Snapshot
+{
+    public string Id { get; set; } = "";
+    public string Kind { get; set; } = SnapshotKind.Mod;
+    public string Label { get; set; } = "";
+    public int? ModId { get; set; }
+    public string? Version { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Files that existed before the update and were copied into the snapshot
+    public List<string> Files { get; set; } = new();
+
+    // Files the update was about to create; restoring deletes them
+    public List<string> AddedFiles { get; set; } = new();
+
+    public long SizeBytes { get; set; }
+}
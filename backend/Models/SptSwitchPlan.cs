@@ -0,0 +1,37 @@
+namespace ForgeModApi.Models;
+
+public static class SptSwitchAction
+{
+    public const string Keep = "keep";
+    public const string Upgrade = "upgrade";
+    public const string Downgrade = "downgrade";
+    public const string NoCompatibleRelease = "no_compatible_release";
+    public const string Unknown = "unknown";
+}
+
+public class SptSwitchPlanItem
+{
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string CurrentVersion { get; set; } = "";
+    public string CurrentConstraint { get; set; } = "N/A";
+    public string Action { get; set; } = SptSwitchAction.Unknown;
+    public string? TargetVersion { get; set; }
+    public string? TargetConstraint { get; set; }
+    public string? DownloadUrl { get; set; }
+    public string? ContentLength { get; set; }
+    public long? ContentLengthBytes { get; set; }
+    public DateTime? PublishedAt { get; set; }
+}
+
+public class SptSwitchPlan
+{
+    public string ListName { get; set; } = "";
+    public string CurrentSptVersion { get; set; } = "";
+    public string TargetSptVersion { get; set; } = "";
+    public List<SptSwitchPlanItem> Items { get; set; } = new();
+
+    // Sent back when applying, so a plan that changed on Forge since it was reviewed is not applied
+    public string Hash { get; set; } = "";
+    public int BlockingCount => Items.Count(i => i.Action == SptSwitchAction.NoCompatibleRelease);
+}
@@ -0,0 +1,41 @@
+namespace ForgeModApi.Models;
+
+public static class UpdatePolicy
+{
+    // Patch releases are applied by the nightly run; anything bigger is only reported
+    public const string Auto = "auto";
+    public const string Notify = "notify";
+    public const string Frozen = "frozen";
+
+    public static bool IsValid(string? policy) => policy is Auto or Notify or Frozen;
+}
+
+public static class UpdateOutcome
+{
+    public const string Applied = "applied";
+    public const string Available = "available";
+    public const string Failed = "failed";
+}
+
+public class UpdateRunChange
+{
+    public string ListName { get; set; } = "";
+    public int ModId { get; set; }
+    public string ModName { get; set; } = "";
+    public string FromVersion { get; set; } = "";
+    public string ToVersion { get; set; } = "";
+    public string Outcome { get; set; } = UpdateOutcome.Available;
+
+    // True when the installed files were replaced, not just the list entry
+    public bool Reinstalled { get; set; }
+    public string? Message { get; set; }
+}
+
+public class UpdateRun
+{
+    public string JobId { get; set; } = "";
+    public bool Scheduled { get; set; }
+    public DateTime StartedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? FinishedAt { get; set; }
+    public List<UpdateRunChange> Changes { get; set; } = new();
+}
@@ -1,5 +1,7 @@
 using ForgeModApi.Services;
 using ForgeModApi.Models;
+using System.Text.Json;
+using System.Text.Json.Nodes;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -21,6 +23,8 @@ if (enableProxyHeaders)
 // Register services
 builder.Services.AddHttpClient<ModService>();
 builder.Services.AddSingleton<ModService>();
+builder.Services.AddHostedService<JobQueueWorker>();
+builder.Services.AddHostedService<UpdateSchedulerWorker>();
 
 builder.Services.AddSingleton(new AppConfig 
 { 
@@ -30,6 +34,9 @@ builder.Services.AddSingleton(new AppConfig
 
 var app = builder.Build();
 
+// A bisect cut short by a restart would leave half of its mods disabled
+app.Services.GetRequiredService<ModService>().RestoreInterruptedBisect();
+
 if (enableProxyHeaders)
 {
     app.UseForwardedHeaders();
@@ -43,6 +50,11 @@ app.MapModRoutes();
 app.MapSptRoutes();
 app.MapFikaRoutes();
 app.MapServerStatusRoutes();
+app.MapDownloadProgressRoutes();
+app.MapSnapshotRoutes();
+app.MapJobRoutes();
+app.MapLogRoutes();
+app.MapBisectRoutes();
 
 app.MapGet("/health", () => 
 {
@@ -183,6 +195,85 @@ public static class RouteExtensions
             return Results.Ok(new { message = $"List renamed from '{oldName}' to '{newName}' successfully" });
         });
 
+        // Copy a list under a new name, optionally keeping only its installed mods
+        app.MapPost("/api/mod_list/{name}/duplicate", async (string name, ModService modService, HttpContext context) =>
+        {
+            var request = await context.Request.ReadFromJsonAsync<DuplicateListRequest>();
+            if (request == null || string.IsNullOrWhiteSpace(request.NewName))
+                return Results.BadRequest(new { error = "Missing or invalid list name" });
+
+            try
+            {
+                var list = modService.DuplicateList(name, request.NewName, request.InstalledOnly);
+                return Results.Ok(new
+                {
+                    message = $"List '{name}' duplicated as '{list.Name}'",
+                    name = list.Name,
+                    modCount = list.Mods.Count
+                });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+            catch (InvalidOperationException ex)
+            {
+                return Results.BadRequest(new { error = ex.Message });
+            }
+        });
+
+        // The list in the versioned export format, see "Export Format" in the README
+        app.MapGet("/api/mod_list/{name}/export", (string name, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(modService.ExportList(name));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Migrates an export file of any schema version and reports every invalid entry
+        app.MapPost("/api/mod_list/import/validate", async (ModService modService, HttpContext context) =>
+        {
+            JsonNode? document;
+            try
+            {
+                document = await JsonNode.ParseAsync(context.Request.Body);
+            }
+            catch (JsonException ex)
+            {
+                return Results.BadRequest(new { error = $"Not valid JSON: {ex.Message}" });
+            }
+
+            return Results.Json(modService.ValidateListImport(document));
+        });
+
+        // Creates a list from an export file in one step: every mod resolves or nothing is written
+        app.MapPost("/api/mod_list/import", async (ModService modService, HttpContext context) =>
+        {
+            JsonNode? document;
+            try
+            {
+                document = await JsonNode.ParseAsync(context.Request.Body);
+            }
+            catch (JsonException ex)
+            {
+                return Results.BadRequest(new { error = $"Not valid JSON: {ex.Message}" });
+            }
+
+            try
+            {
+                return Results.Ok(await modService.ImportListAsync(document));
+            }
+            catch (InvalidOperationException ex)
+            {
+                return Results.BadRequest(new { error = ex.Message });
+            }
+        });
+
         // Delete specific mod list
         app.MapDelete("/api/mod_list/{name}", (string name, ModService modService) =>
         {
@@ -228,6 +319,171 @@ public static class RouteExtensions
             }
         });
 
+        // Update policy the list's mods follow unless they set their own
+        app.MapGet("/api/mod_list/{name}/update_policy", (string name, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(new { updatePolicy = modService.GetListUpdatePolicy(name) });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        app.MapPost("/api/mod_list/{name}/update_policy", async (string name, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string>>();
+            if (body == null || !body.TryGetValue("policy", out var policy) || !UpdatePolicy.IsValid(policy))
+                return Results.BadRequest(new { error = "Update policy must be auto, notify or frozen" });
+
+            try
+            {
+                modService.SetListUpdatePolicy(name, policy);
+                return Results.Ok(new { message = $"Update policy set to {policy}" });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Dry-run: newest compatible release of each mod for a target SPT version
+        app.MapGet("/api/mod_list/{name}/spt_version/plan", async (string name, string? target, ModService modService) =>
+        {
+            if (string.IsNullOrWhiteSpace(target))
+                return Results.BadRequest(new { error = "Missing target SPT version" });
+
+            try
+            {
+                var plan = await modService.BuildSptSwitchPlanAsync(name, target);
+                return Results.Json(plan);
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+            catch (Exception ex)
+            {
+                return Results.BadRequest(new { error = $"Error building plan: {ex.Message}" });
+            }
+        });
+
+        // Apply the reviewed switch plan: move every mod to its planned release and set the SPT version
+        app.MapPost("/api/mod_list/{name}/spt_version/apply", async (string name, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string>>();
+            if (body == null || !body.TryGetValue("sptVersion", out var sptVersion) || string.IsNullOrWhiteSpace(sptVersion))
+                return Results.BadRequest(new { error = "Missing or invalid SPT version" });
+            if (!body.TryGetValue("planHash", out var planHash) || string.IsNullOrWhiteSpace(planHash))
+                return Results.BadRequest(new { error = "Missing the hash of the reviewed plan" });
+
+            try
+            {
+                var (success, message, plan, reinstallRequired) = await modService.ApplySptSwitchPlanAsync(name, sptVersion, planHash);
+                if (!success)
+                    return Results.Conflict(new { error = message, plan });
+
+                return Results.Ok(new
+                {
+                    message,
+                    plan,
+                    reinstallRequired
+                });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+            catch (Exception ex)
+            {
+                return Results.BadRequest(new { error = $"Error applying plan: {ex.Message}" });
+            }
+        });
+
+        // Server mods in load order, with warnings for broken loadAfter/loadBefore requirements
+        app.MapGet("/api/mod_list/{name}/load_order", (string name, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(modService.GetLoadOrder(name));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Save the load order and rewrite SPT's order file
+        app.MapPost("/api/mod_list/{name}/load_order", async (string name, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, List<int>>>();
+            if (body == null || !body.TryGetValue("order", out var order))
+                return Results.BadRequest(new { error = "Missing load order" });
+
+            try
+            {
+                return Results.Json(modService.UpdateLoadOrder(name, order));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // The list the installed mods were last made to match, and whether they still do
+        app.MapGet("/api/active_list", (ModService modService) =>
+        {
+            return Results.Json(modService.GetActiveList());
+        });
+
+        // What activating the list would install, update and remove; applied through an activate_list job
+        app.MapGet("/api/mod_list/{name}/activation_plan", (string name, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(modService.BuildActivationPlan(name));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Mods only one of the two lists has, and mods both have at different versions
+        app.MapGet("/api/mod_list/{name}/diff/{other}", (string name, string other, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(modService.DiffLists(name, other));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Copy mods, or their versions, from another list into this one
+        app.MapPost("/api/mod_list/{name}/cherry_pick", async (string name, ModService modService, HttpContext context) =>
+        {
+            var request = await context.Request.ReadFromJsonAsync<CherryPickRequest>();
+            if (request == null || string.IsNullOrWhiteSpace(request.SourceList) || request.ModIds.Count == 0)
+                return Results.BadRequest(new { error = "sourceList and modIds are required" });
+
+            try
+            {
+                var (success, message) = modService.CherryPickMods(name, request.SourceList, request.ModIds);
+                return success
+                    ? Results.Ok(new { message })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
         return app;
     }
 
@@ -237,13 +493,26 @@ public static class RouteExtensions
         // Add mod to list
         app.MapPost("/api/mod_list/{listName}/add_mod", async (string listName, ModService modService, HttpContext context) =>
         {
-            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string>>();
-            if (body == null || !body.TryGetValue("url", out var url) || string.IsNullOrWhiteSpace(url))
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, object>>();
+            var url = body != null && body.TryGetValue("url", out var urlObj) ? urlObj?.ToString() : null;
+            if (string.IsNullOrWhiteSpace(url))
                 return Results.BadRequest(new { error = "Missing or invalid URL" });
 
+            var includeDependencies = body!.TryGetValue("includeDependencies", out var includeObj) &&
+                bool.TryParse(includeObj?.ToString(), out var include) && include;
+
             try
             {
                 var existingList = modService.LoadList(listName);
+
+                if (includeDependencies)
+                {
+                    var (added, addMessage, addedMod, dependencies) = await modService.AddModWithDependenciesAsync(listName, url);
+                    if (!added)
+                        return Results.BadRequest(new { error = addMessage });
+
+                    return Results.Ok(new { message = addMessage, mod = addedMod, dependencies });
+                }
                 
                 var (success, message, mod) = await modService.AddModToListAsync(listName, url);
                 if (!success)
@@ -261,6 +530,31 @@ public static class RouteExtensions
             }
         });
 
+        // Resolve dependencies of a mod that are missing from the list
+        app.MapPost("/api/mod_list/{listName}/resolve_dependencies", async (string listName, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string>>();
+            if (body == null || !body.TryGetValue("url", out var url) || string.IsNullOrWhiteSpace(url))
+                return Results.BadRequest(new { error = "Missing or invalid URL" });
+
+            try
+            {
+                var resolution = await modService.ResolveModDependenciesAsync(listName, url);
+                if (resolution == null)
+                    return Results.BadRequest(new { error = "Mod not found or API error" });
+
+                return Results.Ok(resolution);
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = $"List '{listName}' not found" });
+            }
+            catch (Exception ex)
+            {
+                return Results.BadRequest(new { error = $"Error: {ex.Message}" });
+            }
+        });
+
         // Remove mod from list with optional file deletion
         app.MapDelete("/api/mod_list/{listName}/remove_mod/{id}", (string listName, int id, ModService modService, HttpContext context) =>
         {
@@ -295,6 +589,77 @@ public static class RouteExtensions
             }
         });
 
+        // Enable or disable an installed mod by moving its files out of the server directory and back
+        app.MapPost("/api/mod_list/{listName}/set_enabled/{modId}", async (string listName, int modId, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, bool>>();
+            if (body == null || !body.TryGetValue("enabled", out var enabled))
+                return Results.BadRequest(new { error = "Missing enabled flag" });
+
+            try
+            {
+                var (success, message, mod) = modService.SetModEnabled(listName, modId, enabled);
+                return success
+                    ? Results.Ok(new { message, mod })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Hold a mod at one of its Forge releases, or follow the latest again when version is null
+        app.MapPost("/api/mod_list/{listName}/pin_version/{modId}", async (string listName, int modId, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string?>>();
+            if (body == null)
+                return Results.BadRequest(new { error = "Missing request body" });
+
+            try
+            {
+                var (success, message, mod) = await modService.PinModVersionAsync(listName, modId, body.GetValueOrDefault("version"));
+                return success
+                    ? Results.Ok(new { message, mod })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Give a mod its own update policy, or a null policy to follow the list's
+        app.MapPost("/api/mod_list/{listName}/update_policy/{modId}", async (string listName, int modId, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string?>>();
+            if (body == null)
+                return Results.BadRequest(new { error = "Missing request body" });
+
+            var policy = body.GetValueOrDefault("policy");
+            if (policy != null && !UpdatePolicy.IsValid(policy))
+                return Results.BadRequest(new { error = "Update policy must be auto, notify, frozen or null" });
+
+            try
+            {
+                var (success, message, mod) = modService.SetModUpdatePolicy(listName, modId, policy);
+                return success
+                    ? Results.Ok(new { message, mod })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Every Forge release of a mod, newest first
+        app.MapGet("/api/mods/{modId}/versions", async (int modId, ModService modService) =>
+        {
+            var versions = await modService.FetchModVersionsAsync(modId.ToString());
+            return Results.Json(versions);
+        });
+
         // Check if mod is installed
         app.MapGet("/api/mod_list/{listName}/is_installed/{modId}", (string listName, int modId, ModService modService) =>
         {
@@ -315,14 +680,48 @@ public static class RouteExtensions
             }
         });
 
+        // Files written by the last install of a mod, with their current status
+        app.MapGet("/api/mod_list/{listName}/installed_files/{modId}", (string listName, int modId, ModService modService) =>
+        {
+            try
+            {
+                var list = modService.LoadList(listName);
+                if (!list.Mods.Any(m => m.Id == modId))
+                    return Results.NotFound(new { error = "Mod not found" });
+
+                var manifest = modService.VerifyInstallManifest(modId);
+                if (manifest == null)
+                    return Results.NotFound(new { error = "No install manifest recorded for this mod" });
+
+                return Results.Json(manifest);
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
         // Download and extract a mod
-        app.MapPost("/api/mod_list/{listName}/download_mod/{modId}", async (string listName, int modId, ModService modService) =>
+        app.MapPost("/api/mod_list/{listName}/download_mod/{modId}", async (string listName, int modId, string? operationId, bool? overwriteConflicts, ModService modService) =>
         {
+            var cancellationToken = string.IsNullOrEmpty(operationId)
+                ? CancellationToken.None
+                : modService.BeginDownloadOperation(operationId);
+
             try
             {
-                var result = await modService.DownloadAndExtractModAsync(listName, modId);
+                var result = await modService.DownloadAndExtractModAsync(listName, modId, false, overwriteConflicts ?? false, operationId, cancellationToken);
                 
-                if (result.requiresUserChoice)
+                if (result.Conflicts?.Count > 0)
+                {
+                    return Results.Ok(new { 
+                        success = false,
+                        message = result.Message,
+                        conflicts = result.Conflicts,
+                        ModName = result.ModName
+                    });
+                }
+                else if (result.requiresUserChoice)
                 {
                     return Results.Ok(new { 
                         success = false,
@@ -359,14 +758,23 @@ public static class RouteExtensions
                     error = $"Download error: {ex.Message}" 
                 });
             }
+            finally
+            {
+                if (!string.IsNullOrEmpty(operationId))
+                    modService.CompleteDownloadOperation(operationId);
+            }
         });
 
         // Download and extract all mods in list
-        app.MapPost("/api/mod_list/{listName}/download_all", async (string listName, ModService modService) =>
+        app.MapPost("/api/mod_list/{listName}/download_all", async (string listName, string? operationId, ModService modService) =>
         {
+            var cancellationToken = string.IsNullOrEmpty(operationId)
+                ? CancellationToken.None
+                : modService.BeginDownloadOperation(operationId);
+
             try
             {
-                var results = await modService.DownloadAllModsAsync(listName);
+                var results = await modService.DownloadAllModsAsync(listName, false, operationId, cancellationToken);
                 return Results.Json(results);
             }
             catch (FileNotFoundException)
@@ -377,41 +785,75 @@ public static class RouteExtensions
             {
                 return Results.BadRequest(new { error = $"Download error: {ex.Message}" });
             }
+            finally
+            {
+                if (!string.IsNullOrEmpty(operationId))
+                    modService.CompleteDownloadOperation(operationId);
+            }
         });
 
+        // Install a mod awaiting a structure choice; installTarget {kind, path} replaces the older installAsServerMod flag
         app.MapPost("/api/mod_list/{listName}/complete_installation", async (string listName, ModService modService, HttpContext context) =>
         {
-            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, object>>();
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, JsonElement>>();
             if (body == null || 
-                !body.TryGetValue("modName", out var modNameObj) || 
-                !body.TryGetValue("tempExtractPath", out var tempExtractPathObj) ||
-                !body.TryGetValue("installAsServerMod", out var installAsServerModObj))
+                !body.TryGetValue("modName", out var modNameElement) || 
+                !body.TryGetValue("tempExtractPath", out var tempExtractPathElement) ||
+                (!body.ContainsKey("installTarget") && !body.ContainsKey("installAsServerMod")))
             {
                 return Results.BadRequest(new { error = "Missing required parameters" });
             }
 
-            var modName = modNameObj?.ToString();
-            var tempExtractPath = tempExtractPathObj?.ToString();
-            var installAsServerMod = bool.Parse(installAsServerModObj?.ToString() ?? "false");
+            var modName = modNameElement.ValueKind == JsonValueKind.String ? modNameElement.GetString() : null;
+            var tempExtractPath = tempExtractPathElement.ValueKind == JsonValueKind.String ? tempExtractPathElement.GetString() : null;
+            int? modId = body.TryGetValue("modId", out var modIdElement) && modIdElement.ValueKind == JsonValueKind.Number
+                ? modIdElement.GetInt32()
+                : null;
 
             if (string.IsNullOrEmpty(modName) || string.IsNullOrEmpty(tempExtractPath))
             {
                 return Results.BadRequest(new { error = "Invalid parameters" });
             }
 
+            InstallTarget? target;
+            if (body.TryGetValue("installTarget", out var targetElement))
+            {
+                target = targetElement.ValueKind == JsonValueKind.Object
+                    ? targetElement.Deserialize<InstallTarget>(new JsonSerializerOptions(JsonSerializerDefaults.Web))
+                    : null;
+            }
+            else
+            {
+                var installAsServerMod = body["installAsServerMod"].ValueKind == JsonValueKind.True;
+                target = new InstallTarget { Kind = installAsServerMod ? InstallTargetKind.Server : InstallTargetKind.Client };
+            }
+
+            if (target == null)
+                return Results.BadRequest(new { error = "Invalid parameters" });
+            if (modService.ValidateInstallTarget(target) is string targetError)
+                return Results.BadRequest(new { error = targetError });
+
             try
             {
-                var success = modService.CompleteModInstallation(modName, tempExtractPath, installAsServerMod);
-                
-                if (success)
+                var overwriteConflicts = body.TryGetValue("overwriteConflicts", out var overwriteElement) && overwriteElement.ValueKind == JsonValueKind.True;
+                var result = modService.CompleteModInstallation(modName, tempExtractPath, target, modId, listName, overwriteConflicts);
+
+                if (result.Conflicts?.Count > 0)
+                {
+                    return Results.Ok(new {
+                        message = result.Message,
+                        conflicts = result.Conflicts
+                    });
+                }
+                else if (result.Success)
                 {
                     return Results.Ok(new { 
-                        message = $"Mod '{modName}' installed successfully as {(installAsServerMod ? "server" : "client")} mod" 
+                        message = $"Mod '{modName}' installed successfully to {(target.Kind == InstallTargetKind.Custom ? target.Path : $"{target.Kind} mods")}" 
                     });
                 }
                 else
                 {
-                    return Results.BadRequest(new { error = "Failed to complete installation" });
+                    return Results.BadRequest(new { error = result.Message });
                 }
             }
             catch (Exception ex)
@@ -420,6 +862,53 @@ public static class RouteExtensions
             }
         });
 
+        // Remember where a mod's non-standard archive goes, or a null kind to be asked again
+        app.MapPost("/api/mod_list/{listName}/install_target/{modId}", async (string listName, int modId, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string?>>();
+            if (body == null)
+                return Results.BadRequest(new { error = "Missing request body" });
+
+            var kind = body.GetValueOrDefault("kind");
+            var target = kind != null
+                ? new InstallTarget { Kind = kind, Path = body.GetValueOrDefault("path") }
+                : null;
+
+            try
+            {
+                var (success, message, mod) = modService.SetModInstallTarget(listName, modId, target);
+                return success
+                    ? Results.Ok(new { message, mod })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // File tree of an archive waiting for its install location, for mapping its folders
+        app.MapGet("/api/pending_installation/tree", (string path, ModService modService) =>
+        {
+            var tree = modService.GetPendingArchiveTree(path);
+            return tree != null
+                ? Results.Json(tree)
+                : Results.NotFound(new { error = "No pending installation at this path" });
+        });
+
+        // Files written by more than one installed mod of the list
+        app.MapGet("/api/mod_list/{listName}/conflicts", (string listName, ModService modService) =>
+        {
+            try
+            {
+                return Results.Json(modService.GetListFileConflicts(listName));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
         // Check updates for all mods in list
         app.MapGet("/api/mod_list/{name}/check_updates", async (string name, ModService modService) =>
         {
@@ -434,6 +923,12 @@ public static class RouteExtensions
             }
         });
 
+        // What the nightly and manual update runs applied or found, newest first
+        app.MapGet("/api/update_runs", (ModService modService) =>
+        {
+            return Results.Json(modService.GetUpdateRuns());
+        });
+
         // Check update for specific mod
         app.MapGet("/api/mod_list/{listName}/check_update/{modId}", async (string listName, int modId, ModService modService) =>
         {
@@ -452,28 +947,37 @@ public static class RouteExtensions
         });
 
         // Force update and download a mod
-        app.MapPost("/api/mod_list/{listName}/force_update/{modId}", async (string listName, int modId, ModService modService) =>
+        app.MapPost("/api/mod_list/{listName}/force_update/{modId}", async (string listName, int modId, bool? overwriteConflicts, ModService modService) =>
         {
             try
             {
-                // 1. Update mod data
-                var updatedMod = await modService.CheckSingleModUpdateAsync(listName, modId);
-                
+                var (updatedMod, result) = await modService.ForceUpdateModAsync(listName, modId, overwriteConflicts ?? false);
                 if (updatedMod == null)
+                    return Results.NotFound(new { message = "Mod not found" });
+
+                if (result.Conflicts?.Count > 0)
                 {
-                    // If update fails, use current data
-                    var list = modService.LoadList(listName);
-                    updatedMod = list.Mods.FirstOrDefault(m => m.Id == modId);
-                    if (updatedMod == null)
-                        return Results.NotFound(new { message = "Mod not found" });
+                    return Results.Ok(new {
+                        message = result.Message,
+                        mod = updatedMod,
+                        conflicts = result.Conflicts
+                    });
                 }
 
-                // 2. FORCE download
-                var result = await modService.DownloadAndExtractModAsync(listName, modId, true);
                 if (!result.Success)
                     return Results.BadRequest(new { error = result.Message });
 
-                return Results.Ok(new { 
+                if (result.requiresUserChoice)
+                {
+                    return Results.Ok(new {
+                        message = result.Message,
+                        mod = updatedMod,
+                        requiresUserChoice = true,
+                        tempExtractPath = result.TempExtractPath
+                    });
+                }
+
+                return Results.Ok(new {
                     message = $"Mod '{updatedMod.Name}' updated and downloaded successfully!",
                     mod = updatedMod
                 });
@@ -611,6 +1115,220 @@ public static class RouteExtensions
             }
         });
 
+        app.MapPost("/api/server/start", async (ModService modService) =>
+        {
+            var (success, message) = await modService.StartServerAsync();
+            return success
+                ? Results.Ok(new { message })
+                : Results.BadRequest(new { error = message });
+        });
+
+        app.MapPost("/api/server/stop", async (ModService modService) =>
+        {
+            var (success, message) = await modService.StopServerAsync();
+            return success
+                ? Results.Ok(new { message })
+                : Results.BadRequest(new { error = message });
+        });
+
+        app.MapPost("/api/server/restart", async (ModService modService) =>
+        {
+            var (success, message) = await modService.RestartServerAsync();
+            return success
+                ? Results.Ok(new { message })
+                : Results.BadRequest(new { error = message });
+        });
+
+        // Stream the server's stdout/stderr as server-sent events
+        app.MapGet("/api/server/console/events", async (ModService modService, HttpContext context) =>
+        {
+            context.Response.Headers.ContentType = "text/event-stream";
+            context.Response.Headers.CacheControl = "no-cache";
+            context.Response.Headers["X-Accel-Buffering"] = "no";
+
+            await modService.StreamServerConsoleAsync(context.Response, context.RequestAborted);
+        });
+
         return app;
     }
-}
\ No newline at end of file
+
+    // ========== DOWNLOAD PROGRESS ==========
+    public static IEndpointRouteBuilder MapDownloadProgressRoutes(this IEndpointRouteBuilder app)
+    {
+        // Stream per-mod download progress as server-sent events
+        app.MapGet("/api/downloads/{operationId}/events", async (string operationId, ModService modService, HttpContext context) =>
+        {
+            context.Response.Headers.ContentType = "text/event-stream";
+            context.Response.Headers.CacheControl = "no-cache";
+            context.Response.Headers["X-Accel-Buffering"] = "no";
+
+            await modService.StreamDownloadProgressAsync(operationId, context.Response, context.RequestAborted);
+        });
+
+        // Cancel a running download operation
+        app.MapPost("/api/downloads/{operationId}/cancel", (string operationId, ModService modService) =>
+        {
+            if (!modService.CancelDownloadOperation(operationId))
+                return Results.NotFound(new { error = "Download operation not found or already finished" });
+
+            return Results.Ok(new { message = "Cancellation requested" });
+        });
+
+        return app;
+    }
+
+    // ========== SNAPSHOTS ==========
+    public static IEndpointRouteBuilder MapSnapshotRoutes(this IEndpointRouteBuilder app)
+    {
+        // List snapshots taken before updates, newest first
+        app.MapGet("/api/snapshots", (ModService modService) =>
+        {
+            return Results.Json(modService.GetSnapshots());
+        });
+
+        // Roll back to a snapshot and restart the server
+        app.MapPost("/api/snapshots/{snapshotId}/restore", async (string snapshotId, ModService modService) =>
+        {
+            var (success, message) = await modService.RestoreSnapshotAsync(snapshotId);
+            return success
+                ? Results.Ok(new { message })
+                : Results.BadRequest(new { error = message });
+        });
+
+        app.MapDelete("/api/snapshots/{snapshotId}", (string snapshotId, ModService modService) =>
+        {
+            return modService.DeleteSnapshot(snapshotId)
+                ? Results.Ok(new { message = "Snapshot deleted" })
+                : Results.NotFound(new { error = "Snapshot not found" });
+        });
+
+        return app;
+    }
+
+    // ========== BACKGROUND JOBS ==========
+    public static IEndpointRouteBuilder MapJobRoutes(this IEndpointRouteBuilder app)
+    {
+        // Job history, newest first
+        app.MapGet("/api/jobs", (ModService modService) =>
+        {
+            return Results.Json(modService.GetJobs());
+        });
+
+        app.MapGet("/api/jobs/{jobId}", (string jobId, ModService modService) =>
+        {
+            var job = modService.GetJob(jobId);
+            return job != null
+                ? Results.Json(job)
+                : Results.NotFound(new { error = "Job not found" });
+        });
+
+        // Queue a download, force update, batch update, update run, SPT update or Fika update
+        app.MapPost("/api/jobs", async (ModService modService, HttpContext context) =>
+        {
+            try
+            {
+                var request = await context.Request.ReadFromJsonAsync<JobRequest>();
+                if (request == null)
+                    return Results.BadRequest(new { error = "Job request missing" });
+
+                var (job, error) = modService.EnqueueJob(request);
+                return job != null
+                    ? Results.Accepted($"/api/jobs/{job.Id}", job)
+                    : Results.BadRequest(new { error });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        app.MapPost("/api/jobs/{jobId}/cancel", (string jobId, ModService modService) =>
+        {
+            return modService.CancelJob(jobId)
+                ? Results.Ok(new { message = "Cancellation requested" })
+                : Results.NotFound(new { error = "Job not found or already finished" });
+        });
+
+        return app;
+    }
+
+    // ========== SERVER LOGS ==========
+    public static IEndpointRouteBuilder MapLogRoutes(this IEndpointRouteBuilder app)
+    {
+        // SPT and BepInEx log files, newest first
+        app.MapGet("/api/logs", (ModService modService) =>
+        {
+            return Results.Json(modService.GetLogFiles());
+        });
+
+        // A page of a log file (the tail when no offset is given), with errors attributed to the list's mods
+        app.MapGet("/api/logs/content", (string? path, int? offset, int? limit, string? list, ModService modService) =>
+        {
+            if (string.IsNullOrWhiteSpace(path))
+                return Results.BadRequest(new { error = "Missing log path" });
+
+            try
+            {
+                return Results.Json(modService.ReadLogPage(path, offset, limit ?? 500, list));
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "Log file not found" });
+            }
+        });
+
+        return app;
+    }
+
+    public static IEndpointRouteBuilder MapBisectRoutes(this IEndpointRouteBuilder app)
+    {
+        // The list's crash bisect, with the outcome detected from the server console when it is clear
+        app.MapGet("/api/mod_list/{listName}/bisect", (string listName, ModService modService) =>
+        {
+            var session = modService.GetBisectSession(listName);
+            return session != null
+                ? Results.Json(session)
+                : Results.NotFound(new { error = "No bisect found for this list" });
+        });
+
+        // Start bisecting the list's server mods; the first round restarts the server with half of them
+        app.MapPost("/api/mod_list/{listName}/bisect", async (string listName, ModService modService) =>
+        {
+            try
+            {
+                var (success, message, session) = await modService.StartBisectAsync(listName);
+                return success
+                    ? Results.Ok(new { message, session })
+                    : Results.BadRequest(new { error = message });
+            }
+            catch (FileNotFoundException)
+            {
+                return Results.NotFound(new { error = "List not found" });
+            }
+        });
+
+        // Report whether the server booted with the current round's mods
+        app.MapPost("/api/mod_list/{listName}/bisect/outcome", async (string listName, ModService modService, HttpContext context) =>
+        {
+            var body = await context.Request.ReadFromJsonAsync<Dictionary<string, string>>();
+            if (body == null || !body.TryGetValue("outcome", out var outcome))
+                return Results.BadRequest(new { error = "Missing outcome" });
+
+            var (success, message, session) = await modService.SubmitBisectOutcomeAsync(listName, outcome);
+            return success
+                ? Results.Ok(new { message, session })
+                : Results.BadRequest(new { error = message });
+        });
+
+        // Cancel a running bisect, restoring the original mods, or dismiss a finished one
+        app.MapDelete("/api/mod_list/{listName}/bisect", async (string listName, ModService modService) =>
+        {
+            var (success, message) = await modService.EndBisectAsync(listName);
+            return success
+                ? Results.Ok(new { message })
+                : Results.BadRequest(new { error = message });
+        });
+
+        return app;
+    }
+}
@@ -0,0 +1,309 @@
+using ForgeModApi.Models;
+using System.Text.Json;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Crash Bisect
+
+    // Printed by the SPT server once it has loaded every mod and is accepting connections
+    private const string SptReadyMarker = "Server is running";
+
+    private readonly SemaphoreSlim _bisectLock = new(1, 1);
+
+    private static string GetBisectSessionPath() => Path.Combine(AppContext.BaseDirectory, "user", "bisect.json");
+
+    /// <summary>
+    /// Returns the running or finished bisect of the list, or null when there is none.
+    /// </summary>
+    public BisectSession? GetBisectSession(string listName)
+    {
+        var session = LoadBisectSession();
+        if (session == null || !string.Equals(session.ListName, listName, StringComparison.OrdinalIgnoreCase))
+            return null;
+
+        if (session.Status == BisectStatus.Testing)
+            session.DetectedOutcome = DetectBisectOutcome(session.ConsoleMark);
+
+        return session;
+    }
+
+    /// <summary>
+    /// Starts a bisect over the list's installed, enabled server mods: the first round enables half of them,
+    /// disables the rest and restarts the server. Only one bisect can run at a time since the server is shared.
+    /// </summary>
+    public async Task<(bool Success, string Message, BisectSession? Session)> StartBisectAsync(string listName)
+    {
+        await _bisectLock.WaitAsync();
+        try
+        {
+            var existing = LoadBisectSession();
+            if (existing?.Status == BisectStatus.Testing)
+                return (false, $"A bisect of list '{existing.ListName}' is already running", null);
+
+            if (GetJobs().Any(job => !JobStatus.IsFinished(job.Status)))
+                return (false, "Wait for the running jobs to finish before starting a bisect", null);
+
+            var list = LoadList(listName);
+            var suspects = list.Mods
+                .Where(mod => mod.Enabled && GetServerModFolder(mod.Id) != null)
+                .Select(mod => mod.Id)
+                .ToList();
+
+            if (suspects.Count < 2)
+                return (false, "A bisect needs at least two installed, enabled server mods", null);
+
+            var session = new BisectSession
+            {
+                ListName = list.Name,
+                OriginalEnabledModIds = suspects,
+                ServerWasRunning = IsSptServerRunning(),
+                Suspects = suspects
+            };
+
+            _logger.LogInformation("Starting bisect of list '{ListName}' over {Count} mods", list.Name, suspects.Count);
+            var (success, message) = await RunBisectRoundAsync(session);
+            if (!success)
+                return (false, message, null);
+
+            return (true, $"Round 1 started with {session.TestingModIds.Count} of {suspects.Count} mods", session);
+        }
+        catch (Exception ex) when (ex is not FileNotFoundException)
+        {
+            _logger.LogError(ex, "Failed to start bisect of list '{ListName}'", listName);
+            return (false, $"Failed to start bisect: {ex.Message}", null);
+        }
+        finally
+        {
+            _bisectLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Records whether the server booted with the current round's mods and narrows the suspects to the half
+    /// that must contain the culprit. When one suspect is left the original state is restored.
+    /// </summary>
+    public async Task<(bool Success, string Message, BisectSession? Session)> SubmitBisectOutcomeAsync(string listName, string outcome)
+    {
+        if (outcome != BisectOutcome.Booted && outcome != BisectOutcome.Crashed)
+            return (false, $"Unknown outcome '{outcome}'", null);
+
+        await _bisectLock.WaitAsync();
+        try
+        {
+            var session = LoadBisectSession();
+            if (session == null || session.Status != BisectStatus.Testing ||
+                !string.Equals(session.ListName, listName, StringComparison.OrdinalIgnoreCase))
+                return (false, "No bisect is running for this list", null);
+
+            session.Steps.Add(new BisectStep
+            {
+                Round = session.Round,
+                EnabledModIds = session.TestingModIds.ToList(),
+                Outcome = outcome
+            });
+
+            // A crash puts the culprit among the enabled half, a clean boot among the disabled one
+            session.Suspects = outcome == BisectOutcome.Crashed
+                ? session.TestingModIds.ToList()
+                : session.Suspects.Except(session.TestingModIds).ToList();
+
+            if (session.Suspects.Count > 1)
+            {
+                var (success, message) = await RunBisectRoundAsync(session);
+                return success
+                    ? (true, $"Round {session.Round} started with {session.TestingModIds.Count} of {session.Suspects.Count} suspects", session)
+                    : (false, message, null);
+            }
+
+            var list = LoadList(session.ListName);
+            session.Status = BisectStatus.Found;
+            session.CulpritModId = session.Suspects.FirstOrDefault();
+            session.CulpritModName = list.Mods.FirstOrDefault(m => m.Id == session.CulpritModId)?.Name;
+            session.TestingModIds.Clear();
+            session.DetectedOutcome = null;
+
+            await RestoreBisectStateAsync(session);
+            SaveBisectSession(session);
+
+            _logger.LogInformation("Bisect of list '{ListName}' found '{ModName}'", session.ListName, session.CulpritModName);
+            return (true, $"The culprit is '{session.CulpritModName}'", session);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to advance bisect of list '{ListName}'", listName);
+            return (false, $"Failed to advance bisect: {ex.Message}", null);
+        }
+        finally
+        {
+            _bisectLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Ends the list's bisect. A running one has its original mod and server state restored first;
+    /// a finished one is just dismissed.
+    /// </summary>
+    public async Task<(bool Success, string Message)> EndBisectAsync(string listName)
+    {
+        await _bisectLock.WaitAsync();
+        try
+        {
+            var session = LoadBisectSession();
+            if (session == null || !string.Equals(session.ListName, listName, StringComparison.OrdinalIgnoreCase))
+                return (false, "No bisect found for this list");
+
+            if (session.Status == BisectStatus.Testing)
+                await RestoreBisectStateAsync(session);
+
+            File.Delete(GetBisectSessionPath());
+            return (true, session.Status == BisectStatus.Testing ? "Bisect cancelled, mods restored" : "Bisect dismissed");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to end bisect of list '{ListName}'", listName);
+            return (false, $"Failed to end bisect: {ex.Message}");
+        }
+        finally
+        {
+            _bisectLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Puts back the mods of a bisect that was still testing when the API stopped, since nothing is left
+    /// to read the outcome of its round. Called at startup, before the server is started.
+    /// </summary>
+    public void RestoreInterruptedBisect()
+    {
+        try
+        {
+            var session = LoadBisectSession();
+            if (session?.Status != BisectStatus.Testing)
+                return;
+
+            var failure = ApplyBisectEnabledState(session.ListName, session.OriginalEnabledModIds, session.OriginalEnabledModIds);
+            if (failure != null)
+                _logger.LogWarning("Bisect restore of list '{ListName}' incomplete: {Message}", session.ListName, failure);
+
+            File.Delete(GetBisectSessionPath());
+            _logger.LogInformation("Bisect of list '{ListName}' was interrupted in round {Round}, mods restored", session.ListName, session.Round);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to restore an interrupted bisect");
+        }
+    }
+
+    // Enables the first half of the suspects and disables every other mod the bisect covers, then restarts the server.
+    // The session is only saved once the round is running; on failure the mods go back to how the last round left them.
+    private async Task<(bool Success, string Message)> RunBisectRoundAsync(BisectSession session)
+    {
+        var enabledBefore = session.Round == 0 ? session.OriginalEnabledModIds : session.TestingModIds.ToList();
+
+        session.Round++;
+        session.TestingModIds = session.Suspects.Take((session.Suspects.Count + 1) / 2).ToList();
+
+        var failure = ApplyBisectEnabledState(session.ListName, session.OriginalEnabledModIds, session.TestingModIds);
+        if (failure == null)
+        {
+            lock (_serverConsoleSubscribers)
+            {
+                session.ConsoleMark = _serverConsoleSequence;
+            }
+
+            var (restarted, message) = await RestartServerAsync();
+            if (restarted)
+            {
+                session.DetectedOutcome = null;
+                SaveBisectSession(session);
+                return (true, message);
+            }
+
+            failure = $"Could not restart the server: {message}";
+        }
+
+        _logger.LogWarning("Bisect round {Round} of list '{ListName}' not started: {Message}", session.Round, session.ListName, failure);
+        ApplyBisectEnabledState(session.ListName, session.OriginalEnabledModIds, enabledBefore);
+        return (false, failure);
+    }
+
+    private async Task RestoreBisectStateAsync(BisectSession session)
+    {
+        var failure = ApplyBisectEnabledState(session.ListName, session.OriginalEnabledModIds, session.OriginalEnabledModIds);
+        if (failure != null)
+            _logger.LogWarning("Bisect restore of list '{ListName}' incomplete: {Message}", session.ListName, failure);
+
+        if (session.ServerWasRunning)
+            await RestartServerAsync();
+        else if (IsSptServerRunning())
+            await StopServerAsync();
+    }
+
+    // Disables before enabling so a file shared by two suspects is never parked while the enabled one needs it.
+    // Mods removed from the list since the bisect started are skipped.
+    private string? ApplyBisectEnabledState(string listName, List<int> modIds, List<int> enabledIds)
+    {
+        var enabled = enabledIds.ToHashSet();
+        var listModIds = LoadList(listName).Mods.Select(m => m.Id).ToHashSet();
+
+        foreach (var modId in modIds.Where(listModIds.Contains).OrderBy(id => enabled.Contains(id)))
+        {
+            var (success, message, _) = SetModEnabled(listName, modId, enabled.Contains(modId));
+            if (!success)
+                return message;
+        }
+
+        return null;
+    }
+
+    // Looks at the console output of the process the round started: the ready banner means it booted,
+    // the process exiting means it crashed. Output before the start line belongs to the stopped server.
+    private string? DetectBisectOutcome(long consoleMark)
+    {
+        lock (_serverConsoleSubscribers)
+        {
+            var started = false;
+            foreach (var line in _serverConsole.Where(line => line.Id > consoleMark))
+            {
+                var isSystem = line.Stream == ServerConsoleStream.System;
+                if (isSystem && line.Text == ServerStartingMessage)
+                    started = true;
+                else if (!started)
+                    continue;
+                else if (!isSystem && line.Text.Contains(SptReadyMarker, StringComparison.OrdinalIgnoreCase))
+                    return BisectOutcome.Booted;
+                else if (isSystem && line.Text.StartsWith(ServerExitedMessage, StringComparison.Ordinal))
+                    return BisectOutcome.Crashed;
+            }
+        }
+
+        return null;
+    }
+
+    private BisectSession? LoadBisectSession()
+    {
+        var path = GetBisectSessionPath();
+        if (!File.Exists(path))
+            return null;
+
+        try
+        {
+            return JsonSerializer.Deserialize<BisectSession>(File.ReadAllText(path));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable bisect session");
+            return null;
+        }
+    }
+
+    private static void SaveBisectSession(BisectSession session)
+    {
+        var json = JsonSerializer.Serialize(session, new JsonSerializerOptions { WriteIndented = true });
+        File.WriteAllText(GetBisectSessionPath(), json);
+    }
+
+    #endregion
+}
@@ -0,0 +1,218 @@
+using ForgeModApi.Models;
+using System.Collections.Concurrent;
+using System.Text.Json;
+using System.Threading.Channels;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Download Progress Tracking
+
+    private sealed class DownloadOperation
+    {
+        public string Id { get; init; } = "";
+        public CancellationTokenSource Cancellation { get; } = new();
+        public ConcurrentDictionary<int, DownloadProgress> Mods { get; } = new();
+        public List<Channel<DownloadProgress>> Subscribers { get; } = new();
+        public bool Completed { get; set; }
+    }
+
+    private readonly ConcurrentDictionary<string, DownloadOperation> _downloadOperations = new();
+    private static readonly JsonSerializerOptions _sseJsonOptions = new(JsonSerializerDefaults.Web);
+    private readonly TimeSpan _completedOperationRetention = TimeSpan.FromMinutes(2);
+
+    // How long a stream waits for an unknown operation, covering a download request still on its way
+    private readonly TimeSpan _unknownOperationGrace = TimeSpan.FromSeconds(5);
+
+    private DownloadOperation GetOrCreateDownloadOperation(string operationId) =>
+        _downloadOperations.GetOrAdd(operationId, id => new DownloadOperation { Id = id });
+
+    public CancellationToken BeginDownloadOperation(string operationId)
+    {
+        var operation = GetOrCreateDownloadOperation(operationId);
+        _logger.LogInformation("Download operation {OperationId} started", operationId);
+        return operation.Cancellation.Token;
+    }
+
+    public bool CancelDownloadOperation(string operationId)
+    {
+        // Cancelling the download of a job cancels the job as a whole
+        if (_jobCancellations.TryGetValue(operationId, out var jobCancellation))
+            jobCancellation.Cancel();
+
+        if (!_downloadOperations.TryGetValue(operationId, out var operation) || operation.Completed)
+            return false;
+
+        operation.Cancellation.Cancel();
+        _logger.LogInformation("Download operation {OperationId} cancellation requested", operationId);
+        return true;
+    }
+
+    public void CompleteDownloadOperation(string operationId)
+    {
+        if (!_downloadOperations.TryGetValue(operationId, out var operation))
+            return;
+
+        lock (operation.Subscribers)
+        {
+            operation.Completed = true;
+            foreach (var subscriber in operation.Subscribers)
+            {
+                subscriber.Writer.TryComplete();
+            }
+            operation.Subscribers.Clear();
+        }
+
+        _ = Task.Delay(_completedOperationRetention).ContinueWith(_ =>
+        {
+            if (_downloadOperations.TryRemove(operationId, out var removed))
+            {
+                removed.Cancellation.Dispose();
+            }
+        });
+    }
+
+    private void ReportDownloadProgress(string? operationId, Mod mod, string phase, Action<DownloadProgress>? configure = null)
+    {
+        if (string.IsNullOrEmpty(operationId))
+            return;
+
+        // Only begun operations are tracked, so nothing is left behind once they have expired
+        if (!_downloadOperations.TryGetValue(operationId, out var operation))
+            return;
+
+        var progress = operation.Mods.AddOrUpdate(
+            mod.Id,
+            _ => new DownloadProgress { OperationId = operationId, ModId = mod.Id, ModName = mod.Name },
+            (_, existing) => existing);
+
+        // Download jobs use their job ID as operation ID; phase changes go to the job log
+        if (progress.Phase != phase && _jobs.TryGetValue(operationId, out var job))
+            AppendJobLog(job, $"{mod.Name}: {phase.Replace('_', ' ')}");
+
+        lock (operation.Subscribers)
+        {
+            progress.Phase = phase;
+            progress.Timestamp = DateTime.UtcNow;
+            configure?.Invoke(progress);
+
+            var snapshot = CloneProgress(progress);
+            foreach (var subscriber in operation.Subscribers)
+            {
+                subscriber.Writer.TryWrite(snapshot);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Waits for an operation to be begun: as long as the job of that ID is queued, otherwise for a short grace period.
+    /// Returns null for an ID that is unknown, finished and expired, or never begun.
+    /// </summary>
+    private async Task<DownloadOperation?> FindDownloadOperationAsync(string operationId, CancellationToken cancellationToken)
+    {
+        var giveUpAt = DateTime.UtcNow + _unknownOperationGrace;
+        while (true)
+        {
+            if (_downloadOperations.TryGetValue(operationId, out var operation))
+                return operation;
+
+            var jobPending = _jobs.TryGetValue(operationId, out var job) && !JobStatus.IsFinished(job.Status);
+            if (!jobPending && DateTime.UtcNow >= giveUpAt)
+                return null;
+
+            await Task.Delay(250, cancellationToken);
+        }
+    }
+
+    public async Task StreamDownloadProgressAsync(string operationId, HttpResponse response, CancellationToken cancellationToken)
+    {
+        DownloadOperation? operation;
+        try
+        {
+            operation = await FindDownloadOperationAsync(operationId, cancellationToken);
+            if (operation == null)
+            {
+                // Completing right away keeps EventSource clients from reconnecting forever
+                _logger.LogDebug("Progress stream for unknown operation {OperationId}", operationId);
+                await WriteSseEventAsync(response, "complete", new { operationId, cancelled = false }, cancellationToken);
+                return;
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            return;
+        }
+
+        var channel = Channel.CreateUnbounded<DownloadProgress>();
+        List<DownloadProgress> backlog;
+        bool completed;
+
+        lock (operation.Subscribers)
+        {
+            backlog = operation.Mods.Values.Select(CloneProgress).OrderBy(p => p.Index).ToList();
+            completed = operation.Completed;
+            if (!completed)
+            {
+                operation.Subscribers.Add(channel);
+            }
+        }
+
+        try
+        {
+            foreach (var progress in backlog)
+            {
+                await WriteSseEventAsync(response, "progress", progress, cancellationToken);
+            }
+
+            if (!completed)
+            {
+                await foreach (var progress in channel.Reader.ReadAllAsync(cancellationToken))
+                {
+                    await WriteSseEventAsync(response, "progress", progress, cancellationToken);
+                }
+            }
+
+            await WriteSseEventAsync(response, "complete", new
+            {
+                operationId,
+                cancelled = operation.Cancellation.IsCancellationRequested
+            }, cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogDebug("Progress stream for {OperationId} closed by client", operationId);
+        }
+        finally
+        {
+            lock (operation.Subscribers)
+            {
+                operation.Subscribers.Remove(channel);
+            }
+        }
+    }
+
+    private static async Task WriteSseEventAsync(HttpResponse response, string eventName, object payload, CancellationToken cancellationToken)
+    {
+        var json = JsonSerializer.Serialize(payload, _sseJsonOptions);
+        await response.WriteAsync($"event: {eventName}\ndata: {json}\n\n", cancellationToken);
+        await response.Body.FlushAsync(cancellationToken);
+    }
+
+    private static DownloadProgress CloneProgress(DownloadProgress progress) => new()
+    {
+        OperationId = progress.OperationId,
+        ModId = progress.ModId,
+        ModName = progress.ModName,
+        Phase = progress.Phase,
+        BytesReceived = progress.BytesReceived,
+        TotalBytes = progress.TotalBytes,
+        Target = progress.Target,
+        Message = progress.Message,
+        Index = progress.Index,
+        Total = progress.Total,
+        Timestamp = progress.Timestamp
+    };
+
+    #endregion
+}
@@ -90,6 +90,11 @@ public partial class ModService
                 
                 Directory.CreateDirectory(extractDir);
                 ZipFile.ExtractToDirectory(tempFile, extractDir, true);
+
+                var currentVersion = GetCurrentFikaVersion();
+                CreateSnapshot(SnapshotKind.Fika, $"Fika {currentVersion}", currentVersion,
+                    GetArchiveTargetPaths(extractDir, _sptServerDir));
+
                 CopyDirectory(extractDir, _sptServerDir, true);
 
                 SaveFikaVersion(version);
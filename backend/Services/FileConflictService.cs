@@ -0,0 +1,83 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region File Conflict Detection
+
+    /// <summary>
+    /// Returns the files among <paramref name="relativePaths"/> that another installed mod already wrote.
+    /// </summary>
+    private List<FileConflict> FindFileConflicts(int modId, IEnumerable<string> relativePaths)
+    {
+        var owners = new Dictionary<string, InstallManifest>(StringComparer.Ordinal);
+        foreach (var manifest in LoadAllInstallManifests().Where(m => m.ModId != modId))
+        {
+            foreach (var file in manifest.Files)
+                owners.TryAdd(file.Path, manifest);
+        }
+
+        var conflicts = new List<FileConflict>();
+        foreach (var path in relativePaths)
+        {
+            if (!owners.TryGetValue(path, out var owner))
+                continue;
+
+            var fullPath = GetInstalledPath(path);
+            if (fullPath == null || !File.Exists(fullPath))
+                continue;
+
+            conflicts.Add(new FileConflict
+            {
+                Path = path,
+                OwnerModId = owner.ModId,
+                OwnerModName = owner.ModName
+            });
+        }
+
+        return conflicts;
+    }
+
+    private List<FileConflict> FindFileConflicts(int modId, string sourceDir, string targetDir) =>
+        FindFileConflicts(modId, GetArchiveTargetPaths(sourceDir, targetDir));
+
+    /// <summary>
+    /// Lists every file written by more than one installed mod of a list. The owner whose recorded
+    /// hash matches the file on disk is flagged as current, i.e. the mod that was installed last.
+    /// </summary>
+    public List<ListFileConflict> GetListFileConflicts(string listName)
+    {
+        var list = LoadList(listName);
+        // Disabled mods have no files on disk to conflict with
+        var modIds = list.Mods.Where(m => m.Enabled).Select(m => m.Id).ToHashSet();
+        var manifests = LoadAllInstallManifests().Where(m => modIds.Contains(m.ModId)).ToList();
+
+        var conflicts = new List<ListFileConflict>();
+        var filesByPath = manifests
+            .SelectMany(manifest => manifest.Files.Select(file => (Manifest: manifest, File: file)))
+            .GroupBy(entry => entry.File.Path, StringComparer.Ordinal)
+            .Where(group => group.Count() > 1);
+
+        foreach (var group in filesByPath)
+        {
+            var fullPath = GetInstalledPath(group.Key);
+            var currentHash = fullPath != null && File.Exists(fullPath) ? ComputeSha256(fullPath) : null;
+
+            conflicts.Add(new ListFileConflict
+            {
+                Path = group.Key,
+                Owners = group.Select(entry => new FileConflictOwner
+                {
+                    ModId = entry.Manifest.ModId,
+                    ModName = entry.Manifest.ModName,
+                    IsCurrent = entry.File.Sha256 == currentHash
+                }).ToList()
+            });
+        }
+
+        return conflicts.OrderBy(c => c.Path, StringComparer.Ordinal).ToList();
+    }
+
+    #endregion
+}
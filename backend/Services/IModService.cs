@@ -9,11 +9,21 @@ public interface IModService
     ModList LoadList(string name);
     void CreateNewList(string name);
     bool RenameList(string oldName, string newName);
+    ModList DuplicateList(string sourceName, string newName, bool installedOnly);
+    ModListExport ExportList(string listName);
+    ImportValidation ValidateListImport(System.Text.Json.Nodes.JsonNode? document);
+    Task<ListImportResult> ImportListAsync(System.Text.Json.Nodes.JsonNode? document);
+    ActiveListState GetActiveList();
+    ActivationPlan BuildActivationPlan(string listName);
+    Task<ActivationResult> ActivateListAsync(string listName, bool overwriteConflicts, string planHash, string? operationId = null, CancellationToken cancellationToken = default);
     bool DeleteList(string name);
     
     // Mod management in lists
     Task<(bool Success, string Message, Mod? Mod)> AddModToListAsync(string listName, string modUrl);
+    Task<DependencyResolution?> ResolveModDependenciesAsync(string listName, string modUrl);
+    Task<(bool Success, string Message, Mod? Mod, List<Mod> Dependencies)> AddModWithDependenciesAsync(string listName, string modUrl);
     bool RemoveModFromList(string listName, int modId);
+    Task<(bool Success, string Message, Mod? Mod)> PinModVersionAsync(string listName, int modId, string? version);
     
     // SPT and Fika versions
     Task<List<SptVersion>> GetSptVersionsAsync();
@@ -21,18 +31,66 @@ public interface IModService
     bool UpdateSelectedSptVersion(string listName, string sptVersion);
     string GetCurrentSptVersion();
     string GetCurrentFikaVersion();
+    Task<SptSwitchPlan> BuildSptSwitchPlanAsync(string listName, string targetSptVersion);
+    Task<(bool Success, string Message, SptSwitchPlan Plan, List<string> ReinstallRequired)> ApplySptSwitchPlanAsync(string listName, string targetSptVersion, string planHash);
+    
+    // Server mod load order
+    LoadOrder GetLoadOrder(string listName);
+    LoadOrder UpdateLoadOrder(string listName, List<int> modIds);
+    ListDiff DiffLists(string leftName, string rightName);
+    (bool Success, string Message) CherryPickMods(string targetName, string sourceName, List<int> modIds);
     
     // Download and installation
-    Task<DownloadResult> DownloadAndExtractModAsync(string listName, int modId, bool forceDownload = false);
-    Task<List<DownloadResult>> DownloadAllModsAsync(string listName, bool forceDownload = false);
+    Task<DownloadResult> DownloadAndExtractModAsync(string listName, int modId, bool forceDownload = false, bool overwriteConflicts = false, string? operationId = null, CancellationToken cancellationToken = default);
+    Task<List<DownloadResult>> DownloadAllModsAsync(string listName, bool forceDownload = false, string? operationId = null, CancellationToken cancellationToken = default);
+    Task<(Mod? Mod, DownloadResult Result)> ForceUpdateModAsync(string listName, int modId, bool overwriteConflicts = false, string? operationId = null, CancellationToken cancellationToken = default);
+    Task<List<DownloadResult>> UpdateModsAsync(string listName, IEnumerable<int> modIds, string? operationId = null, CancellationToken cancellationToken = default);
+    
+    // Download progress
+    CancellationToken BeginDownloadOperation(string operationId);
+    void CompleteDownloadOperation(string operationId);
+    bool CancelDownloadOperation(string operationId);
     bool IsModInstalled(int modId, string modName);
     bool RemoveModFromInstallation(int modId, string modName);
-    bool CompleteModInstallation(string modName, string tempExtractPath, bool installAsServerMod);
+    (bool Success, string Message, Mod? Mod) SetModEnabled(string listName, int modId, bool enabled);
+    DownloadResult CompleteModInstallation(string modName, string tempExtractPath, InstallTarget target, int? modId = null, string? listName = null, bool overwriteConflicts = false);
+    string? ValidateInstallTarget(InstallTarget target);
+    (bool Success, string Message, Mod? Mod) SetModInstallTarget(string listName, int modId, InstallTarget? target);
+    ArchiveEntry? GetPendingArchiveTree(string tempExtractPath);
+    
+    // Install manifests
+    InstallManifest? GetInstallManifest(int modId);
+    InstallManifest? VerifyInstallManifest(int modId);
+    List<ListFileConflict> GetListFileConflicts(string listName);
+    
+    // Update snapshots
+    List<Snapshot> GetSnapshots();
+    bool DeleteSnapshot(string snapshotId);
+    Task<(bool Success, string Message)> RestoreSnapshotAsync(string snapshotId);
+    
+    // Background jobs
+    List<Job> GetJobs();
+    Job? GetJob(string jobId);
+    (Job? Job, string? Error) EnqueueJob(JobRequest request);
+    bool CancelJob(string jobId);
+    
+    // Crash bisect
+    BisectSession? GetBisectSession(string listName);
+    Task<(bool Success, string Message, BisectSession? Session)> StartBisectAsync(string listName);
+    Task<(bool Success, string Message, BisectSession? Session)> SubmitBisectOutcomeAsync(string listName, string outcome);
+    Task<(bool Success, string Message)> EndBisectAsync(string listName);
+    void RestoreInterruptedBisect();
     
     // Mod updates
     Task<List<Mod>> CheckModUpdatesAsync(string listName);
     Task<Mod?> CheckSingleModUpdateAsync(string listName, int modId);
     Task<string?> GetLatestModVersionAsync(string modId);
+    Task<List<ModVersion>> FetchModVersionsAsync(string modId);
+    string GetListUpdatePolicy(string listName);
+    void SetListUpdatePolicy(string listName, string policy);
+    (bool Success, string Message, Mod? Mod) SetModUpdatePolicy(string listName, int modId, string? policy);
+    List<UpdateRun> GetUpdateRuns();
+    Task<UpdateRun> ApplyUpdatesAsync(string? listName, bool scheduled = false, string? operationId = null, CancellationToken cancellationToken = default);
     
     // SPT updates
     Task<SptUpdateInfo> CheckSptUpdateAsync();
@@ -53,6 +111,15 @@ public class DownloadResult
     public bool Success { get; set; }
     public string Message { get; set; } = string.Empty;
     public string? ModName { get; set; }
+    public int? ModId { get; set; }
     public bool requiresUserChoice { get; set; }
     public string? TempExtractPath { get; set; }
-}
\ No newline at end of file
+    public List<FileConflict>? Conflicts { get; set; }
+}
+
+public class ActivationResult
+{
+    public string ListName { get; set; } = string.Empty;
+    public List<string> Removed { get; set; } = new();
+    public List<DownloadResult> Results { get; set; } = new();
+}
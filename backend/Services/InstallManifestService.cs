@@ -0,0 +1,238 @@
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Install Manifests
+
+    private string GetManifestFilePath(int modId) => Path.Combine(_manifestsDir, $"{modId}.json");
+
+    public InstallManifest? GetInstallManifest(int modId)
+    {
+        var path = GetManifestFilePath(modId);
+        if (!File.Exists(path))
+            return null;
+
+        try
+        {
+            return JsonSerializer.Deserialize<InstallManifest>(File.ReadAllText(path));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable install manifest for mod {ModId}", modId);
+            return null;
+        }
+    }
+
+    private List<InstallManifest> LoadAllInstallManifests()
+    {
+        var manifests = new List<InstallManifest>();
+        if (!Directory.Exists(_manifestsDir))
+            return manifests;
+
+        foreach (var file in Directory.GetFiles(_manifestsDir, "*.json"))
+        {
+            if (int.TryParse(Path.GetFileNameWithoutExtension(file), out var modId) &&
+                GetInstallManifest(modId) is { } manifest)
+            {
+                manifests.Add(manifest);
+            }
+        }
+
+        return manifests;
+    }
+
+    /// <summary>
+    /// Returns the manifest of a mod with each file's status (ok, modified, missing) filled in.
+    /// </summary>
+    public InstallManifest? VerifyInstallManifest(int modId)
+    {
+        var manifest = GetInstallManifest(modId);
+        if (manifest == null)
+            return null;
+
+        foreach (var file in manifest.Files)
+        {
+            var fullPath = GetInstalledPath(file.Path);
+            if (fullPath == null || !File.Exists(fullPath))
+                file.Status = InstalledFileStatus.Missing;
+            else
+                file.Status = ComputeSha256(fullPath) == file.Sha256 ? InstalledFileStatus.Ok : InstalledFileStatus.Modified;
+        }
+
+        return manifest;
+    }
+
+    private void SaveInstallManifest(InstallManifest manifest)
+    {
+        var json = JsonSerializer.Serialize(manifest, new JsonSerializerOptions { WriteIndented = true });
+        File.WriteAllText(GetManifestFilePath(manifest.ModId), json);
+    }
+
+    private void DeleteInstallManifest(int modId)
+    {
+        var path = GetManifestFilePath(modId);
+        if (File.Exists(path))
+            File.Delete(path);
+    }
+
+    // Manifest paths are relative to the server directory; anything resolving outside of it is ignored
+    private string? GetInstalledPath(string relativePath)
+    {
+        var root = Path.GetFullPath(_sptServerDir);
+        var fullPath = Path.GetFullPath(Path.Combine(root, relativePath.Replace('/', Path.DirectorySeparatorChar)));
+        return fullPath.StartsWith(root + Path.DirectorySeparatorChar, StringComparison.Ordinal) ? fullPath : null;
+    }
+
+    private string GetRelativeInstallPath(string fullPath) =>
+        Path.GetRelativePath(_sptServerDir, fullPath).Replace(Path.DirectorySeparatorChar, '/');
+
+    // Relative paths of every file that copying sourceDir into targetDir would write
+    private List<string> GetArchiveTargetPaths(string sourceDir, string targetDir) =>
+        Directory.GetFiles(sourceDir, "*", SearchOption.AllDirectories)
+            .Select(file => GetRelativeInstallPath(Path.Combine(targetDir, Path.GetRelativePath(sourceDir, file))))
+            .ToList();
+
+    private static string ComputeSha256(string filePath)
+    {
+        using var stream = File.OpenRead(filePath);
+        return Convert.ToHexString(SHA256.HashData(stream)).ToLowerInvariant();
+    }
+
+    private static string ComputeTextSha256(string text) =>
+        Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(text))).ToLowerInvariant();
+
+    /// <summary>
+    /// Copies <paramref name="sourceDir"/> into <paramref name="targetDir"/> and records every file
+    /// written and every directory created, replacing the files of any previous install of the mod.
+    /// Files about to be replaced are snapshotted first so the install can be rolled back.
+    /// </summary>
+    private InstallManifest InstallWithManifest(Mod mod, string sourceDir, string targetDir)
+    {
+        var previous = GetInstallManifest(mod.Id);
+
+        var affectedPaths = (previous?.Files.Select(file => file.Path) ?? Enumerable.Empty<string>())
+            .Concat(GetArchiveTargetPaths(sourceDir, targetDir));
+        CreateSnapshot(
+            SnapshotKind.Mod,
+            previous != null ? $"{mod.Name} {previous.Version}" : mod.Name,
+            previous?.Version,
+            affectedPaths,
+            mod.Id);
+
+        DiscardDisabledModFiles(mod.Id);
+
+        if (previous != null)
+        {
+            var (filesRemoved, _) = RemoveManifestFiles(previous);
+            _logger.LogInformation("Removed {Count} files of previous install of '{ModName}'", filesRemoved, mod.Name);
+        }
+
+        var createdDirectories = new List<string>();
+        if (!Directory.Exists(targetDir))
+            createdDirectories.Add(GetRelativeInstallPath(targetDir));
+
+        foreach (var dir in Directory.GetDirectories(sourceDir, "*", SearchOption.AllDirectories))
+        {
+            var destDir = Path.Combine(targetDir, Path.GetRelativePath(sourceDir, dir));
+            if (!Directory.Exists(destDir))
+                createdDirectories.Add(GetRelativeInstallPath(destDir));
+        }
+
+        CopyDirectoryContents(sourceDir, targetDir);
+
+        var manifest = new InstallManifest
+        {
+            ModId = mod.Id,
+            ModName = mod.Name,
+            Version = mod.Version,
+            Directories = createdDirectories
+        };
+
+        foreach (var file in Directory.GetFiles(sourceDir, "*", SearchOption.AllDirectories))
+        {
+            var destFile = Path.Combine(targetDir, Path.GetRelativePath(sourceDir, file));
+            manifest.Files.Add(new InstalledFile
+            {
+                Path = GetRelativeInstallPath(destFile),
+                Size = new FileInfo(destFile).Length,
+                Sha256 = ComputeSha256(destFile)
+            });
+        }
+
+        SaveInstallManifest(manifest);
+        _logger.LogInformation("Recorded install manifest for '{ModName}': {FileCount} files, {DirCount} directories",
+            mod.Name, manifest.Files.Count, manifest.Directories.Count);
+
+        return manifest;
+    }
+
+    /// <summary>
+    /// Deletes the files listed in a manifest, then the directories it created once they are empty.
+    /// Files also claimed by another mod's manifest and directories that still hold other files are left in place.
+    /// </summary>
+    private (int FilesRemoved, int DirectoriesRemoved) RemoveManifestFiles(InstallManifest manifest)
+    {
+        var filesRemoved = 0;
+
+        var sharedPaths = LoadAllInstallManifests()
+            .Where(other => other.ModId != manifest.ModId)
+            .SelectMany(other => other.Files.Select(file => file.Path))
+            .ToHashSet(StringComparer.Ordinal);
+
+        foreach (var file in manifest.Files)
+        {
+            if (sharedPaths.Contains(file.Path))
+            {
+                _logger.LogInformation("Keeping {File}, also installed by another mod", file.Path);
+                continue;
+            }
+
+            var fullPath = GetInstalledPath(file.Path);
+            if (fullPath == null || !File.Exists(fullPath))
+                continue;
+
+            try
+            {
+                File.Delete(fullPath);
+                filesRemoved++;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to delete installed file {File}", file.Path);
+            }
+        }
+
+        return (filesRemoved, RemoveEmptyManifestDirectories(manifest));
+    }
+
+    // Deepest first, so parents empty out before they are checked
+    private int RemoveEmptyManifestDirectories(InstallManifest manifest)
+    {
+        var directoriesRemoved = 0;
+        foreach (var dir in manifest.Directories.OrderByDescending(d => d.Length))
+        {
+            var fullPath = GetInstalledPath(dir);
+            if (fullPath == null || !Directory.Exists(fullPath) || Directory.EnumerateFileSystemEntries(fullPath).Any())
+                continue;
+
+            try
+            {
+                Directory.Delete(fullPath);
+                directoriesRemoved++;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to delete installed directory {Directory}", dir);
+            }
+        }
+
+        return directoriesRemoved;
+    }
+
+    #endregion
+}
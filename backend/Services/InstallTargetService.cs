@@ -0,0 +1,309 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Install Targets
+
+    /// <summary>
+    /// Checks a target and normalises its custom path and mapped folders to forward slashes without
+    /// leading or trailing ones. Returns the reason when the target cannot be used.
+    /// </summary>
+    public string? ValidateInstallTarget(InstallTarget target)
+    {
+        if (!InstallTargetKind.IsValid(target.Kind))
+            return "Install target must be server, client, custom or mapped";
+
+        if (target.Kind != InstallTargetKind.Custom)
+            target.Path = null;
+        if (target.Kind != InstallTargetKind.Mapped)
+            target.Mapping = null;
+
+        if (target.Kind == InstallTargetKind.Custom)
+        {
+            var path = NormaliseRelativePath(target.Path);
+            if (string.IsNullOrEmpty(path) || Path.IsPathRooted(path))
+                return "A custom install target needs a folder relative to the server directory";
+
+            if (GetInstalledPath(path) == null)
+                return "The custom install folder must be inside the server directory";
+
+            target.Path = path;
+        }
+        else if (target.Kind == InstallTargetKind.Mapped)
+        {
+            if (target.Mapping == null || target.Mapping.Count == 0)
+                return "A mapped install target needs at least one folder";
+
+            var mapping = new Dictionary<string, string>(StringComparer.Ordinal);
+            foreach (var (folder, destination) in target.Mapping)
+            {
+                var path = NormaliseRelativePath(folder) ?? "";
+                if (Path.IsPathRooted(path) || path.Split('/').Any(part => part is "." or ".."))
+                    return $"'{folder}' is not a folder of the archive";
+                if (!InstallMappingTarget.IsValid(destination))
+                    return $"'{folder}' must be mapped to server, client, config or skip";
+
+                mapping[path] = destination;
+            }
+
+            if (mapping.Values.All(destination => destination == InstallMappingTarget.Skip))
+                return "The mapping skips every folder, so nothing would be installed";
+
+            target.Mapping = mapping;
+        }
+
+        return null;
+    }
+
+    private static string? NormaliseRelativePath(string? path) => path?.Replace('\\', '/').Trim().Trim('/');
+
+    /// <summary>
+    /// Remembers where a mod's non-standard archive goes, or asks again on the next install when target is null.
+    /// </summary>
+    public (bool Success, string Message, Mod? Mod) SetModInstallTarget(string listName, int modId, InstallTarget? target)
+    {
+        if (target != null && ValidateInstallTarget(target) is string error)
+            return (false, error, null);
+
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (mod == null)
+            return (false, "Mod not found", null);
+
+        mod.InstallTarget = target;
+        SaveList(list);
+
+        _logger.LogInformation("Install target of '{ModName}' in list '{ListName}' set to {Target}", mod.Name, list.Name, DescribeInstallTarget(target));
+        return (true, target == null
+            ? $"The install location of '{mod.Name}' will be asked again"
+            : $"'{mod.Name}' will be installed to {DescribeInstallTarget(target)}", mod);
+    }
+
+    private static string DescribeInstallTarget(InstallTarget? target) => target?.Kind switch
+    {
+        null => "ask",
+        InstallTargetKind.Custom => target.Path ?? "",
+        InstallTargetKind.Mapped => $"a mapping of {target.Mapping?.Count ?? 0} folders",
+        _ => target.Kind
+    };
+
+    private string GetInstallTargetDir(InstallTarget target, string modName) => target.Kind switch
+    {
+        InstallTargetKind.Server => Path.Combine(_sptServerDir, "SPT", "user", "mods", GetSafeFileName(modName)),
+        InstallTargetKind.Client => Path.Combine(_sptServerDir, "BepInEx", "plugins", GetSafeFileName(modName)),
+        InstallTargetKind.Mapped => _sptServerDir,
+        _ => GetInstalledPath(target.Path ?? "") ?? throw new InvalidOperationException($"Invalid install folder '{target.Path}'")
+    };
+
+    /// <summary>
+    /// Each file of the archive with where a mapped target puts it, relative to the server directory.
+    /// Files that are skipped or under no mapped folder are left out.
+    /// </summary>
+    private List<(string Source, string Destination)> GetMappedFiles(string sourceDir, Dictionary<string, string> mapping, string modName)
+    {
+        var files = new List<(string Source, string Destination)>();
+
+        foreach (var file in Directory.GetFiles(sourceDir, "*", SearchOption.AllDirectories))
+        {
+            var relative = GetArchivePath(sourceDir, file);
+
+            // The closest mapped folder above the file decides, up to the archive root
+            var folder = Path.GetDirectoryName(relative)?.Replace('\\', '/') ?? "";
+            string? destination;
+            while (!mapping.TryGetValue(folder, out destination) && folder.Length > 0)
+                folder = Path.GetDirectoryName(folder)?.Replace('\\', '/') ?? "";
+
+            if (destination == null || destination == InstallMappingTarget.Skip)
+                continue;
+
+            var inFolder = folder.Length == 0 ? relative : relative[(folder.Length + 1)..];
+            var folderName = folder.Length == 0 ? GetSafeFileName(modName) : folder.Split('/').Last();
+            var baseDir = destination switch
+            {
+                InstallMappingTarget.Server => $"SPT/user/mods/{folderName}",
+                InstallMappingTarget.Client => $"BepInEx/plugins/{folderName}",
+                _ => "BepInEx/config"
+            };
+
+            files.Add((file, $"{baseDir}/{inFolder}"));
+        }
+
+        return files;
+    }
+
+    private static string GetArchivePath(string sourceDir, string path) =>
+        Path.GetRelativePath(sourceDir, path).Replace(Path.DirectorySeparatorChar, '/');
+
+    // Relative paths of every file installing the archive to the target would write
+    private List<string> GetInstallTargetPaths(InstallTarget target, string modName, string sourceDir) =>
+        target.Kind == InstallTargetKind.Mapped
+            ? GetMappedFiles(sourceDir, target.Mapping ?? new(), modName).Select(f => f.Destination).ToList()
+            : GetArchiveTargetPaths(sourceDir, GetInstallTargetDir(target, modName));
+
+    // The mod type a target implies; custom folders count by the tree they are in, config files as client
+    private static string GetInstallTargetModType(InstallTarget target) => target.Kind switch
+    {
+        InstallTargetKind.Mapped => (target.Mapping ?? new()).Values.ToHashSet() switch
+        {
+            var used when used.Contains(InstallMappingTarget.Server) &&
+                          (used.Contains(InstallMappingTarget.Client) || used.Contains(InstallMappingTarget.Config)) => "both",
+            var used when used.Contains(InstallMappingTarget.Server) => "server",
+            var used when used.Contains(InstallMappingTarget.Client) || used.Contains(InstallMappingTarget.Config) => "client",
+            _ => "unknown"
+        },
+        InstallTargetKind.Server => "server",
+        InstallTargetKind.Client => "client",
+        _ when target.Path?.StartsWith("SPT/", StringComparison.OrdinalIgnoreCase) == true => "server",
+        _ when target.Path?.StartsWith("BepInEx/", StringComparison.OrdinalIgnoreCase) == true => "client",
+        _ => "unknown"
+    };
+
+    /// <summary>
+    /// Copies a non-standard archive to its target, records the mod type, and rewrites the
+    /// load order of <paramref name="listName"/> when the files went into the server mods.
+    /// </summary>
+    private void InstallToTarget(Mod? mod, string modName, string sourceDir, InstallTarget target, string? listName)
+    {
+        // Without a manifest nothing records what went into a shared folder, so only the mod's own folder can be replaced
+        if (mod == null && target.Kind is InstallTargetKind.Custom or InstallTargetKind.Mapped)
+            throw new InvalidOperationException($"'{modName}' is not in any list, so it can only be installed as a server or client mod");
+
+        if (target.Kind == InstallTargetKind.Mapped)
+        {
+            InstallMapped(mod!, modName, sourceDir, target, listName);
+            return;
+        }
+
+        var targetDir = GetInstallTargetDir(target, modName);
+
+        var parentDir = Path.GetDirectoryName(targetDir);
+        if (!string.IsNullOrEmpty(parentDir) && !Directory.Exists(parentDir))
+        {
+            Directory.CreateDirectory(parentDir);
+        }
+
+        if (mod != null)
+        {
+            InstallWithManifest(mod, sourceDir, targetDir);
+        }
+        else
+        {
+            _logger.LogWarning("Mod '{ModName}' not found in any list, installing without manifest", modName);
+            SafeDeleteDirectory(targetDir);
+            CopyDirectoryContents(sourceDir, targetDir);
+        }
+
+        var modType = GetInstallTargetModType(target);
+        if (modType != "unknown")
+            UpdateModTypeInAllLists(modName, modType);
+
+        if (modType is "server" or "both" && listName != null)
+            WriteSptOrderFile(listName);
+
+        _logger.LogInformation("Mod '{ModName}' installed to {Target}", modName, DescribeInstallTarget(target));
+    }
+
+    // Lays the mapped files out as they go in the server directory, then installs that like a standard archive
+    private void InstallMapped(Mod mod, string modName, string sourceDir, InstallTarget target, string? listName)
+    {
+        var files = GetMappedFiles(sourceDir, target.Mapping ?? new(), modName);
+        if (files.Count == 0)
+            throw new InvalidOperationException("The install mapping matches no files of the archive");
+
+        var stageDir = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
+        try
+        {
+            foreach (var (source, destination) in files)
+            {
+                var stagedFile = Path.Combine(stageDir, destination.Replace('/', Path.DirectorySeparatorChar));
+                Directory.CreateDirectory(Path.GetDirectoryName(stagedFile)!);
+                File.Copy(source, stagedFile, true);
+            }
+
+            InstallWithManifest(mod, stageDir, _sptServerDir);
+        }
+        finally
+        {
+            SafeDeleteDirectory(stageDir);
+        }
+
+        var modType = GetInstallTargetModType(target);
+        if (modType != "unknown")
+            UpdateModTypeInAllLists(modName, modType);
+
+        if (modType is "server" or "both" && listName != null)
+            WriteSptOrderFile(listName);
+
+        _logger.LogInformation("Mod '{ModName}' installed with {Count} files placed by its install mapping", modName, files.Count);
+    }
+
+    /// <summary>
+    /// The file tree of an archive left in pending_installation, or null when the path is not one.
+    /// </summary>
+    public ArchiveEntry? GetPendingArchiveTree(string tempExtractPath)
+    {
+        var pendingRoot = Path.GetFullPath(Path.Combine(_sptServerDir, "pending_installation"));
+        var fullPath = Path.GetFullPath(tempExtractPath);
+        if (!fullPath.StartsWith(pendingRoot + Path.DirectorySeparatorChar, StringComparison.Ordinal) || !Directory.Exists(fullPath))
+            return null;
+
+        return ReadArchiveEntry(fullPath, new DirectoryInfo(fullPath));
+    }
+
+    private static ArchiveEntry ReadArchiveEntry(string rootDir, DirectoryInfo dir)
+    {
+        var entry = new ArchiveEntry
+        {
+            Path = dir.FullName == rootDir ? "" : GetArchivePath(rootDir, dir.FullName),
+            Name = dir.Name,
+            IsDirectory = true
+        };
+
+        foreach (var subDir in dir.GetDirectories().OrderBy(d => d.Name, StringComparer.OrdinalIgnoreCase))
+            entry.Children.Add(ReadArchiveEntry(rootDir, subDir));
+
+        foreach (var file in dir.GetFiles().OrderBy(f => f.Name, StringComparer.OrdinalIgnoreCase))
+        {
+            entry.Children.Add(new ArchiveEntry
+            {
+                Path = GetArchivePath(rootDir, file.FullName),
+                Name = file.Name,
+                Size = file.Length
+            });
+        }
+
+        entry.Size = entry.Children.Sum(child => child.Size);
+        return entry;
+    }
+
+    // Saves the answer on every list entry of the mod without a target that fits the archive, so later downloads and
+    // updates reuse it. A saved mapping that matched nothing in this release is what prompted again, so it is replaced.
+    private void RememberInstallTarget(int? modId, string modName, InstallTarget target, string sourceDir)
+    {
+        try
+        {
+            foreach (var list in LoadAllLists())
+            {
+                var mod = modId.HasValue
+                    ? list.Mods.FirstOrDefault(m => m.Id == modId.Value)
+                    : list.Mods.FirstOrDefault(m => m.Name == modName);
+                if (mod == null || (mod.InstallTarget != null && GetInstallTargetPaths(mod.InstallTarget, modName, sourceDir).Count > 0))
+                    continue;
+
+                if (mod.InstallTarget != null)
+                    _logger.LogInformation("Replacing the install target of '{ModName}' in list '{ListName}', it matched nothing in the archive", modName, list.Name);
+
+                mod.InstallTarget = target;
+                SaveList(list);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error remembering the install target of {ModName}", modName);
+        }
+    }
+
+    #endregion
+}
@@ -0,0 +1,450 @@
+using ForgeModApi.Models;
+using System.Collections.Concurrent;
+using System.Text.Json;
+using System.Threading.Channels;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Job Queue
+
+    private const int MaxJobHistory = 100;
+
+    private readonly ConcurrentDictionary<string, Job> _jobs = new();
+    private readonly ConcurrentDictionary<string, CancellationTokenSource> _jobCancellations = new();
+    private readonly Channel<string> _jobQueue = Channel.CreateUnbounded<string>();
+
+    private string GetJobFilePath(string jobId) => Path.Combine(_jobsDir, $"{jobId}.json");
+
+    public List<Job> GetJobs() =>
+        _jobs.Values.Select(CloneJob).OrderByDescending(j => j.CreatedAt).ToList();
+
+    public Job? GetJob(string jobId) =>
+        _jobs.TryGetValue(jobId, out var job) ? CloneJob(job) : null;
+
+    /// <summary>
+    /// Validates a job request and queues it. Jobs run one at a time in submission order,
+    /// since they all write to the same server directory.
+    /// </summary>
+    public (Job? Job, string? Error) EnqueueJob(JobRequest request)
+    {
+        string title;
+        switch (request.Type)
+        {
+            case JobType.DownloadMod:
+            case JobType.ForceUpdate:
+                if (string.IsNullOrWhiteSpace(request.ListName) || request.ModId == null)
+                    return (null, "List name and mod ID are required");
+
+                var mod = LoadList(request.ListName).Mods.FirstOrDefault(m => m.Id == request.ModId);
+                if (mod == null)
+                    return (null, "Mod not found");
+
+                title = request.Type == JobType.DownloadMod ? $"Download {mod.Name}" : $"Update {mod.Name}";
+                break;
+
+            case JobType.DownloadAll:
+                if (string.IsNullOrWhiteSpace(request.ListName))
+                    return (null, "List name is required");
+
+                LoadList(request.ListName);
+                title = $"Download all mods of '{request.ListName}'";
+                break;
+
+            case JobType.UpdateMods:
+                if (string.IsNullOrWhiteSpace(request.ListName) || request.ModIds == null || request.ModIds.Count == 0)
+                    return (null, "List name and mod IDs are required");
+
+                title = $"Update {request.ModIds.Distinct().Count()} mods of '{LoadList(request.ListName).Name}'";
+                break;
+
+            case JobType.ActivateList:
+                if (string.IsNullOrWhiteSpace(request.ListName))
+                    return (null, "List name is required");
+                if (string.IsNullOrWhiteSpace(request.PlanHash))
+                    return (null, "The hash of the reviewed activation plan is required");
+                if (BuildActivationPlan(request.ListName).Hash != request.PlanHash)
+                    return (null, "The installed mods or the list changed since the plan was reviewed, review it again");
+
+                title = $"Activate list '{LoadList(request.ListName).Name}'";
+                break;
+
+            case JobType.ApplyUpdates:
+                // Without a list name every list is checked, as the nightly run does
+                title = string.IsNullOrWhiteSpace(request.ListName)
+                    ? "Apply updates to all lists"
+                    : $"Apply updates to '{LoadList(request.ListName).Name}'";
+                break;
+
+            case JobType.SptUpdate:
+            case JobType.FikaUpdate:
+                if (string.IsNullOrWhiteSpace(request.DownloadUrl))
+                    return (null, "Download URL is required");
+
+                title = request.Type == JobType.SptUpdate ? "Update SPT" : "Update Fika";
+                break;
+
+            default:
+                return (null, $"Unknown job type '{request.Type}'");
+        }
+
+        var job = new Job
+        {
+            Id = $"{DateTime.UtcNow:yyyyMMddHHmmss}-{Guid.NewGuid().ToString("N")[..8]}",
+            Type = request.Type,
+            Title = title,
+            Request = request
+        };
+
+        _jobs[job.Id] = job;
+        _jobCancellations[job.Id] = new CancellationTokenSource();
+        AppendJobLog(job, "Queued");
+        PruneJobHistory();
+
+        _jobQueue.Writer.TryWrite(job.Id);
+        _logger.LogInformation("Job {JobId} queued: {Title}", job.Id, title);
+        return (CloneJob(job), null);
+    }
+
+    public bool CancelJob(string jobId)
+    {
+        if (!_jobs.TryGetValue(jobId, out var job) || JobStatus.IsFinished(job.Status))
+            return false;
+
+        if (_jobCancellations.TryGetValue(jobId, out var cancellation))
+            cancellation.Cancel();
+        CancelDownloadOperation(jobId);
+
+        AppendJobLog(job, "Cancellation requested");
+        return true;
+    }
+
+    /// <summary>
+    /// Runs queued jobs until the host shuts down. Jobs left queued or running by a previous
+    /// process are marked as failed first, since their work was cut short.
+    /// </summary>
+    public async Task RunJobQueueAsync(CancellationToken stoppingToken)
+    {
+        LoadJobHistory();
+
+        try
+        {
+            await foreach (var jobId in _jobQueue.Reader.ReadAllAsync(stoppingToken))
+            {
+                if (_jobs.TryGetValue(jobId, out var job))
+                    await RunJobAsync(job);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("Job queue stopped");
+        }
+    }
+
+    private async Task RunJobAsync(Job job)
+    {
+        if (!_jobCancellations.TryGetValue(job.Id, out var cancellation))
+            return;
+
+        if (cancellation.IsCancellationRequested)
+        {
+            FinishJob(job, JobStatus.Cancelled, null, "Cancelled before it started");
+            return;
+        }
+
+        lock (job)
+        {
+            job.Status = JobStatus.Running;
+            job.StartedAt = DateTime.UtcNow;
+        }
+        AppendJobLog(job, "Started");
+
+        try
+        {
+            var (status, result, error) = await ExecuteJobAsync(job, cancellation.Token);
+            FinishJob(job, cancellation.IsCancellationRequested ? JobStatus.Cancelled : status, result, error);
+        }
+        catch (OperationCanceledException)
+        {
+            FinishJob(job, JobStatus.Cancelled, null, "Cancelled");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Job {JobId} failed", job.Id);
+            FinishJob(job, JobStatus.Failed, null, ex.Message);
+        }
+        finally
+        {
+            if (_jobCancellations.TryRemove(job.Id, out var removed))
+                removed.Dispose();
+        }
+    }
+
+    private async Task<(string Status, object? Result, string? Error)> ExecuteJobAsync(Job job, CancellationToken cancellationToken)
+    {
+        var request = job.Request;
+
+        switch (job.Type)
+        {
+            case JobType.DownloadMod:
+            {
+                // The job ID doubles as the download operation ID, so progress can be streamed for it
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var result = await DownloadAndExtractModAsync(request.ListName!, request.ModId!.Value, false, request.OverwriteConflicts, job.Id, linked.Token);
+                    var status = GetDownloadJobStatus(result);
+                    return (status, result, status == JobStatus.Failed ? result.Message : null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.DownloadAll:
+            {
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var results = await DownloadAllModsAsync(request.ListName!, false, job.Id, linked.Token);
+                    var failed = results.Count(r => GetDownloadJobStatus(r) == JobStatus.Failed);
+                    AppendJobLog(job, $"{results.Count - failed} of {results.Count} mods installed or waiting for a choice");
+
+                    var status = failed > 0
+                        ? JobStatus.Failed
+                        : results.Any(r => GetDownloadJobStatus(r) == JobStatus.AwaitingChoice) ? JobStatus.AwaitingChoice : JobStatus.Succeeded;
+                    return (status, results, failed > 0 ? $"{failed} mods failed" : null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.ForceUpdate:
+            {
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var (mod, result) = await ForceUpdateModAsync(request.ListName!, request.ModId!.Value, request.OverwriteConflicts, job.Id, linked.Token);
+                    if (mod == null)
+                        return (JobStatus.Failed, null, result.Message);
+
+                    var status = GetDownloadJobStatus(result);
+                    if (status == JobStatus.Failed)
+                        return (status, null, result.Message);
+
+                    return (status, new
+                    {
+                        message = status == JobStatus.Succeeded
+                            ? $"Mod '{mod.Name}' updated and downloaded successfully!"
+                            : result.Message,
+                        mod,
+                        requiresUserChoice = result.requiresUserChoice,
+                        tempExtractPath = result.TempExtractPath,
+                        conflicts = result.Conflicts
+                    }, null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.UpdateMods:
+            {
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var results = await UpdateModsAsync(request.ListName!, request.ModIds!, job.Id, linked.Token);
+                    var failed = results.Count(r => GetDownloadJobStatus(r) == JobStatus.Failed);
+                    AppendJobLog(job, $"{results.Count - failed} of {results.Count} mods updated or waiting for a choice");
+
+                    var status = failed > 0
+                        ? JobStatus.Failed
+                        : results.Any(r => GetDownloadJobStatus(r) == JobStatus.AwaitingChoice) ? JobStatus.AwaitingChoice : JobStatus.Succeeded;
+                    return (status, results, failed > 0 ? $"{failed} mods failed" : null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.ActivateList:
+            {
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var result = await ActivateListAsync(request.ListName!, request.OverwriteConflicts, request.PlanHash!, job.Id, linked.Token);
+                    var failed = result.Results.Count(r => GetDownloadJobStatus(r) == JobStatus.Failed);
+                    AppendJobLog(job, $"{result.Removed.Count} mods removed, {result.Results.Count - failed} of {result.Results.Count} installed or waiting for a choice");
+
+                    var status = failed > 0
+                        ? JobStatus.Failed
+                        : result.Results.Any(r => GetDownloadJobStatus(r) == JobStatus.AwaitingChoice) ? JobStatus.AwaitingChoice : JobStatus.Succeeded;
+                    return (status, result, failed > 0 ? $"{failed} mods failed" : null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.ApplyUpdates:
+            {
+                using var linked = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken, BeginDownloadOperation(job.Id));
+                try
+                {
+                    var listName = string.IsNullOrWhiteSpace(request.ListName) ? null : request.ListName;
+                    var run = await ApplyUpdatesAsync(listName, request.Scheduled, job.Id, linked.Token);
+                    var failed = run.Changes.Count(c => c.Outcome == UpdateOutcome.Failed);
+                    AppendJobLog(job, $"{run.Changes.Count(c => c.Outcome == UpdateOutcome.Applied)} updates applied, " +
+                        $"{run.Changes.Count(c => c.Outcome == UpdateOutcome.Available)} left for review, {failed} failed");
+
+                    return (failed > 0 ? JobStatus.Failed : JobStatus.Succeeded, run, failed > 0 ? $"{failed} updates failed" : null);
+                }
+                finally
+                {
+                    CompleteDownloadOperation(job.Id);
+                }
+            }
+
+            case JobType.SptUpdate:
+            {
+                AppendJobLog(job, "Downloading and installing SPT");
+                var success = await DownloadAndUpdateSptAsync(request.DownloadUrl!);
+                return success
+                    ? (JobStatus.Succeeded, new { message = "SPT updated successfully! Server will restart automatically." }, null)
+                    : (JobStatus.Failed, null, "Error updating SPT");
+            }
+
+            case JobType.FikaUpdate:
+            {
+                var updateInfo = await CheckFikaUpdateAsync();
+                if (updateInfo.LatestVersion == "unknown")
+                    return (JobStatus.Failed, null, "Could not determine Fika version");
+
+                AppendJobLog(job, $"Downloading and installing Fika {updateInfo.LatestVersion}");
+                var success = await DownloadAndUpdateFikaAsync(request.DownloadUrl!, updateInfo.LatestVersion);
+                return success
+                    ? (JobStatus.Succeeded, new { message = "Fika updated successfully! Server will restart automatically." }, null)
+                    : (JobStatus.Failed, null, "Error updating Fika");
+            }
+
+            default:
+                return (JobStatus.Failed, null, $"Unknown job type '{job.Type}'");
+        }
+    }
+
+    private static string GetDownloadJobStatus(DownloadResult result)
+    {
+        if (result.requiresUserChoice || result.Conflicts?.Count > 0)
+            return JobStatus.AwaitingChoice;
+
+        return result.Success ? JobStatus.Succeeded : JobStatus.Failed;
+    }
+
+    private void FinishJob(Job job, string status, object? result, string? error)
+    {
+        lock (job)
+        {
+            job.Status = status;
+            job.FinishedAt = DateTime.UtcNow;
+            job.Error = error;
+            if (result != null)
+                job.Result = JsonSerializer.SerializeToElement(result, _sseJsonOptions);
+        }
+
+        AppendJobLog(job, error != null ? $"Finished ({status}): {error}" : $"Finished ({status})");
+        _logger.LogInformation("Job {JobId} finished with status {Status}", job.Id, status);
+    }
+
+    private void AppendJobLog(Job job, string message)
+    {
+        lock (job)
+        {
+            job.Logs.Add(new JobLogEntry { Message = message });
+            SaveJob(job);
+        }
+    }
+
+    // Called with the job locked
+    private void SaveJob(Job job)
+    {
+        try
+        {
+            var json = JsonSerializer.Serialize(job, new JsonSerializerOptions { WriteIndented = true });
+            File.WriteAllText(GetJobFilePath(job.Id), json);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to save job {JobId}", job.Id);
+        }
+    }
+
+    private void LoadJobHistory()
+    {
+        foreach (var file in Directory.GetFiles(_jobsDir, "*.json"))
+        {
+            try
+            {
+                var job = JsonSerializer.Deserialize<Job>(File.ReadAllText(file));
+                if (job == null || string.IsNullOrEmpty(job.Id))
+                    continue;
+
+                _jobs.TryAdd(job.Id, job);
+                if (!JobStatus.IsFinished(job.Status))
+                    FinishJob(job, JobStatus.Failed, null, "Interrupted by a server restart");
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Unreadable job file {File}", file);
+            }
+        }
+
+        PruneJobHistory();
+    }
+
+    private void PruneJobHistory()
+    {
+        var expired = _jobs.Values
+            .Where(j => JobStatus.IsFinished(j.Status))
+            .OrderByDescending(j => j.CreatedAt)
+            .Skip(MaxJobHistory)
+            .ToList();
+
+        foreach (var job in expired)
+        {
+            _jobs.TryRemove(job.Id, out _);
+            var path = GetJobFilePath(job.Id);
+            if (File.Exists(path))
+                File.Delete(path);
+        }
+    }
+
+    private static Job CloneJob(Job job)
+    {
+        lock (job)
+        {
+            return new Job
+            {
+                Id = job.Id,
+                Type = job.Type,
+                Title = job.Title,
+                Request = job.Request,
+                Status = job.Status,
+                CreatedAt = job.CreatedAt,
+                StartedAt = job.StartedAt,
+                FinishedAt = job.FinishedAt,
+                Logs = job.Logs.ToList(),
+                Result = job.Result,
+                Error = job.Error
+            };
+        }
+    }
+
+    #endregion
+}
@@ -0,0 +1,17 @@
+namespace ForgeModApi.Services;
+
+/// <summary>
+/// Hosts the job queue of <see cref="ModService"/> for the lifetime of the application.
+/// </summary>
+public class JobQueueWorker : BackgroundService
+{
+    private readonly ModService _modService;
+
+    public JobQueueWorker(ModService modService)
+    {
+        _modService = modService;
+    }
+
+    protected override Task ExecuteAsync(CancellationToken stoppingToken) =>
+        _modService.RunJobQueueAsync(stoppingToken);
+}
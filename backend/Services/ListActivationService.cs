@@ -0,0 +1,186 @@
+using ForgeModApi.Models;
+using System.Text.Json;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region List Activation
+
+    private static string GetActiveListPath() => Path.Combine(AppContext.BaseDirectory, "user", "active_list.json");
+
+    /// <summary>
+    /// Returns the list last activated, and whether the installed mods still match it.
+    /// </summary>
+    public ActiveListState GetActiveList()
+    {
+        var state = LoadActiveListState();
+        if (state?.Name == null)
+            return new ActiveListState();
+
+        try
+        {
+            state.InSync = BuildActivationPlan(state.Name).ChangeCount == 0;
+            return state;
+        }
+        catch (FileNotFoundException)
+        {
+            // The list was deleted since
+            return new ActiveListState();
+        }
+    }
+
+    /// <summary>
+    /// Compares the installed mods with the list: mods of the list that are missing or at another
+    /// version get installed or updated, installed mods the list doesn't have get removed.
+    /// Mods of other lists installed before manifests were recorded are found by their folder and removed as unmanaged.
+    /// </summary>
+    public ActivationPlan BuildActivationPlan(string listName)
+    {
+        var list = LoadList(listName);
+        var manifests = LoadAllInstallManifests().ToDictionary(m => m.ModId);
+        var plan = new ActivationPlan { ListName = list.Name };
+
+        foreach (var mod in list.Mods)
+        {
+            var item = new ActivationPlanItem { ModId = mod.Id, ModName = mod.Name, TargetVersion = mod.Version };
+
+            if (!manifests.TryGetValue(mod.Id, out var manifest))
+            {
+                item.Action = ActivationAction.Install;
+            }
+            else
+            {
+                item.InstalledVersion = manifest.Version;
+                item.Action = manifest.Version == mod.Version ? ActivationAction.Keep : ActivationAction.Update;
+            }
+
+            plan.Items.Add(item);
+        }
+
+        var listIds = list.Mods.Select(m => m.Id).ToHashSet();
+        plan.Items.AddRange(manifests.Values
+            .Where(manifest => !listIds.Contains(manifest.ModId))
+            .Select(manifest => new ActivationPlanItem
+            {
+                ModId = manifest.ModId,
+                ModName = manifest.ModName,
+                Action = ActivationAction.Remove,
+                InstalledVersion = manifest.Version
+            }));
+
+        var seenIds = listIds.Concat(manifests.Keys).ToHashSet();
+        foreach (var mod in LoadAllLists().SelectMany(other => other.Mods))
+        {
+            if (!seenIds.Add(mod.Id) || !IsModInstalled(mod.Id, mod.Name))
+                continue;
+
+            plan.Items.Add(new ActivationPlanItem
+            {
+                ModId = mod.Id,
+                ModName = mod.Name,
+                Action = ActivationAction.Remove,
+                Unmanaged = true
+            });
+        }
+
+        plan.Hash = ComputeTextSha256(string.Join("\n", plan.Items.Select(item =>
+            $"{item.ModId}|{item.Action}|{item.InstalledVersion}|{item.TargetVersion}|{item.Unmanaged}")));
+        return plan;
+    }
+
+    /// <summary>
+    /// Applies the activation plan of the list when it still matches the reviewed <paramref name="planHash"/>:
+    /// removes first so the freed files don't show up as conflicts, then installs and updates. The list
+    /// becomes the active one even when some mods fail, so the indicator shows it out of sync rather
+    /// than pointing at the previous list.
+    /// </summary>
+    public async Task<ActivationResult> ActivateListAsync(string listName, bool overwriteConflicts, string planHash, string? operationId = null, CancellationToken cancellationToken = default)
+    {
+        var list = LoadList(listName);
+        var plan = BuildActivationPlan(listName);
+        if (plan.Hash != planHash)
+            throw new InvalidOperationException("The installed mods or the list changed since the plan was reviewed, review it again");
+
+        var result = new ActivationResult { ListName = list.Name };
+
+        foreach (var item in plan.Items.Where(i => i.Action == ActivationAction.Remove))
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (RemoveModFromInstallation(item.ModId, item.ModName))
+                result.Removed.Add(item.ModName);
+        }
+
+        var toInstall = plan.Items
+            .Where(i => i.Action == ActivationAction.Install || i.Action == ActivationAction.Update)
+            .ToList();
+
+        for (var i = 0; i < toInstall.Count; i++)
+        {
+            var index = i + 1;
+            var mod = list.Mods.First(m => m.Id == toInstall[i].ModId);
+            ReportDownloadProgress(operationId, mod, DownloadPhase.Queued, p =>
+            {
+                p.Index = index;
+                p.Total = toInstall.Count;
+            });
+        }
+
+        foreach (var item in toInstall)
+        {
+            if (cancellationToken.IsCancellationRequested)
+            {
+                result.Results.Add(new DownloadResult { Success = false, Message = "Cancelled", ModName = item.ModName, ModId = item.ModId });
+                continue;
+            }
+
+            // An update replaces the files of the installed version
+            var forceDownload = item.Action == ActivationAction.Update;
+            result.Results.Add(await DownloadAndExtractModAsync(list.Name, item.ModId, forceDownload, overwriteConflicts, operationId, cancellationToken));
+        }
+
+        WriteSptOrderFile(list);
+        SaveActiveListState(new ActiveListState { Name = list.Name, ActivatedAt = DateTime.UtcNow });
+
+        _logger.LogInformation("Activated list '{ListName}': {Removed} removed, {Installed} installed or updated",
+            list.Name, result.Removed.Count, result.Results.Count(r => r.Success));
+        return result;
+    }
+
+    // Keeps the active list pointing at a renamed list
+    private void RenameActiveList(string oldName, string newName)
+    {
+        var state = LoadActiveListState();
+        if (state?.Name != null && string.Equals(state.Name, oldName, StringComparison.OrdinalIgnoreCase))
+        {
+            state.Name = newName;
+            SaveActiveListState(state);
+        }
+    }
+
+    private ActiveListState? LoadActiveListState()
+    {
+        var path = GetActiveListPath();
+        if (!File.Exists(path))
+            return null;
+
+        try
+        {
+            return JsonSerializer.Deserialize<ActiveListState>(File.ReadAllText(path));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable active list state");
+            return null;
+        }
+    }
+
+    private static void SaveActiveListState(ActiveListState state)
+    {
+        var json = JsonSerializer.Serialize(new { state.Name, state.ActivatedAt }, new JsonSerializerOptions { WriteIndented = true });
+        File.WriteAllText(GetActiveListPath(), json);
+    }
+
+    #endregion
+}
@@ -0,0 +1,99 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region List Diff
+
+    /// <summary>
+    /// Compares two lists: mods only one of them has, and mods both have at different versions.
+    /// </summary>
+    public ListDiff DiffLists(string leftName, string rightName)
+    {
+        var left = LoadList(leftName);
+        var right = LoadList(rightName);
+        var rightById = right.Mods.ToDictionary(m => m.Id);
+        var leftIds = left.Mods.Select(m => m.Id).ToHashSet();
+
+        var diff = new ListDiff
+        {
+            LeftList = left.Name,
+            RightList = right.Name,
+            LeftSptVersion = left.SelectedSptVersion,
+            RightSptVersion = right.SelectedSptVersion,
+            OnlyInRight = right.Mods.Where(m => !leftIds.Contains(m.Id)).ToList()
+        };
+
+        foreach (var mod in left.Mods)
+        {
+            if (!rightById.TryGetValue(mod.Id, out var other))
+            {
+                diff.OnlyInLeft.Add(mod);
+            }
+            else if (mod.Version != other.Version)
+            {
+                diff.VersionDifferences.Add(new ModVersionDifference
+                {
+                    ModId = mod.Id,
+                    ModName = mod.Name,
+                    Left = mod,
+                    Right = other,
+                    Comparison = SemverRange.Compare(mod.Version, other.Version)
+                });
+            }
+            else
+            {
+                diff.IdenticalCount++;
+            }
+        }
+
+        return diff;
+    }
+
+    /// <summary>
+    /// Copies mods from the source list into the target list. Mods the target already has take the
+    /// source's version; the others are appended. Nothing is installed, the target's mods just change.
+    /// </summary>
+    public (bool Success, string Message) CherryPickMods(string targetName, string sourceName, List<int> modIds)
+    {
+        var target = LoadList(targetName);
+        var source = LoadList(sourceName);
+
+        if (string.Equals(target.Name, source.Name, StringComparison.OrdinalIgnoreCase))
+            return (false, "Source and target are the same list");
+
+        var picked = source.Mods.Where(m => modIds.Contains(m.Id)).ToList();
+        if (picked.Count == 0)
+            return (false, $"None of the selected mods are in list '{source.Name}'");
+
+        int added = 0, updated = 0;
+        foreach (var mod in picked)
+        {
+            var index = target.Mods.FindIndex(m => m.Id == mod.Id);
+
+            // The enabled flag follows the shared install, not the list it came from
+            mod.Enabled = index >= 0 ? target.Mods[index].Enabled : !HasDisabledModFiles(mod.Id);
+
+            if (index >= 0)
+            {
+                target.Mods[index] = mod;
+                updated++;
+            }
+            else
+            {
+                target.Mods.Add(mod);
+                added++;
+            }
+        }
+
+        SaveList(target);
+
+        _logger.LogInformation(
+            "Cherry-picked {Added} new and {Updated} updated mods from '{Source}' into '{Target}'",
+            added, updated, source.Name, target.Name);
+        return (true, $"{added} mods added and {updated} updated in '{target.Name}' from '{source.Name}'");
+    }
+
+    #endregion
+}
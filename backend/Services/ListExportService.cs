@@ -0,0 +1,389 @@
+using ForgeModApi.Models;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region List Export
+
+    private static readonly HashSet<string> _exportModTypes = new() { "server", "client", "both", "unknown" };
+
+    /// <summary>
+    /// Builds the export of a list in the current schema, with each installed mod's checksum taken from its install manifest.
+    /// </summary>
+    public ModListExport ExportList(string listName)
+    {
+        var list = LoadList(listName);
+
+        return new ModListExport
+        {
+            ListName = list.Name,
+            SptVersion = list.SelectedSptVersion,
+            LoadOrder = list.LoadOrder.ToList(),
+            Mods = list.Mods.Select(mod => new ExportedMod
+            {
+                Id = mod.Id,
+                Name = mod.Name,
+                DetailUrl = mod.DetailUrl,
+                Version = mod.Version,
+                SptVersionConstraint = mod.SptVersionConstraint,
+                ModType = mod.ModType,
+                Enabled = mod.Enabled,
+                Pinned = mod.PinnedVersion != null,
+                InstallTarget = mod.InstallTarget,
+                Checksum = ComputeInstallChecksum(GetInstallManifest(mod.Id))
+            }).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Reads an export file of any known schema version, migrates it to the current one and validates every entry.
+    /// All problems are reported at once, each with the JSON path of the value at fault.
+    /// </summary>
+    public ImportValidation ValidateListImport(JsonNode? document)
+    {
+        var validation = new ImportValidation();
+
+        if (document is not JsonObject root)
+        {
+            validation.Errors.Add(new ImportValidationError { Path = "$", Message = "Expected a JSON object" });
+            return validation;
+        }
+
+        var version = ReadExportVersion(root, validation.Errors);
+        if (version == null)
+            return validation;
+
+        validation.SourceVersion = version.Value;
+        for (var v = version.Value; v < ModListExportSchema.CurrentVersion; v++)
+            root = MigrateExport(root, v);
+
+        validation.Export = ReadExport(root, validation.Errors);
+        return validation;
+    }
+
+    private static int? ReadExportVersion(JsonObject root, List<ImportValidationError> errors)
+    {
+        var format = root["format"];
+        var schemaVersion = root["schemaVersion"];
+
+        // Files without either field predate the versioned format
+        if (format == null && schemaVersion == null)
+            return ModListExportSchema.LegacyVersion;
+
+        if (!TryGetString(format, out var formatValue) || formatValue != ModListExportSchema.Format)
+            errors.Add(new ImportValidationError { Path = "format", Message = $"Expected \"{ModListExportSchema.Format}\"" });
+
+        if (!TryGetInt(schemaVersion, out var version) || version < ModListExportSchema.LegacyVersion)
+            errors.Add(new ImportValidationError { Path = "schemaVersion", Message = "Expected a positive integer" });
+        else if (version > ModListExportSchema.CurrentVersion)
+            errors.Add(new ImportValidationError
+            {
+                Path = "schemaVersion",
+                Message = $"Schema version {version} is newer than this TarkHub supports ({ModListExportSchema.CurrentVersion})"
+            });
+
+        return errors.Count == 0 ? version : null;
+    }
+
+    private ModListExport ReadExport(JsonObject root, List<ImportValidationError> errors)
+    {
+        var export = new ModListExport();
+
+        if (TryGetString(root["listName"], out var listName) && !string.IsNullOrWhiteSpace(listName))
+            export.ListName = listName.Trim();
+        else
+            errors.Add(new ImportValidationError { Path = "listName", Message = "Expected a non-empty string" });
+
+        if (root["sptVersion"] is JsonNode sptVersion)
+        {
+            if (TryGetString(sptVersion, out var value))
+                export.SptVersion = value;
+            else
+                errors.Add(new ImportValidationError { Path = "sptVersion", Message = "Expected a string" });
+        }
+
+        if (TryGetDate(root["exportedAt"], out var exportedAt))
+            export.ExportedAt = exportedAt;
+
+        if (root["mods"] is not JsonArray mods)
+        {
+            errors.Add(new ImportValidationError { Path = "mods", Message = "Expected an array" });
+            return export;
+        }
+
+        var seen = new Dictionary<int, int>();
+        for (var i = 0; i < mods.Count; i++)
+        {
+            var mod = ReadExportedMod(mods[i], $"mods[{i}]", errors);
+            if (mod == null)
+                continue;
+
+            if (seen.TryGetValue(mod.Id, out var first))
+            {
+                errors.Add(new ImportValidationError { Path = $"mods[{i}].id", Message = $"Mod {mod.Id} is already listed at mods[{first}]" });
+                continue;
+            }
+
+            seen[mod.Id] = i;
+            export.Mods.Add(mod);
+        }
+
+        if (root["loadOrder"] is JsonNode loadOrder)
+        {
+            if (loadOrder is not JsonArray ids)
+            {
+                errors.Add(new ImportValidationError { Path = "loadOrder", Message = "Expected an array of mod IDs" });
+                return export;
+            }
+
+            for (var i = 0; i < ids.Count; i++)
+            {
+                var path = $"loadOrder[{i}]";
+                if (!TryGetInt(ids[i], out var id))
+                    errors.Add(new ImportValidationError { Path = path, Message = "Expected a mod ID" });
+                else if (!seen.ContainsKey(id))
+                    errors.Add(new ImportValidationError { Path = path, Message = $"Mod {id} is not in the list" });
+                else if (export.LoadOrder.Contains(id))
+                    errors.Add(new ImportValidationError { Path = path, Message = $"Mod {id} appears more than once" });
+                else
+                    export.LoadOrder.Add(id);
+            }
+        }
+
+        return export;
+    }
+
+    private ExportedMod? ReadExportedMod(JsonNode? node, string path, List<ImportValidationError> errors)
+    {
+        if (node is not JsonObject entry)
+        {
+            errors.Add(new ImportValidationError { Path = path, Message = "Expected an object" });
+            return null;
+        }
+
+        var errorCount = errors.Count;
+        var mod = new ExportedMod();
+
+        string? urlId = null;
+        if (TryGetString(entry["detailUrl"], out var detailUrl) && (urlId = ExtractModIdFromUrl(detailUrl)) != null)
+            mod.DetailUrl = detailUrl;
+        else
+            errors.Add(new ImportValidationError { Path = $"{path}.detailUrl", Message = "Expected a Forge mod URL" });
+
+        if (!TryGetInt(entry["id"], out var id) || id <= 0)
+            errors.Add(new ImportValidationError { Path = $"{path}.id", Message = "Expected a positive integer" });
+        else if (urlId != null && urlId != id.ToString())
+            errors.Add(new ImportValidationError { Path = $"{path}.id", Message = $"Does not match the mod ID {urlId} in detailUrl" });
+        else
+            mod.Id = id;
+
+        mod.Name = ReadOptionalString(entry, "name", path, errors) ?? "";
+        mod.Version = ReadOptionalString(entry, "version", path, errors) ?? "";
+        mod.SptVersionConstraint = ReadOptionalString(entry, "sptVersionConstraint", path, errors) ?? "";
+
+        var modType = ReadOptionalString(entry, "modType", path, errors);
+        if (modType != null && !_exportModTypes.Contains(modType))
+            errors.Add(new ImportValidationError { Path = $"{path}.modType", Message = $"Expected one of {string.Join(", ", _exportModTypes)}" });
+        else
+            mod.ModType = modType ?? "unknown";
+
+        mod.Enabled = ReadOptionalBool(entry, "enabled", path, errors) ?? true;
+        mod.Pinned = ReadOptionalBool(entry, "pinned", path, errors) ?? false;
+        if (mod.Pinned && string.IsNullOrWhiteSpace(mod.Version))
+            errors.Add(new ImportValidationError { Path = $"{path}.version", Message = "A pinned mod needs a version" });
+
+        mod.InstallTarget = ReadOptionalInstallTarget(entry, path, errors);
+
+        var checksum = ReadOptionalString(entry, "checksum", path, errors);
+        if (checksum != null && (checksum.Length != 64 || !checksum.All(Uri.IsHexDigit)))
+            errors.Add(new ImportValidationError { Path = $"{path}.checksum", Message = "Expected a SHA-256 hex digest" });
+        else
+            mod.Checksum = checksum;
+
+        if (string.IsNullOrWhiteSpace(mod.Name))
+            mod.Name = $"Mod {mod.Id}";
+
+        return errors.Count == errorCount ? mod : null;
+    }
+
+    // Upgrades a document from the given schema version to the next one
+    private JsonObject MigrateExport(JsonObject document, int fromVersion) => fromVersion switch
+    {
+        ModListExportSchema.LegacyVersion => MigrateLegacyExport(document),
+        _ => throw new InvalidOperationException($"No migration from export schema version {fromVersion}")
+    };
+
+    // Version 1 files held whatever the list endpoint returned, in either casing, with the URL under several names
+    private JsonObject MigrateLegacyExport(JsonObject legacy)
+    {
+        var legacyMods = GetAny(legacy, "mods", "Mods");
+        JsonNode? mods = legacyMods?.DeepClone();
+        if (legacyMods is JsonArray legacyArray)
+        {
+            var migrated = new JsonArray();
+            mods = migrated;
+            foreach (var node in legacyArray)
+            {
+                if (node is not JsonObject mod)
+                {
+                    migrated.Add(node?.DeepClone());
+                    continue;
+                }
+
+                var detailUrl = GetAny(mod, "detailUrl", "url", "DetailUrl", "Url")?.DeepClone();
+                var id = GetAny(mod, "id", "Id")?.DeepClone();
+
+                // Hand-written legacy files often had only the URL
+                if (id == null && TryGetString(detailUrl, out var url) && ExtractModIdFromUrl(url) is string urlId)
+                    id = JsonValue.Create(int.Parse(urlId));
+
+                migrated.Add(new JsonObject
+                {
+                    ["id"] = id,
+                    ["name"] = GetAny(mod, "name", "Name")?.DeepClone(),
+                    ["detailUrl"] = detailUrl,
+                    ["version"] = GetAny(mod, "version", "Version")?.DeepClone(),
+                    ["sptVersionConstraint"] = GetAny(mod, "sptVersionConstraint", "SptVersionConstraint")?.DeepClone(),
+                    ["modType"] = GetAny(mod, "modType", "ModType")?.DeepClone(),
+                    ["enabled"] = GetAny(mod, "enabled", "Enabled")?.DeepClone()
+                });
+            }
+        }
+
+        return new JsonObject
+        {
+            ["format"] = ModListExportSchema.Format,
+            ["schemaVersion"] = ModListExportSchema.LegacyVersion + 1,
+            ["exportedAt"] = GetAny(legacy, "exportedAt", "ExportedAt")?.DeepClone(),
+            ["listName"] = GetAny(legacy, "listName", "Name", "name")?.DeepClone(),
+            ["sptVersion"] = GetAny(legacy, "selectedSptVersion", "SelectedSptVersion")?.DeepClone(),
+            ["mods"] = mods,
+            ["loadOrder"] = new JsonArray()
+        };
+    }
+
+    private static string? ComputeInstallChecksum(InstallManifest? manifest)
+    {
+        if (manifest == null || manifest.Files.Count == 0)
+            return null;
+
+        var lines = manifest.Files
+            .OrderBy(f => f.Path, StringComparer.Ordinal)
+            .Select(f => $"{f.Path}\t{f.Sha256}\n");
+
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(string.Concat(lines)))).ToLowerInvariant();
+    }
+
+    private static string? ReadOptionalString(JsonObject entry, string name, string path, List<ImportValidationError> errors)
+    {
+        var node = entry[name];
+        if (node == null)
+            return null;
+
+        if (TryGetString(node, out var value))
+            return value;
+
+        errors.Add(new ImportValidationError { Path = $"{path}.{name}", Message = "Expected a string" });
+        return null;
+    }
+
+    private static bool? ReadOptionalBool(JsonObject entry, string name, string path, List<ImportValidationError> errors)
+    {
+        var node = entry[name];
+        if (node == null)
+            return null;
+
+        if (node.GetValueKind() is JsonValueKind.True or JsonValueKind.False)
+            return node.GetValue<bool>();
+
+        errors.Add(new ImportValidationError { Path = $"{path}.{name}", Message = "Expected true or false" });
+        return null;
+    }
+
+    private InstallTarget? ReadOptionalInstallTarget(JsonObject entry, string path, List<ImportValidationError> errors)
+    {
+        var node = entry["installTarget"];
+        if (node == null)
+            return null;
+
+        if (node is not JsonObject obj)
+        {
+            errors.Add(new ImportValidationError { Path = $"{path}.installTarget", Message = "Expected an object or null" });
+            return null;
+        }
+
+        var errorCount = errors.Count;
+        var target = new InstallTarget
+        {
+            Kind = ReadOptionalString(obj, "kind", $"{path}.installTarget", errors) ?? "",
+            Path = ReadOptionalString(obj, "path", $"{path}.installTarget", errors)
+        };
+
+        if (obj["mapping"] is JsonObject mapping)
+        {
+            target.Mapping = new Dictionary<string, string>();
+            foreach (var (folder, destination) in mapping)
+            {
+                if (TryGetString(destination, out var value))
+                    target.Mapping[folder] = value;
+                else
+                    errors.Add(new ImportValidationError { Path = $"{path}.installTarget.mapping.{folder}", Message = "Expected a string" });
+            }
+        }
+        else if (obj["mapping"] != null)
+        {
+            errors.Add(new ImportValidationError { Path = $"{path}.installTarget.mapping", Message = "Expected an object" });
+        }
+
+        if (errors.Count != errorCount)
+            return null;
+
+        if (ValidateInstallTarget(target) is string error)
+        {
+            errors.Add(new ImportValidationError { Path = $"{path}.installTarget", Message = error });
+            return null;
+        }
+
+        return target;
+    }
+
+    private static JsonNode? GetAny(JsonObject obj, params string[] names)
+    {
+        foreach (var name in names)
+        {
+            if (obj[name] is JsonNode node)
+                return node;
+        }
+        return null;
+    }
+
+    private static bool TryGetString(JsonNode? node, out string value)
+    {
+        value = "";
+        if (node is not JsonValue jsonValue || !jsonValue.TryGetValue(out string? text))
+            return false;
+
+        value = text;
+        return true;
+    }
+
+    private static bool TryGetInt(JsonNode? node, out int value)
+    {
+        value = 0;
+        return node is JsonValue jsonValue && node.GetValueKind() == JsonValueKind.Number && jsonValue.TryGetValue(out value);
+    }
+
+    private static bool TryGetDate(JsonNode? node, out DateTime value)
+    {
+        value = default;
+        return TryGetString(node, out var text) &&
+            DateTime.TryParse(text, null, System.Globalization.DateTimeStyles.RoundtripKind, out value);
+    }
+
+    #endregion
+}
@@ -0,0 +1,108 @@
+using ForgeModApi.Models;
+using System.Text.Json.Nodes;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region List Import
+
+    /// <summary>
+    /// Imports an export file as a new list. Every mod is resolved against Forge concurrently, pinned ones at their
+    /// pinned release, and the list is only written when all of them resolve; otherwise the per-mod report is returned
+    /// and nothing is created. Throws <see cref="InvalidOperationException"/> when the list name is taken.
+    /// </summary>
+    public async Task<ListImportResult> ImportListAsync(JsonNode? document)
+    {
+        var validation = ValidateListImport(document);
+        var result = new ListImportResult
+        {
+            SourceVersion = validation.SourceVersion,
+            Errors = validation.Errors
+        };
+
+        if (!validation.Valid || validation.Export == null)
+            return result;
+
+        var export = validation.Export;
+        result.ListName = export.ListName;
+        if (ListExists(export.ListName))
+            throw new InvalidOperationException($"List '{export.ListName}' already exists");
+
+        var resolved = await Task.WhenAll(export.Mods.Select((entry, index) => ResolveImportedModAsync(entry, index)));
+        result.Mods = resolved.Select(r => r.Result).ToList();
+
+        var failed = result.Mods.Count(m => !m.Success);
+        if (failed > 0)
+        {
+            _logger.LogWarning("Import of list '{ListName}' aborted: {Failed} of {Count} mods could not be resolved",
+                export.ListName, failed, result.Mods.Count);
+            return result;
+        }
+
+        WriteNewList(new ModList
+        {
+            Name = export.ListName,
+            SelectedSptVersion = export.SptVersion,
+            Mods = resolved.Select(r => r.Mod!).ToList(),
+            LoadOrder = export.LoadOrder
+        });
+
+        result.Success = true;
+        _logger.LogInformation("Imported list '{ListName}' with {Count} mods", export.ListName, result.Mods.Count);
+        return result;
+    }
+
+    private async Task<(ImportedModResult Result, Mod? Mod)> ResolveImportedModAsync(ExportedMod entry, int index)
+    {
+        var result = new ImportedModResult
+        {
+            Index = index,
+            ModId = entry.Id,
+            ModName = entry.Name,
+            Version = entry.Version
+        };
+
+        try
+        {
+            var mod = await FetchModDataAsync(entry.Id.ToString());
+            if (mod == null)
+            {
+                result.Error = "Not found on Forge or API error";
+                return (result, null);
+            }
+
+            if (entry.Pinned)
+            {
+                var release = await FindModReleaseAsync(entry.Id, entry.Version);
+                if (release == null)
+                {
+                    result.Error = $"Pinned version {entry.Version} is no longer on Forge";
+                    return (result, null);
+                }
+
+                ApplyModRelease(mod, release);
+                mod.PinnedVersion = release.Version;
+            }
+
+            mod.ModType = entry.ModType;
+            mod.InstallTarget = entry.InstallTarget;
+
+            // The enabled flag follows the shared install, not the list it came from
+            mod.Enabled = !HasDisabledModFiles(mod.Id);
+
+            result.ModName = mod.Name;
+            result.Version = mod.Version;
+            result.Success = true;
+            return (result, mod);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to resolve mod {ModId} for import", entry.Id);
+            result.Error = ex.Message;
+            return (result, null);
+        }
+    }
+
+    #endregion
+}
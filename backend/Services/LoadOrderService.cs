@@ -0,0 +1,202 @@
+using ForgeModApi.Models;
+using System.Text.Json;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Load Order
+
+    private const string ServerModsPath = "SPT/user/mods";
+
+    private string GetSptOrderFilePath() => Path.Combine(_sptServerDir, "SPT", "user", "mods", "order.json");
+
+    /// <summary>
+    /// Returns the list's server mods in load order, each with the requirements it declares in its
+    /// package.json, and a warning for every requirement the current order breaks. Mods missing from
+    /// the saved order follow it in list order.
+    /// </summary>
+    public LoadOrder GetLoadOrder(string listName)
+    {
+        var list = LoadList(listName);
+        var entries = BuildLoadOrderEntries(list);
+
+        return new LoadOrder
+        {
+            ListName = list.Name,
+            Entries = entries,
+            Warnings = FindLoadOrderViolations(entries)
+        };
+    }
+
+    /// <summary>
+    /// Saves a new load order for the list and rewrites the SPT order file from it.
+    /// IDs that are not server mods of the list are dropped.
+    /// </summary>
+    public LoadOrder UpdateLoadOrder(string listName, List<int> modIds)
+    {
+        var list = LoadList(listName);
+        list.LoadOrder = modIds.Distinct().Where(id => list.Mods.Any(m => m.Id == id)).ToList();
+        SaveList(list);
+
+        WriteSptOrderFile(list);
+        return GetLoadOrder(listName);
+    }
+
+    /// <summary>
+    /// Writes SPT's user/mods/order.json with the folders of the list's installed, enabled server mods.
+    /// </summary>
+    private void WriteSptOrderFile(ModList list)
+    {
+        try
+        {
+            var folders = BuildLoadOrderEntries(list)
+                .Where(entry => entry.Folder != null && entry.Enabled)
+                .Select(entry => entry.Folder!)
+                .ToList();
+
+            var path = GetSptOrderFilePath();
+            Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+            var json = JsonSerializer.Serialize(new { order = folders }, new JsonSerializerOptions { WriteIndented = true });
+            File.WriteAllText(path, json);
+
+            _logger.LogInformation("Wrote SPT load order for list '{ListName}': {Count} mods", list.Name, folders.Count);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to write SPT load order for list '{ListName}'", list.Name);
+        }
+    }
+
+    private void WriteSptOrderFile(string listName)
+    {
+        try
+        {
+            WriteSptOrderFile(LoadList(listName));
+        }
+        catch (FileNotFoundException)
+        {
+            _logger.LogWarning("List '{ListName}' not found, SPT load order not written", listName);
+        }
+    }
+
+    private List<LoadOrderEntry> BuildLoadOrderEntries(ModList list)
+    {
+        var entries = new List<LoadOrderEntry>();
+        foreach (var mod in list.Mods)
+        {
+            var folder = GetServerModFolder(mod.Id);
+            if (folder == null && mod.ModType != "server" && mod.ModType != "both")
+                continue;
+
+            var entry = new LoadOrderEntry { ModId = mod.Id, ModName = mod.Name, Folder = folder, Enabled = mod.Enabled };
+            if (folder != null)
+                ReadModPackageRequirements(entry);
+
+            entries.Add(entry);
+        }
+
+        var positions = list.LoadOrder
+            .Select((modId, index) => (modId, index))
+            .ToDictionary(p => p.modId, p => p.index);
+
+        // Stable sort: mods without a saved position keep their list order after the ordered ones
+        return entries
+            .Select((entry, index) => (entry, index))
+            .OrderBy(p => positions.TryGetValue(p.entry.ModId, out var position) ? position : int.MaxValue)
+            .ThenBy(p => p.index)
+            .Select(p => p.entry)
+            .ToList();
+    }
+
+    // The mod's folder directly under user/mods, taken from the files its install manifest recorded
+    private string? GetServerModFolder(int modId)
+    {
+        var manifest = GetInstallManifest(modId);
+        if (manifest == null)
+            return null;
+
+        var prefix = ServerModsPath + "/";
+        return manifest.Files
+            .Where(file => file.Path.StartsWith(prefix, StringComparison.Ordinal))
+            .Select(file => file.Path[prefix.Length..].Split('/'))
+            .Where(segments => segments.Length > 1)
+            .Select(segments => segments[0])
+            .FirstOrDefault();
+    }
+
+    private void ReadModPackageRequirements(LoadOrderEntry entry)
+    {
+        var packagePath = GetInstalledPath($"{ServerModsPath}/{entry.Folder}/package.json");
+        if (packagePath == null || !File.Exists(packagePath))
+            return;
+
+        try
+        {
+            using var doc = JsonDocument.Parse(File.ReadAllText(packagePath));
+            var root = doc.RootElement;
+
+            if (root.TryGetProperty("name", out var name) && name.ValueKind == JsonValueKind.String)
+                entry.PackageName = name.GetString();
+
+            entry.LoadAfter = ReadStringArray(root, "loadAfter");
+            entry.LoadBefore = ReadStringArray(root, "loadBefore");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable package.json for mod '{ModName}'", entry.ModName);
+        }
+    }
+
+    private static List<string> ReadStringArray(JsonElement root, string property)
+    {
+        if (!root.TryGetProperty(property, out var value) || value.ValueKind != JsonValueKind.Array)
+            return new List<string>();
+
+        return value.EnumerateArray()
+            .Where(item => item.ValueKind == JsonValueKind.String)
+            .Select(item => item.GetString()!)
+            .ToList();
+    }
+
+    // Requirements name other mods by package name or folder; names not in the list, or disabled, are ignored
+    private static List<LoadOrderWarning> FindLoadOrderViolations(List<LoadOrderEntry> entries)
+    {
+        int IndexOf(string name) => entries.FindIndex(e => e.Enabled && (
+            string.Equals(e.PackageName, name, StringComparison.OrdinalIgnoreCase) ||
+            string.Equals(e.Folder, name, StringComparison.OrdinalIgnoreCase)));
+
+        var warnings = new List<LoadOrderWarning>();
+        for (var i = 0; i < entries.Count; i++)
+        {
+            var entry = entries[i];
+
+            foreach (var name in entry.LoadAfter)
+            {
+                var other = IndexOf(name);
+                if (other > i)
+                    warnings.Add(CreateLoadOrderWarning(entry, entries[other], LoadOrderRule.LoadAfter));
+            }
+
+            foreach (var name in entry.LoadBefore)
+            {
+                var other = IndexOf(name);
+                if (other >= 0 && other < i)
+                    warnings.Add(CreateLoadOrderWarning(entry, entries[other], LoadOrderRule.LoadBefore));
+            }
+        }
+
+        return warnings;
+    }
+
+    private static LoadOrderWarning CreateLoadOrderWarning(LoadOrderEntry entry, LoadOrderEntry other, string rule) => new()
+    {
+        ModId = entry.ModId,
+        ModName = entry.ModName,
+        Rule = rule,
+        OtherModId = other.ModId,
+        OtherModName = other.ModName
+    };
+
+    #endregion
+}
@@ -0,0 +1,217 @@
+using ForgeModApi.Models;
+using System.Text.RegularExpressions;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Server Logs
+
+    private const int MaxLogPageSize = 2000;
+
+    // Lines read before the page so a stack trace cut by the page start still gets its exception
+    private const int LogLookBehind = 50;
+
+    // Folder and assembly names shorter than this match too much unrelated text
+    private const int MinModTokenLength = 4;
+
+    private static readonly Regex _logErrorPattern = new(
+        @"\b(error|exception|fatal|unhandled|failed)\b|^\[(Error|Fatal)\s*:",
+        RegexOptions.IgnoreCase | RegexOptions.Compiled);
+
+    private static readonly Regex _logWarningPattern = new(
+        @"\bwarn(ing)?\b|^\[Warning\s*:",
+        RegexOptions.IgnoreCase | RegexOptions.Compiled);
+
+    // .NET and Node stack frames, and the separators between inner and outer exceptions
+    private static readonly Regex _stackFramePattern = new(
+        @"^\s+at\s|^\s*---\s|^\s*(Inner exception|Caused by)",
+        RegexOptions.IgnoreCase | RegexOptions.Compiled);
+
+    /// <summary>
+    /// Lists the SPT server logs and the BepInEx logs of the server directory, newest first.
+    /// </summary>
+    public List<LogFile> GetLogFiles()
+    {
+        var files = new List<LogFile>();
+
+        var sptLogsDir = Path.Combine(_sptServerDir, "SPT", "user", "logs");
+        if (Directory.Exists(sptLogsDir))
+        {
+            foreach (var path in Directory.GetFiles(sptLogsDir, "*.log", SearchOption.AllDirectories))
+                files.Add(CreateLogFile(path, LogSource.Spt));
+        }
+
+        var bepInExDir = Path.Combine(_sptServerDir, "BepInEx");
+        if (Directory.Exists(bepInExDir))
+        {
+            foreach (var path in Directory.GetFiles(bepInExDir, "*.log", SearchOption.TopDirectoryOnly))
+                files.Add(CreateLogFile(path, LogSource.BepInEx));
+        }
+
+        return files.OrderByDescending(file => file.ModifiedAt).ToList();
+    }
+
+    /// <summary>
+    /// Reads a page of a log file. Without an offset the page is the tail of the file.
+    /// Exceptions and their stack traces are flagged as errors and, when a list is given,
+    /// attributed to the list's mod whose folder or assembly name appears in them.
+    /// </summary>
+    public LogPage ReadLogPage(string relativePath, int? offset, int limit, string? listName)
+    {
+        if (!GetLogFiles().Any(file => file.Path == relativePath))
+            throw new FileNotFoundException("Log file not found", relativePath);
+
+        var lines = ReadSharedLines(GetInstalledPath(relativePath)!);
+        limit = Math.Clamp(limit, 1, MaxLogPageSize);
+        var start = Math.Clamp(offset ?? lines.Count - limit, 0, Math.Max(lines.Count - 1, 0));
+        var end = Math.Min(start + limit, lines.Count);
+
+        var scanStart = Math.Max(0, start - LogLookBehind);
+        var classified = ClassifyLogLines(lines, scanStart, end, GetModLogTokens(listName));
+
+        return new LogPage
+        {
+            Path = relativePath,
+            Offset = start,
+            TotalLines = lines.Count,
+            Lines = classified.Skip(start - scanStart).ToList()
+        };
+    }
+
+    private LogFile CreateLogFile(string fullPath, string source)
+    {
+        var info = new FileInfo(fullPath);
+        return new LogFile
+        {
+            Path = GetRelativeInstallPath(fullPath),
+            Source = source,
+            Name = info.Name,
+            SizeBytes = info.Length,
+            ModifiedAt = info.LastWriteTimeUtc
+        };
+    }
+
+    // The server keeps its log open for writing, so read without locking it
+    private static List<string> ReadSharedLines(string fullPath)
+    {
+        using var stream = new FileStream(fullPath, FileMode.Open, FileAccess.Read, FileShare.ReadWrite | FileShare.Delete);
+        using var reader = new StreamReader(stream);
+
+        var lines = new List<string>();
+        string? line;
+        while ((line = reader.ReadLine()) != null)
+            lines.Add(line);
+
+        return lines;
+    }
+
+    // Folder and assembly names of the list's installed mods, longest first so specific names win
+    private List<(string Token, Mod Mod)> GetModLogTokens(string? listName)
+    {
+        if (string.IsNullOrEmpty(listName))
+            return new();
+
+        ModList list;
+        try
+        {
+            list = LoadList(listName);
+        }
+        catch (FileNotFoundException)
+        {
+            return new();
+        }
+
+        var tokens = new List<(string Token, Mod Mod)>();
+        foreach (var mod in list.Mods)
+        {
+            var manifest = GetInstallManifest(mod.Id);
+            if (manifest == null)
+                continue;
+
+            var names = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+            foreach (var file in manifest.Files)
+            {
+                var segments = file.Path.Split('/');
+
+                if (file.Path.StartsWith(ServerModsPath + "/", StringComparison.Ordinal) && segments.Length > 4)
+                    names.Add(segments[3]);
+
+                if (file.Path.StartsWith("BepInEx/plugins/", StringComparison.Ordinal) && segments.Length > 3)
+                    names.Add(segments[2]);
+
+                if (file.Path.EndsWith(".dll", StringComparison.OrdinalIgnoreCase))
+                    names.Add(Path.GetFileNameWithoutExtension(file.Path));
+            }
+
+            tokens.AddRange(names
+                .Where(name => name.Length >= MinModTokenLength)
+                .Select(name => (name, mod)));
+        }
+
+        return tokens.OrderByDescending(t => t.Token.Length).ToList();
+    }
+
+    private static List<LogLine> ClassifyLogLines(List<string> lines, int start, int end, List<(string Token, Mod Mod)> modTokens)
+    {
+        var result = new List<LogLine>();
+        var block = new List<LogLine>();
+
+        void CloseBlock()
+        {
+            var owner = FindLogOwner(block, modTokens);
+            if (owner != null)
+            {
+                foreach (var line in block)
+                {
+                    line.ModId = owner.Id;
+                    line.ModName = owner.Name;
+                }
+            }
+            block.Clear();
+        }
+
+        for (var i = start; i < end; i++)
+        {
+            var line = new LogLine { Number = i + 1, Text = lines[i] };
+
+            if (block.Count > 0 && _stackFramePattern.IsMatch(line.Text))
+            {
+                line.Level = LogLineLevel.Error;
+                block.Add(line);
+            }
+            else
+            {
+                CloseBlock();
+
+                if (_logErrorPattern.IsMatch(line.Text))
+                {
+                    line.Level = LogLineLevel.Error;
+                    block.Add(line);
+                }
+                else if (_logWarningPattern.IsMatch(line.Text))
+                {
+                    line.Level = LogLineLevel.Warning;
+                }
+            }
+
+            result.Add(line);
+        }
+
+        CloseBlock();
+        return result;
+    }
+
+    private static Mod? FindLogOwner(List<LogLine> block, List<(string Token, Mod Mod)> modTokens)
+    {
+        foreach (var (token, mod) in modTokens)
+        {
+            if (block.Any(line => line.Text.Contains(token, StringComparison.OrdinalIgnoreCase)))
+                return mod;
+        }
+
+        return null;
+    }
+
+    #endregion
+}
@@ -60,13 +60,21 @@ public partial class ModService
                 : "";
 
             string contentLengthMB = "0 MB";
+            long? contentLengthBytes = null;
             if (latestVersion.TryGetProperty("content_length", out var contentLengthElement))
             {
                 var bytes = contentLengthElement.GetInt64();
                 var megabytes = bytes / (1024.0 * 1024.0);
                 contentLengthMB = $"{megabytes:F1} MB";
+                contentLengthBytes = bytes;
             }
 
+            DateTime? publishedAt = latestVersion.TryGetProperty("published_at", out var publishedElement) &&
+                publishedElement.ValueKind == JsonValueKind.String &&
+                DateTime.TryParse(publishedElement.GetString(), out var parsedPublishedAt)
+                    ? parsedPublishedAt
+                    : null;
+
             var mod = new Mod
             {
                 Id = baseData.GetProperty("id").GetInt32(),
@@ -83,7 +91,10 @@ public partial class ModService
                     ? teaser.GetString() ?? ""
                     : "",
                 DownloadUrl = downloadUrl,
-                ContentLength = contentLengthMB
+                ContentLength = contentLengthMB,
+                ContentLengthBytes = contentLengthBytes,
+                UpdatedAt = publishedAt,
+                Dependencies = await FetchModDependenciesAsync(modId, latestVersionString)
             };
 
             var modJson = JsonSerializer.Serialize(mod);
@@ -98,6 +109,145 @@ public partial class ModService
         }
     }
 
+    public async Task<List<ModVersion>> FetchModVersionsAsync(string modId)
+    {
+        var versions = new List<ModVersion>();
+
+        try
+        {
+            var page = 1;
+            var lastPage = 1;
+
+            do
+            {
+                var url = $"https://forge.sp-tarkov.com/api/v0/mod/{modId}/versions?page={page}";
+                var content = await FetchWithCacheAndRetryAsync(url);
+                if (string.IsNullOrEmpty(content))
+                    break;
+
+                using var doc = JsonDocument.Parse(content);
+                if (doc.RootElement.TryGetProperty("meta", out var meta) &&
+                    meta.TryGetProperty("last_page", out var lastPageElement))
+                {
+                    lastPage = lastPageElement.GetInt32();
+                }
+
+                foreach (var item in doc.RootElement.GetProperty("data").EnumerateArray())
+                {
+                    var contentLength = "";
+                    long? contentLengthBytes = null;
+                    if (item.TryGetProperty("content_length", out var lengthElement) && lengthElement.TryGetInt64(out var bytes))
+                    {
+                        contentLength = $"{bytes / (1024.0 * 1024.0):F1} MB";
+                        contentLengthBytes = bytes;
+                    }
+
+                    versions.Add(new ModVersion
+                    {
+                        Version = item.TryGetProperty("version", out var v) ? v.GetString() ?? "" : "",
+                        SptVersionConstraint = item.TryGetProperty("spt_version_constraint", out var spt)
+                            ? spt.GetString() ?? "N/A"
+                            : "N/A",
+                        DownloadUrl = item.TryGetProperty("link", out var link) ? link.GetString() ?? "" : "",
+                        ContentLength = contentLength,
+                        ContentLengthBytes = contentLengthBytes,
+                        PublishedAt = item.TryGetProperty("published_at", out var published) &&
+                            published.ValueKind == JsonValueKind.String &&
+                            DateTime.TryParse(published.GetString(), out var publishedAt)
+                                ? publishedAt
+                                : null,
+                        Description = item.TryGetProperty("description", out var description) &&
+                            description.ValueKind == JsonValueKind.String
+                                ? description.GetString() ?? ""
+                                : ""
+                    });
+                }
+
+                page++;
+            } while (page <= lastPage);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fetching versions for mod {ModId}", modId);
+        }
+
+        return versions
+            .Where(v => !string.IsNullOrEmpty(v.Version))
+            .OrderByDescending(v => v.Version, Comparer<string>.Create(SemverRange.Compare))
+            .ToList();
+    }
+
+    private async Task<List<ModDependency>> FetchModDependenciesAsync(string modId, string version)
+    {
+        try
+        {
+            var url = $"https://forge.sp-tarkov.com/api/v0/mod/{modId}/versions?filter[version]={Uri.EscapeDataString(version)}&include=dependencies";
+            var content = await FetchWithCacheAndRetryAsync(url);
+            if (string.IsNullOrEmpty(content))
+                return new List<ModDependency>();
+
+            using var doc = JsonDocument.Parse(content);
+            var dependencies = new List<ModDependency>();
+
+            foreach (var versionElement in doc.RootElement.GetProperty("data").EnumerateArray())
+            {
+                if (versionElement.TryGetProperty("version", out var v) && v.GetString() != version)
+                    continue;
+
+                if (!versionElement.TryGetProperty("dependencies", out var deps) || deps.ValueKind != JsonValueKind.Array)
+                    continue;
+
+                foreach (var dep in deps.EnumerateArray())
+                {
+                    var dependency = ParseModDependency(dep);
+                    if (dependency != null && dependencies.All(d => d.ModId != dependency.ModId))
+                        dependencies.Add(dependency);
+                }
+            }
+
+            return dependencies;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Could not fetch dependencies for mod {ModId} version {Version}", modId, version);
+            return new List<ModDependency>();
+        }
+    }
+
+    private static ModDependency? ParseModDependency(JsonElement dep)
+    {
+        var modElement = dep.TryGetProperty("mod", out var m) && m.ValueKind == JsonValueKind.Object ? m : dep;
+
+        int modId;
+        if (dep.TryGetProperty("mod_id", out var idElement) && idElement.TryGetInt32(out var directId))
+            modId = directId;
+        else if (modElement.TryGetProperty("id", out var nestedId) && nestedId.TryGetInt32(out var parsedId))
+            modId = parsedId;
+        else
+            return null;
+
+        var constraint = dep.TryGetProperty("constraint", out var c) ? c.GetString() : null;
+
+        string? resolvedVersion = null;
+        foreach (var key in new[] { "resolved_version", "latest_compatible_version" })
+        {
+            if (dep.TryGetProperty(key, out var resolved) && resolved.ValueKind == JsonValueKind.Object &&
+                resolved.TryGetProperty("version", out var rv))
+            {
+                resolvedVersion = rv.GetString();
+                break;
+            }
+        }
+
+        return new ModDependency
+        {
+            ModId = modId,
+            Name = modElement.TryGetProperty("name", out var n) ? n.GetString() ?? $"Mod {modId}" : $"Mod {modId}",
+            Constraint = string.IsNullOrWhiteSpace(constraint) ? "*" : constraint,
+            ResolvedVersion = resolvedVersion
+        };
+    }
+
     public async Task<List<SptVersion>> GetSptVersionsAsync()
     {
         var cacheKey = GetSptVersionsCacheKey();
@@ -10,18 +10,20 @@ public partial class ModService
 {
     #region Mod Download and Installation - Simplified Logic
     
-    public async Task<DownloadResult> DownloadAndExtractModAsync(string listName, int modId, bool forceDownload = false)
+    public async Task<DownloadResult> DownloadAndExtractModAsync(string listName, int modId, bool forceDownload = false, bool overwriteConflicts = false, string? operationId = null, CancellationToken cancellationToken = default)
     {
         string? tempDir = null;
+        Mod? mod = null;
         try
         {
             var list = LoadList(listName);
-            var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+            mod = list.Mods.FirstOrDefault(m => m.Id == modId);
             
             if (mod == null)
-                return new DownloadResult { Success = false, Message = "Mod not found in list" };
+                return new DownloadResult { Success = false, Message = "Mod not found in list", ModId = modId };
 
             _logger.LogInformation("Starting mod download: {ModName} (ID: {ModId})", mod.Name, mod.Id);
+            ReportDownloadProgress(operationId, mod, DownloadPhase.FetchingMetadata);
 
             if (!Directory.Exists(_sptServerDir))
             {
@@ -32,10 +34,12 @@ public partial class ModService
             if (!forceDownload && IsModInstalled(mod.Id, mod.Name))
             {
                 _logger.LogInformation("Mod {ModName} already installed, skipping download", mod.Name);
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Skipped, p => p.Message = "Already installed");
                 return new DownloadResult { 
                     Success = true, 
                     Message = $"Mod '{mod.Name}' already installed", 
-                    ModName = mod.Name 
+                    ModName = mod.Name,
+                    ModId = mod.Id
                 };
             }
 
@@ -44,7 +48,8 @@ public partial class ModService
             if (string.IsNullOrEmpty(downloadUrl))
             {
                 _logger.LogWarning("Download URL not available for {ModName}", mod.Name);
-                return new DownloadResult { Success = false, Message = "Download URL not available for this mod" };
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Failed, p => p.Message = "Download URL not available");
+                return new DownloadResult { Success = false, Message = "Download URL not available for this mod", ModName = mod.Name, ModId = mod.Id };
             }
 
             tempDir = Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString());
@@ -58,20 +63,35 @@ public partial class ModService
                 httpClient.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", _apiKey);
                 httpClient.DefaultRequestHeaders.Add("User-Agent", "TarkHub/1.0");
                 
-                var response = await httpClient.GetAsync(downloadUrl);
+                using var response = await httpClient.GetAsync(downloadUrl, HttpCompletionOption.ResponseHeadersRead, cancellationToken);
                 
                 if (!response.IsSuccessStatusCode)
                 {
                     _logger.LogError("Download error: {StatusCode}", response.StatusCode);
+                    ReportDownloadProgress(operationId, mod, DownloadPhase.Failed, p => p.Message = $"HTTP {(int)response.StatusCode}");
                     return new DownloadResult { 
                         Success = false, 
-                        Message = $"File download error: {response.StatusCode}" 
+                        Message = $"File download error: {response.StatusCode}",
+                        ModName = mod.Name,
+                        ModId = mod.Id
                     };
                 }
 
-                await using var stream = await response.Content.ReadAsStreamAsync();
+                var totalBytes = response.Content.Headers.ContentLength;
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Downloading, p =>
+                {
+                    p.BytesReceived = 0;
+                    p.TotalBytes = totalBytes;
+                });
+
+                await using var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
                 await using var fileStream = new FileStream(tempFilePath, FileMode.Create);
-                await stream.CopyToAsync(fileStream);
+                await CopyWithProgressAsync(stream, fileStream, bytes =>
+                    ReportDownloadProgress(operationId, mod, DownloadPhase.Downloading, p =>
+                    {
+                        p.BytesReceived = bytes;
+                        p.TotalBytes = totalBytes;
+                    }), cancellationToken);
             }
 
             _logger.LogInformation("Download completed: {FileSize} bytes", new FileInfo(tempFilePath).Length);
@@ -79,6 +99,8 @@ public partial class ModService
             var extractDir = Path.Combine(tempDir, "extract");
             Directory.CreateDirectory(extractDir);
 
+            cancellationToken.ThrowIfCancellationRequested();
+            ReportDownloadProgress(operationId, mod, DownloadPhase.Extracting);
             await ExtractArchiveFile(tempFilePath, extractDir);
 
             var modType = DetermineModType(extractDir);
@@ -94,17 +116,75 @@ public partial class ModService
             
             _logger.LogInformation("Mod structure - SPT: {HasSPT}, BepInEx: {HasBepInEx}", hasSPT, hasBepInEx);
 
+            cancellationToken.ThrowIfCancellationRequested();
+
             if (hasSPT || hasBepInEx)
             {
                 RenameModFolders(extractDir, mod.Name);
-                
-                CopyDirectoryContents(extractDir, _sptServerDir);
+
+                var conflicts = FindFileConflicts(mod.Id, extractDir, _sptServerDir);
+                if (conflicts.Count > 0 && !overwriteConflicts)
+                {
+                    _logger.LogWarning("Mod '{ModName}' would overwrite {Count} files of other mods, confirmation required", mod.Name, conflicts.Count);
+                    ReportDownloadProgress(operationId, mod, DownloadPhase.AwaitingChoice, p => p.Message = $"{conflicts.Count} file conflict(s), confirmation required");
+                    return new DownloadResult {
+                        Success = false,
+                        Message = "FILE_CONFLICTS",
+                        ModName = mod.Name,
+                        ModId = mod.Id,
+                        Conflicts = conflicts
+                    };
+                }
+
+                var target = hasSPT && hasBepInEx
+                    ? "SPT/user/mods, BepInEx/plugins"
+                    : hasSPT ? "SPT/user/mods" : "BepInEx/plugins";
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Installing, p => p.Target = target);
+
+                InstallWithManifest(mod, extractDir, _sptServerDir);
                 _logger.LogInformation("Mod '{ModName}' installed with standard structure", mod.Name);
-                
+
+                if (hasSPT)
+                    WriteSptOrderFile(list);
+
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Completed);
+                return new DownloadResult { 
+                    Success = true, 
+                    Message = $"Mod '{mod.Name}' downloaded and installed successfully!",
+                    ModName = mod.Name,
+                    ModId = mod.Id
+                };
+            }
+            // A mapping that matches nothing in this release is asked again, like a mod without a saved target
+            else if (mod.InstallTarget != null && GetInstallTargetPaths(mod.InstallTarget, mod.Name, extractDir) is { Count: > 0 } targetPaths)
+            {
+                var conflicts = FindFileConflicts(mod.Id, targetPaths);
+                if (conflicts.Count > 0 && !overwriteConflicts)
+                {
+                    _logger.LogWarning("Mod '{ModName}' would overwrite {Count} files of other mods, confirmation required", mod.Name, conflicts.Count);
+                    ReportDownloadProgress(operationId, mod, DownloadPhase.AwaitingChoice, p => p.Message = $"{conflicts.Count} file conflict(s), confirmation required");
+                    return new DownloadResult {
+                        Success = false,
+                        Message = "FILE_CONFLICTS",
+                        ModName = mod.Name,
+                        ModId = mod.Id,
+                        Conflicts = conflicts
+                    };
+                }
+
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Installing, p => p.Target = mod.InstallTarget.Kind == InstallTargetKind.Mapped
+                    ? DescribeInstallTarget(mod.InstallTarget)
+                    : GetRelativeInstallPath(GetInstallTargetDir(mod.InstallTarget, mod.Name)));
+
+                InstallToTarget(mod, mod.Name, extractDir, mod.InstallTarget, listName);
+                _logger.LogInformation("Mod '{ModName}' installed with its saved install target", mod.Name);
+
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Completed);
                 return new DownloadResult { 
                     Success = true, 
                     Message = $"Mod '{mod.Name}' downloaded and installed successfully!",
-                    ModName = mod.Name
+                    ModName = mod.Name,
+                    ModId = mod.Id
                 };
             }
             else
@@ -115,20 +195,35 @@ public partial class ModService
                 CopyDirectoryContents(extractDir, pendingDir);
                 
                 _logger.LogWarning("Mod '{ModName}' has non-standard structure, pending user choice", mod.Name);
+                ReportDownloadProgress(operationId, mod, DownloadPhase.AwaitingChoice, p => p.Message = "Non-standard structure, installation location required");
 
                 return new DownloadResult { 
                     Success = true,
                     Message = "MOD_STRUCTURE_CHOICE_NEEDED",
                     ModName = mod.Name,
+                    ModId = mod.Id,
                     requiresUserChoice = true,
                     TempExtractPath = pendingDir
                 };  
             }
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Download of mod {ModId} cancelled", modId);
+            if (mod != null)
+            {
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Cancelled);
+            }
+            return new DownloadResult { Success = false, Message = "Cancelled", ModName = mod?.Name, ModId = modId };
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error downloading mod");
-            return new DownloadResult { Success = false, Message = $"Error: {ex.Message}" };
+            if (mod != null)
+            {
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Failed, p => p.Message = ex.Message);
+            }
+            return new DownloadResult { Success = false, Message = $"Error: {ex.Message}", ModName = mod?.Name, ModId = modId };
         }
         finally
         {
@@ -146,6 +241,28 @@ public partial class ModService
         }
     }
 
+    private static async Task CopyWithProgressAsync(Stream source, Stream destination, Action<long> onProgress, CancellationToken cancellationToken)
+    {
+        var buffer = new byte[81920];
+        long totalRead = 0;
+        var lastReport = DateTime.UtcNow;
+        int read;
+
+        while ((read = await source.ReadAsync(buffer, cancellationToken)) > 0)
+        {
+            await destination.WriteAsync(buffer.AsMemory(0, read), cancellationToken);
+            totalRead += read;
+
+            if ((DateTime.UtcNow - lastReport).TotalMilliseconds >= 250)
+            {
+                onProgress(totalRead);
+                lastReport = DateTime.UtcNow;
+            }
+        }
+
+        onProgress(totalRead);
+    }
+
     private string DetermineModType(string extractDir)
     {
         try
@@ -319,36 +436,58 @@ public partial class ModService
         }
     }
 
-    public bool CompleteModInstallation(string modName, string tempExtractPath, bool installAsServerMod)
+    /// <summary>
+    /// Installs a mod left in pending_installation to the chosen target and remembers the choice for its next install.
+    /// </summary>
+    public DownloadResult CompleteModInstallation(string modName, string tempExtractPath, InstallTarget target, int? modId = null, string? listName = null, bool overwriteConflicts = false)
     {
         try
         {
-            var targetBaseDir = installAsServerMod 
-                ? Path.Combine(_sptServerDir, "SPT", "user", "mods", GetSafeFileName(modName))
-                : Path.Combine(_sptServerDir, "BepInEx", "plugins", GetSafeFileName(modName));
+            var mod = FindModInLists(modId, modName);
 
-            var parentDir = Path.GetDirectoryName(targetBaseDir);
-            if (!string.IsNullOrEmpty(parentDir) && !Directory.Exists(parentDir))
+            var conflicts = FindFileConflicts(mod?.Id ?? modId ?? 0, GetInstallTargetPaths(target, modName, tempExtractPath));
+            if (conflicts.Count > 0 && !overwriteConflicts)
             {
-                Directory.CreateDirectory(parentDir);
+                // The archive stays pending so the install can be retried once the conflicts are confirmed
+                _logger.LogWarning("Mod '{ModName}' would overwrite {Count} files of other mods, confirmation required", modName, conflicts.Count);
+                return new DownloadResult {
+                    Success = false,
+                    Message = "FILE_CONFLICTS",
+                    ModName = modName,
+                    ModId = mod?.Id ?? modId,
+                    Conflicts = conflicts
+                };
             }
 
-            SafeDeleteDirectory(targetBaseDir);
-            CopyDirectoryContents(tempExtractPath, targetBaseDir);
-            
+            InstallToTarget(mod, modName, tempExtractPath, target, listName);
+            RememberInstallTarget(mod?.Id ?? modId, modName, target, tempExtractPath);
             SafeDeleteDirectory(tempExtractPath);
-            
-            var modType = installAsServerMod ? "server" : "client";
-            UpdateModTypeInAllLists(modName, modType);
-            
-            _logger.LogInformation("Mod '{ModName}' installed as {ModType} mod", modName, installAsServerMod ? "server" : "client");
-            return true;
+            return new DownloadResult { Success = true, Message = $"Mod '{modName}' installed successfully", ModName = modName, ModId = mod?.Id ?? modId };
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot install {ModName} to the chosen target: {Reason}", modName, ex.Message);
+            return new DownloadResult { Success = false, Message = ex.Message, ModName = modName, ModId = modId };
         }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error completing mod installation for {ModName}", modName);
-            return false;
+            return new DownloadResult { Success = false, Message = "Failed to complete installation", ModName = modName, ModId = modId };
+        }
+    }
+
+    private Mod? FindModInLists(int? modId, string modName)
+    {
+        foreach (var list in LoadAllLists())
+        {
+            var mod = modId.HasValue
+                ? list.Mods.FirstOrDefault(m => m.Id == modId.Value)
+                : list.Mods.FirstOrDefault(m => m.Name == modName);
+            if (mod != null)
+                return mod;
         }
+
+        return null;
     }
 
     private void UpdateModTypeInAllLists(string modName, string modType)
@@ -373,27 +512,155 @@ public partial class ModService
         }
     }
 
-    public async Task<List<DownloadResult>> DownloadAllModsAsync(string listName, bool forceDownload = false)
+    public async Task<List<DownloadResult>> DownloadAllModsAsync(string listName, bool forceDownload = false, string? operationId = null, CancellationToken cancellationToken = default)
     {
         var list = LoadList(listName);
         var results = new List<DownloadResult>();
+        var total = list.Mods.Count;
+
+        for (var i = 0; i < total; i++)
+        {
+            var index = i + 1;
+            ReportDownloadProgress(operationId, list.Mods[i], DownloadPhase.Queued, p =>
+            {
+                p.Index = index;
+                p.Total = total;
+            });
+        }
 
         foreach (var mod in list.Mods)
         {
+            if (cancellationToken.IsCancellationRequested)
+            {
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Cancelled);
+                results.Add(new DownloadResult { Success = false, Message = "Cancelled", ModName = mod.Name, ModId = mod.Id });
+                continue;
+            }
+
             if (!forceDownload && IsModInstalled(mod.Id, mod.Name))
             {
                 results.Add(new DownloadResult { 
                     Success = true, 
                     Message = $"Mod '{mod.Name}' already installed", 
-                    ModName = mod.Name 
+                    ModName = mod.Name,
+                    ModId = mod.Id
                 });
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Skipped, p => p.Message = "Already installed");
                 _logger.LogInformation("Mod {ModName} already installed, skipping download", mod.Name);
                 continue;
             }
 
-            var result = await DownloadAndExtractModAsync(listName, mod.Id, forceDownload);
+            var result = await DownloadAndExtractModAsync(listName, mod.Id, forceDownload, false, operationId, cancellationToken);
             results.Add(result);
-            await Task.Delay(1000);
+
+            try
+            {
+                await Task.Delay(1000, cancellationToken);
+            }
+            catch (OperationCanceledException)
+            {
+                // Remaining mods are marked as cancelled on the next iterations
+            }
+        }
+
+        return results;
+    }
+
+    /// <summary>
+    /// Refreshes a mod's metadata from Forge and reinstalls it even when already installed.
+    /// Returns a null mod when it is not part of the list.
+    /// </summary>
+    public async Task<(Mod? Mod, DownloadResult Result)> ForceUpdateModAsync(string listName, int modId, bool overwriteConflicts = false, string? operationId = null, CancellationToken cancellationToken = default)
+    {
+        var previous = LoadList(listName).Mods.FirstOrDefault(m => m.Id == modId);
+
+        // If the update check fails, fall back to the data already in the list
+        var updatedMod = await CheckSingleModUpdateAsync(listName, modId) ?? previous;
+
+        if (updatedMod == null)
+            return (null, new DownloadResult { Success = false, Message = "Mod not found", ModId = modId });
+
+        // The download reads the new release from the list, so the entry is moved back when its files didn't get installed.
+        // An archive waiting for a structure choice is the new release, and choosing a location installs it.
+        var result = await DownloadAndExtractModAsync(listName, modId, true, overwriteConflicts, operationId, cancellationToken);
+        if (result.Success || previous == null || previous.Version == updatedMod.Version)
+            return (updatedMod, result);
+
+        return (RestoreModRelease(listName, previous) ?? updatedMod, result);
+    }
+
+    // Puts the release and pending notes of a snapshot back on the list entry, keeping the newer release on offer
+    private Mod? RestoreModRelease(string listName, Mod previous)
+    {
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == previous.Id);
+        if (mod == null)
+            return null;
+
+        mod.Version = previous.Version;
+        mod.SptVersionConstraint = previous.SptVersionConstraint;
+        mod.DownloadUrl = previous.DownloadUrl;
+        mod.ContentLength = previous.ContentLength;
+        mod.ContentLengthBytes = previous.ContentLengthBytes;
+        mod.UpdatedAt = previous.UpdatedAt;
+        mod.Changelog = previous.Changelog;
+        SaveList(list);
+
+        _logger.LogInformation("Update of '{ModName}' not installed, list keeps version {Version}", mod.Name, mod.Version);
+        return mod;
+    }
+
+    /// <summary>
+    /// Force-updates several mods of the list one after the other, with one result per mod.
+    /// Mods needing a structure choice or conflict resolution are left for the caller, as in DownloadAllModsAsync.
+    /// </summary>
+    public async Task<List<DownloadResult>> UpdateModsAsync(string listName, IEnumerable<int> modIds, string? operationId = null, CancellationToken cancellationToken = default)
+    {
+        var list = LoadList(listName);
+        var ids = modIds.Distinct().ToList();
+        var results = new List<DownloadResult>();
+
+        for (var i = 0; i < ids.Count; i++)
+        {
+            var mod = list.Mods.FirstOrDefault(m => m.Id == ids[i]);
+            if (mod == null)
+                continue;
+
+            var index = i + 1;
+            ReportDownloadProgress(operationId, mod, DownloadPhase.Queued, p =>
+            {
+                p.Index = index;
+                p.Total = ids.Count;
+            });
+        }
+
+        foreach (var modId in ids)
+        {
+            var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+            if (mod == null)
+            {
+                results.Add(new DownloadResult { Success = false, Message = "Mod not found", ModId = modId });
+                continue;
+            }
+
+            if (cancellationToken.IsCancellationRequested)
+            {
+                ReportDownloadProgress(operationId, mod, DownloadPhase.Cancelled);
+                results.Add(new DownloadResult { Success = false, Message = "Cancelled", ModName = mod.Name, ModId = mod.Id });
+                continue;
+            }
+
+            var (_, result) = await ForceUpdateModAsync(listName, modId, false, operationId, cancellationToken);
+            results.Add(result);
+
+            try
+            {
+                await Task.Delay(1000, cancellationToken);
+            }
+            catch (OperationCanceledException)
+            {
+                // Remaining mods are marked as cancelled on the next iterations
+            }
         }
 
         return results;
@@ -401,6 +668,12 @@ public partial class ModService
 
     public bool IsModInstalled(int modId, string modName)
     {
+        var manifest = GetInstallManifest(modId);
+        if (manifest != null)
+            return HasDisabledModFiles(modId) ||
+                manifest.Files.Any(file => GetInstalledPath(file.Path) is { } path && File.Exists(path));
+
+        // Mods installed before manifests were recorded: fall back to the folder named after the mod
         var normalizedModName = GetSafeFileName(modName);
         
         var sptModsDir = Path.Combine(_sptServerDir, "SPT", "user", "mods", normalizedModName);
@@ -419,6 +692,20 @@ public partial class ModService
         try
         {
             _logger.LogInformation("Removing mod: {ModName}", modName);
+
+            var wasDisabled = HasDisabledModFiles(modId);
+            DiscardDisabledModFiles(modId);
+
+            var manifest = GetInstallManifest(modId);
+            if (manifest != null)
+            {
+                var (filesRemoved, directoriesRemoved) = RemoveManifestFiles(manifest);
+                DeleteInstallManifest(modId);
+                _logger.LogInformation("Mod '{ModName}' removed: {FileCount} files, {DirCount} directories",
+                    modName, filesRemoved, directoriesRemoved);
+                return filesRemoved > 0 || wasDisabled;
+            }
+
             var normalizedModName = GetSafeFileName(modName);
             var removed = false;
 
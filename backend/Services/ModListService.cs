@@ -128,6 +128,8 @@ public partial class ModService
                 File.Delete(oldFile);
             }
 
+            RenameActiveList(oldName, list.Name);
+
             return true;
         }
         catch
@@ -136,6 +138,59 @@ public partial class ModService
         }
     }
 
+    /// <summary>
+    /// Copies a list under a new name: its mods with their versions, SPT version and load order.
+    /// The copy is written to a temporary file and moved into place, so a name taken in the meantime
+    /// fails the call instead of overwriting that list.
+    /// </summary>
+    public ModList DuplicateList(string sourceName, string newName, bool installedOnly)
+    {
+        var source = LoadList(sourceName);
+        if (ListExists(newName))
+            throw new InvalidOperationException($"List '{newName}' already exists");
+
+        var mods = installedOnly
+            ? source.Mods.Where(m => IsModInstalled(m.Id, m.Name)).ToList()
+            : source.Mods;
+
+        var copy = new ModList
+        {
+            Name = newName.Trim(),
+            SelectedSptVersion = source.SelectedSptVersion,
+            UpdatePolicy = source.UpdatePolicy,
+            Mods = mods,
+            LoadOrder = source.LoadOrder.Where(id => mods.Any(m => m.Id == id)).ToList()
+        };
+
+        WriteNewList(copy);
+
+        _logger.LogInformation("Duplicated list '{Source}' as '{ListName}' with {Count} mods", source.Name, copy.Name, mods.Count);
+        return copy;
+    }
+
+    private bool ListExists(string name) => File.Exists(Path.Combine(_listsDir, NormalizeListName(name) + ".json"));
+
+    // Writes the list under a name that must not be taken yet, all at once so a failure leaves no partial file
+    private void WriteNewList(ModList list)
+    {
+        var filePath = Path.Combine(_listsDir, NormalizeListName(list.Name) + ".json");
+        var tempPath = filePath + ".tmp";
+        try
+        {
+            File.WriteAllText(tempPath, JsonSerializer.Serialize(list, new JsonSerializerOptions { WriteIndented = true }));
+            File.Move(tempPath, filePath, overwrite: false);
+        }
+        catch (IOException) when (File.Exists(filePath))
+        {
+            throw new InvalidOperationException($"List '{list.Name}' already exists");
+        }
+        finally
+        {
+            if (File.Exists(tempPath))
+                File.Delete(tempPath);
+        }
+    }
+
     public bool DeleteList(string name)
     {
         var normalizedName = NormalizeListName(name);
@@ -31,6 +31,106 @@ public partial class ModService
         return (true, "Mod added successfully", mod);
     }
 
+    public async Task<DependencyResolution?> ResolveModDependenciesAsync(string listName, string modUrl)
+    {
+        var modId = ExtractModIdFromUrl(modUrl);
+        if (modId == null)
+            return null;
+
+        var mod = await FetchModDataAsync(modId);
+        if (mod == null)
+            return null;
+
+        var list = LoadList(listName);
+        var resolution = new DependencyResolution { Mod = mod };
+        var visited = new HashSet<int>(list.Mods.Select(m => m.Id)) { mod.Id };
+        var queue = new Queue<Mod>();
+        queue.Enqueue(mod);
+
+        while (queue.Count > 0)
+        {
+            var parent = queue.Dequeue();
+            foreach (var dependency in parent.Dependencies)
+            {
+                if (!visited.Add(dependency.ModId))
+                    continue;
+
+                var dependencyMod = await FetchModDataAsync(dependency.ModId.ToString());
+                if (dependencyMod == null)
+                {
+                    _logger.LogWarning("Dependency {DependencyId} of '{ModName}' could not be fetched", dependency.ModId, parent.Name);
+                    continue;
+                }
+
+                var missing = new MissingDependency
+                {
+                    Mod = dependencyMod,
+                    Constraint = dependency.Constraint,
+                    RequiredBy = parent.Name
+                };
+
+                if (SemverRange.Satisfies(dependencyMod.Version, dependency.Constraint) == false)
+                {
+                    var release = (await FetchModVersionsAsync(dependencyMod.Id.ToString()))
+                        .Where(r => SemverRange.Satisfies(r.Version, dependency.Constraint) == true)
+                        .OrderByDescending(r => r.Version, Comparer<string>.Create(SemverRange.Compare))
+                        .FirstOrDefault();
+
+                    if (release == null)
+                    {
+                        _logger.LogWarning("No release of dependency '{DependencyName}' satisfies {Constraint} required by '{ModName}'",
+                            dependencyMod.Name, dependency.Constraint, parent.Name);
+                        resolution.UnresolvableDependencies.Add(missing);
+                        continue;
+                    }
+
+                    ApplyModRelease(dependencyMod, release);
+                }
+
+                resolution.MissingDependencies.Add(missing);
+                queue.Enqueue(dependencyMod);
+            }
+        }
+
+        return resolution;
+    }
+
+    public async Task<(bool Success, string Message, Mod? Mod, List<Mod> Dependencies)> AddModWithDependenciesAsync(string listName, string modUrl)
+    {
+        var resolution = await ResolveModDependenciesAsync(listName, modUrl);
+        if (resolution == null)
+            return (false, "Mod not found or API error", null, new List<Mod>());
+
+        var list = LoadList(listName);
+        var addedDependencies = new List<Mod>();
+
+        foreach (var missing in resolution.MissingDependencies)
+        {
+            if (list.Mods.Any(m => m.Id == missing.Mod.Id))
+                continue;
+
+            missing.Mod.ModType = "unknown";
+            list.Mods.Add(missing.Mod);
+            addedDependencies.Add(missing.Mod);
+        }
+
+        var mod = resolution.Mod;
+        var alreadyPresent = list.Mods.Any(m => m.Id == mod.Id);
+        if (!alreadyPresent)
+        {
+            mod.ModType = "unknown";
+            list.Mods.Add(mod);
+        }
+
+        SaveList(list);
+
+        _logger.LogInformation(
+            "Mod '{ModName}' added to list '{ListName}' with {Count} dependencies",
+            mod.Name, listName, addedDependencies.Count
+        );
+        return (true, alreadyPresent ? "Mod already exists in list" : "Mod added successfully", mod, addedDependencies);
+    }
+
     public bool RemoveModFromList(string listName, int modId)
     {
         var list = LoadList(listName);
@@ -59,25 +159,52 @@ public partial class ModService
     {
         var list = LoadList(listName);
         var updatedMods = new List<Mod>();
+        var changed = false;
 
-        foreach (var mod in list.Mods)
+        // Pinned mods stay at their release until unpinned, frozen ones aren't offered updates
+        foreach (var mod in list.Mods.Where(m => m.PinnedVersion == null && GetEffectiveUpdatePolicy(list, m) != UpdatePolicy.Frozen))
         {
             var updatedModData = await FetchModDataAsync(mod.Id.ToString());
-            if (updatedModData != null && updatedModData.Version != mod.Version)
+            if (updatedModData == null || updatedModData.Version == mod.Version)
+                continue;
+
+            // Only releases that run on the list's SPT version are offered
+            var releases = await FetchModVersionsAsync(mod.Id.ToString());
+            var candidates = releases.Count > 0
+                ? releases
+                : new List<ModVersion> { new() { Version = updatedModData.Version, SptVersionConstraint = updatedModData.SptVersionConstraint, DownloadUrl = updatedModData.DownloadUrl } };
+            var latest = FindCompatibleUpdate(list, candidates, mod.Version);
+
+            if (latest == null)
             {
-                mod.LatestVersion = updatedModData.Version;
-                mod.DownloadUrl = updatedModData.DownloadUrl;
-                updatedMods.Add(mod);
-                _logger.LogInformation(
-                    "Mod update found: {ModName} {CurrentVersion} -> {LatestVersion}", 
-                    mod.Name, mod.Version, mod.LatestVersion
-                );
+                _logger.LogInformation("No update of {ModName} runs on SPT {SptVersion}", mod.Name, list.SelectedSptVersion);
+                if (!string.IsNullOrEmpty(mod.LatestVersion))
+                {
+                    mod.LatestVersion = "";
+                    mod.LatestSptVersionConstraint = "";
+                    mod.Changelog.Clear();
+                    changed = true;
+                }
+                continue;
             }
+
+            mod.LatestVersion = latest.Version;
+            mod.LatestSptVersionConstraint = latest.SptVersionConstraint;
+            mod.DownloadUrl = latest.DownloadUrl;
+            mod.Changelog = BuildChangelog(releases, mod.Version, mod.LatestVersion);
+            updatedMods.Add(mod);
+            changed = true;
+            _logger.LogInformation(
+                "Mod update found: {ModName} {CurrentVersion} -> {LatestVersion}", 
+                mod.Name, mod.Version, mod.LatestVersion
+            );
         }
 
+        if (changed)
+            SaveList(list);
+
         if (updatedMods.Any())
         {
-            SaveList(list);
             _logger.LogInformation("Found {Count} mod updates in list '{ListName}'", updatedMods.Count, listName);
         }
 
@@ -97,14 +224,54 @@ public partial class ModService
                 var originalVersion = mod.Version;
                 
                 mod.Name = updatedMod.Name;
-                mod.Version = updatedMod.Version;
-                mod.SptVersionConstraint = updatedMod.SptVersionConstraint;
                 mod.DetailUrl = updatedMod.DetailUrl;
                 mod.Thumbnail = updatedMod.Thumbnail;
                 mod.Teaser = updatedMod.Teaser;
-                mod.LatestVersion = updatedMod.Version;
-                mod.DownloadUrl = updatedMod.DownloadUrl;
-                mod.ContentLength = updatedMod.ContentLength;
+
+                // A pinned mod is refreshed to its pinned release rather than the latest one
+                var pinnedRelease = mod.PinnedVersion != null
+                    ? await FindModReleaseAsync(modId, mod.PinnedVersion)
+                    : null;
+
+                if (pinnedRelease != null)
+                {
+                    ApplyModRelease(mod, pinnedRelease);
+                }
+                else if (mod.PinnedVersion == null)
+                {
+                    // Same choice as the update check, so the release offered is the one installed
+                    var releases = await FetchModVersionsAsync(modId.ToString());
+                    var target = releases.Count > 0
+                        ? FindCompatibleUpdate(list, releases, mod.Version)
+                        : null;
+
+                    if (target != null)
+                    {
+                        ApplyModRelease(mod, target);
+                        mod.LatestVersion = target.Version;
+                        mod.LatestSptVersionConstraint = target.SptVersionConstraint;
+                        mod.Changelog.Clear();
+                    }
+                    else if (releases.Count > 0)
+                    {
+                        // Nothing newer runs on the list's SPT version, so the installed release is kept
+                        mod.LatestVersion = "";
+                        mod.LatestSptVersionConstraint = "";
+                        mod.Changelog.Clear();
+                    }
+                    else
+                    {
+                        mod.Version = updatedMod.Version;
+                        mod.SptVersionConstraint = updatedMod.SptVersionConstraint;
+                        mod.LatestVersion = updatedMod.Version;
+                        mod.LatestSptVersionConstraint = updatedMod.SptVersionConstraint;
+                        mod.DownloadUrl = updatedMod.DownloadUrl;
+                        mod.ContentLength = updatedMod.ContentLength;
+                        mod.ContentLengthBytes = updatedMod.ContentLengthBytes;
+                        mod.UpdatedAt = updatedMod.UpdatedAt;
+                        mod.Changelog.Clear();
+                    }
+                }
                 
                 SaveList(list);
                 
@@ -120,5 +287,27 @@ public partial class ModService
         return null;
     }
 
+    /// <summary>
+    /// Newest release after currentVersion that runs on the list's SPT version, or null when there is none.
+    /// </summary>
+    private static ModVersion? FindCompatibleUpdate(ModList list, IEnumerable<ModVersion> releases, string currentVersion) =>
+        releases
+            .Where(r => SemverRange.Compare(r.Version, currentVersion) > 0)
+            .Where(r => list.SelectedSptVersion == "unknown" || SemverRange.Satisfies(list.SelectedSptVersion, r.SptVersionConstraint) != false)
+            .OrderByDescending(r => r.Version, Comparer<string>.Create(SemverRange.Compare))
+            .FirstOrDefault();
+
+    /// <summary>
+    /// Notes of the releases after fromVersion up to toVersion, newest first. When the versions can't be
+    /// ordered, only the notes of toVersion itself are returned.
+    /// </summary>
+    private static List<ModChangelogEntry> BuildChangelog(IEnumerable<ModVersion> releases, string fromVersion, string toVersion) =>
+        releases
+            .Where(r => r.Version == toVersion ||
+                (SemverRange.Compare(r.Version, fromVersion) > 0 && SemverRange.Compare(r.Version, toVersion) < 0))
+            .OrderByDescending(r => r.Version, Comparer<string>.Create(SemverRange.Compare))
+            .Select(r => new ModChangelogEntry { Version = r.Version, PublishedAt = r.PublishedAt, Notes = r.Description.Trim() })
+            .ToList();
+
     #endregion
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Version Pinning
+
+    /// <summary>
+    /// Holds a list entry at one of the mod's Forge releases, or releases the pin when version is null.
+    /// The entry's download then points at that release, so the next download or force update installs it.
+    /// </summary>
+    public async Task<(bool Success, string Message, Mod? Mod)> PinModVersionAsync(string listName, int modId, string? version)
+    {
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (mod == null)
+            return (false, "Mod not found", null);
+
+        if (string.IsNullOrWhiteSpace(version))
+        {
+            mod.PinnedVersion = null;
+            SaveList(list);
+            _logger.LogInformation("Mod '{ModName}' unpinned in list '{ListName}'", mod.Name, list.Name);
+            return (true, $"'{mod.Name}' is no longer pinned", mod);
+        }
+
+        var release = await FindModReleaseAsync(modId, version);
+        if (release == null)
+            return (false, $"Version {version} of '{mod.Name}' was not found on Forge", null);
+
+        ApplyModRelease(mod, release);
+        mod.PinnedVersion = release.Version;
+        mod.LatestVersion = "";
+        mod.LatestSptVersionConstraint = "";
+        mod.Changelog.Clear();
+        SaveList(list);
+
+        _logger.LogInformation("Mod '{ModName}' pinned to {Version} in list '{ListName}'", mod.Name, release.Version, list.Name);
+        return (true, $"'{mod.Name}' pinned to {release.Version}", mod);
+    }
+
+    private async Task<ModVersion?> FindModReleaseAsync(int modId, string version)
+    {
+        var releases = await FetchModVersionsAsync(modId.ToString());
+        return releases.FirstOrDefault(r => string.Equals(r.Version, version.Trim(), StringComparison.OrdinalIgnoreCase));
+    }
+
+    private static void ApplyModRelease(Mod mod, ModVersion release)
+    {
+        mod.Version = release.Version;
+        mod.SptVersionConstraint = release.SptVersionConstraint;
+        mod.DownloadUrl = release.DownloadUrl;
+        mod.ContentLength = release.ContentLength;
+        mod.ContentLengthBytes = release.ContentLengthBytes;
+        mod.UpdatedAt = release.PublishedAt;
+
+        // Notes of the releases the list has now reached are no longer pending
+        mod.Changelog.RemoveAll(entry => SemverRange.Compare(entry.Version, release.Version) <= 0);
+    }
+
+    #endregion
+}
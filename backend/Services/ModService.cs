@@ -17,6 +17,10 @@ public partial class ModService : IModService
     private readonly string _apiKey;
     private readonly string _listsDir;
     private readonly string _versionsDir;
+    private readonly string _manifestsDir;
+    private readonly string _snapshotsDir;
+    private readonly string _jobsDir;
+    private readonly string _disabledModsDir;
     private readonly string _sptServerDir;
     
     private readonly ConcurrentDictionary<string, (string Content, DateTime Expiry)> _apiCache;
@@ -65,6 +69,10 @@ public partial class ModService : IModService
 
         _listsDir = Path.Combine(AppContext.BaseDirectory, "user", "lists");
         _versionsDir = Path.Combine(AppContext.BaseDirectory, "user", "versions");
+        _manifestsDir = Path.Combine(AppContext.BaseDirectory, "user", "manifests");
+        _snapshotsDir = Path.Combine(AppContext.BaseDirectory, "user", "snapshots");
+        _jobsDir = Path.Combine(AppContext.BaseDirectory, "user", "jobs");
+        _disabledModsDir = Path.Combine(AppContext.BaseDirectory, "user", "disabled_mods");
         _sptServerDir = "/app/spt-server";
 
         _apiCache = new ConcurrentDictionary<string, (string, DateTime)>();
@@ -80,6 +88,14 @@ public partial class ModService : IModService
             Directory.CreateDirectory(_listsDir);
         if (!Directory.Exists(_versionsDir))
             Directory.CreateDirectory(_versionsDir);
+        if (!Directory.Exists(_manifestsDir))
+            Directory.CreateDirectory(_manifestsDir);
+        if (!Directory.Exists(_snapshotsDir))
+            Directory.CreateDirectory(_snapshotsDir);
+        if (!Directory.Exists(_jobsDir))
+            Directory.CreateDirectory(_jobsDir);
+        if (!Directory.Exists(_disabledModsDir))
+            Directory.CreateDirectory(_disabledModsDir);
         if (!Directory.Exists(_sptServerDir))
             Directory.CreateDirectory(_sptServerDir);
     }
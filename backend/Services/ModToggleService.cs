@@ -0,0 +1,144 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Mod Enable/Disable
+
+    private string GetDisabledModDir(int modId) => Path.Combine(_disabledModsDir, modId.ToString());
+
+    private bool HasDisabledModFiles(int modId)
+    {
+        var dir = GetDisabledModDir(modId);
+        return Directory.Exists(dir) && Directory.EnumerateFiles(dir, "*", SearchOption.AllDirectories).Any();
+    }
+
+    /// <summary>
+    /// Enables or disables an installed mod. Disabling moves the files recorded in its install manifest
+    /// out of the server directory into user/disabled_mods/&lt;modId&gt;; enabling moves them back.
+    /// The install is shared, so the flag is updated in every list that contains the mod.
+    /// </summary>
+    public (bool Success, string Message, Mod? Mod) SetModEnabled(string listName, int modId, bool enabled)
+    {
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (mod == null)
+            return (false, "Mod not found", null);
+
+        if (mod.Enabled == enabled)
+            return (true, $"Mod '{mod.Name}' is already {(enabled ? "enabled" : "disabled")}", mod);
+
+        var manifest = GetInstallManifest(modId);
+        try
+        {
+            if (!enabled)
+            {
+                if (manifest == null)
+                    return (false, $"Mod '{mod.Name}' has no recorded files; reinstall it before disabling", null);
+
+                var moved = MoveModFilesToDisabled(manifest);
+                _logger.LogInformation("Disabled mod '{ModName}': {Count} files moved out", mod.Name, moved);
+            }
+            else if (HasDisabledModFiles(modId))
+            {
+                var restored = RestoreDisabledModFiles(modId);
+                _logger.LogInformation("Enabled mod '{ModName}': {Count} files restored", mod.Name, restored);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to {Action} mod '{ModName}'", enabled ? "enable" : "disable", mod.Name);
+            return (false, $"Failed to {(enabled ? "enable" : "disable")} mod: {ex.Message}", null);
+        }
+
+        UpdateModEnabledInAllLists(modId, enabled);
+        WriteSptOrderFile(listName);
+
+        mod.Enabled = enabled;
+        return (true, $"Mod '{mod.Name}' {(enabled ? "enabled" : "disabled")}", mod);
+    }
+
+    private int MoveModFilesToDisabled(InstallManifest manifest)
+    {
+        var disabledDir = GetDisabledModDir(manifest.ModId);
+        var sharedPaths = LoadAllInstallManifests()
+            .Where(other => other.ModId != manifest.ModId)
+            .SelectMany(other => other.Files.Select(file => file.Path))
+            .ToHashSet(StringComparer.Ordinal);
+
+        var moved = 0;
+        foreach (var file in manifest.Files)
+        {
+            // Another mod needs this file too; leave it where it is
+            if (sharedPaths.Contains(file.Path))
+                continue;
+
+            var fullPath = GetInstalledPath(file.Path);
+            if (fullPath == null || !File.Exists(fullPath))
+                continue;
+
+            var destination = Path.Combine(disabledDir, file.Path.Replace('/', Path.DirectorySeparatorChar));
+            Directory.CreateDirectory(Path.GetDirectoryName(destination)!);
+            File.Move(fullPath, destination, overwrite: true);
+            moved++;
+        }
+
+        RemoveEmptyManifestDirectories(manifest);
+        return moved;
+    }
+
+    private int RestoreDisabledModFiles(int modId)
+    {
+        var disabledDir = GetDisabledModDir(modId);
+        var restored = 0;
+
+        foreach (var file in Directory.GetFiles(disabledDir, "*", SearchOption.AllDirectories))
+        {
+            var relativePath = Path.GetRelativePath(disabledDir, file).Replace(Path.DirectorySeparatorChar, '/');
+            var destination = GetInstalledPath(relativePath);
+            if (destination == null)
+                continue;
+
+            Directory.CreateDirectory(Path.GetDirectoryName(destination)!);
+            File.Move(file, destination, overwrite: true);
+            restored++;
+        }
+
+        SafeDeleteDirectory(disabledDir);
+        return restored;
+    }
+
+    // A reinstall or uninstall makes the parked files obsolete
+    private void DiscardDisabledModFiles(int modId)
+    {
+        var disabledDir = GetDisabledModDir(modId);
+        if (!Directory.Exists(disabledDir))
+            return;
+
+        SafeDeleteDirectory(disabledDir);
+        UpdateModEnabledInAllLists(modId, true);
+    }
+
+    private void UpdateModEnabledInAllLists(int modId, bool enabled)
+    {
+        try
+        {
+            foreach (var list in LoadAllLists())
+            {
+                var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+                if (mod != null && mod.Enabled != enabled)
+                {
+                    mod.Enabled = enabled;
+                    SaveList(list);
+                }
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error updating enabled state in lists for mod {ModId}", modId);
+        }
+    }
+
+    #endregion
+}
@@ -0,0 +1,226 @@
+using System.Text.RegularExpressions;
+
+namespace ForgeModApi.Services;
+
+/// <summary>
+/// Minimal semver range evaluator for Forge SPT constraints ("~3.9.0", ">=3.8.0 &lt;3.10", "^3.11 || 3.9.x").
+/// Mirrors frontend/src/utils/versionUtils.ts so both sides agree on compatibility.
+/// </summary>
+public static partial class SemverRange
+{
+    private readonly record struct SemVer(int Major, int Minor, int Patch, string[] Prerelease);
+
+    private readonly record struct Comparator(string Operator, SemVer Version);
+
+    [GeneratedRegex(@"^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$")]
+    private static partial Regex VersionRegex();
+
+    [GeneratedRegex(@"^(<=|>=|<|>|=|~>|~|\^)?\s*(.*)$")]
+    private static partial Regex OperatorRegex();
+
+    [GeneratedRegex(@"(<=|>=|<|>|=|~>|~|\^)\s+")]
+    private static partial Regex OperatorSpacingRegex();
+
+    [GeneratedRegex(@"^(\S+)\s+-\s+(\S+)$")]
+    private static partial Regex HyphenRangeRegex();
+
+    private static bool IsWildcard(Group group) =>
+        !group.Success || group.Value is "x" or "X" or "*";
+
+    private static SemVer? Parse(string? version)
+    {
+        if (string.IsNullOrWhiteSpace(version))
+            return null;
+
+        var match = VersionRegex().Match(version.Trim());
+        if (!match.Success || IsWildcard(match.Groups[1]))
+            return null;
+
+        return new SemVer(
+            int.Parse(match.Groups[1].Value),
+            IsWildcard(match.Groups[2]) ? 0 : int.Parse(match.Groups[2].Value),
+            IsWildcard(match.Groups[3]) ? 0 : int.Parse(match.Groups[3].Value),
+            match.Groups[4].Success ? match.Groups[4].Value.Split('.') : Array.Empty<string>());
+    }
+
+    private static int ComparePrerelease(string[] a, string[] b)
+    {
+        if (a.Length == 0 && b.Length == 0) return 0;
+        if (a.Length == 0) return 1;
+        if (b.Length == 0) return -1;
+
+        for (var i = 0; i < Math.Max(a.Length, b.Length); i++)
+        {
+            if (i >= a.Length) return -1;
+            if (i >= b.Length) return 1;
+            if (a[i] == b[i]) continue;
+
+            var aIsNumber = int.TryParse(a[i], out var aNumber);
+            var bIsNumber = int.TryParse(b[i], out var bNumber);
+            if (aIsNumber && bIsNumber) return aNumber.CompareTo(bNumber);
+            if (aIsNumber) return -1;
+            if (bIsNumber) return 1;
+            return string.CompareOrdinal(a[i], b[i]);
+        }
+
+        return 0;
+    }
+
+    private static int Compare(SemVer a, SemVer b)
+    {
+        if (a.Major != b.Major) return a.Major.CompareTo(b.Major);
+        if (a.Minor != b.Minor) return a.Minor.CompareTo(b.Minor);
+        if (a.Patch != b.Patch) return a.Patch.CompareTo(b.Patch);
+        return ComparePrerelease(a.Prerelease, b.Prerelease);
+    }
+
+    /// <summary>Compares two version strings; unparseable versions sort first.</summary>
+    public static int Compare(string? a, string? b)
+    {
+        var parsedA = Parse(a);
+        var parsedB = Parse(b);
+        if (parsedA == null || parsedB == null)
+            return (parsedA == null ? 0 : 1) - (parsedB == null ? 0 : 1);
+
+        return Math.Sign(Compare(parsedA.Value, parsedB.Value));
+    }
+
+    /// <summary>Whether <paramref name="to"/> is a later release with the same major and minor version.</summary>
+    public static bool IsPatchUpdate(string? from, string? to)
+    {
+        var parsedFrom = Parse(from);
+        var parsedTo = Parse(to);
+        if (parsedFrom == null || parsedTo == null)
+            return false;
+
+        return parsedFrom.Value.Major == parsedTo.Value.Major
+            && parsedFrom.Value.Minor == parsedTo.Value.Minor
+            && Compare(parsedTo.Value, parsedFrom.Value) > 0;
+    }
+
+    private static SemVer Make(int major, int minor = 0, int patch = 0) =>
+        new(major, minor, patch, Array.Empty<string>());
+
+    // Lowest prerelease of a version, so "<3.10.0" also excludes "3.10.0-beta"
+    private static SemVer Floor(SemVer version) => version with { Prerelease = new[] { "0" } };
+
+    private static List<Comparator>? ParseToken(string token)
+    {
+        if (token is "" or "x" or "X" or "*")
+            return new List<Comparator>();
+
+        var opMatch = OperatorRegex().Match(token);
+        var op = opMatch.Groups[1].Success ? opMatch.Groups[1].Value : "";
+        var parts = VersionRegex().Match(opMatch.Groups[2].Value);
+        if (!parts.Success)
+            return null;
+        if (IsWildcard(parts.Groups[1]))
+            return op is "<" or ">" ? null : new List<Comparator>();
+
+        var major = int.Parse(parts.Groups[1].Value);
+        int? minor = IsWildcard(parts.Groups[2]) ? null : int.Parse(parts.Groups[2].Value);
+        int? patch = IsWildcard(parts.Groups[3]) ? null : int.Parse(parts.Groups[3].Value);
+        var prerelease = parts.Groups[4].Success ? parts.Groups[4].Value.Split('.') : Array.Empty<string>();
+        var full = new SemVer(major, minor ?? 0, patch ?? 0, prerelease);
+
+        SemVer? partialUpper = minor == null
+            ? Make(major + 1)
+            : patch == null ? Make(major, minor.Value + 1) : null;
+
+        switch (op)
+        {
+            case "~":
+            case "~>":
+                return new List<Comparator>
+                {
+                    new(">=", full),
+                    new("<", Floor(minor == null ? Make(major + 1) : Make(major, minor.Value + 1)))
+                };
+
+            case "^":
+                SemVer upper;
+                if (major > 0 || minor == null) upper = Make(major + 1);
+                else if (minor > 0 || patch == null) upper = Make(0, minor.Value + 1);
+                else upper = Make(0, 0, patch.Value + 1);
+                return new List<Comparator> { new(">=", full), new("<", Floor(upper)) };
+
+            case ">":
+                return partialUpper != null
+                    ? new List<Comparator> { new(">=", partialUpper.Value) }
+                    : new List<Comparator> { new(">", full) };
+
+            case "<=":
+                return partialUpper != null
+                    ? new List<Comparator> { new("<", Floor(partialUpper.Value)) }
+                    : new List<Comparator> { new("<=", full) };
+
+            case "<":
+                return new List<Comparator> { new("<", Floor(full)) };
+
+            case ">=":
+                return new List<Comparator> { new(">=", full) };
+
+            default:
+                return partialUpper != null
+                    ? new List<Comparator> { new(">=", full), new("<", Floor(partialUpper.Value)) }
+                    : new List<Comparator> { new("=", full) };
+        }
+    }
+
+    private static List<List<Comparator>>? ParseRange(string range)
+    {
+        var groups = new List<List<Comparator>>();
+
+        foreach (var rawGroup in range.Split("||"))
+        {
+            var group = OperatorSpacingRegex().Replace(rawGroup.Trim(), "$1").Replace(',', ' ');
+
+            var hyphen = HyphenRangeRegex().Match(group);
+            var tokens = hyphen.Success
+                ? new[] { $">={hyphen.Groups[1].Value}", $"<={hyphen.Groups[2].Value}" }
+                : group.Split((char[]?)null, StringSplitOptions.RemoveEmptyEntries);
+
+            var comparators = new List<Comparator>();
+            foreach (var token in tokens)
+            {
+                var parsed = ParseToken(token);
+                if (parsed == null)
+                    return null;
+                comparators.AddRange(parsed);
+            }
+            groups.Add(comparators);
+        }
+
+        return groups;
+    }
+
+    private static bool Test(SemVer version, Comparator comparator)
+    {
+        var cmp = Compare(version, comparator.Version);
+        return comparator.Operator switch
+        {
+            "<" => cmp < 0,
+            "<=" => cmp <= 0,
+            ">" => cmp > 0,
+            ">=" => cmp >= 0,
+            _ => cmp == 0
+        };
+    }
+
+    /// <summary>
+    /// Returns whether <paramref name="version"/> satisfies <paramref name="range"/>,
+    /// or null when either side cannot be parsed (e.g. an "N/A" constraint).
+    /// </summary>
+    public static bool? Satisfies(string? version, string? range)
+    {
+        var parsedVersion = Parse(version);
+        if (parsedVersion == null || string.IsNullOrWhiteSpace(range) || range.Trim() == "N/A")
+            return null;
+
+        var groups = ParseRange(range.Trim());
+        if (groups == null)
+            return null;
+
+        return groups.Any(group => group.All(comparator => Test(parsedVersion.Value, comparator)));
+    }
+}
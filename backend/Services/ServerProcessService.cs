@@ -0,0 +1,295 @@
+using ForgeModApi.Models;
+using System.Diagnostics;
+using System.Text.RegularExpressions;
+using System.Threading.Channels;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Server Process
+
+    private const string SptProcessName = "SPT.Server.Linux";
+    private const int ServerConsoleCapacity = 2000;
+    private const string ServerStartingMessage = "Starting SPT server...";
+    private const string ServerExitedMessage = "Server process exited";
+
+    // Shared with scripts/build.sh, which stops the server by this PID when the container shuts down
+    private const string SptPidFilePath = "/tmp/spt-server.pid";
+
+    private static readonly Regex _ansiEscape = new(@"\x1B\[[0-9;?]*[ -/]*[@-~]", RegexOptions.Compiled);
+
+    private readonly SemaphoreSlim _serverProcessLock = new(1, 1);
+    private readonly LinkedList<ServerConsoleLine> _serverConsole = new();
+    private readonly List<Channel<ServerConsoleLine>> _serverConsoleSubscribers = new();
+    private Process? _sptProcess;
+    private long _serverConsoleSequence;
+
+    public async Task<(bool Success, string Message)> StartServerAsync()
+    {
+        await _serverProcessLock.WaitAsync();
+        try
+        {
+            if (IsSptServerRunning())
+                return (false, "SPT server is already running");
+
+            await StartSptServerAsync();
+            return (true, "SPT server started");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to start SPT server");
+            return (false, ex.Message);
+        }
+        finally
+        {
+            _serverProcessLock.Release();
+        }
+    }
+
+    public async Task<(bool Success, string Message)> StopServerAsync()
+    {
+        await _serverProcessLock.WaitAsync();
+        try
+        {
+            if (!IsSptServerRunning())
+                return (false, "SPT server is not running");
+
+            await StopSptServerAsync();
+            return IsSptServerRunning()
+                ? (false, "SPT server did not stop")
+                : (true, "SPT server stopped");
+        }
+        finally
+        {
+            _serverProcessLock.Release();
+        }
+    }
+
+    public async Task<(bool Success, string Message)> RestartServerAsync()
+    {
+        await _serverProcessLock.WaitAsync();
+        try
+        {
+            await StopSptServerAsync();
+            await StartSptServerAsync();
+            return (true, "SPT server restarted");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to restart SPT server");
+            return (false, ex.Message);
+        }
+        finally
+        {
+            _serverProcessLock.Release();
+        }
+    }
+
+    private bool IsManagedSptProcessRunning()
+    {
+        try
+        {
+            return _sptProcess != null && !_sptProcess.HasExited;
+        }
+        catch (InvalidOperationException)
+        {
+            return false;
+        }
+    }
+
+    private async Task StopSptServerAsync()
+    {
+        try
+        {
+            if (IsManagedSptProcessRunning())
+            {
+                try { _sptProcess!.Kill(entireProcessTree: true); } catch { }
+            }
+
+            foreach (var process in Process.GetProcessesByName(SptProcessName))
+            {
+                try { process.Kill(); } catch { }
+            }
+
+            var maxWaitTime = TimeSpan.FromSeconds(3);
+            var startTime = DateTime.UtcNow;
+
+            while (DateTime.UtcNow - startTime < maxWaitTime &&
+                Process.GetProcessesByName(SptProcessName).Length > 0)
+            {
+                await Task.Delay(100);
+            }
+
+            foreach (var process in Process.GetProcessesByName(SptProcessName))
+            {
+                try { process.Kill(); } catch { }
+            }
+
+            await Task.Delay(500);
+            AppendServerConsoleLine(ServerConsoleStream.System, "Server stopped");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error stopping SPT server");
+        }
+    }
+
+    private async Task StartSptServerAsync()
+    {
+        try
+        {
+            var sptPath = Path.Combine(_sptServerDir, "SPT", SptProcessName);
+            if (!File.Exists(sptPath))
+                throw new Exception($"{SptProcessName} not found");
+
+            var process = new Process
+            {
+                StartInfo = new ProcessStartInfo
+                {
+                    FileName = sptPath,
+                    Arguments = "--port 6970 --ip 0.0.0.0",
+                    WorkingDirectory = Path.Combine(_sptServerDir, "SPT"),
+                    UseShellExecute = false,
+                    CreateNoWindow = true,
+                    RedirectStandardOutput = true,
+                    RedirectStandardError = true
+                },
+                EnableRaisingEvents = true
+            };
+
+            process.OutputDataReceived += OnSptOutputDataReceived;
+            process.ErrorDataReceived += OnSptErrorDataReceived;
+            process.Exited += OnSptProcessExited;
+
+            AppendServerConsoleLine(ServerConsoleStream.System, ServerStartingMessage);
+            process.Start();
+            process.BeginOutputReadLine();
+            process.BeginErrorReadLine();
+
+            ReleaseSptProcess(_sptProcess);
+            _sptProcess = process;
+
+            File.WriteAllText(SptPidFilePath, process.Id.ToString());
+
+            await Task.Delay(1000);
+        }
+        catch (Exception ex)
+        {
+            AppendServerConsoleLine(ServerConsoleStream.System, $"Failed to start: {ex.Message}");
+            throw new Exception($"Error starting SPT server: {ex.Message}");
+        }
+    }
+
+    // Lines are passed through to the API's own output too, so they still reach the container log
+    private void OnSptOutputDataReceived(object sender, DataReceivedEventArgs e)
+    {
+        if (e.Data == null)
+            return;
+
+        Console.Out.WriteLine(e.Data);
+        AppendServerConsoleLine(ServerConsoleStream.Stdout, e.Data);
+    }
+
+    private void OnSptErrorDataReceived(object sender, DataReceivedEventArgs e)
+    {
+        if (e.Data == null)
+            return;
+
+        Console.Error.WriteLine(e.Data);
+        AppendServerConsoleLine(ServerConsoleStream.Stderr, e.Data);
+    }
+
+    private void OnSptProcessExited(object? sender, EventArgs e)
+    {
+        // The exit may be raised while a restart is already replacing and disposing this process
+        string exitCode;
+        try
+        {
+            exitCode = ((Process)sender!).ExitCode.ToString();
+        }
+        catch
+        {
+            exitCode = "unknown";
+        }
+
+        AppendServerConsoleLine(ServerConsoleStream.System, $"{ServerExitedMessage} with code {exitCode}");
+    }
+
+    private void ReleaseSptProcess(Process? process)
+    {
+        if (process == null)
+            return;
+
+        process.OutputDataReceived -= OnSptOutputDataReceived;
+        process.ErrorDataReceived -= OnSptErrorDataReceived;
+        process.Exited -= OnSptProcessExited;
+        process.Dispose();
+    }
+
+    private void AppendServerConsoleLine(string stream, string text)
+    {
+        lock (_serverConsoleSubscribers)
+        {
+            var line = new ServerConsoleLine
+            {
+                Id = ++_serverConsoleSequence,
+                Stream = stream,
+                Text = _ansiEscape.Replace(text, ""),
+                Timestamp = DateTime.UtcNow
+            };
+
+            _serverConsole.AddLast(line);
+            if (_serverConsole.Count > ServerConsoleCapacity)
+                _serverConsole.RemoveFirst();
+
+            foreach (var subscriber in _serverConsoleSubscribers)
+            {
+                subscriber.Writer.TryWrite(line);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Streams the buffered console output and then every new line as server-sent events until the client disconnects.
+    /// </summary>
+    public async Task StreamServerConsoleAsync(HttpResponse response, CancellationToken cancellationToken)
+    {
+        var channel = Channel.CreateUnbounded<ServerConsoleLine>();
+        List<ServerConsoleLine> backlog;
+
+        lock (_serverConsoleSubscribers)
+        {
+            backlog = _serverConsole.ToList();
+            _serverConsoleSubscribers.Add(channel);
+        }
+
+        try
+        {
+            await WriteSseEventAsync(response, "status", new { attached = IsManagedSptProcessRunning() }, cancellationToken);
+
+            foreach (var line in backlog)
+            {
+                await WriteSseEventAsync(response, "line", line, cancellationToken);
+            }
+
+            await foreach (var line in channel.Reader.ReadAllAsync(cancellationToken))
+            {
+                await WriteSseEventAsync(response, "line", line, cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogDebug("Server console stream closed by client");
+        }
+        finally
+        {
+            lock (_serverConsoleSubscribers)
+            {
+                _serverConsoleSubscribers.Remove(channel);
+            }
+        }
+    }
+
+    #endregion
+}
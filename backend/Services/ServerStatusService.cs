@@ -20,6 +20,7 @@ public partial class ModService
             {
                 SptVersion = sptVersion,
                 IsRunning = isRunning,
+                ConsoleAttached = IsManagedSptProcessRunning(),
                 Players = players,
                 Uptime = uptime,
                 Timestamp = DateTime.UtcNow
@@ -0,0 +1,221 @@
+using System.Text.Json;
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Update Snapshots
+
+    private const int MaxSnapshots = 10;
+    private const string SnapshotMetadataFile = "snapshot.json";
+    private const string SnapshotManifestFile = "manifest.json";
+
+    private string GetSnapshotDir(string snapshotId) => Path.Combine(_snapshotsDir, snapshotId);
+
+    public List<Snapshot> GetSnapshots()
+    {
+        var snapshots = new List<Snapshot>();
+        if (!Directory.Exists(_snapshotsDir))
+            return snapshots;
+
+        foreach (var dir in Directory.GetDirectories(_snapshotsDir))
+        {
+            var snapshot = LoadSnapshot(Path.GetFileName(dir));
+            if (snapshot != null)
+                snapshots.Add(snapshot);
+        }
+
+        return snapshots.OrderByDescending(s => s.CreatedAt).ToList();
+    }
+
+    private Snapshot? LoadSnapshot(string snapshotId)
+    {
+        if (string.IsNullOrWhiteSpace(snapshotId) || Path.GetFileName(snapshotId) != snapshotId)
+            return null;
+
+        var metadataPath = Path.Combine(GetSnapshotDir(snapshotId), SnapshotMetadataFile);
+        if (!File.Exists(metadataPath))
+            return null;
+
+        try
+        {
+            return JsonSerializer.Deserialize<Snapshot>(File.ReadAllText(metadataPath));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable snapshot {SnapshotId}", snapshotId);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Copies the files an update is about to overwrite into a new snapshot. Returns null when none
+    /// of them exist yet, i.e. there is nothing to roll back to.
+    /// </summary>
+    private Snapshot? CreateSnapshot(string kind, string label, string? version, IEnumerable<string> relativePaths, int? modId = null)
+    {
+        var snapshot = new Snapshot
+        {
+            Id = $"{DateTime.UtcNow:yyyyMMddHHmmss}-{kind}-{Guid.NewGuid().ToString("N")[..6]}",
+            Kind = kind,
+            Label = label,
+            ModId = modId,
+            Version = version
+        };
+
+        var snapshotDir = GetSnapshotDir(snapshot.Id);
+        var filesDir = Path.Combine(snapshotDir, "files");
+
+        foreach (var path in relativePaths.Distinct(StringComparer.Ordinal))
+        {
+            var fullPath = GetInstalledPath(path);
+            if (fullPath == null)
+                continue;
+
+            if (!File.Exists(fullPath))
+            {
+                snapshot.AddedFiles.Add(path);
+                continue;
+            }
+
+            var destination = Path.Combine(filesDir, path.Replace('/', Path.DirectorySeparatorChar));
+            Directory.CreateDirectory(Path.GetDirectoryName(destination)!);
+            File.Copy(fullPath, destination, true);
+
+            snapshot.Files.Add(path);
+            snapshot.SizeBytes += new FileInfo(destination).Length;
+        }
+
+        if (snapshot.Files.Count == 0)
+        {
+            if (Directory.Exists(snapshotDir))
+                Directory.Delete(snapshotDir, true);
+            return null;
+        }
+
+        if (modId.HasValue && File.Exists(GetManifestFilePath(modId.Value)))
+            File.Copy(GetManifestFilePath(modId.Value), Path.Combine(snapshotDir, SnapshotManifestFile), true);
+
+        var json = JsonSerializer.Serialize(snapshot, new JsonSerializerOptions { WriteIndented = true });
+        File.WriteAllText(Path.Combine(snapshotDir, SnapshotMetadataFile), json);
+
+        _logger.LogInformation("Created snapshot {SnapshotId} ({Label}): {FileCount} files, {Size} bytes",
+            snapshot.Id, label, snapshot.Files.Count, snapshot.SizeBytes);
+
+        PruneSnapshots();
+        return snapshot;
+    }
+
+    private void PruneSnapshots()
+    {
+        foreach (var snapshot in GetSnapshots().Skip(MaxSnapshots))
+        {
+            DeleteSnapshot(snapshot.Id);
+        }
+    }
+
+    public bool DeleteSnapshot(string snapshotId)
+    {
+        if (LoadSnapshot(snapshotId) == null)
+            return false;
+
+        SafeDeleteDirectory(GetSnapshotDir(snapshotId));
+        _logger.LogInformation("Deleted snapshot {SnapshotId}", snapshotId);
+        return true;
+    }
+
+    /// <summary>
+    /// Puts back the files of a snapshot, removes the files the update added and restarts the server.
+    /// </summary>
+    public async Task<(bool Success, string Message)> RestoreSnapshotAsync(string snapshotId)
+    {
+        var snapshot = LoadSnapshot(snapshotId);
+        if (snapshot == null)
+            return (false, "Snapshot not found");
+
+        var snapshotDir = GetSnapshotDir(snapshotId);
+
+        try
+        {
+            _logger.LogInformation("Restoring snapshot {SnapshotId} ({Label})", snapshot.Id, snapshot.Label);
+            await StopSptServerAsync();
+
+            foreach (var path in snapshot.AddedFiles)
+            {
+                var fullPath = GetInstalledPath(path);
+                if (fullPath != null && File.Exists(fullPath))
+                    File.Delete(fullPath);
+            }
+
+            foreach (var path in snapshot.Files)
+            {
+                var fullPath = GetInstalledPath(path);
+                if (fullPath == null)
+                    continue;
+
+                var source = Path.Combine(snapshotDir, "files", path.Replace('/', Path.DirectorySeparatorChar));
+                Directory.CreateDirectory(Path.GetDirectoryName(fullPath)!);
+                File.Copy(source, fullPath, true);
+            }
+
+            switch (snapshot.Kind)
+            {
+                case SnapshotKind.Spt when snapshot.Version != null:
+                    SaveSptVersion(snapshot.Version);
+                    break;
+
+                case SnapshotKind.Fika when snapshot.Version != null:
+                    SaveFikaVersion(snapshot.Version);
+                    break;
+
+                case SnapshotKind.Mod when snapshot.ModId.HasValue:
+                    RestoreModSnapshotState(snapshot, snapshotDir);
+                    break;
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to restore snapshot {SnapshotId}", snapshotId);
+            return (false, $"Restore failed: {ex.Message}");
+        }
+
+        try
+        {
+            await StartSptServerAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Snapshot {SnapshotId} restored but the server did not restart", snapshotId);
+            return (true, $"'{snapshot.Label}' restored, but the server could not be restarted: {ex.Message}");
+        }
+
+        return (true, $"'{snapshot.Label}' restored and server restarted");
+    }
+
+    private void RestoreModSnapshotState(Snapshot snapshot, string snapshotDir)
+    {
+        var modId = snapshot.ModId!.Value;
+        var savedManifest = Path.Combine(snapshotDir, SnapshotManifestFile);
+
+        if (File.Exists(savedManifest))
+            File.Copy(savedManifest, GetManifestFilePath(modId), true);
+        else
+            DeleteInstallManifest(modId);
+
+        if (snapshot.Version == null)
+            return;
+
+        foreach (var list in LoadAllLists())
+        {
+            var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+            if (mod == null || mod.Version == snapshot.Version)
+                continue;
+
+            mod.Version = snapshot.Version;
+            SaveList(list);
+        }
+    }
+
+    #endregion
+}
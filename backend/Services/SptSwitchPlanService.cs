@@ -0,0 +1,129 @@
+using System.Text;
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region SPT Version Switch Planning
+
+    public async Task<SptSwitchPlan> BuildSptSwitchPlanAsync(string listName, string targetSptVersion)
+    {
+        var list = LoadList(listName);
+        var plan = new SptSwitchPlan
+        {
+            ListName = list.Name,
+            CurrentSptVersion = list.SelectedSptVersion,
+            TargetSptVersion = targetSptVersion
+        };
+
+        foreach (var mod in list.Mods)
+        {
+            var item = new SptSwitchPlanItem
+            {
+                ModId = mod.Id,
+                ModName = mod.Name,
+                CurrentVersion = mod.Version,
+                CurrentConstraint = mod.SptVersionConstraint
+            };
+
+            var versions = await FetchModVersionsAsync(mod.Id.ToString());
+            var evaluated = versions
+                .Select(v => (Version: v, Compatible: SemverRange.Satisfies(targetSptVersion, v.SptVersionConstraint)))
+                .ToList();
+
+            var newestCompatible = evaluated.FirstOrDefault(v => v.Compatible == true).Version;
+
+            if (newestCompatible == null)
+            {
+                item.Action = evaluated.Any(v => v.Compatible == false)
+                    ? SptSwitchAction.NoCompatibleRelease
+                    : SptSwitchAction.Unknown;
+            }
+            else
+            {
+                var comparison = SemverRange.Compare(newestCompatible.Version, mod.Version);
+                item.Action = comparison == 0
+                    ? SptSwitchAction.Keep
+                    : comparison > 0 ? SptSwitchAction.Upgrade : SptSwitchAction.Downgrade;
+                item.TargetVersion = newestCompatible.Version;
+                item.TargetConstraint = newestCompatible.SptVersionConstraint;
+                item.DownloadUrl = newestCompatible.DownloadUrl;
+                item.ContentLength = newestCompatible.ContentLength;
+                item.ContentLengthBytes = newestCompatible.ContentLengthBytes;
+                item.PublishedAt = newestCompatible.PublishedAt;
+            }
+
+            plan.Items.Add(item);
+        }
+
+        plan.Hash = ComputeSptSwitchPlanHash(plan);
+
+        _logger.LogInformation(
+            "SPT switch plan for '{ListName}' to {TargetVersion}: {Changes} changes, {Blocking} without compatible release",
+            listName, targetSptVersion,
+            plan.Items.Count(i => i.Action is SptSwitchAction.Upgrade or SptSwitchAction.Downgrade),
+            plan.BlockingCount
+        );
+
+        return plan;
+    }
+
+    // Covers what applying changes, so the same releases on Forge give the same hash
+    private static string ComputeSptSwitchPlanHash(SptSwitchPlan plan)
+    {
+        var text = new StringBuilder($"{plan.ListName}|{plan.CurrentSptVersion}|{plan.TargetSptVersion}");
+        foreach (var item in plan.Items)
+            text.Append($"\n{item.ModId}|{item.CurrentVersion}|{item.Action}|{item.TargetVersion}|{item.TargetConstraint}|{item.DownloadUrl}");
+
+        return ComputeTextSha256(text.ToString());
+    }
+
+    /// <summary>
+    /// Applies the plan for <paramref name="targetSptVersion"/> if it still matches the reviewed one.
+    /// When the list or Forge changed since, nothing is applied and the new plan is returned for review.
+    /// </summary>
+    public async Task<(bool Success, string Message, SptSwitchPlan Plan, List<string> ReinstallRequired)> ApplySptSwitchPlanAsync(string listName, string targetSptVersion, string planHash)
+    {
+        var plan = await BuildSptSwitchPlanAsync(listName, targetSptVersion);
+        if (plan.Hash != planHash)
+        {
+            _logger.LogWarning("SPT switch plan for '{ListName}' changed since it was reviewed, not applied", listName);
+            return (false, "The plan changed since it was reviewed, check the updated plan before applying it", plan, new List<string>());
+        }
+
+        var list = LoadList(listName);
+        var reinstallRequired = new List<string>();
+
+        foreach (var item in plan.Items.Where(i => i.Action is SptSwitchAction.Upgrade or SptSwitchAction.Downgrade))
+        {
+            var mod = list.Mods.FirstOrDefault(m => m.Id == item.ModId);
+            if (mod == null)
+                continue;
+
+            mod.Version = item.TargetVersion!;
+            mod.SptVersionConstraint = item.TargetConstraint ?? "N/A";
+            mod.DownloadUrl = item.DownloadUrl ?? mod.DownloadUrl;
+            mod.ContentLength = item.ContentLength ?? mod.ContentLength;
+            mod.ContentLengthBytes = item.ContentLengthBytes;
+            mod.UpdatedAt = item.PublishedAt;
+            mod.LatestVersion = "";
+            mod.LatestSptVersionConstraint = "";
+
+            // Switching SPT is an explicit choice of release, so a pin moves with it
+            if (mod.PinnedVersion != null)
+                mod.PinnedVersion = mod.Version;
+
+            if (IsModInstalled(mod.Id, mod.Name))
+                reinstallRequired.Add(mod.Name);
+        }
+
+        list.SelectedSptVersion = targetSptVersion;
+        SaveList(list);
+
+        _logger.LogInformation("Applied SPT switch plan for '{ListName}' to {TargetVersion}", listName, targetSptVersion);
+        return (true, $"SPT version updated to '{targetSptVersion}' and plan applied", plan, reinstallRequired);
+    }
+
+    #endregion
+}
@@ -67,6 +67,10 @@ public partial class ModService
             _logger.LogInformation("Starting download...");
             await DownloadFileAsync(url, tempFile);
             await ExtractArchiveAsync(tempFile, extractDir);
+
+            var currentVersion = GetCurrentSptVersion();
+            CreateSnapshot(SnapshotKind.Spt, $"SPT {currentVersion}", currentVersion,
+                GetArchiveTargetPaths(extractDir, _sptServerDir));
             
             CopyDirectory(extractDir, _sptServerDir, true);
 
@@ -241,72 +245,6 @@ public partial class ModService
         UpdateAvailable = false
     };
 
-    private async Task StopSptServerAsync()
-    {
-        try
-        {
-            var processes = System.Diagnostics.Process.GetProcessesByName("SPT.Server.Linux");
-
-            foreach (var process in processes)
-            {
-                try
-                {
-                    process.Kill();
-                }
-                catch {}
-            }
-
-            var maxWaitTime = TimeSpan.FromSeconds(3);
-            var startTime = DateTime.UtcNow;
-            
-            while (DateTime.UtcNow - startTime < maxWaitTime && 
-                System.Diagnostics.Process.GetProcessesByName("SPT.Server.Linux").Length > 0)
-            {
-                await Task.Delay(100);
-            }
-
-            foreach (var process in System.Diagnostics.Process.GetProcessesByName("SPT.Server.Linux"))
-            {
-                try { process.Kill(); } catch { }
-            }
-            
-            await Task.Delay(500);
-        }
-        catch (Exception ex)
-        {
-            _logger.LogError(ex, "Error stopping SPT server");
-        }
-    }
-
-    private async Task StartSptServerAsync()
-    {
-        try
-        {
-            var sptPath = Path.Combine(_sptServerDir, "SPT", "SPT.Server.Linux");
-            if (!File.Exists(sptPath))
-                throw new Exception("SPT.Server.Linux not found");
-
-            var process = new System.Diagnostics.Process
-            {
-                StartInfo = new System.Diagnostics.ProcessStartInfo
-                {
-                    FileName = sptPath,
-                    Arguments = "--port 6970 --ip 0.0.0.0",
-                    WorkingDirectory = Path.Combine(_sptServerDir, "SPT"),
-                    UseShellExecute = false,
-                    CreateNoWindow = true
-                }
-            };
-            
-            process.Start();
-            await Task.Delay(1000);
-        }
-        catch (Exception ex)
-        {
-            throw new Exception($"Error starting SPT server: {ex.Message}");
-        }
-    }
-
     private bool EnsureSptPermissions()
     {
         try
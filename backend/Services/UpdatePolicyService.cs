@@ -0,0 +1,230 @@
+using ForgeModApi.Models;
+using System.Text.Json;
+
+namespace ForgeModApi.Services;
+
+public partial class ModService
+{
+    #region Update Policies
+
+    private const int MaxUpdateRuns = 30;
+
+    private static string GetUpdateRunsPath() => Path.Combine(AppContext.BaseDirectory, "user", "update_runs.json");
+
+    private static string GetEffectiveUpdatePolicy(ModList list, Mod mod) => mod.UpdatePolicy ?? list.UpdatePolicy;
+
+    public string GetListUpdatePolicy(string listName) => LoadList(listName).UpdatePolicy;
+
+    public void SetListUpdatePolicy(string listName, string policy)
+    {
+        var list = LoadList(listName);
+        list.UpdatePolicy = policy;
+        ClearFrozenUpdates(list);
+        SaveList(list);
+
+        _logger.LogInformation("Update policy of list '{ListName}' set to {Policy}", list.Name, policy);
+    }
+
+    /// <summary>
+    /// Gives a mod its own update policy, or makes it follow the list's again when policy is null.
+    /// </summary>
+    public (bool Success, string Message, Mod? Mod) SetModUpdatePolicy(string listName, int modId, string? policy)
+    {
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (mod == null)
+            return (false, "Mod not found", null);
+
+        mod.UpdatePolicy = policy;
+        ClearFrozenUpdates(list);
+        SaveList(list);
+
+        _logger.LogInformation("Update policy of '{ModName}' in list '{ListName}' set to {Policy}", mod.Name, list.Name, policy ?? "list default");
+        return (true, policy == null
+            ? $"'{mod.Name}' follows the list's update policy"
+            : $"Update policy of '{mod.Name}' set to {policy}", mod);
+    }
+
+    // An update found before a mod was frozen is no longer offered
+    private static void ClearFrozenUpdates(ModList list)
+    {
+        foreach (var mod in list.Mods.Where(m => GetEffectiveUpdatePolicy(list, m) == UpdatePolicy.Frozen))
+        {
+            mod.LatestVersion = "";
+            mod.LatestSptVersionConstraint = "";
+            mod.Changelog.Clear();
+        }
+    }
+
+    /// <summary>
+    /// Past update runs, newest first.
+    /// </summary>
+    public List<UpdateRun> GetUpdateRuns() =>
+        LoadUpdateRuns().OrderByDescending(r => r.StartedAt).ToList();
+
+    /// <summary>
+    /// Checks the unpinned, non-frozen mods of one list, or of every list when listName is null.
+    /// Mods with the auto policy move to the newest patch release of their version that fits the list's
+    /// SPT version, and are reinstalled when the installed files are the version the list held; every other
+    /// update found is only recorded. The run is added to the update history even when cancelled.
+    /// </summary>
+    public async Task<UpdateRun> ApplyUpdatesAsync(string? listName, bool scheduled = false, string? operationId = null, CancellationToken cancellationToken = default)
+    {
+        var run = new UpdateRun { JobId = operationId ?? "", Scheduled = scheduled };
+        var listNames = listName != null
+            ? new List<string> { LoadList(listName).Name }
+            : LoadAllLists().Select(l => l.Name).ToList();
+
+        try
+        {
+            foreach (var name in listNames)
+            {
+                var list = LoadList(name);
+                var candidates = list.Mods
+                    .Where(m => m.PinnedVersion == null && GetEffectiveUpdatePolicy(list, m) != UpdatePolicy.Frozen)
+                    .Select(m => m.Id)
+                    .ToList();
+
+                foreach (var modId in candidates)
+                {
+                    cancellationToken.ThrowIfCancellationRequested();
+
+                    var change = await ApplyModUpdateAsync(name, modId, operationId, cancellationToken);
+                    if (change != null)
+                        run.Changes.Add(change);
+                }
+            }
+        }
+        finally
+        {
+            run.FinishedAt = DateTime.UtcNow;
+            SaveUpdateRun(run);
+        }
+
+        _logger.LogInformation("Update run finished: {Applied} applied, {Available} available, {Failed} failed",
+            run.Changes.Count(c => c.Outcome == UpdateOutcome.Applied),
+            run.Changes.Count(c => c.Outcome == UpdateOutcome.Available),
+            run.Changes.Count(c => c.Outcome == UpdateOutcome.Failed));
+        return run;
+    }
+
+    // The list is reloaded for each mod, since installing one saves the list too
+    private async Task<UpdateRunChange?> ApplyModUpdateAsync(string listName, int modId, string? operationId, CancellationToken cancellationToken)
+    {
+        var list = LoadList(listName);
+        var mod = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (mod == null)
+            return null;
+
+        var releases = await FetchModVersionsAsync(modId.ToString());
+        var latest = FindCompatibleUpdate(list, releases, mod.Version);
+        if (latest == null)
+            return null;
+
+        var change = new UpdateRunChange
+        {
+            ListName = list.Name,
+            ModId = mod.Id,
+            ModName = mod.Name,
+            FromVersion = mod.Version,
+            ToVersion = latest.Version
+        };
+
+        var patch = GetEffectiveUpdatePolicy(list, mod) == UpdatePolicy.Auto && mod.Enabled
+            ? releases
+                .Where(r => SemverRange.IsPatchUpdate(mod.Version, r.Version))
+                .Where(r => list.SelectedSptVersion == "unknown" || SemverRange.Satisfies(list.SelectedSptVersion, r.SptVersionConstraint) != false)
+                .OrderByDescending(r => r.Version, Comparer<string>.Create(SemverRange.Compare))
+                .FirstOrDefault()
+            : null;
+
+        mod.LatestVersion = latest.Version;
+        mod.LatestSptVersionConstraint = latest.SptVersionConstraint;
+        mod.Changelog = BuildChangelog(releases, mod.Version, latest.Version);
+
+        if (patch == null)
+        {
+            SaveList(list);
+            return change;
+        }
+
+        var previous = new ModVersion
+        {
+            Version = mod.Version,
+            SptVersionConstraint = mod.SptVersionConstraint,
+            DownloadUrl = mod.DownloadUrl,
+            ContentLength = mod.ContentLength,
+            ContentLengthBytes = mod.ContentLengthBytes,
+            PublishedAt = mod.UpdatedAt
+        };
+        var installedVersion = GetInstallManifest(mod.Id)?.Version;
+
+        ApplyModRelease(mod, patch);
+        SaveList(list);
+        change.ToVersion = patch.Version;
+
+        // Mods that aren't installed, or whose files another list already moved on from, only get their entry updated
+        if (installedVersion != previous.Version)
+        {
+            change.Outcome = UpdateOutcome.Applied;
+            return change;
+        }
+
+        var result = await DownloadAndExtractModAsync(list.Name, mod.Id, true, false, operationId, cancellationToken);
+        if (GetDownloadJobStatus(result) == JobStatus.Succeeded)
+        {
+            change.Outcome = UpdateOutcome.Applied;
+            change.Reinstalled = true;
+            return change;
+        }
+
+        // Nobody is around to pick an install location or resolve conflicts, so the list keeps the installed version
+        if (result.TempExtractPath != null)
+            SafeDeleteDirectory(result.TempExtractPath);
+
+        list = LoadList(listName);
+        var reverted = list.Mods.FirstOrDefault(m => m.Id == modId);
+        if (reverted != null)
+        {
+            ApplyModRelease(reverted, previous);
+            reverted.Changelog = BuildChangelog(releases, previous.Version, latest.Version);
+            SaveList(list);
+        }
+
+        change.Outcome = UpdateOutcome.Failed;
+        change.Message = result.requiresUserChoice || result.Conflicts?.Count > 0
+            ? "Needs a choice or conflict resolution, update it manually"
+            : result.Message;
+        return change;
+    }
+
+    private List<UpdateRun> LoadUpdateRuns()
+    {
+        var path = GetUpdateRunsPath();
+        if (!File.Exists(path))
+            return new List<UpdateRun>();
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<UpdateRun>>(File.ReadAllText(path)) ?? new List<UpdateRun>();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unreadable update history");
+            return new List<UpdateRun>();
+        }
+    }
+
+    private void SaveUpdateRun(UpdateRun run)
+    {
+        var runs = LoadUpdateRuns();
+        runs.Add(run);
+
+        var json = JsonSerializer.Serialize(
+            runs.OrderByDescending(r => r.StartedAt).Take(MaxUpdateRuns).ToList(),
+            new JsonSerializerOptions { WriteIndented = true });
+        File.WriteAllText(GetUpdateRunsPath(), json);
+    }
+
+    #endregion
+}
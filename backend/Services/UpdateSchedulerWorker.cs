@@ -0,0 +1,68 @@
+using ForgeModApi.Models;
+
+namespace ForgeModApi.Services;
+
+/// <summary>
+/// Queues an apply_updates job for every list once a night, at the hour of AUTO_UPDATE_HOUR
+/// (server local time, 4 by default; "off" disables it).
+/// </summary>
+public class UpdateSchedulerWorker : BackgroundService
+{
+    private const int DefaultHour = 4;
+
+    private readonly ModService _modService;
+    private readonly ILogger<UpdateSchedulerWorker> _logger;
+
+    public UpdateSchedulerWorker(ModService modService, ILogger<UpdateSchedulerWorker> logger)
+    {
+        _modService = modService;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        var hour = ReadScheduledHour();
+        if (hour == null)
+        {
+            _logger.LogInformation("Nightly mod updates are disabled");
+            return;
+        }
+
+        try
+        {
+            while (!stoppingToken.IsCancellationRequested)
+            {
+                var now = DateTime.Now;
+                var next = now.Date.AddHours(hour.Value);
+                if (next <= now)
+                    next = next.AddDays(1);
+
+                await Task.Delay(next - now, stoppingToken);
+
+                var (job, error) = _modService.EnqueueJob(new JobRequest { Type = JobType.ApplyUpdates, Scheduled = true });
+                if (job == null)
+                    _logger.LogWarning("Could not queue the nightly mod updates: {Error}", error);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("Update scheduler stopped");
+        }
+    }
+
+    private int? ReadScheduledHour()
+    {
+        var setting = Environment.GetEnvironmentVariable("AUTO_UPDATE_HOUR")?.Trim();
+        if (string.IsNullOrEmpty(setting))
+            return DefaultHour;
+
+        if (setting.Equals("off", StringComparison.OrdinalIgnoreCase))
+            return null;
+
+        if (int.TryParse(setting, out var hour) && hour is >= 0 and <= 23)
+            return hour;
+
+        _logger.LogWarning("Invalid AUTO_UPDATE_HOUR '{Setting}', using {Hour}", setting, DefaultHour);
+        return DefaultHour;
+    }
+}
@@ -1,12 +1,17 @@
 import React from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import ModManager from "./components/ModManager";
+import LogsPage from "./components/LogsPage";
+import ListDiffPage from "./components/ListDiffPage";
+import { useI18n } from "./i18n/I18nContext";
 
 const RedirectToMod: React.FC = () => {
+  const { t } = useI18n();
+
   React.useEffect(() => {
     window.location.replace("/mod");
   }, []);
-  return <div>Redirecting...</div>;
+  return <div>{t("app.redirecting")}</div>;
 };
 
 const App: React.FC = () => (
@@ -14,6 +19,8 @@ const App: React.FC = () => (
     <Routes>
       <Route path="/mod" element={<ModManager />} />
       <Route path="/mod/:listName" element={<ModManager />} />
+      <Route path="/mod/:listName/logs" element={<LogsPage />} />
+      <Route path="/mod/:listName/compare" element={<ListDiffPage />} />
       <Route path="/" element={<RedirectToMod />} />
     </Routes>
   </Router>
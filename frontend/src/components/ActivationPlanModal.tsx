@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import {
+  CheckIcon,
+  DownloadIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+  Trash2Icon,
+} from "lucide-react";
+import Modal from "./Modal";
+import { useActivationPlan } from "../hooks/useListActivation";
+import type { ActivationAction } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ActivationPlanModalProps {
+  isOpen: boolean;
+  listName: string;
+  onClose: () => void;
+  onActivate: (planHash: string) => Promise<boolean>;
+}
+
+const ACTION_ICONS: Record<ActivationAction, React.ReactNode> = {
+  install: <DownloadIcon size={14} />,
+  update: <RefreshCwIcon size={14} />,
+  remove: <Trash2Icon size={14} />,
+  keep: <CheckIcon size={14} />,
+};
+
+// Changes first, in the order they are applied
+const ACTION_ORDER: ActivationAction[] = [
+  "remove",
+  "install",
+  "update",
+  "keep",
+];
+
+const ActivationPlanModal: React.FC<ActivationPlanModalProps> = ({
+  isOpen,
+  listName,
+  onClose,
+  onActivate,
+}) => {
+  const { t } = useI18n();
+  const { plan, isLoading, error } = useActivationPlan(listName, isOpen);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const items = plan
+    ? [...plan.items].sort(
+        (a, b) =>
+          ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action)
+      )
+    : [];
+  const countOf = (action: ActivationAction) =>
+    items.filter((item) => item.action === action).length;
+
+  const handleActivate = async () => {
+    if (!plan) return;
+    setIsApplying(true);
+    // The job reports its own results, so the plan closes either way
+    await onActivate(plan.hash);
+    setIsApplying(false);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("activation.title", { list: listName })}
+      size="lg"
+    >
+      <div className="spt-plan">
+        {isLoading && (
+          <div className="spt-plan-loading">
+            <LoaderIcon size={18} className="spinning" />
+            <span>{t("activation.loading")}</span>
+          </div>
+        )}
+
+        {error && <p className="spt-plan-error">{error}</p>}
+
+        {plan && (
+          <>
+            <p className="spt-plan-summary">
+              {plan.changeCount > 0
+                ? t("activation.summary", {
+                    install: countOf("install"),
+                    update: countOf("update"),
+                    remove: countOf("remove"),
+                  })
+                : t("activation.inSync", { list: listName })}
+            </p>
+
+            <table className="spt-plan-table">
+              <thead>
+                <tr>
+                  <th>{t("sptPlan.columnMod")}</th>
+                  <th>{t("activation.columnInstalled")}</th>
+                  <th>{t("sptPlan.columnAction")}</th>
+                  <th>{t("activation.columnTarget")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => (
+                  <tr
+                    key={`${item.action}-${item.modId}`}
+                    className={`activation-${item.action}`}
+                  >
+                    <td>{item.modName}</td>
+                    <td>
+                      {item.unmanaged
+                        ? t("activation.unmanaged")
+                        : item.installedVersion || "—"}
+                    </td>
+                    <td>
+                      <span className="spt-plan-action">
+                        {ACTION_ICONS[item.action]}
+                        {t(`activation.action.${item.action}`)}
+                      </span>
+                    </td>
+                    <td>{item.targetVersion || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("common.cancel")}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleActivate}
+            disabled={!plan || isLoading || isApplying}
+          >
+            {isApplying ? t("activation.applying") : t("activation.apply")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ActivationPlanModal;
@@ -1,4 +1,5 @@
 import React from "react";
+import { useI18n } from "../i18n/I18nContext";
 
 interface AddModBarProps {
   modUrl: string;
@@ -12,20 +13,24 @@ const AddModBar: React.FC<AddModBarProps> = ({
   setModUrl,
   addMod,
   currentList,
-}) => (
-  <form onSubmit={addMod} className="add-mod-form-compact">
-    <input
-      type="text"
-      placeholder="Add mod link here…"
-      value={modUrl}
-      onChange={(e) => setModUrl(e.target.value)}
-      className="mod-url-input"
-      disabled={!currentList}
-    />
-    <button type="submit" className="btn btn-primary" disabled={!currentList}>
-      Add Mod
-    </button>
-  </form>
-);
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <form onSubmit={addMod} className="add-mod-form-compact">
+      <input
+        type="text"
+        placeholder={t("modList.addPlaceholder")}
+        value={modUrl}
+        onChange={(e) => setModUrl(e.target.value)}
+        className="mod-url-input"
+        disabled={!currentList}
+      />
+      <button type="submit" className="btn btn-primary" disabled={!currentList}>
+        {t("modList.addMod")}
+      </button>
+    </form>
+  );
+};
 
 export default AddModBar;
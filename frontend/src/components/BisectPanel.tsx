@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from "react";
+import {
+  BugIcon,
+  CheckCircleIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LoaderIcon,
+  PowerOffIcon,
+  XCircleIcon,
+  XIcon,
+} from "lucide-react";
+import { useModal } from "./ModalContext";
+import { useBisect } from "../hooks/useBisect";
+import type { BisectOutcome, Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface BisectPanelProps {
+  currentList: string;
+  currentMods: Mod[];
+  toggleModEnabled: (id: number, name: string, enabled: boolean) => void;
+  onStateChanged: () => void;
+}
+
+const BisectPanel: React.FC<BisectPanelProps> = ({
+  currentList,
+  currentMods,
+  toggleModEnabled,
+  onStateChanged,
+}) => {
+  const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { session, error, startBisect, submitOutcome, endBisect, isBusy } =
+    useBisect(currentList);
+
+  const isTesting = session?.status === "testing";
+
+  // A bisect left running (e.g. from another tab) needs an answer, so show it
+  useEffect(() => {
+    if (isTesting) setIsExpanded(true);
+  }, [isTesting]);
+
+  if (!currentList) return null;
+
+  const modName = (modId: number) =>
+    currentMods.find((mod) => mod.id === modId)?.name ?? `#${modId}`;
+
+  const showError = (title: string, err: unknown) =>
+    showModal({
+      type: "error",
+      title,
+      message: err instanceof Error ? err.message : String(err),
+    });
+
+  const handleStart = () => {
+    showConfirmation({
+      title: t("bisect.startConfirmTitle"),
+      message: t("bisect.startConfirm"),
+      confirmText: t("bisect.start"),
+      onConfirm: async () => {
+        try {
+          await startBisect();
+          onStateChanged();
+        } catch (err) {
+          showError(t("bisect.startFailed"), err);
+        }
+      },
+    });
+  };
+
+  const handleOutcome = async (outcome: BisectOutcome) => {
+    try {
+      const result = await submitOutcome(outcome);
+      onStateChanged();
+      if (result.session.status === "found") {
+        showModal({
+          type: "warning",
+          title: t("bisect.foundTitle"),
+          message: t("bisect.found", {
+            name: result.session.culpritModName ?? "",
+          }),
+        });
+      }
+    } catch (err) {
+      showError(t("bisect.outcomeFailed"), err);
+    }
+  };
+
+  const handleEnd = async () => {
+    try {
+      await endBisect();
+      onStateChanged();
+    } catch (err) {
+      showError(t("bisect.endFailed"), err);
+    }
+  };
+
+  const handleCancel = () => {
+    showConfirmation({
+      title: t("bisect.cancelConfirmTitle"),
+      message: t("bisect.cancelConfirm"),
+      confirmText: t("bisect.cancel"),
+      onConfirm: handleEnd,
+    });
+  };
+
+  let status: string;
+  if (error) status = error;
+  else if (!session) status = t("bisect.subtitle");
+  else if (isTesting)
+    status = t("bisect.roundStatus", {
+      round: session.round,
+      count: session.suspects.length,
+    });
+  else status = t("bisect.culprit", { name: session.culpritModName ?? "" });
+
+  // Each round halves the suspects; the current one is included
+  const roundsLeft = session
+    ? Math.ceil(Math.log2(Math.max(session.suspects.length, 2)))
+    : 0;
+  const detected = session?.detectedOutcome;
+
+  return (
+    <div className={`panel bisect-panel ${isTesting ? "warning" : ""}`}>
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <BugIcon size={16} />
+          <span className="panel-title">{t("bisect.title")}</span>
+          <span className="panel-status">{status}</span>
+        </button>
+      </div>
+
+      {isExpanded && !session && (
+        <div className="bisect-body">
+          <p className="panel-empty">{t("bisect.intro")}</p>
+          <div className="bisect-actions">
+            <button
+              onClick={handleStart}
+              className="btn btn-warning"
+              disabled={isBusy}
+            >
+              {isBusy ? (
+                <LoaderIcon size={16} className="spinning" />
+              ) : (
+                <BugIcon size={16} />
+              )}
+              <span className="btn-text">{t("bisect.start")}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isExpanded && session && isTesting && (
+        <div className="bisect-body">
+          <p>
+            {t("bisect.roundInfo", {
+              round: session.round,
+              enabled: session.testingModIds.length,
+              suspects: session.suspects.length,
+              left: roundsLeft,
+            })}
+          </p>
+          <ul className="bisect-mods">
+            {session.testingModIds.map((modId) => (
+              <li key={modId}>{modName(modId)}</li>
+            ))}
+          </ul>
+
+          <p className={`bisect-detected ${detected ?? "pending"}`}>
+            {detected
+              ? t(`bisect.detected.${detected}`)
+              : t("bisect.detected.pending")}
+          </p>
+
+          <div className="bisect-actions">
+            <button
+              onClick={() => handleOutcome("booted")}
+              className={`btn ${
+                detected === "booted" ? "btn-primary" : "btn-secondary"
+              }`}
+              disabled={isBusy}
+            >
+              <CheckCircleIcon size={16} />
+              <span className="btn-text">{t("bisect.booted")}</span>
+            </button>
+            <button
+              onClick={() => handleOutcome("crashed")}
+              className={`btn ${
+                detected === "crashed" ? "btn-danger" : "btn-secondary"
+              }`}
+              disabled={isBusy}
+            >
+              <XCircleIcon size={16} />
+              <span className="btn-text">{t("bisect.crashed")}</span>
+            </button>
+            <button
+              onClick={handleCancel}
+              className="btn btn-secondary"
+              disabled={isBusy}
+              title={t("bisect.cancelTitle")}
+            >
+              {isBusy ? (
+                <LoaderIcon size={16} className="spinning" />
+              ) : (
+                <XIcon size={16} />
+              )}
+              <span className="btn-text">{t("bisect.cancel")}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isExpanded && session && !isTesting && (
+        <div className="bisect-body">
+          <p>
+            {t("bisect.foundInfo", {
+              name: session.culpritModName ?? "",
+              rounds: session.steps.length,
+            })}
+          </p>
+          <div className="bisect-actions">
+            {session.culpritModId != null && (
+              <button
+                onClick={() =>
+                  toggleModEnabled(
+                    session.culpritModId!,
+                    session.culpritModName ?? "",
+                    false
+                  )
+                }
+                className="btn btn-warning"
+                disabled={isBusy}
+              >
+                <PowerOffIcon size={16} />
+                <span className="btn-text">{t("bisect.disableCulprit")}</span>
+              </button>
+            )}
+            <button
+              onClick={handleEnd}
+              className="btn btn-secondary"
+              disabled={isBusy}
+            >
+              <XIcon size={16} />
+              <span className="btn-text">{t("bisect.dismiss")}</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BisectPanel;
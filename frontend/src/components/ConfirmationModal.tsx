@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import Modal from "./Modal";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ConfirmationModalProps {
   isOpen: boolean;
@@ -7,6 +8,7 @@ interface ConfirmationModalProps {
   onConfirm?: (inputValue?: string | boolean) => void;
   title: string;
   message: string;
+  details?: string[];
   cancelText?: string;
   confirmText?: string;
   showDeleteOption?: boolean;
@@ -22,14 +24,16 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   onConfirm,
   title,
   message,
-  cancelText = "Cancel",
-  confirmText = "Confirm",
+  details,
+  cancelText,
+  confirmText,
   showDeleteOption = false,
-  deleteOptionText = "Also delete installed files",
+  deleteOptionText,
   showInput = false,
   inputPlaceholder = "",
   inputDefaultValue = "",
 }) => {
+  const { t } = useI18n();
   const [deleteFiles, setDeleteFiles] = useState(false);
   const [inputValue, setInputValue] = useState(inputDefaultValue);
 
@@ -59,9 +63,9 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 
   const getConfirmButtonText = () => {
     if (showDeleteOption && deleteFiles) {
-      return "Remove & Delete";
+      return t("confirm.removeAndDelete");
     }
-    return confirmText;
+    return confirmText ?? t("common.confirm");
   };
 
   const getConfirmButtonClass = () => {
@@ -78,6 +82,14 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
       <div className="confirmation-modal">
         <p>{message}</p>
 
+        {details && details.length > 0 && (
+          <ul className="confirmation-details">
+            {details.map((detail) => (
+              <li key={detail}>{detail}</li>
+            ))}
+          </ul>
+        )}
+
         {showInput && (
           <div className="input-section">
             <input
@@ -99,14 +111,14 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
                 checked={deleteFiles}
                 onChange={(e) => setDeleteFiles(e.target.checked)}
               />
-              <span>{deleteOptionText}</span>
+              <span>{deleteOptionText ?? t("confirm.deleteFiles")}</span>
             </label>
           </div>
         )}
 
         <div className="modal-actions">
           <button className="btn btn-secondary" onClick={handleClose}>
-            {cancelText}
+            {cancelText ?? t("common.cancel")}
           </button>
           <button
             className={`btn ${getConfirmButtonClass()}`}
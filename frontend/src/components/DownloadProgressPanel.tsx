@@ -0,0 +1,174 @@
+import React from "react";
+import {
+  CheckCircleIcon,
+  XCircleIcon,
+  LoaderIcon,
+  SkipForwardIcon,
+  AlertTriangleIcon,
+  BanIcon,
+  XIcon,
+} from "lucide-react";
+import type { DownloadPhase, DownloadProgress } from "../hooks/types";
+import type { DownloadProgressState } from "../hooks/useDownloadProgress";
+import { useI18n } from "../i18n/I18nContext";
+
+interface DownloadProgressPanelProps {
+  progress: DownloadProgressState;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const FINISHED_PHASES: DownloadPhase[] = [
+  "completed",
+  "skipped",
+  "failed",
+  "cancelled",
+  "awaiting_choice",
+];
+
+const getPhaseIcon = (phase: DownloadPhase) => {
+  switch (phase) {
+    case "completed":
+      return <CheckCircleIcon size={16} />;
+    case "failed":
+      return <XCircleIcon size={16} />;
+    case "skipped":
+      return <SkipForwardIcon size={16} />;
+    case "cancelled":
+      return <BanIcon size={16} />;
+    case "awaiting_choice":
+      return <AlertTriangleIcon size={16} />;
+    default:
+      return <LoaderIcon size={16} className="spinning" />;
+  }
+};
+
+const getPercent = (item: DownloadProgress) => {
+  if (FINISHED_PHASES.includes(item.phase)) return 100;
+  if (item.phase === "downloading" && item.totalBytes) {
+    return Math.min(100, (item.bytesReceived / item.totalBytes) * 100);
+  }
+  return undefined;
+};
+
+const getDetail = (
+  item: DownloadProgress,
+  formatBytes: (bytes: number) => string
+) => {
+  if (item.phase === "downloading") {
+    return item.totalBytes
+      ? `${formatBytes(item.bytesReceived)} / ${formatBytes(item.totalBytes)}`
+      : formatBytes(item.bytesReceived);
+  }
+  if (item.phase === "installing" && item.target) {
+    return `→ ${item.target}`;
+  }
+  return item.message || "";
+};
+
+const DownloadProgressPanel: React.FC<DownloadProgressPanelProps> = ({
+  progress,
+  onCancel,
+  onDismiss,
+}) => {
+  const { t, formatBytes } = useI18n();
+  const { items, isRunning, isCancelling, wasCancelled, label } = progress;
+  const sortedItems = [...items].sort((a, b) => a.index - b.index);
+  const finishedCount = items.filter((item) =>
+    FINISHED_PHASES.includes(item.phase)
+  ).length;
+  const failedCount = items.filter((item) => item.phase === "failed").length;
+  const overallPercent =
+    items.length > 0 ? (finishedCount / items.length) * 100 : 0;
+
+  let status: string;
+  if (isCancelling) status = t("progress.cancelling");
+  else if (isRunning)
+    status = t("progress.done", {
+      finished: finishedCount,
+      total: items.length || "?",
+    });
+  else if (wasCancelled) status = t("progress.cancelled");
+  else if (failedCount > 0)
+    status = t("progress.finishedWithErrors", { count: failedCount });
+  else status = t("progress.finished");
+
+  return (
+    <div className="download-progress-panel">
+      <div className="download-progress-header">
+        <div className="download-progress-title">
+          <h3>{t("progress.title", { label })}</h3>
+          <span className="download-progress-status">{status}</span>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="btn btn-danger"
+            disabled={isCancelling}
+            title={t("progress.cancelTitle")}
+          >
+            <BanIcon size={16} />
+            <span className="btn-text">{t("common.cancel")}</span>
+          </button>
+        ) : (
+          <button
+            onClick={onDismiss}
+            className="btn btn-secondary"
+            title={t("progress.closeTitle")}
+          >
+            <XIcon size={16} />
+            <span className="btn-text">{t("common.close")}</span>
+          </button>
+        )}
+      </div>
+
+      {items.length > 1 && (
+        <div className="progress-bar overall">
+          <div
+            className="progress-bar-fill"
+            style={{ width: `${overallPercent}%` }}
+          />
+        </div>
+      )}
+
+      <ul className="download-progress-list">
+        {sortedItems.map((item) => {
+          const percent = getPercent(item);
+          return (
+            <li
+              key={item.modId}
+              className={`download-progress-item phase-${item.phase}`}
+            >
+              <div className="download-progress-row">
+                <span className="download-progress-icon">
+                  {getPhaseIcon(item.phase)}
+                </span>
+                <span className="download-progress-name">{item.modName}</span>
+                <span className="download-progress-phase">
+                  {t(`progress.phase.${item.phase}`)}
+                </span>
+              </div>
+              <div className="download-progress-row">
+                <div
+                  className={`progress-bar ${
+                    percent === undefined ? "indeterminate" : ""
+                  }`}
+                >
+                  <div
+                    className="progress-bar-fill"
+                    style={{ width: `${percent ?? 100}%` }}
+                  />
+                </div>
+                <span className="download-progress-detail">
+                  {getDetail(item, formatBytes)}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DownloadProgressPanel;
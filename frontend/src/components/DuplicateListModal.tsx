@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { CopyIcon, LoaderIcon } from "lucide-react";
+import Modal from "./Modal";
+import { useI18n } from "../i18n/I18nContext";
+
+interface DuplicateListModalProps {
+  isOpen: boolean;
+  listName: string;
+  modCount: number;
+  installedCount: number;
+  onClose: () => void;
+  onDuplicate: (newName: string, installedOnly: boolean) => Promise<boolean>;
+}
+
+const DuplicateListModal: React.FC<DuplicateListModalProps> = ({
+  isOpen,
+  listName,
+  modCount,
+  installedCount,
+  onClose,
+  onDuplicate,
+}) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState(
+    t("lists.duplicateDefaultName", { name: listName })
+  );
+  const [installedOnly, setInstalledOnly] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleDuplicate = async () => {
+    setIsSaving(true);
+    const duplicated = await onDuplicate(newName, installedOnly);
+    setIsSaving(false);
+    if (duplicated) onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("lists.duplicateTitle", { name: listName })}
+      size="md"
+    >
+      <div className="confirmation-modal">
+        <p>
+          {t("lists.duplicatePrompt", {
+            count: installedOnly ? installedCount : modCount,
+          })}
+        </p>
+
+        <div className="input-section">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t("lists.namePlaceholder")}
+            className="modal-input"
+            autoFocus
+          />
+        </div>
+
+        <div className="delete-option">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={installedOnly}
+              onChange={(e) => setInstalledOnly(e.target.checked)}
+            />
+            <span>
+              {t("lists.duplicateInstalledOnly", {
+                installed: installedCount,
+                total: modCount,
+              })}
+            </span>
+          </label>
+        </div>
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("common.cancel")}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleDuplicate}
+            disabled={!newName.trim() || isSaving}
+          >
+            {isSaving ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <CopyIcon size={16} />
+            )}
+            {t("lists.duplicate")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DuplicateListModal;
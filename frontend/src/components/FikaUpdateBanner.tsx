@@ -1,5 +1,6 @@
 import React from "react";
 import { Info } from "lucide-react";
+import { useI18n } from "../i18n/I18nContext";
 
 interface FikaUpdateBannerProps {
   fikaUpdate?: {
@@ -16,6 +17,8 @@ const FikaUpdateBanner: React.FC<FikaUpdateBannerProps> = ({
   isUpdatingFika,
   updateFika,
 }) => {
+  const { t } = useI18n();
+
   if (!fikaUpdate?.updateAvailable) return null;
 
   return (
@@ -24,10 +27,12 @@ const FikaUpdateBanner: React.FC<FikaUpdateBannerProps> = ({
         <div className="banner-text">
           <Info className="banner-icon" size={24} />
           <div className="banner-text-content">
-            <h3>Fika Update Available!</h3>
+            <h3>{t("updates.available", { product: "Fika" })}</h3>
             <p>
-              Current: {fikaUpdate.currentVersion} → New:{" "}
-              {fikaUpdate.latestVersion}
+              {t("updates.versions", {
+                current: fikaUpdate.currentVersion,
+                latest: fikaUpdate.latestVersion,
+              })}
             </p>
           </div>
         </div>
@@ -36,7 +41,9 @@ const FikaUpdateBanner: React.FC<FikaUpdateBannerProps> = ({
           disabled={isUpdatingFika}
           className="btn btn-primary"
         >
-          {isUpdatingFika ? "Updating..." : "Update Fika"}
+          {isUpdatingFika
+            ? t("updates.updating")
+            : t("updates.update", { product: "Fika" })}
         </button>
       </div>
     </div>
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import {
+  AlertTriangleIcon,
+  CheckCircleIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import { useFileConflicts } from "../hooks/useFileConflicts";
+import { useI18n } from "../i18n/I18nContext";
+
+interface FileConflictsPanelProps {
+  currentList: string;
+  installedMods: Record<number, boolean>;
+}
+
+const FileConflictsPanel: React.FC<FileConflictsPanelProps> = ({
+  currentList,
+  installedMods,
+}) => {
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const installedCount = Object.values(installedMods).filter(Boolean).length;
+  const { conflicts, isLoading, error, refresh } = useFileConflicts(
+    currentList,
+    installedCount
+  );
+
+  if (!currentList) return null;
+
+  const hasConflicts = conflicts.length > 0;
+
+  let status: string;
+  if (error) status = error;
+  else if (isLoading && !hasConflicts) status = t("conflicts.checking");
+  else if (hasConflicts)
+    status = t("conflicts.found", { count: conflicts.length });
+  else status = t("conflicts.none");
+
+  return (
+    <div className={`panel conflicts-panel ${hasConflicts ? "warning" : ""}`}>
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          disabled={!hasConflicts}
+          aria-expanded={isExpanded}
+        >
+          {hasConflicts ? (
+            isExpanded ? (
+              <ChevronDownIcon size={16} />
+            ) : (
+              <ChevronRightIcon size={16} />
+            )
+          ) : (
+            <CheckCircleIcon size={16} />
+          )}
+          <span className="panel-title">{t("conflicts.title")}</span>
+          <span className="panel-status">
+            {hasConflicts && <AlertTriangleIcon size={14} />}
+            {status}
+          </span>
+        </button>
+        <button
+          onClick={() => refresh()}
+          className="btn btn-secondary"
+          disabled={isLoading}
+          title={t("conflicts.refreshTitle")}
+        >
+          {isLoading ? (
+            <LoaderIcon size={16} className="spinning" />
+          ) : (
+            <RefreshCwIcon size={16} />
+          )}
+        </button>
+      </div>
+
+      {isExpanded && hasConflicts && (
+        <ul className="conflicts-list">
+          {conflicts.map((conflict) => (
+            <li key={conflict.path} className="conflict-item">
+              <span className="conflict-path">{conflict.path}</span>
+              <span className="conflict-owners">
+                {conflict.owners.map((owner) => (
+                  <span
+                    key={owner.modId}
+                    className={`conflict-owner ${
+                      owner.isCurrent ? "current" : ""
+                    }`}
+                    title={
+                      owner.isCurrent
+                        ? t("conflicts.current")
+                        : t("conflicts.overwritten")
+                    }
+                  >
+                    {owner.modName}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FileConflictsPanel;
@@ -0,0 +1,103 @@
+import React from "react";
+import {
+  CheckCircleIcon,
+  AlertTriangleIcon,
+  XCircleIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import { useInstalledFiles } from "../hooks/useInstalledFiles";
+import type { InstalledFileStatus } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface InstalledFilesDrawerProps {
+  currentList: string;
+  modId: number;
+}
+
+const STATUS_ICONS: Record<InstalledFileStatus, React.ReactNode> = {
+  ok: <CheckCircleIcon size={14} />,
+  modified: <AlertTriangleIcon size={14} />,
+  missing: <XCircleIcon size={14} />,
+};
+
+const InstalledFilesDrawer: React.FC<InstalledFilesDrawerProps> = ({
+  currentList,
+  modId,
+}) => {
+  const { t, formatBytes, formatDateTime } = useI18n();
+  const { manifest, isLoading, notTracked, error, refresh } = useInstalledFiles(
+    currentList,
+    modId,
+    true
+  );
+
+  if (notTracked) {
+    return (
+      <div className="installed-files-drawer">
+        <p className="installed-files-empty">{t("files.notTracked")}</p>
+      </div>
+    );
+  }
+
+  const changedCount =
+    manifest?.files.filter((file) => file.status !== "ok").length ?? 0;
+
+  return (
+    <div className="installed-files-drawer">
+      <div className="installed-files-header">
+        {manifest ? (
+          <span>
+            {t("files.summary", {
+              count: manifest.files.length,
+              version: manifest.version,
+              date: formatDateTime(manifest.installedAt),
+            })}
+            {changedCount > 0 && t("files.changed", { count: changedCount })}
+          </span>
+        ) : (
+          <span>{error || t("files.loading")}</span>
+        )}
+        <button
+          onClick={() => refresh()}
+          className="btn btn-secondary"
+          disabled={isLoading}
+          title={t("files.refreshTitle")}
+        >
+          {isLoading ? (
+            <LoaderIcon size={14} className="spinning" />
+          ) : (
+            <RefreshCwIcon size={14} />
+          )}
+        </button>
+      </div>
+
+      {manifest && (
+        <ul className="installed-files-list">
+          {manifest.files.map((file) => {
+            const status = file.status ?? "ok";
+            return (
+              <li
+                key={file.path}
+                className={`installed-file status-${status}`}
+                title={`${t(`files.status.${status}`)}\nSHA-256: ${
+                  file.sha256
+                }`}
+              >
+                <span className="installed-file-status">
+                  {STATUS_ICONS[status]}
+                </span>
+                <span className="installed-file-path">{file.path}</span>
+                <span className="installed-file-size">
+                  {formatBytes(file.size)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InstalledFilesDrawer;
@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import {
+  AlertTriangleIcon,
+  BanIcon,
+  CheckCircleIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+  XCircleIcon,
+  XIcon,
+} from "lucide-react";
+import { useModal } from "./ModalContext";
+import { useJobs } from "../hooks/useJobs";
+import { isJobFinished } from "../lib/apiClient";
+import type { Job, JobStatus } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+const STATUS_ICONS: Record<JobStatus, React.ReactNode> = {
+  queued: <ClockIcon size={16} />,
+  running: <LoaderIcon size={16} className="spinning" />,
+  succeeded: <CheckCircleIcon size={16} />,
+  awaiting_choice: <AlertTriangleIcon size={16} />,
+  failed: <XCircleIcon size={16} />,
+  cancelled: <BanIcon size={16} />,
+};
+
+const formatDuration = (job: Job) => {
+  if (!job.startedAt) return null;
+
+  const end = job.finishedAt ? new Date(job.finishedAt) : new Date();
+  const seconds = Math.max(
+    0,
+    Math.round((end.getTime() - new Date(job.startedAt).getTime()) / 1000)
+  );
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const JobsPanel: React.FC = () => {
+  const { showModal } = useModal();
+  const { t, formatDateTime, formatTime } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+  const { jobs, activeCount, isLoading, error, refresh, cancelJob } = useJobs();
+
+  const handleCancel = async (job: Job) => {
+    try {
+      await cancelJob(job.id);
+    } catch (err) {
+      showModal({
+        type: "error",
+        title: t("jobs.cancelFailed"),
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  return (
+    <div className="panel jobs-panel">
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <span className="panel-title">{t("jobs.title")}</span>
+          <span className="panel-status">
+            {activeCount > 0
+              ? t("jobs.active", { count: activeCount })
+              : t("jobs.subtitle")}
+          </span>
+        </button>
+        {isExpanded && (
+          <button
+            onClick={() => refresh()}
+            className="btn btn-secondary"
+            disabled={isLoading}
+            title={t("jobs.refreshTitle")}
+          >
+            {isLoading ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <RefreshCwIcon size={16} />
+            )}
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <>
+          {error && <p className="panel-error">{error}</p>}
+          {!error && jobs.length === 0 && (
+            <p className="panel-empty">{t("jobs.empty")}</p>
+          )}
+          {jobs.length > 0 && (
+            <ul className="jobs-list">
+              {jobs.map((job) => {
+                const duration = formatDuration(job);
+                const isOpen = openJobId === job.id;
+
+                return (
+                  <li key={job.id} className="job-item">
+                    <div className="job-row">
+                      <button
+                        className="job-toggle"
+                        onClick={() => setOpenJobId(isOpen ? null : job.id)}
+                        aria-expanded={isOpen}
+                        title={t("jobs.showLog")}
+                      >
+                        <span className={`job-status status-${job.status}`}>
+                          {STATUS_ICONS[job.status]}
+                          {t(`jobs.status.${job.status}`)}
+                        </span>
+                        <span className="job-title">{job.title}</span>
+                        <span className="job-meta">
+                          {formatDateTime(job.createdAt)}
+                          {duration && ` · ${duration}`}
+                        </span>
+                      </button>
+                      {!isJobFinished(job) && (
+                        <button
+                          onClick={() => handleCancel(job)}
+                          className="btn btn-danger"
+                          title={t("jobs.cancelTitle")}
+                        >
+                          <XIcon size={16} />
+                        </button>
+                      )}
+                    </div>
+                    {isOpen && (
+                      <ol className="job-logs">
+                        {job.logs.map((entry, index) => (
+                          <li key={index}>
+                            <span className="job-log-time">
+                              {formatTime(entry.timestamp)}
+                            </span>
+                            {entry.message}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobsPanel;
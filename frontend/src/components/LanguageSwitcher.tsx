@@ -0,0 +1,28 @@
+import React from "react";
+import { LanguagesIcon } from "lucide-react";
+import { useI18n } from "../i18n/I18nContext";
+import { LOCALES, type Locale } from "../i18n";
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="language-switcher" title={t("language.label")}>
+      <LanguagesIcon size={16} />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="select-input"
+        aria-label={t("language.label")}
+      >
+        {LOCALES.map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import {
+  ArrowLeftIcon,
+  ArrowLeftRightIcon,
+  ArrowRightIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { useModal } from "./ModalContext";
+import { useModUpdates } from "../hooks/useModUpdates";
+import { useListDiff } from "../hooks/useListDiff";
+import type { Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+import "../styles/main.css";
+
+const ListDiffPage: React.FC = () => {
+  const { listName = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { showModal } = useModal();
+  const { t } = useI18n();
+  const { modLists } = useModUpdates();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const left =
+    modLists.find((name) => name.toLowerCase() === listName.toLowerCase()) ??
+    listName;
+  const right = searchParams.get("with") ?? "";
+  const listPath = `/mod/${encodeURIComponent(listName)}`;
+
+  const { diff, isLoading, error, refresh, cherryPick, isPicking } =
+    useListDiff(left, right);
+
+  // Compare against the first other list until one is picked
+  useEffect(() => {
+    if (right) return;
+    const other = modLists.find(
+      (name) => name.toLowerCase() !== left.toLowerCase()
+    );
+    if (other) setSearchParams({ with: other }, { replace: true });
+  }, [left, right, modLists, setSearchParams]);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [left, right]);
+
+  // Selected mods each side can give the other
+  const { fromLeft, fromRight } = useMemo(() => {
+    if (!diff) return { fromLeft: [], fromRight: [] };
+    const changed = diff.versionDifferences.map((d) => d.modId);
+    const pick = (ids: number[]) => ids.filter((id) => selected.has(id));
+    return {
+      fromLeft: pick([...diff.onlyInLeft.map((m) => m.id), ...changed]),
+      fromRight: pick([...diff.onlyInRight.map((m) => m.id), ...changed]),
+    };
+  }, [diff, selected]);
+
+  const toggle = (modId: number) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(modId)) next.delete(modId);
+      else next.add(modId);
+      return next;
+    });
+
+  const handleCherryPick = async (
+    targetList: string,
+    sourceList: string,
+    modIds: number[]
+  ) => {
+    try {
+      const result = await cherryPick({ targetList, sourceList, modIds });
+      setSelected(new Set());
+      showModal({
+        type: "success",
+        title: t("diff.pickedTitle"),
+        message: result.message,
+        duration: 3000,
+      });
+    } catch (err) {
+      showModal({
+        type: "error",
+        title: t("diff.pickFailed"),
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const renderModRow = (mod: Mod) => (
+    <li key={mod.id} className="diff-item">
+      <input
+        type="checkbox"
+        checked={selected.has(mod.id)}
+        onChange={() => toggle(mod.id)}
+      />
+      <span className="diff-name">{mod.name}</span>
+      <span className="diff-version">{mod.version}</span>
+    </li>
+  );
+
+  const isEmpty =
+    !!diff &&
+    diff.onlyInLeft.length === 0 &&
+    diff.onlyInRight.length === 0 &&
+    diff.versionDifferences.length === 0;
+
+  return (
+    <div className="main-wrapper">
+      <div className="app-header">
+        <div className="app-header-bar">
+          <LanguageSwitcher />
+        </div>
+        <h1>{t("diff.title")}</h1>
+        <p>{t("diff.subtitle")}</p>
+      </div>
+
+      <div className="panel diff-panel">
+        <div className="logs-toolbar">
+          <Link to={listPath} className="btn btn-secondary">
+            <ArrowLeftIcon size={16} />
+            <span className="btn-text">
+              {t("logs.backToList", { list: left })}
+            </span>
+          </Link>
+
+          <span className="diff-list-name">{left}</span>
+          <ArrowLeftRightIcon size={16} />
+          <select
+            className="select-input"
+            value={right}
+            onChange={(e) => setSearchParams({ with: e.target.value })}
+          >
+            {modLists
+              .filter((name) => name.toLowerCase() !== left.toLowerCase())
+              .map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+          </select>
+
+          <button
+            onClick={() => refresh()}
+            className="btn btn-secondary"
+            disabled={isLoading || !right}
+            title={t("diff.refreshTitle")}
+          >
+            {isLoading ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <RefreshCwIcon size={16} />
+            )}
+          </button>
+        </div>
+
+        {error && <p className="panel-error">{error}</p>}
+        {!right && <p className="panel-empty">{t("diff.noOtherList")}</p>}
+
+        {diff && (
+          <>
+            <div className="logs-summary">
+              <span>
+                {t("diff.summary", {
+                  identical: diff.identicalCount,
+                  changed: diff.versionDifferences.length,
+                  left: diff.onlyInLeft.length,
+                  right: diff.onlyInRight.length,
+                })}
+              </span>
+              {diff.leftSptVersion !== diff.rightSptVersion && (
+                <span className="logs-error-count">
+                  {t("diff.sptDiffers", {
+                    left: diff.leftSptVersion,
+                    right: diff.rightSptVersion,
+                  })}
+                </span>
+              )}
+            </div>
+
+            {isEmpty && <p className="panel-empty">{t("diff.identical")}</p>}
+
+            {diff.versionDifferences.length > 0 && (
+              <section className="diff-section">
+                <h3>{t("diff.versionDifferences")}</h3>
+                <ul className="diff-list">
+                  <li className="diff-item diff-heading">
+                    <span />
+                    <span className="diff-name">{t("diff.mod")}</span>
+                    <span className="diff-version">{diff.leftList}</span>
+                    <span className="diff-version">{diff.rightList}</span>
+                  </li>
+                  {diff.versionDifferences.map((d) => (
+                    <li key={d.modId} className="diff-item">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(d.modId)}
+                        onChange={() => toggle(d.modId)}
+                      />
+                      <span className="diff-name">{d.modName}</span>
+                      <span
+                        className={`diff-version ${
+                          d.comparison > 0 ? "newer" : ""
+                        }`}
+                      >
+                        {d.left.version}
+                      </span>
+                      <span
+                        className={`diff-version ${
+                          d.comparison < 0 ? "newer" : ""
+                        }`}
+                      >
+                        {d.right.version}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {diff.onlyInLeft.length > 0 && (
+              <section className="diff-section">
+                <h3>{t("diff.onlyIn", { list: diff.leftList })}</h3>
+                <ul className="diff-list">
+                  {diff.onlyInLeft.map(renderModRow)}
+                </ul>
+              </section>
+            )}
+
+            {diff.onlyInRight.length > 0 && (
+              <section className="diff-section">
+                <h3>{t("diff.onlyIn", { list: diff.rightList })}</h3>
+                <ul className="diff-list">
+                  {diff.onlyInRight.map(renderModRow)}
+                </ul>
+              </section>
+            )}
+
+            {!isEmpty && (
+              <div className="logs-pager">
+                <button
+                  className="btn btn-primary"
+                  onClick={() =>
+                    handleCherryPick(diff.leftList, diff.rightList, fromRight)
+                  }
+                  disabled={fromRight.length === 0 || isPicking}
+                  title={t("diff.copyIntoTitle", {
+                    source: diff.rightList,
+                    target: diff.leftList,
+                  })}
+                >
+                  <ArrowLeftIcon size={16} />
+                  <span className="btn-text">
+                    {t("diff.copyInto", {
+                      count: fromRight.length,
+                      list: diff.leftList,
+                    })}
+                  </span>
+                </button>
+                <button
+                  className="btn btn-primary"
+                  onClick={() =>
+                    handleCherryPick(diff.rightList, diff.leftList, fromLeft)
+                  }
+                  disabled={fromLeft.length === 0 || isPicking}
+                  title={t("diff.copyIntoTitle", {
+                    source: diff.leftList,
+                    target: diff.rightList,
+                  })}
+                >
+                  <span className="btn-text">
+                    {t("diff.copyInto", {
+                      count: fromLeft.length,
+                      list: diff.rightList,
+                    })}
+                  </span>
+                  <ArrowRightIcon size={16} />
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ListDiffPage;
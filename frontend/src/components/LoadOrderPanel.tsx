@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from "react";
+import {
+  AlertTriangleIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  GripVerticalIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import { useModal } from "./ModalContext";
+import { useLoadOrder } from "../hooks/useLoadOrder";
+import type { LoadOrderEntry } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface LoadOrderPanelProps {
+  currentList: string;
+  installedMods: Record<number, boolean>;
+  disabledCount: number;
+}
+
+const LoadOrderPanel: React.FC<LoadOrderPanelProps> = ({
+  currentList,
+  installedMods,
+  disabledCount,
+}) => {
+  const { showModal } = useModal();
+  const { t } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const installedCount = Object.values(installedMods).filter(Boolean).length;
+  const {
+    entries,
+    warnings,
+    isLoading,
+    error,
+    refresh,
+    saveLoadOrder,
+    isSaving,
+  } = useLoadOrder(currentList, installedCount, disabledCount);
+
+  // Local copy so the list reorders immediately while dragging
+  const [order, setOrder] = useState<LoadOrderEntry[]>(entries);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setOrder(entries);
+  }, [entries]);
+
+  if (!currentList || (!isLoading && entries.length === 0)) return null;
+
+  const hasWarnings = warnings.length > 0;
+  const warnedIds = new Set(warnings.map((warning) => warning.modId));
+
+  let status: string;
+  if (error) status = error;
+  else if (hasWarnings)
+    status = t("loadOrder.warnings", { count: warnings.length });
+  else status = t("loadOrder.count", { count: entries.length });
+
+  const handleDragOver = (e: React.DragEvent, targetId: number) => {
+    e.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+
+    setOrder((prev) => {
+      const from = prev.findIndex((entry) => entry.modId === draggedId);
+      const to = prev.findIndex((entry) => entry.modId === targetId);
+      if (from < 0 || to < 0) return prev;
+
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  // dragend fires whether or not the item was dropped on the list, so it persists the order
+  const handleDragEnd = async () => {
+    setDraggedId(null);
+
+    const ids = order.map((entry) => entry.modId);
+    if (ids.every((id, index) => id === entries[index]?.modId)) return;
+
+    try {
+      await saveLoadOrder(ids);
+    } catch (err) {
+      setOrder(entries);
+      showModal({
+        type: "error",
+        title: t("loadOrder.saveFailed"),
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  return (
+    <div className={`panel load-order-panel ${hasWarnings ? "warning" : ""}`}>
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <span className="panel-title">{t("loadOrder.title")}</span>
+          <span className="panel-status">
+            {hasWarnings && <AlertTriangleIcon size={14} />}
+            {status}
+          </span>
+        </button>
+        <button
+          onClick={() => refresh()}
+          className="btn btn-secondary"
+          disabled={isLoading || isSaving}
+          title={t("loadOrder.refreshTitle")}
+        >
+          {isLoading || isSaving ? (
+            <LoaderIcon size={16} className="spinning" />
+          ) : (
+            <RefreshCwIcon size={16} />
+          )}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <p className="panel-empty">{t("loadOrder.hint")}</p>
+
+          {hasWarnings && (
+            <ul className="load-order-warnings">
+              {warnings.map((warning) => (
+                <li
+                  key={`${warning.modId}-${warning.rule}-${warning.otherModId}`}
+                >
+                  <AlertTriangleIcon size={14} />
+                  {t(`loadOrder.rule.${warning.rule}`, {
+                    mod: warning.modName,
+                    other: warning.otherModName,
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <ol className="load-order-list">
+            {order.map((entry, index) => (
+              <li
+                key={entry.modId}
+                className={`load-order-item ${
+                  draggedId === entry.modId ? "dragging" : ""
+                } ${warnedIds.has(entry.modId) ? "warning" : ""} ${
+                  entry.enabled ? "" : "disabled"
+                }`}
+                draggable={!isSaving}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggedId(entry.modId);
+                }}
+                onDragOver={(e) => handleDragOver(e, entry.modId)}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={handleDragEnd}
+              >
+                <GripVerticalIcon size={16} className="load-order-grip" />
+                <span className="load-order-index">{index + 1}</span>
+                <span className="load-order-name">{entry.modName}</span>
+                <span className="load-order-folder">
+                  {!entry.enabled
+                    ? t("loadOrder.disabled")
+                    : entry.folder ?? t("loadOrder.notInstalled")}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LoadOrderPanel;
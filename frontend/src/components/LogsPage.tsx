@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  AlertTriangleIcon,
+  ArrowLeftIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronsRightIcon,
+  LoaderIcon,
+  PackageIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { LOG_PAGE_SIZE, useLogFiles, useLogPage } from "../hooks/useLogs";
+import { useI18n } from "../i18n/I18nContext";
+import "../styles/main.css";
+
+const LogsPage: React.FC = () => {
+  const { listName = "" } = useParams();
+  const { t, formatBytes, formatDateTime } = useI18n();
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [offset, setOffset] = useState<number | undefined>(undefined);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const listPath = `/mod/${encodeURIComponent(listName)}`;
+  const {
+    files,
+    isLoading: isLoadingFiles,
+    error: filesError,
+    refresh: refreshFiles,
+  } = useLogFiles();
+  const { page, isLoading, error, refresh } = useLogPage(
+    selectedPath,
+    offset,
+    listName
+  );
+
+  // Open the most recently written log once the list arrives
+  useEffect(() => {
+    if (!selectedPath && files.length > 0) setSelectedPath(files[0].path);
+  }, [files, selectedPath]);
+
+  const lines = useMemo(() => {
+    const all = page?.lines ?? [];
+    return errorsOnly ? all.filter((line) => line.level === "error") : all;
+  }, [page, errorsOnly]);
+
+  const errorCount = page?.lines.filter(
+    (line) => line.level === "error"
+  ).length;
+  const attributed = useMemo(() => {
+    const byMod = new Map<number, string>();
+    page?.lines.forEach((line) => {
+      if (line.modId != null && line.modName)
+        byMod.set(line.modId, line.modName);
+    });
+    return [...byMod.entries()];
+  }, [page]);
+
+  const firstLine = page ? page.offset + 1 : 0;
+  const lastLine = page ? page.offset + page.lines.length : 0;
+  const hasOlder = !!page && page.offset > 0;
+  const hasNewer = !!page && lastLine < page.totalLines;
+
+  const selectFile = (path: string) => {
+    setSelectedPath(path);
+    setOffset(undefined);
+  };
+
+  return (
+    <div className="main-wrapper">
+      <div className="app-header">
+        <div className="app-header-bar">
+          <LanguageSwitcher />
+        </div>
+        <h1>{t("logs.title")}</h1>
+        <p>{t("logs.subtitle")}</p>
+      </div>
+
+      <div className="panel logs-panel">
+        <div className="logs-toolbar">
+          {listName && (
+            <Link to={listPath} className="btn btn-secondary">
+              <ArrowLeftIcon size={16} />
+              <span className="btn-text">
+                {t("logs.backToList", { list: listName })}
+              </span>
+            </Link>
+          )}
+
+          <select
+            className="select-input"
+            value={selectedPath ?? ""}
+            onChange={(e) => selectFile(e.target.value)}
+            disabled={files.length === 0}
+          >
+            {files.map((file) => (
+              <option key={file.path} value={file.path}>
+                {t("logs.fileOption", {
+                  source: t(`logs.source.${file.source}`),
+                  path: file.path,
+                  size: formatBytes(file.sizeBytes),
+                  date: formatDateTime(file.modifiedAt),
+                })}
+              </option>
+            ))}
+          </select>
+
+          <label className="logs-filter">
+            <input
+              type="checkbox"
+              checked={errorsOnly}
+              onChange={(e) => setErrorsOnly(e.target.checked)}
+            />
+            {t("logs.errorsOnly")}
+          </label>
+
+          <button
+            onClick={() => {
+              refreshFiles();
+              refresh();
+            }}
+            className="btn btn-secondary"
+            disabled={isLoading || isLoadingFiles}
+            title={t("logs.refreshTitle")}
+          >
+            {isLoading || isLoadingFiles ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <RefreshCwIcon size={16} />
+            )}
+          </button>
+        </div>
+
+        {(filesError || error) && (
+          <p className="panel-error">{filesError ?? error}</p>
+        )}
+        {!filesError && !isLoadingFiles && files.length === 0 && (
+          <p className="panel-empty">{t("logs.noFiles")}</p>
+        )}
+
+        {page && (
+          <>
+            <div className="logs-summary">
+              <span>
+                {t("logs.range", {
+                  first: firstLine,
+                  last: lastLine,
+                  total: page.totalLines,
+                })}
+              </span>
+              {!!errorCount && (
+                <span className="logs-error-count">
+                  <AlertTriangleIcon size={14} />
+                  {t("logs.errors", { count: errorCount })}
+                </span>
+              )}
+              {attributed.map(([modId, modName]) => (
+                <Link
+                  key={modId}
+                  to={`${listPath}#mod-${modId}`}
+                  className="log-mod-link"
+                  title={t("logs.modLinkTitle")}
+                >
+                  <PackageIcon size={12} />
+                  {modName}
+                </Link>
+              ))}
+            </div>
+
+            <div className="console-output logs-output">
+              {lines.length === 0 ? (
+                <p className="panel-empty">
+                  {errorsOnly ? t("logs.noErrors") : t("logs.empty")}
+                </p>
+              ) : (
+                lines.map((line) => (
+                  <div
+                    key={line.number}
+                    className={`console-line log-line level-${line.level}`}
+                  >
+                    <span className="console-time">{line.number}</span>
+                    <span className="console-text">{line.text}</span>
+                    {line.modId != null && (
+                      <Link
+                        to={`${listPath}#mod-${line.modId}`}
+                        className="log-mod-link"
+                        title={t("logs.modLinkTitle")}
+                      >
+                        <PackageIcon size={12} />
+                        {line.modName}
+                      </Link>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="logs-pager">
+              <button
+                className="btn btn-secondary"
+                onClick={() =>
+                  setOffset(Math.max(0, page.offset - LOG_PAGE_SIZE))
+                }
+                disabled={!hasOlder || isLoading}
+              >
+                <ChevronLeftIcon size={16} />
+                <span className="btn-text">{t("logs.older")}</span>
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={() => setOffset(lastLine)}
+                disabled={!hasNewer || isLoading}
+              >
+                <span className="btn-text">{t("logs.newer")}</span>
+                <ChevronRightIcon size={16} />
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={() => setOffset(undefined)}
+                disabled={offset === undefined || isLoading}
+              >
+                <span className="btn-text">{t("logs.latest")}</span>
+                <ChevronsRightIcon size={16} />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LogsPage;
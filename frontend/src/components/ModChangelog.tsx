@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ScrollTextIcon,
+} from "lucide-react";
+import type { ModChangelogEntry } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ModChangelogProps {
+  entries: ModChangelogEntry[];
+  defaultExpanded?: boolean;
+}
+
+const ModChangelog: React.FC<ModChangelogProps> = ({
+  entries,
+  defaultExpanded = false,
+}) => {
+  const { t, formatDate } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mod-changelog">
+      <button
+        className="mod-changelog-toggle"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? (
+          <ChevronDownIcon size={14} />
+        ) : (
+          <ChevronRightIcon size={14} />
+        )}
+        <ScrollTextIcon size={14} />
+        {t("changelog.toggle", { count: entries.length })}
+      </button>
+
+      {isExpanded && (
+        <ul className="mod-changelog-list">
+          {entries.map((entry) => (
+            <li key={entry.version} className="mod-changelog-entry">
+              <div className="mod-changelog-header">
+                <span className="mod-changelog-version">{entry.version}</span>
+                {entry.publishedAt && (
+                  <span className="mod-changelog-date">
+                    {formatDate(entry.publishedAt)}
+                  </span>
+                )}
+              </div>
+              {/* Notes are shown as plain text, never as HTML from Forge */}
+              <p className="mod-changelog-notes">
+                {entry.notes || t("changelog.noNotes")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ModChangelog;
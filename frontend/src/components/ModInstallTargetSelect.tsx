@@ -0,0 +1,97 @@
+import React from "react";
+import { FolderInputIcon } from "lucide-react";
+import { useModal } from "./ModalContext";
+import type { InstallTarget, InstallTargetKind, Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ModInstallTargetSelectProps {
+  mod: Mod;
+  setModInstallTarget: (
+    id: number,
+    name: string,
+    target: InstallTarget | null
+  ) => void;
+}
+
+const INSTALL_TARGET_KINDS: InstallTargetKind[] = [
+  "server",
+  "client",
+  "custom",
+];
+
+// Value of the option that asks again on the next install
+const ASK = "";
+// Value of the option that edits the folder of a custom target already set
+const EDIT_PATH = "custom-edit";
+
+const ModInstallTargetSelect: React.FC<ModInstallTargetSelectProps> = ({
+  mod,
+  setModInstallTarget,
+}) => {
+  const { showConfirmation } = useModal();
+  const { t } = useI18n();
+  const kind = mod.installTarget?.kind ?? ASK;
+
+  const askCustomPath = () => {
+    showConfirmation({
+      title: t("installTarget.customTitle"),
+      message: t("installTarget.customMessage", { name: mod.name }),
+      confirmText: t("common.confirm"),
+      showInput: true,
+      inputPlaceholder: "BepInEx/patchers",
+      inputDefaultValue: mod.installTarget?.path ?? "",
+      onConfirm: (path) => {
+        if (!path?.trim()) return;
+        setModInstallTarget(mod.id, mod.name, {
+          kind: "custom",
+          path: path.trim(),
+        });
+      },
+    });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    if (value === "custom" || value === EDIT_PATH) {
+      askCustomPath();
+      return;
+    }
+    if (value === kind) return;
+    setModInstallTarget(
+      mod.id,
+      mod.name,
+      value === ASK ? null : { kind: value as InstallTargetKind }
+    );
+  };
+
+  return (
+    <span className="mod-install-target">
+      <FolderInputIcon size={12} aria-hidden="true" />
+      <select
+        value={kind}
+        onChange={handleChange}
+        className="select-input"
+        aria-label={t("installTarget.label", { name: mod.name })}
+        title={t("installTarget.title")}
+      >
+        <option value={ASK}>{t("installTarget.ask")}</option>
+        {INSTALL_TARGET_KINDS.map((option) => (
+          <option key={option} value={option}>
+            {option === "custom" && mod.installTarget?.path
+              ? mod.installTarget.path
+              : t(`installTarget.kind.${option}`)}
+          </option>
+        ))}
+        {/* Mappings are made in the install dialog, where the archive's folders are shown */}
+        {kind === "mapped" && (
+          <option value="mapped">{t("installTarget.kind.mapped")}</option>
+        )}
+        {kind === "custom" && (
+          <option value={EDIT_PATH}>{t("installTarget.editPath")}</option>
+        )}
+      </select>
+    </span>
+  );
+};
+
+export default ModInstallTargetSelect;
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import {
   PackageIcon,
   Trash2Icon,
@@ -8,38 +8,70 @@ import {
   ServerIcon,
   MonitorIcon,
   CpuIcon,
+  LinkIcon,
+  FolderOpenIcon,
+  PowerIcon,
+  PowerOffIcon,
 } from "lucide-react";
-import { getVersionMajor } from "../utils/versionUtils";
-import { Mod } from "../hooks/types";
+import InstalledFilesDrawer from "./InstalledFilesDrawer";
+import ModVersionPicker from "./ModVersionPicker";
+import ModUpdatePolicySelect from "./ModUpdatePolicySelect";
+import ModInstallTargetSelect from "./ModInstallTargetSelect";
+import ModChangelog from "./ModChangelog";
+import ReviewUpdateModal from "./ReviewUpdateModal";
+import { getCompatibility } from "../utils/versionUtils";
+import { InstallTarget, Mod, UpdatePolicy } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ModItemProps {
+  currentList: string;
   mod: Mod;
   isInstalled: boolean;
   downloadMod: (id: number, name: string) => void;
   handleUpdateAndDownload: (id: number, name: string) => void;
   removeMod: (id: number, name: string) => void;
+  toggleModEnabled: (id: number, name: string, enabled: boolean) => void;
+  pinModVersion: (id: number, name: string, version: string | null) => void;
+  setModUpdatePolicy: (
+    id: number,
+    name: string,
+    policy: UpdatePolicy | null
+  ) => void;
+  setModInstallTarget: (
+    id: number,
+    name: string,
+    target: InstallTarget | null
+  ) => void;
   selectedSptVersion: string;
   hasUpdate: boolean;
+  requiredBy?: string[];
 }
 
 const ModItem: React.FC<ModItemProps> = ({
+  currentList,
   mod,
   isInstalled,
   downloadMod,
   handleUpdateAndDownload,
   removeMod,
+  toggleModEnabled,
+  pinModVersion,
+  setModUpdatePolicy,
+  setModInstallTarget,
   selectedSptVersion,
   hasUpdate,
+  requiredBy,
 }) => {
+  const { t, formatBytes, formatDate } = useI18n();
+  const [showFiles, setShowFiles] = useState(false);
+  const [showReview, setShowReview] = useState(false);
   const modSptConstraint = mod.sptVersionConstraint || "N/A";
-  const isUnknown = modSptConstraint === "N/A";
-  const modMajor = isUnknown ? 0 : getVersionMajor(modSptConstraint);
-  const selectedSptMajor = getVersionMajor(selectedSptVersion);
+  const compatibility = getCompatibility(modSptConstraint, selectedSptVersion);
 
   let compatibilityColor;
-  if (isUnknown) {
+  if (compatibility === "unknown") {
     compatibilityColor = "#f59e0b"; // giallo - sconosciuto
-  } else if (modMajor === selectedSptMajor) {
+  } else if (compatibility === "compatible") {
     compatibilityColor = "#10b981"; // verde - compatibile
   } else {
     compatibilityColor = "#dc2626"; // rosso - incompatibile
@@ -47,6 +79,10 @@ const ModItem: React.FC<ModItemProps> = ({
 
   const showUpdateIndicator = hasUpdate || mod.updateAvailable;
   const latestVersion = mod.latestVersion || mod.version;
+  const updateIncompatible =
+    showUpdateIndicator &&
+    getCompatibility(mod.latestSptVersionConstraint, selectedSptVersion) ===
+      "incompatible";
 
   // Funzione per ottenere le informazioni sul tipo di mod
   const getModTypeInfo = () => {
@@ -54,28 +90,28 @@ const ModItem: React.FC<ModItemProps> = ({
       case "server":
         return {
           icon: <ServerIcon size={14} />,
-          label: "Server Mod",
+          label: t("mod.typeServer"),
           color: "#3b82f6", // blue
           bgColor: "rgba(59, 130, 246, 0.1)",
         };
       case "client":
         return {
           icon: <MonitorIcon size={14} />,
-          label: "Client Mod",
+          label: t("mod.typeClient"),
           color: "#8b5cf6", // purple
           bgColor: "rgba(139, 92, 246, 0.1)",
         };
       case "both":
         return {
           icon: <CpuIcon size={14} />,
-          label: "Server & Client",
+          label: t("mod.typeBoth"),
           color: "#06b6d4", // cyan
           bgColor: "rgba(6, 182, 212, 0.1)",
         };
       default:
         return {
           icon: <PackageIcon size={14} />,
-          label: "Unknown Type",
+          label: t("mod.typeUnknown"),
           color: "#6b7280", // gray
           bgColor: "rgba(107, 114, 128, 0.1)",
         };
@@ -83,9 +119,13 @@ const ModItem: React.FC<ModItemProps> = ({
   };
 
   const modTypeInfo = getModTypeInfo();
+  const isDisabled = mod.enabled === false;
 
   return (
-    <div className="mod-card">
+    <div
+      className={`mod-card ${isDisabled ? "disabled" : ""}`}
+      id={`mod-${mod.id}`}
+    >
       <div className="mod-card-header">
         <div className="mod-image">
           <div className="mod-icon">
@@ -121,24 +161,24 @@ const ModItem: React.FC<ModItemProps> = ({
                 disabled={isInstalled}
                 title={
                   isInstalled
-                    ? "Already installed - use Update button"
-                    : "Download mod"
+                    ? t("mod.alreadyInstalledTitle")
+                    : t("mod.downloadTitle")
                 }
               >
                 {isInstalled ? (
                   <>
                     <CheckCircleIcon size={16} />
-                    <span className="btn-text">Installed</span>
+                    <span className="btn-text">{t("mod.installed")}</span>
                   </>
                 ) : (
                   <>
                     <DownloadIcon size={16} />
-                    <span className="btn-text">Download</span>
+                    <span className="btn-text">{t("mod.download")}</span>
                   </>
                 )}
               </button>
               <button
-                onClick={() => handleUpdateAndDownload(mod.id, mod.name)}
+                onClick={() => setShowReview(true)}
                 className={`btn ${
                   showUpdateIndicator && isInstalled
                     ? "btn-warning"
@@ -147,40 +187,102 @@ const ModItem: React.FC<ModItemProps> = ({
                 disabled={!showUpdateIndicator || !isInstalled}
                 title={
                   !isInstalled
-                    ? "Mod not installed - download first"
+                    ? t("mod.notInstalledTitle")
+                    : updateIncompatible
+                    ? t("mod.updateToNeedsSpt", {
+                        version: latestVersion,
+                        constraint: mod.latestSptVersionConstraint ?? "",
+                      })
                     : showUpdateIndicator
-                    ? `Update to ${latestVersion}`
-                    : "No updates available"
+                    ? t("mod.updateTo", { version: latestVersion })
+                    : t("mod.noUpdates")
                 }
               >
                 <RefreshCwIcon size={16} />
-                <span className="btn-text">Update</span>
+                <span className="btn-text">{t("mod.update")}</span>
               </button>
 
+              {isInstalled && (
+                <button
+                  onClick={() => toggleModEnabled(mod.id, mod.name, isDisabled)}
+                  className={`btn ${
+                    isDisabled ? "btn-primary" : "btn-secondary"
+                  }`}
+                  title={
+                    isDisabled ? t("mod.enableTitle") : t("mod.disableTitle")
+                  }
+                >
+                  {isDisabled ? (
+                    <PowerIcon size={16} />
+                  ) : (
+                    <PowerOffIcon size={16} />
+                  )}
+                  <span className="btn-text">
+                    {isDisabled ? t("mod.enable") : t("mod.disable")}
+                  </span>
+                </button>
+              )}
+
+              {isInstalled && (
+                <button
+                  onClick={() => setShowFiles((prev) => !prev)}
+                  className={`btn btn-secondary ${showFiles ? "active" : ""}`}
+                  title={t("mod.filesTitle")}
+                  aria-expanded={showFiles}
+                >
+                  <FolderOpenIcon size={16} />
+                  <span className="btn-text">{t("mod.files")}</span>
+                </button>
+              )}
+
               <button
                 onClick={() => removeMod(mod.id, mod.name)}
                 className="btn btn-danger"
-                title="Remove mod from list"
+                title={t("mod.removeTitle")}
               >
                 <Trash2Icon size={16} />
-                <span className="btn-text">Remove</span>
+                <span className="btn-text">{t("mod.remove")}</span>
               </button>
             </div>
           </div>
           <div className="mod-teaser">
-            <span>{mod.teaser || "No description"}</span>
+            <span>{mod.teaser || t("mod.noDescription")}</span>
           </div>
           <div className="mod-meta">
             <div className="mod-version-info">
               <span>
-                Version: {mod.version}
+                {t("mod.version", { version: mod.version })}
                 {showUpdateIndicator && (
                   <span className="update-available-text">
-                    → {latestVersion} available!
+                    {t("mod.versionAvailable", { version: latestVersion })}
                   </span>
                 )}
               </span>
-              <span style={{ color: compatibilityColor }}>
+              <ModVersionPicker mod={mod} pinModVersion={pinModVersion} />
+              {/* A pinned release is never updated, whatever the policy */}
+              {!mod.pinnedVersion && (
+                <ModUpdatePolicySelect
+                  mod={mod}
+                  setModUpdatePolicy={setModUpdatePolicy}
+                />
+              )}
+              {/* Only archives without SPT/ or BepInEx/ folders use the install target */}
+              {(mod.installTarget || mod.modType === "unknown") && (
+                <ModInstallTargetSelect
+                  mod={mod}
+                  setModInstallTarget={setModInstallTarget}
+                />
+              )}
+              <span
+                style={{ color: compatibilityColor }}
+                title={
+                  compatibility === "unknown"
+                    ? t("mod.sptUnknown")
+                    : compatibility === "compatible"
+                    ? t("mod.sptCompatible", { version: selectedSptVersion })
+                    : t("mod.sptIncompatible", { version: selectedSptVersion })
+                }
+              >
                 SPT: {modSptConstraint}
               </span>
             </div>
@@ -195,15 +297,66 @@ const ModItem: React.FC<ModItemProps> = ({
                 {modTypeInfo.icon}
                 {modTypeInfo.label}
               </span>
-              {isInstalled && <span className="installed-tag">Installed</span>}
+              {isInstalled && (
+                <span className="installed-tag">{t("mod.installed")}</span>
+              )}
+              {isInstalled && isDisabled && (
+                <span className="disabled-tag">{t("mod.disabledTag")}</span>
+              )}
               {showUpdateIndicator && isInstalled && (
-                <span className="update-tag">Update Available</span>
+                <span
+                  className={`update-tag ${
+                    updateIncompatible ? "incompatible" : ""
+                  }`}
+                  title={
+                    updateIncompatible
+                      ? t("mod.updateNeedsSptTitle", {
+                          version: latestVersion,
+                          constraint: mod.latestSptVersionConstraint ?? "",
+                        })
+                      : undefined
+                  }
+                >
+                  {updateIncompatible
+                    ? t("mod.updateNeedsSpt")
+                    : t("mod.updateAvailable")}
+                </span>
+              )}
+              {requiredBy && requiredBy.length > 0 && (
+                <span
+                  className="required-by-tag"
+                  title={t("mod.requiredBy", { mods: requiredBy.join(", ") })}
+                >
+                  <LinkIcon size={12} />
+                  {t("mod.requiredBy", { mods: requiredBy.join(", ") })}
+                </span>
               )}
-              <span className="mod-size">{mod.contentLength || "Unknown"}</span>
+              {mod.updatedAt && (
+                <span className="mod-updated">
+                  {t("mod.updatedAt", { date: formatDate(mod.updatedAt) })}
+                </span>
+              )}
+              <span className="mod-size">
+                {mod.contentLengthBytes != null
+                  ? formatBytes(mod.contentLengthBytes)
+                  : mod.contentLength || t("mod.sizeUnknown")}
+              </span>
             </div>
           </div>
         </div>
       </div>
+      {showUpdateIndicator && <ModChangelog entries={mod.changelog ?? []} />}
+      {showFiles && isInstalled && (
+        <InstalledFilesDrawer currentList={currentList} modId={mod.id} />
+      )}
+      <ReviewUpdateModal
+        isOpen={showReview}
+        mod={mod}
+        latestVersion={latestVersion}
+        updateIncompatible={!!updateIncompatible}
+        onClose={() => setShowReview(false)}
+        onConfirm={() => handleUpdateAndDownload(mod.id, mod.name)}
+      />
     </div>
   );
 };
@@ -5,10 +5,18 @@ import React, {
   useImperativeHandle,
   useRef,
 } from "react";
+import { DownloadIcon, RefreshCwIcon } from "lucide-react";
+import { useLocation } from "react-router-dom";
 import AddModBar from "./AddModBar";
 import ModItem from "./ModItem";
-import { Mod } from "../hooks/types";
+import DownloadProgressPanel from "./DownloadProgressPanel";
+import LoadOrderPanel from "./LoadOrderPanel";
+import UpdateAllModal from "./UpdateAllModal";
+import { InstallTarget, Mod, UpdatePolicy } from "../hooks/types";
 import { useModUpdates } from "../hooks/useModUpdates";
+import { getCompatibility } from "../utils/versionUtils";
+import type { DownloadProgressState } from "../hooks/useDownloadProgress";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ModListProps {
   currentList: string;
@@ -21,6 +29,23 @@ interface ModListProps {
   downloadMod: (id: number, name: string) => void;
   handleUpdateAndDownload: (id: number, name: string) => void;
   removeMod: (id: number, name: string) => void;
+  toggleModEnabled: (id: number, name: string, enabled: boolean) => void;
+  pinModVersion: (id: number, name: string, version: string | null) => void;
+  setModUpdatePolicy: (
+    id: number,
+    name: string,
+    policy: UpdatePolicy | null
+  ) => void;
+  setModInstallTarget: (
+    id: number,
+    name: string,
+    target: InstallTarget | null
+  ) => void;
+  downloadAllMods: () => void;
+  updateMods: (modIds: number[]) => Promise<boolean>;
+  downloadProgress: DownloadProgressState;
+  cancelDownloads: () => void;
+  dismissDownloadProgress: () => void;
 }
 
 interface ModListRef {
@@ -40,9 +65,20 @@ const ModList = forwardRef<ModListRef, ModListProps>(
       downloadMod,
       handleUpdateAndDownload,
       removeMod,
+      toggleModEnabled,
+      pinModVersion,
+      setModUpdatePolicy,
+      setModInstallTarget,
+      downloadAllMods,
+      updateMods,
+      downloadProgress,
+      cancelDownloads,
+      dismissDownloadProgress,
     },
     ref
   ) => {
+    const { t } = useI18n();
+    const { hash } = useLocation();
     const { modUpdates, refreshModUpdates, isCheckingModUpdates } =
       useModUpdates(currentList);
 
@@ -55,6 +91,7 @@ const ModList = forwardRef<ModListRef, ModListProps>(
     );
 
     const checkUpdateTimeoutRef = useRef<number>();
+    const [showUpdateAll, setShowUpdateAll] = useState(false);
 
     const checkModUpdatesForList = async () => {
       if (!currentList || isCheckingModUpdates) return;
@@ -118,7 +155,13 @@ const ModList = forwardRef<ModListRef, ModListProps>(
         const updatedData: Record<number, Mod> = {};
 
         modUpdates.forEach((mod: Mod) => {
-          if (mod.updateAvailable) {
+          if (
+            mod.updateAvailable &&
+            getCompatibility(
+              mod.latestSptVersionConstraint,
+              selectedSptVersion
+            ) !== "incompatible"
+          ) {
             updateIds.add(mod.id);
             updatedData[mod.id] = mod;
           }
@@ -127,7 +170,23 @@ const ModList = forwardRef<ModListRef, ModListProps>(
         setModsWithUpdates(updateIds);
         setUpdatedModsData(updatedData);
       }
-    }, [modUpdates]);
+    }, [modUpdates, selectedSptVersion]);
+
+    // Links from the log viewer point at a mod card with #mod-<id>
+    useEffect(() => {
+      if (!hash.startsWith("#mod-")) return;
+
+      const card = document.getElementById(hash.slice(1));
+      if (!card) return;
+
+      card.scrollIntoView({ behavior: "smooth", block: "center" });
+      card.classList.add("focused");
+      const timeout = window.setTimeout(
+        () => card.classList.remove("focused"),
+        2000
+      );
+      return () => window.clearTimeout(timeout);
+    }, [hash, currentMods]);
 
     useImperativeHandle(ref, () => ({
       forceCheckUpdates: checkModUpdatesForList,
@@ -137,11 +196,11 @@ const ModList = forwardRef<ModListRef, ModListProps>(
       return (
         <div className="mods-section">
           <div className="section-header">
-            <h2>0 Mods</h2>
+            <h2>{t("modList.noListTitle")}</h2>
           </div>
 
           <div className="empty-state">
-            <p>Select an existing list or create a new one to get started.</p>
+            <p>{t("modList.noList")}</p>
           </div>
         </div>
       );
@@ -149,6 +208,16 @@ const ModList = forwardRef<ModListRef, ModListProps>(
 
     const hasUpdates = modsWithUpdates.size > 0;
     const enhancedMods = currentMods.map(getEnhancedMod);
+    const outdatedMods = enhancedMods.filter(
+      (mod) => modsWithUpdates.has(mod.id) || mod.updateAvailable
+    );
+
+    const requiredBy: Record<number, string[]> = {};
+    currentMods.forEach((mod) => {
+      mod.dependencies?.forEach((dep) => {
+        (requiredBy[dep.modId] ||= []).push(mod.name);
+      });
+    });
 
     return (
       <div className="mods-section">
@@ -157,19 +226,63 @@ const ModList = forwardRef<ModListRef, ModListProps>(
             {hasUpdates && (
               <span
                 className="update-badge-header pulsing"
-                title={`${modsWithUpdates.size} mod(s) have updates`}
+                title={t("modList.updatesTitle", {
+                  count: modsWithUpdates.size,
+                })}
               >
-                {modsWithUpdates.size} update(s)
+                {t("modList.updates", { count: modsWithUpdates.size })}
               </span>
             )}
 
             <h2>
-              {enhancedMods.length} Mod{enhancedMods.length !== 1 ? "s" : ""} in{" "}
-              {currentList}
+              {t("modList.heading", {
+                count: enhancedMods.length,
+                list: currentList,
+              })}
             </h2>
           </div>
+
+          <button
+            onClick={downloadAllMods}
+            className="btn btn-primary"
+            disabled={downloadProgress.isRunning || enhancedMods.length === 0}
+            title={t("modList.downloadAllTitle")}
+          >
+            <DownloadIcon size={16} />
+            <span className="btn-text">{t("modList.downloadAll")}</span>
+          </button>
+          {outdatedMods.length > 0 && (
+            <button
+              onClick={() => setShowUpdateAll(true)}
+              className="btn btn-warning"
+              disabled={downloadProgress.isRunning}
+              title={t("modList.updateAllTitle")}
+            >
+              <RefreshCwIcon size={16} />
+              <span className="btn-text">
+                {t("modList.updateAll", { count: outdatedMods.length })}
+              </span>
+            </button>
+          )}
         </div>
 
+        <UpdateAllModal
+          isOpen={showUpdateAll}
+          mods={outdatedMods}
+          installedMods={installedMods}
+          selectedSptVersion={selectedSptVersion}
+          onClose={() => setShowUpdateAll(false)}
+          onUpdate={updateMods}
+        />
+
+        {downloadProgress.operationId && (
+          <DownloadProgressPanel
+            progress={downloadProgress}
+            onCancel={cancelDownloads}
+            onDismiss={dismissDownloadProgress}
+          />
+        )}
+
         <AddModBar
           modUrl={modUrl}
           setModUrl={setModUrl}
@@ -177,22 +290,36 @@ const ModList = forwardRef<ModListRef, ModListProps>(
           currentList={currentList}
         />
 
+        <LoadOrderPanel
+          currentList={currentList}
+          installedMods={installedMods}
+          disabledCount={
+            currentMods.filter((mod) => mod.enabled === false).length
+          }
+        />
+
         {enhancedMods.length === 0 ? (
           <div className="empty-state">
-            <p>No mods in this list. Add some mods to get started!</p>
+            <p>{t("modList.empty")}</p>
           </div>
         ) : (
           <div className="mods-grid">
             {enhancedMods.map((mod) => (
               <ModItem
                 key={mod.id}
+                currentList={currentList}
                 mod={mod}
                 isInstalled={installedMods[mod.id]}
                 selectedSptVersion={selectedSptVersion}
                 downloadMod={downloadMod}
                 handleUpdateAndDownload={handleUpdateAndDownload}
                 removeMod={removeMod}
+                toggleModEnabled={toggleModEnabled}
+                pinModVersion={pinModVersion}
+                setModUpdatePolicy={setModUpdatePolicy}
+                setModInstallTarget={setModInstallTarget}
                 hasUpdate={modsWithUpdates.has(mod.id)}
+                requiredBy={requiredBy[mod.id]}
               />
             ))}
           </div>
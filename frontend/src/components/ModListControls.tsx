@@ -2,46 +2,74 @@ import React, { useRef, useEffect, useState } from "react";
 import {
   PlusIcon,
   EditIcon,
+  CopyIcon,
   Trash2Icon,
   DownloadIcon,
   UploadIcon,
+  PlayIcon,
+  CheckCircleIcon,
+  AlertTriangleIcon,
 } from "lucide-react";
 import SptVersionSelector from "./SptVersionSelector";
+import DuplicateListModal from "./DuplicateListModal";
+import ActivationPlanModal from "./ActivationPlanModal";
+import { useActiveList } from "../hooks/useListActivation";
+import { Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ModListControlsProps {
   currentList: string;
   modLists: string[];
+  currentMods: Mod[];
+  installedMods: Record<number, boolean>;
   onListChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
   onAddList: (newListName?: string) => void;
   onRenameList: (newName?: string) => void;
+  onDuplicateList: (
+    newName: string,
+    installedOnly: boolean
+  ) => Promise<boolean>;
+  onActivateList: (planHash: string) => Promise<boolean>;
   onDeleteList: () => void;
   onExportList: () => void;
   onImportList: () => void;
   selectedSptVersion: string;
   sptVersions: any[];
-  handleSptVersionChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  handleSptVersionChange: (newVersion: string) => void;
+  onSptPlanApplied: () => void;
 }
 
 const ModListControls: React.FC<ModListControlsProps> = ({
   currentList,
   modLists,
+  currentMods,
+  installedMods,
   onListChange,
   onAddList,
   onRenameList,
+  onDuplicateList,
+  onActivateList,
   onDeleteList,
   onExportList,
   onImportList,
   selectedSptVersion,
   sptVersions,
   handleSptVersionChange,
+  onSptPlanApplied,
 }) => {
+  const { t } = useI18n();
   const selectRef = useRef<HTMLSelectElement>(null);
   const measureRef = useRef<HTMLSpanElement>(null);
   const [selectWidth, setSelectWidth] = useState<number>(120);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const [isActivating, setIsActivating] = useState(false);
+  const { activeList, refresh: refreshActiveList } = useActiveList(
+    Object.values(installedMods).filter(Boolean).length
+  );
 
   useEffect(() => {
     if (measureRef.current && selectRef.current) {
-      const text = currentList || "-- Select a list --";
+      const text = currentList || t("lists.select");
       measureRef.current.textContent = text;
 
       const textWidth = measureRef.current.offsetWidth;
@@ -54,9 +82,13 @@ const ModListControls: React.FC<ModListControlsProps> = ({
 
       setSelectWidth(finalWidth);
     }
-  }, [currentList, modLists]);
+  }, [currentList, modLists, t]);
 
   const hasCurrentList = Boolean(currentList);
+  const isActive = (listName: string) =>
+    !!activeList?.name &&
+    activeList.name.toLowerCase() === listName.toLowerCase();
+  const currentIsActive = hasCurrentList && isActive(currentList);
 
   return (
     <div className="modlist-controls-card">
@@ -71,31 +103,55 @@ const ModListControls: React.FC<ModListControlsProps> = ({
             onChange={onListChange}
             className="list-select-input"
             style={{ width: `${selectWidth}px` }}
-            aria-label="Select mod list"
-            title="Choose which mod list to display"
+            aria-label={t("lists.selectLabel")}
+            title={t("lists.selectTitle")}
           >
             <option value="" disabled>
-              -- Select a list --
+              {t("lists.select")}
             </option>
             {modLists.map((listName) => (
               <option key={listName} value={listName}>
-                {listName}
+                {isActive(listName) ? `● ${listName}` : listName}
               </option>
             ))}
           </select>
 
+          {currentIsActive && (
+            <span
+              className={`active-list-badge ${
+                activeList?.inSync ? "" : "out-of-sync"
+              }`}
+              title={
+                activeList?.inSync
+                  ? t("activation.activeTitle")
+                  : t("activation.outOfSyncTitle")
+              }
+            >
+              {activeList?.inSync ? (
+                <CheckCircleIcon size={14} aria-hidden="true" />
+              ) : (
+                <AlertTriangleIcon size={14} aria-hidden="true" />
+              )}
+              {activeList?.inSync
+                ? t("activation.active")
+                : t("activation.outOfSync")}
+            </span>
+          )}
+
           <SptVersionSelector
             currentList={currentList}
+            currentMods={currentMods}
             sptVersions={sptVersions}
             selectedSptVersion={selectedSptVersion}
             handleSptVersionChange={handleSptVersionChange}
+            onPlanApplied={onSptPlanApplied}
           />
         </div>
 
         <div className="control-group control-group-buttons">
           <button onClick={() => onAddList()} className="btn btn-primary">
             <PlusIcon size={18} aria-hidden="true" />
-            <span className="btn-text">New List</span>
+            <span className="btn-text">{t("lists.new")}</span>
           </button>
 
           <button
@@ -104,7 +160,24 @@ const ModListControls: React.FC<ModListControlsProps> = ({
             className="btn btn-secondary"
           >
             <EditIcon size={18} aria-hidden="true" />
-            <span className="btn-text">Rename</span>
+            <span className="btn-text">{t("lists.rename")}</span>
+          </button>
+          <button
+            onClick={() => setIsActivating(true)}
+            disabled={!hasCurrentList}
+            className="btn btn-secondary"
+            title={t("activation.activateTitle")}
+          >
+            <PlayIcon size={18} aria-hidden="true" />
+            <span className="btn-text">{t("activation.activate")}</span>
+          </button>
+          <button
+            onClick={() => setIsDuplicating(true)}
+            disabled={!hasCurrentList}
+            className="btn btn-secondary"
+          >
+            <CopyIcon size={18} aria-hidden="true" />
+            <span className="btn-text">{t("lists.duplicate")}</span>
           </button>
           <button
             onClick={onDeleteList}
@@ -112,7 +185,7 @@ const ModListControls: React.FC<ModListControlsProps> = ({
             className="btn btn-secondary"
           >
             <Trash2Icon size={18} aria-hidden="true" />
-            <span className="btn-text">Delete</span>
+            <span className="btn-text">{t("common.delete")}</span>
           </button>
           <button
             onClick={onExportList}
@@ -120,14 +193,40 @@ const ModListControls: React.FC<ModListControlsProps> = ({
             className="btn btn-secondary"
           >
             <DownloadIcon size={18} aria-hidden="true" />
-            <span className="btn-text">Export</span>
+            <span className="btn-text">{t("lists.export")}</span>
           </button>
           <button onClick={() => onImportList()} className="btn btn-secondary">
             <UploadIcon size={18} aria-hidden="true" />
-            <span className="btn-text">Import</span>
+            <span className="btn-text">{t("lists.import")}</span>
           </button>
         </div>
       </div>
+
+      {isActivating && (
+        <ActivationPlanModal
+          isOpen={true}
+          listName={currentList}
+          onClose={() => setIsActivating(false)}
+          onActivate={async (planHash) => {
+            const success = await onActivateList(planHash);
+            refreshActiveList();
+            return success;
+          }}
+        />
+      )}
+
+      {isDuplicating && (
+        <DuplicateListModal
+          isOpen={true}
+          listName={currentList}
+          modCount={currentMods.length}
+          installedCount={
+            currentMods.filter((mod) => installedMods[mod.id]).length
+          }
+          onClose={() => setIsDuplicating(false)}
+          onDuplicate={onDuplicateList}
+        />
+      )}
     </div>
   );
 };
@@ -1,12 +1,22 @@
 import React, { useRef } from "react";
-import { NavigateFunction } from "react-router-dom";
+import { Link, NavigateFunction } from "react-router-dom";
+import { ArrowLeftRightIcon, FileTextIcon } from "lucide-react";
 import { useModManager } from "../hooks/useModManager";
 import ModListControls from "./ModListControls";
 import SPTUpdateBanner from "./SPTUpdateBanner";
 import FikaUpdateBanner from "./FikaUpdateBanner";
 import ModList from "./ModList";
 import ServerStatus from "./ServerStatus";
+import ServerConsolePanel from "./ServerConsolePanel";
+import FileConflictsPanel from "./FileConflictsPanel";
+import SnapshotsPanel from "./SnapshotsPanel";
+import BisectPanel from "./BisectPanel";
+import JobsPanel from "./JobsPanel";
+import UpdatePolicyPanel from "./UpdatePolicyPanel";
+import StructureChoiceModal from "./StructureChoiceModal";
+import LanguageSwitcher from "./LanguageSwitcher";
 import { useModal } from "./ModalContext";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ModManagerContentProps {
   listName?: string;
@@ -18,6 +28,7 @@ const ModManagerContent: React.FC<ModManagerContentProps> = ({
   navigate,
 }) => {
   const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
 
   const modManager = useModManager({
     listName,
@@ -31,8 +42,35 @@ const ModManagerContent: React.FC<ModManagerContentProps> = ({
   return (
     <div className="main-wrapper">
       <div className="app-header">
+        <div className="app-header-bar">
+          {modManager.currentList && modManager.modLists.length > 1 && (
+            <Link
+              to={`/mod/${encodeURIComponent(
+                modManager.currentList.toLowerCase()
+              )}/compare`}
+              className="btn btn-secondary"
+              title={t("diff.openTitle")}
+            >
+              <ArrowLeftRightIcon size={16} />
+              <span className="btn-text">{t("diff.open")}</span>
+            </Link>
+          )}
+          {modManager.currentList && (
+            <Link
+              to={`/mod/${encodeURIComponent(
+                modManager.currentList.toLowerCase()
+              )}/logs`}
+              className="btn btn-secondary"
+              title={t("logs.openTitle")}
+            >
+              <FileTextIcon size={16} />
+              <span className="btn-text">{t("logs.open")}</span>
+            </Link>
+          )}
+          <LanguageSwitcher />
+        </div>
         <h1>TarkHub</h1>
-        <p>Manage your Single Player Tarkov experience</p>
+        <p>{t("app.subtitle")}</p>
       </div>
 
       <SPTUpdateBanner
@@ -69,19 +107,58 @@ const ModManagerContent: React.FC<ModManagerContentProps> = ({
         onUpdateInstalledStatus={modManager.updateInstalledStatusOnce}
       />
 
+      <ServerConsolePanel />
+
       <div className="content-area">
         <ModListControls
           currentList={modManager.currentList}
           modLists={modManager.modLists}
+          currentMods={modManager.currentMods}
+          installedMods={modManager.installedMods}
           onListChange={modManager.handleListChange}
           onAddList={modManager.addList}
           onRenameList={modManager.renameList}
+          onDuplicateList={modManager.duplicateList}
+          onActivateList={modManager.activateList}
           onDeleteList={modManager.deleteList}
           onExportList={modManager.downloadList}
           onImportList={modManager.importList}
           selectedSptVersion={modManager.selectedSptVersion}
           sptVersions={modManager.sptVersions}
           handleSptVersionChange={modManager.handleSptVersionChange}
+          onSptPlanApplied={modManager.reloadCurrentList}
+        />
+
+        <FileConflictsPanel
+          currentList={modManager.currentList}
+          installedMods={modManager.installedMods}
+        />
+
+        <JobsPanel />
+
+        <UpdatePolicyPanel
+          currentList={modManager.currentList}
+          onUpdatesApplied={() => {
+            modManager.reloadCurrentList();
+            modManager.updateInstalledStatusOnce();
+          }}
+        />
+
+        <SnapshotsPanel
+          onRestored={() => {
+            modManager.reloadCurrentList();
+            modManager.updateInstalledStatusOnce();
+          }}
+        />
+
+        <BisectPanel
+          currentList={modManager.currentList}
+          currentMods={modManager.currentMods}
+          toggleModEnabled={modManager.toggleModEnabled}
+          onStateChanged={() => {
+            modManager.reloadCurrentList();
+            modManager.updateInstalledStatusOnce();
+          }}
         />
 
         <ModList
@@ -96,7 +173,26 @@ const ModManagerContent: React.FC<ModManagerContentProps> = ({
           downloadMod={modManager.downloadMod}
           handleUpdateAndDownload={modManager.handleUpdateAndDownload}
           removeMod={modManager.removeMod}
+          toggleModEnabled={modManager.toggleModEnabled}
+          pinModVersion={modManager.pinModVersion}
+          setModUpdatePolicy={modManager.setModUpdatePolicy}
+          setModInstallTarget={modManager.setModInstallTarget}
+          downloadAllMods={modManager.downloadAllMods}
+          updateMods={modManager.updateMods}
+          downloadProgress={modManager.downloadProgress}
+          cancelDownloads={modManager.cancelDownloads}
+          dismissDownloadProgress={modManager.dismissDownloadProgress}
         />
+
+        {modManager.structureChoice && (
+          <StructureChoiceModal
+            key={modManager.structureChoice.tempExtractPath}
+            modName={modManager.structureChoice.modName}
+            tempExtractPath={modManager.structureChoice.tempExtractPath}
+            onClose={() => modManager.resolveStructureChoice(null)}
+            onInstall={modManager.resolveStructureChoice}
+          />
+        )}
       </div>
     </div>
   );
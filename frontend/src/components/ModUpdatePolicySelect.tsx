@@ -0,0 +1,58 @@
+import React from "react";
+import { SnowflakeIcon, ZapIcon } from "lucide-react";
+import { UPDATE_POLICIES } from "../hooks/useUpdatePolicy";
+import type { Mod, UpdatePolicy } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ModUpdatePolicySelectProps {
+  mod: Mod;
+  setModUpdatePolicy: (
+    id: number,
+    name: string,
+    policy: UpdatePolicy | null
+  ) => void;
+}
+
+// Value of the option that follows the list's policy
+const LIST_DEFAULT = "";
+
+const ModUpdatePolicySelect: React.FC<ModUpdatePolicySelectProps> = ({
+  mod,
+  setModUpdatePolicy,
+}) => {
+  const { t } = useI18n();
+  const policy = mod.updatePolicy ?? LIST_DEFAULT;
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    if (value === policy) return;
+    setModUpdatePolicy(
+      mod.id,
+      mod.name,
+      value === LIST_DEFAULT ? null : (value as UpdatePolicy)
+    );
+  };
+
+  return (
+    <span className={`mod-update-policy ${policy ? `policy-${policy}` : ""}`}>
+      {policy === "auto" && <ZapIcon size={12} aria-hidden="true" />}
+      {policy === "frozen" && <SnowflakeIcon size={12} aria-hidden="true" />}
+      <select
+        value={policy}
+        onChange={handleChange}
+        className="select-input"
+        aria-label={t("mod.updatePolicyLabel", { name: mod.name })}
+        title={t("mod.updatePolicyTitle")}
+      >
+        <option value={LIST_DEFAULT}>{t("mod.updatePolicyListDefault")}</option>
+        {UPDATE_POLICIES.map((option) => (
+          <option key={option} value={option}>
+            {t(`updatePolicy.policy.${option}`)}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+};
+
+export default ModUpdatePolicySelect;
@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { PinIcon } from "lucide-react";
+import { useModVersions } from "../hooks/useModVersions";
+import type { Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ModVersionPickerProps {
+  mod: Mod;
+  pinModVersion: (id: number, name: string, version: string | null) => void;
+}
+
+// Value of the option that follows the latest release
+const LATEST = "";
+
+const ModVersionPicker: React.FC<ModVersionPickerProps> = ({
+  mod,
+  pinModVersion,
+}) => {
+  const { t, formatDate } = useI18n();
+  // Releases are fetched the first time the picker is opened, not for every card
+  const [isOpened, setIsOpened] = useState(false);
+  const { versions, isLoading, error } = useModVersions(mod.id, isOpened);
+  const pinned = mod.pinnedVersion ?? LATEST;
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const version = e.target.value;
+    if (version === pinned) return;
+    pinModVersion(mod.id, mod.name, version === LATEST ? null : version);
+  };
+
+  return (
+    <span className={`mod-version-picker ${pinned ? "pinned" : ""}`}>
+      {pinned && <PinIcon size={12} aria-hidden="true" />}
+      <select
+        value={pinned}
+        onChange={handleChange}
+        onFocus={() => setIsOpened(true)}
+        onMouseDown={() => setIsOpened(true)}
+        className="select-input"
+        aria-label={t("mod.versionPickerLabel", { name: mod.name })}
+        title={error ?? t("mod.versionPickerTitle")}
+      >
+        <option value={LATEST}>{t("mod.followLatest")}</option>
+        {pinned && !versions.some((v) => v.version === pinned) && (
+          <option value={pinned}>
+            {t("mod.pinnedTo", { version: pinned })}
+          </option>
+        )}
+        {isLoading && versions.length === 0 && (
+          <option disabled>{t("mod.loadingVersions")}</option>
+        )}
+        {versions.map((release) => (
+          <option key={release.version} value={release.version}>
+            {release.version} · SPT {release.sptVersionConstraint}
+            {release.publishedAt ? ` · ${formatDate(release.publishedAt)}` : ""}
+          </option>
+        ))}
+      </select>
+    </span>
+  );
+};
+
+export default ModVersionPicker;
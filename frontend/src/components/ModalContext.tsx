@@ -11,6 +11,7 @@ export interface ModalOptions {
 export interface ConfirmModalOptions {
   title: string;
   message: string;
+  details?: string[];
   cancelText?: string;
   confirmText?: string;
   onConfirm?: (inputValue?: string) => void;
@@ -93,6 +94,7 @@ export const ModalProvider: React.FC<ModalProviderProps> = ({ children }) => {
           onConfirm={confirmModal.onConfirm}
           title={confirmModal.title}
           message={confirmModal.message}
+          details={confirmModal.details}
           cancelText={confirmModal.cancelText}
           confirmText={confirmModal.confirmText}
           showDeleteOption={confirmModal.showDeleteOption}
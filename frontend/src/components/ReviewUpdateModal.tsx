@@ -0,0 +1,80 @@
+import React from "react";
+import { AlertTriangleIcon, RefreshCwIcon } from "lucide-react";
+import Modal from "./Modal";
+import ModChangelog from "./ModChangelog";
+import type { Mod } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface ReviewUpdateModalProps {
+  isOpen: boolean;
+  mod: Mod;
+  latestVersion: string;
+  updateIncompatible: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+}
+
+const ReviewUpdateModal: React.FC<ReviewUpdateModalProps> = ({
+  isOpen,
+  mod,
+  latestVersion,
+  updateIncompatible,
+  onClose,
+  onConfirm,
+}) => {
+  const { t } = useI18n();
+  const changelog = mod.changelog ?? [];
+
+  const handleConfirm = () => {
+    onClose();
+    onConfirm();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("changelog.reviewTitle", { name: mod.name })}
+      size="lg"
+    >
+      <div className="review-update">
+        <p className="review-update-versions">
+          {t("changelog.reviewVersions", {
+            from: mod.version,
+            to: latestVersion,
+          })}
+        </p>
+
+        {updateIncompatible && (
+          <p className="review-update-warning">
+            <AlertTriangleIcon size={16} />
+            {t("mod.updateNeedsSptTitle", {
+              version: latestVersion,
+              constraint: mod.latestSptVersionConstraint ?? "",
+            })}
+          </p>
+        )}
+
+        {changelog.length > 0 ? (
+          <ModChangelog entries={changelog} defaultExpanded />
+        ) : (
+          <p className="review-update-empty">{t("changelog.unavailable")}</p>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("common.cancel")}
+          </button>
+          <button className="btn btn-warning" onClick={handleConfirm}>
+            <RefreshCwIcon size={16} />
+            <span className="btn-text">
+              {t("mod.updateTo", { version: latestVersion })}
+            </span>
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReviewUpdateModal;
@@ -1,5 +1,6 @@
 import React from "react";
 import { Info } from "lucide-react";
+import { useI18n } from "../i18n/I18nContext";
 
 interface SPTUpdateBannerProps {
   sptUpdate?: {
@@ -16,6 +17,8 @@ const SPTUpdateBanner: React.FC<SPTUpdateBannerProps> = ({
   isUpdatingSpt,
   updateSpt,
 }) => {
+  const { t } = useI18n();
+
   if (!sptUpdate?.updateAvailable) return null;
 
   return (
@@ -24,10 +27,12 @@ const SPTUpdateBanner: React.FC<SPTUpdateBannerProps> = ({
         <div className="banner-text">
           <Info className="banner-icon" size={24} />
           <div className="banner-text-content">
-            <h3>SPT Update Available!</h3>
+            <h3>{t("updates.available", { product: "SPT" })}</h3>
             <p>
-              Current: {sptUpdate.currentVersion} → New:{" "}
-              {sptUpdate.latestVersion}
+              {t("updates.versions", {
+                current: sptUpdate.currentVersion,
+                latest: sptUpdate.latestVersion,
+              })}
             </p>
           </div>
         </div>
@@ -36,7 +41,9 @@ const SPTUpdateBanner: React.FC<SPTUpdateBannerProps> = ({
           disabled={isUpdatingSpt}
           className="btn btn-primary"
         >
-          {isUpdatingSpt ? "Updating..." : "Update SPT"}
+          {isUpdatingSpt
+            ? t("updates.updating")
+            : t("updates.update", { product: "SPT" })}
         </button>
       </div>
     </div>
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  SearchIcon,
+  TerminalIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { useServerConsole } from "../hooks/useServerConsole";
+import { useI18n } from "../i18n/I18nContext";
+
+const ServerConsolePanel: React.FC = () => {
+  const { t, formatTime } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [search, setSearch] = useState("");
+  const [autoScroll, setAutoScroll] = useState(true);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const { lines, attached, isConnected, clear } = useServerConsole(isExpanded);
+
+  const query = search.trim().toLowerCase();
+  const visibleLines = useMemo(
+    () =>
+      query
+        ? lines.filter((line) => line.text.toLowerCase().includes(query))
+        : lines,
+    [lines, query]
+  );
+
+  useEffect(() => {
+    if (!autoScroll || !outputRef.current) return;
+    outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [visibleLines, autoScroll]);
+
+  let status: string;
+  if (!isExpanded) status = t("console.subtitle");
+  else if (!isConnected) status = t("console.connecting");
+  else if (attached === false) status = t("console.notAttached");
+  else if (query)
+    status = t("console.matches", {
+      count: visibleLines.length,
+      total: lines.length,
+    });
+  else status = t("console.lines", { count: lines.length });
+
+  return (
+    <div className="panel console-panel">
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <TerminalIcon size={16} />
+          <span className="panel-title">{t("console.title")}</span>
+          <span className="panel-status">{status}</span>
+        </button>
+      </div>
+
+      {isExpanded && (
+        <>
+          <div className="console-toolbar">
+            <label className="console-search">
+              <SearchIcon size={14} />
+              <input
+                type="search"
+                className="form-input"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t("console.searchPlaceholder")}
+              />
+            </label>
+            <label className="console-autoscroll">
+              <input
+                type="checkbox"
+                checked={autoScroll}
+                onChange={(e) => setAutoScroll(e.target.checked)}
+              />
+              {t("console.autoScroll")}
+            </label>
+            <button
+              onClick={clear}
+              className="btn btn-secondary"
+              disabled={lines.length === 0}
+              title={t("console.clearTitle")}
+            >
+              <Trash2Icon size={16} />
+            </button>
+          </div>
+
+          <div className="console-output" ref={outputRef}>
+            {visibleLines.length === 0 ? (
+              <p className="panel-empty">
+                {query ? t("console.noMatches") : t("console.empty")}
+              </p>
+            ) : (
+              visibleLines.map((line) => (
+                <div key={line.id} className={`console-line ${line.stream}`}>
+                  <span className="console-time">
+                    {formatTime(line.timestamp)}
+                  </span>
+                  <span className="console-text">{line.text}</span>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ServerConsolePanel;
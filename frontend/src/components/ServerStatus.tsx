@@ -4,10 +4,16 @@ import {
   WifiIcon,
   WifiOffIcon,
   AlertCircleIcon,
+  LoaderIcon,
+  PlayIcon,
+  RotateCwIcon,
+  SquareIcon,
 } from "lucide-react";
 import { useModal } from "../components/ModalContext";
 import { useModUpdates } from "../hooks/useModUpdates";
-import { Mod } from "../hooks/types";
+import { api, settle } from "../lib/apiClient";
+import { Mod, ServerStatusInfo } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
 
 interface ServerStatusProps {
   onRefresh?: () => Promise<void>;
@@ -17,14 +23,6 @@ interface ServerStatusProps {
   onUpdateInstalledStatus?: () => Promise<void>;
 }
 
-interface ServerStatus {
-  sptVersion: string;
-  isRunning: boolean;
-  players: string;
-  uptime: string;
-  timestamp: string;
-}
-
 const getCachedSptVersion = (): string => {
   try {
     return localStorage.getItem("spt_version") || "unknown";
@@ -63,6 +61,8 @@ const savePlayersToCache = (players: string) => {
   }
 };
 
+type ServerAction = "start" | "stop" | "restart";
+
 const normalizeListName = (listName: string): string => {
   if (!listName) return "";
   return listName.charAt(0).toUpperCase() + listName.slice(1).toLowerCase();
@@ -74,8 +74,9 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
   onCheckModUpdates,
   onUpdateInstalledStatus,
 }) => {
-  const { showModal } = useModal();
-  const [serverInfo, setServerInfo] = useState<ServerStatus>({
+  const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
+  const [serverInfo, setServerInfo] = useState<ServerStatusInfo>({
     sptVersion: getCachedSptVersion(),
     players: getCachedPlayers(),
     uptime: "0s",
@@ -99,15 +100,16 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
     isCheckingModUpdates,
   } = useModUpdates(normalizedCurrentList);
 
+  const [pendingAction, setPendingAction] = useState<ServerAction | null>(null);
   const [isSpinning, setIsSpinning] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const refreshTimeoutRef = useRef<number>();
 
   const fetchServerStatus = async () => {
     try {
-      const response = await fetch("/api/server/status");
-      if (response.ok) {
-        const data: ServerStatus = await response.json();
+      const result = await settle(api.server.status());
+      if (result.success) {
+        const data = result.data;
 
         if (data.sptVersion && data.sptVersion !== "unknown") {
           saveSptVersionToCache(data.sptVersion);
@@ -146,6 +148,44 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
     return () => clearInterval(statusInterval);
   }, []);
 
+  const runServerAction = async (action: ServerAction) => {
+    setPendingAction(action);
+    const result = await settle(api.server[action]());
+    setPendingAction(null);
+
+    if (result.success) {
+      showModal({
+        type: "success",
+        title: t(`server.${action}DoneTitle`),
+        message: result.data.message,
+        duration: 3000,
+      });
+    } else {
+      showModal({
+        type: "error",
+        title: t(`server.${action}FailedTitle`),
+        message: result.error.message,
+        duration: 5000,
+      });
+    }
+
+    await fetchServerStatus();
+  };
+
+  const handleServerAction = (action: ServerAction) => {
+    if (action === "start") {
+      runServerAction(action);
+      return;
+    }
+
+    showConfirmation({
+      title: t(`server.${action}ConfirmTitle`),
+      message: t(`server.${action}Confirm`),
+      confirmText: t(`server.${action}`),
+      onConfirm: () => runServerAction(action),
+    });
+  };
+
   const handleRefresh = async () => {
     if (isRefreshing) return;
 
@@ -189,19 +229,20 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
         const updates = [];
         if (sptUpdates > 0) updates.push("SPT");
         if (fikaUpdates > 0) updates.push("Fika");
-        if (modUpdatesCount > 0) updates.push(`${modUpdatesCount} mods`);
+        if (modUpdatesCount > 0)
+          updates.push(t("server.modUpdates", { count: modUpdatesCount }));
 
         showModal({
           type: "info",
-          title: "Updates Available",
-          message: `Found updates for: ${updates.join(", ")}`,
+          title: t("server.updatesTitle"),
+          message: t("server.updatesFound", { updates: updates.join(", ") }),
           duration: 5000,
         });
       } else {
         showModal({
           type: "success",
-          title: "All Up to Date",
-          message: "No updates available for SPT, Fika, or mods",
+          title: t("server.upToDateTitle"),
+          message: t("server.upToDate"),
           duration: 3000,
         });
       }
@@ -209,8 +250,8 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
       console.error("Refresh error:", error);
       showModal({
         type: "error",
-        title: "Refresh Failed",
-        message: "An error occurred during refresh",
+        title: t("server.refreshFailedTitle"),
+        message: t("server.refreshFailed"),
         duration: 3000,
       });
     } finally {
@@ -231,21 +272,70 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
     <div className="server-status-compact">
       <div className="server-status-header-compact">
         <div className="server-title-compact">
-          <h3>Server Status</h3>
+          <h3>{t("server.title")}</h3>
+        </div>
+        <div className="server-actions-compact">
+          {serverInfo.isRunning ? (
+            <>
+              <button
+                className="btn btn-warning"
+                onClick={() => handleServerAction("restart")}
+                disabled={pendingAction !== null}
+                title={t("server.restartTitle")}
+              >
+                {pendingAction === "restart" ? (
+                  <LoaderIcon size={16} className="spinning" />
+                ) : (
+                  <RotateCwIcon size={16} />
+                )}
+                <span className="btn-text">{t("server.restart")}</span>
+              </button>
+              <button
+                className="btn btn-danger"
+                onClick={() => handleServerAction("stop")}
+                disabled={pendingAction !== null}
+                title={t("server.stopTitle")}
+              >
+                {pendingAction === "stop" ? (
+                  <LoaderIcon size={16} className="spinning" />
+                ) : (
+                  <SquareIcon size={16} />
+                )}
+                <span className="btn-text">{t("server.stop")}</span>
+              </button>
+            </>
+          ) : (
+            <button
+              className="btn btn-primary"
+              onClick={() => handleServerAction("start")}
+              disabled={pendingAction !== null}
+              title={t("server.startTitle")}
+            >
+              {pendingAction === "start" ? (
+                <LoaderIcon size={16} className="spinning" />
+              ) : (
+                <PlayIcon size={16} />
+              )}
+              <span className="btn-text">{t("server.start")}</span>
+            </button>
+          )}
+          <button
+            className="refresh-btn-compact"
+            onClick={handleRefresh}
+            disabled={showSpinning || isRefreshing}
+            title={t("server.refreshTitle")}
+          >
+            <RefreshCwIcon
+              size={18}
+              className={showSpinning ? "spinning" : ""}
+            />
+          </button>
         </div>
-        <button
-          className="refresh-btn-compact"
-          onClick={handleRefresh}
-          disabled={showSpinning || isRefreshing}
-          title="Check for SPT, Fika, and mod updates"
-        >
-          <RefreshCwIcon size={18} className={showSpinning ? "spinning" : ""} />
-        </button>
       </div>
 
       <div className="server-stats-compact">
         <div className="stat-item-compact">
-          <div className="stat-label-compact">Status</div>
+          <div className="stat-label-compact">{t("server.status")}</div>
           <div
             className={`stat-value-compact status-${
               serverInfo.isRunning ? "online" : "offline"
@@ -256,12 +346,12 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
             ) : (
               <WifiOffIcon size={16} />
             )}
-            {serverInfo.isRunning ? "Online" : "Offline"}
+            {serverInfo.isRunning ? t("server.online") : t("server.offline")}
           </div>
         </div>
 
         <div className="stat-item-compact">
-          <div className="stat-label-compact">Version</div>
+          <div className="stat-label-compact">{t("server.version")}</div>
           <div className="stat-value-compact version-info">
             {sptUpdate?.updateAvailable && (
               <AlertCircleIcon size={16} className="version-alert-icon" />
@@ -270,12 +360,12 @@ const ServerStatus: React.FC<ServerStatusProps> = ({
           </div>
         </div>
         <div className="stat-item-compact">
-          <div className="stat-label-compact">Uptime</div>
+          <div className="stat-label-compact">{t("server.uptime")}</div>
           <div className="stat-value-compact">{serverInfo.uptime}</div>
         </div>
 
         <div className="stat-item-compact">
-          <div className="stat-label-compact">Players</div>
+          <div className="stat-label-compact">{t("server.players")}</div>
           <div className="stat-value-compact">{serverInfo.players}</div>
         </div>
       </div>
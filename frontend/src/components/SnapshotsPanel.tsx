@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import {
+  ArchiveIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LoaderIcon,
+  RefreshCwIcon,
+  RotateCcwIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { useModal } from "./ModalContext";
+import { useSnapshots } from "../hooks/useSnapshots";
+import type { Snapshot } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface SnapshotsPanelProps {
+  onRestored?: () => void;
+}
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ onRestored }) => {
+  const { showModal, showConfirmation } = useModal();
+  const { t, formatBytes, formatDateTime } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const {
+    snapshots,
+    isLoading,
+    error,
+    refresh,
+    restoreSnapshot,
+    restoringId,
+    removeSnapshot,
+  } = useSnapshots(isExpanded);
+
+  const handleRestore = (snapshot: Snapshot) => {
+    showConfirmation({
+      title: t("snapshots.restoreConfirmTitle"),
+      message: t("snapshots.restoreConfirm", {
+        label: snapshot.label,
+        files: snapshot.files.length,
+        added: snapshot.addedFiles.length,
+      }),
+      confirmText: t("snapshots.restore"),
+      onConfirm: async () => {
+        try {
+          const result = await restoreSnapshot(snapshot.id);
+          showModal({
+            type: "success",
+            title: t("snapshots.restoredTitle"),
+            message: result.message,
+          });
+          onRestored?.();
+        } catch (err) {
+          showModal({
+            type: "error",
+            title: t("snapshots.restoreFailed"),
+            message: err instanceof Error ? err.message : String(err),
+          });
+        }
+      },
+    });
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    showConfirmation({
+      title: t("snapshots.deleteConfirmTitle"),
+      message: t("snapshots.deleteConfirm", { label: snapshot.label }),
+      confirmText: t("common.delete"),
+      onConfirm: async () => {
+        try {
+          await removeSnapshot(snapshot.id);
+        } catch (err) {
+          showModal({
+            type: "error",
+            title: t("snapshots.deleteFailed"),
+            message: err instanceof Error ? err.message : String(err),
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <div className="panel snapshots-panel">
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <span className="panel-title">{t("snapshots.title")}</span>
+          <span className="panel-status">{t("snapshots.subtitle")}</span>
+        </button>
+        {isExpanded && (
+          <button
+            onClick={() => refresh()}
+            className="btn btn-secondary"
+            disabled={isLoading}
+            title={t("snapshots.refreshTitle")}
+          >
+            {isLoading ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <RefreshCwIcon size={16} />
+            )}
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <>
+          {error && <p className="panel-error">{error}</p>}
+          {!error && !isLoading && snapshots.length === 0 && (
+            <p className="panel-empty">{t("snapshots.empty")}</p>
+          )}
+          {snapshots.length > 0 && (
+            <ul className="snapshots-list">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="snapshot-item">
+                  <ArchiveIcon size={16} />
+                  <span className={`snapshot-kind kind-${snapshot.kind}`}>
+                    {t(`snapshots.kind.${snapshot.kind}`)}
+                  </span>
+                  <span className="snapshot-label">{snapshot.label}</span>
+                  <span className="snapshot-meta">
+                    {t("snapshots.meta", {
+                      date: formatDateTime(snapshot.createdAt),
+                      count: snapshot.files.length,
+                      size: formatBytes(snapshot.sizeBytes),
+                    })}
+                  </span>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    className="btn btn-warning"
+                    disabled={restoringId !== null}
+                    title={t("snapshots.restoreTitle")}
+                  >
+                    {restoringId === snapshot.id ? (
+                      <LoaderIcon size={16} className="spinning" />
+                    ) : (
+                      <RotateCcwIcon size={16} />
+                    )}
+                    <span className="btn-text">{t("snapshots.restore")}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    className="btn btn-danger"
+                    disabled={restoringId !== null}
+                    title={t("snapshots.deleteTitle")}
+                  >
+                    <Trash2Icon size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
@@ -0,0 +1,150 @@
+import React from "react";
+import {
+  ArrowUpIcon,
+  ArrowDownIcon,
+  CheckIcon,
+  XCircleIcon,
+  HelpCircleIcon,
+  LoaderIcon,
+} from "lucide-react";
+import Modal from "./Modal";
+import type {
+  SptSwitchAction,
+  SptSwitchPlan,
+  SptSwitchPlanItem,
+} from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface SptSwitchPlanModalProps {
+  isOpen: boolean;
+  targetVersion: string;
+  plan: SptSwitchPlan | null;
+  error: string | null;
+  isLoading: boolean;
+  isApplying: boolean;
+  onClose: () => void;
+  onSwitchOnly: () => void;
+  onApplyPlan: () => void;
+}
+
+const ACTION_ICONS: Record<SptSwitchAction, React.ReactNode> = {
+  keep: <CheckIcon size={14} />,
+  upgrade: <ArrowUpIcon size={14} />,
+  downgrade: <ArrowDownIcon size={14} />,
+  no_compatible_release: <XCircleIcon size={14} />,
+  unknown: <HelpCircleIcon size={14} />,
+};
+
+const SptSwitchPlanModal: React.FC<SptSwitchPlanModalProps> = ({
+  isOpen,
+  targetVersion,
+  plan,
+  error,
+  isLoading,
+  isApplying,
+  onClose,
+  onSwitchOnly,
+  onApplyPlan,
+}) => {
+  const { t, formatBytes, formatDate } = useI18n();
+  const changes =
+    plan?.items.filter(
+      (item) => item.action === "upgrade" || item.action === "downgrade"
+    ).length ?? 0;
+
+  const getPlannedTitle = (item: SptSwitchPlanItem) => {
+    const parts = [
+      item.targetConstraint && `SPT ${item.targetConstraint}`,
+      item.publishedAt && formatDate(item.publishedAt),
+      item.contentLengthBytes != null && formatBytes(item.contentLengthBytes),
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" · ") : undefined;
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("sptPlan.title", { version: targetVersion })}
+      size="lg"
+    >
+      <div className="spt-plan">
+        {isLoading && (
+          <div className="spt-plan-loading">
+            <LoaderIcon size={18} className="spinning" />
+            <span>{t("sptPlan.loading")}</span>
+          </div>
+        )}
+
+        {error && <p className="spt-plan-error">{error}</p>}
+
+        {plan && (
+          <>
+            <p className="spt-plan-summary">
+              {plan.blockingCount > 0
+                ? t("sptPlan.summaryBlocking", {
+                    count: changes,
+                    blocking: plan.blockingCount,
+                    version: targetVersion,
+                  })
+                : t("sptPlan.summary", { count: changes })}
+            </p>
+
+            <table className="spt-plan-table">
+              <thead>
+                <tr>
+                  <th>{t("sptPlan.columnMod")}</th>
+                  <th>{t("sptPlan.columnCurrent")}</th>
+                  <th>{t("sptPlan.columnAction")}</th>
+                  <th>{t("sptPlan.columnPlanned")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.items.map((item) => (
+                  <tr key={item.modId} className={`plan-${item.action}`}>
+                    <td>{item.modName}</td>
+                    <td title={`SPT ${item.currentConstraint}`}>
+                      {item.currentVersion}
+                    </td>
+                    <td>
+                      <span className="spt-plan-action">
+                        {ACTION_ICONS[item.action]}
+                        {t(`sptPlan.action.${item.action}`)}
+                      </span>
+                    </td>
+                    <td title={getPlannedTitle(item)}>
+                      {item.targetVersion || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("common.cancel")}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={onSwitchOnly}
+            disabled={isApplying}
+            title={t("sptPlan.switchOnlyTitle")}
+          >
+            {t("sptPlan.switchOnly")}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={onApplyPlan}
+            disabled={!plan || isLoading || isApplying}
+          >
+            {isApplying ? t("sptPlan.applying") : t("sptPlan.apply")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SptSwitchPlanModal;
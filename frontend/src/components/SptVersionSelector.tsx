@@ -1,21 +1,51 @@
-import React from "react";
-import { SptVersion } from "../hooks/types";
+import React, { useMemo } from "react";
+import { Mod, SptVersion } from "../hooks/types";
 import { useModal } from "../components/ModalContext";
+import { useSptSwitchPlan } from "../hooks/useSptSwitchPlan";
+import { getCompatibilityReport } from "../utils/versionUtils";
+import SptSwitchPlanModal from "./SptSwitchPlanModal";
+import { useI18n } from "../i18n/I18nContext";
 
 interface SptVersionSelectorProps {
   currentList: string;
+  currentMods: Mod[];
   sptVersions: SptVersion[];
   selectedSptVersion: string | null;
-  handleSptVersionChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  handleSptVersionChange: (newVersion: string) => void;
+  onPlanApplied: () => void;
 }
 
 const SptVersionSelector: React.FC<SptVersionSelectorProps> = ({
   currentList,
+  currentMods,
   sptVersions,
   selectedSptVersion,
   handleSptVersionChange,
+  onPlanApplied,
 }) => {
   const { showModal } = useModal();
+  const { t } = useI18n();
+  const {
+    targetVersion,
+    plan,
+    planError,
+    isLoadingPlan,
+    isApplyingPlan,
+    openPlan,
+    closePlan,
+    applyPlan,
+  } = useSptSwitchPlan(currentList);
+
+  const reports = useMemo(
+    () =>
+      Object.fromEntries(
+        sptVersions.map((spt) => [
+          spt.version,
+          getCompatibilityReport(currentMods, spt.version),
+        ])
+      ),
+    [sptVersions, currentMods]
+  );
 
   if (!currentList) return null;
 
@@ -23,33 +53,97 @@ const SptVersionSelector: React.FC<SptVersionSelectorProps> = ({
     selectedSptVersion ||
     (sptVersions.length > 0 ? sptVersions[0].version : "");
 
-  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newVersion = e.target.value;
-    handleSptVersionChange(e);
+  const switchVersionOnly = (newVersion: string) => {
+    handleSptVersionChange(newVersion);
 
     showModal({
       type: "success",
-      title: "SPT Version",
-      message: `SPT version changed to ${newVersion} for list "${currentList}"`,
+      title: t("sptVersion.title"),
+      message: t("sptVersion.changed", {
+        version: newVersion,
+        list: currentList,
+      }),
       duration: 3000,
     });
   };
 
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newVersion = e.target.value;
+
+    if (currentMods.length === 0) {
+      switchVersionOnly(newVersion);
+      return;
+    }
+
+    openPlan(newVersion);
+  };
+
+  const handleSwitchOnly = () => {
+    if (!targetVersion) return;
+    switchVersionOnly(targetVersion);
+    closePlan();
+  };
+
+  const handleApplyPlan = async () => {
+    const result = await applyPlan();
+    if (!result) return;
+
+    closePlan();
+    onPlanApplied();
+
+    if (result.reinstallRequired.length > 0) {
+      const mods = result.reinstallRequired.join(", ");
+      showModal({
+        type: "warning",
+        title: t("sptVersion.reinstallTitle"),
+        message: t("sptVersion.reinstall", { message: result.message, mods }),
+      });
+    } else {
+      showModal({
+        type: "success",
+        title: t("sptVersion.title"),
+        message: result.message,
+        duration: 3000,
+      });
+    }
+  };
+
+  const getOptionLabel = (version: string) => {
+    const blockers = reports[version]?.incompatible.length ?? 0;
+    return blockers > 0
+      ? t("sptVersion.optionIncompatible", { version, count: blockers })
+      : version;
+  };
+
   return (
     <div className="version-row">
       <select
         value={displayValue}
         onChange={handleChange}
         className="version-input"
-        aria-label="Select SPT version"
-        title="Choose SPT version"
+        aria-label={t("sptVersion.selectLabel")}
+        title={t("sptVersion.selectTitle")}
       >
         {sptVersions.map((spt) => (
           <option key={spt.version} value={spt.version}>
-            {spt.version}
+            {getOptionLabel(spt.version)}
           </option>
         ))}
       </select>
+
+      {targetVersion && (
+        <SptSwitchPlanModal
+          isOpen={true}
+          targetVersion={targetVersion}
+          plan={plan}
+          error={planError}
+          isLoading={isLoadingPlan}
+          isApplying={isApplyingPlan}
+          onClose={closePlan}
+          onSwitchOnly={handleSwitchOnly}
+          onApplyPlan={handleApplyPlan}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FileIcon,
+  FolderIcon,
+  LoaderIcon,
+} from "lucide-react";
+import Modal from "./Modal";
+import { useArchiveTree } from "../hooks/useArchiveTree";
+import type {
+  ArchiveEntry,
+  InstallMappingTarget,
+  InstallTarget,
+} from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface StructureChoiceModalProps {
+  modName: string;
+  tempExtractPath: string;
+  onClose: () => void;
+  onInstall: (target: InstallTarget) => void;
+}
+
+type Mapping = Record<string, InstallMappingTarget>;
+
+const MAPPING_TARGETS: InstallMappingTarget[] = [
+  "server",
+  "client",
+  "config",
+  "skip",
+];
+
+// Value of the option that follows the folder above
+const INHERIT = "";
+
+const getParentPath = (path: string) =>
+  path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+
+// Same rule as the backend: the closest mapped folder at or above the path decides
+const getEffectiveTarget = (
+  mapping: Mapping,
+  folderPath: string
+): InstallMappingTarget | null => {
+  let path = folderPath;
+  for (;;) {
+    if (mapping[path]) return mapping[path];
+    if (path === "") return null;
+    path = getParentPath(path);
+  }
+};
+
+const StructureChoiceModal: React.FC<StructureChoiceModalProps> = ({
+  modName,
+  tempExtractPath,
+  onClose,
+  onInstall,
+}) => {
+  const { t, formatBytes } = useI18n();
+  const { tree, isLoading, error } = useArchiveTree(tempExtractPath, true);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set([""]));
+
+  const hasMapping = Object.values(mapping).some((target) => target !== "skip");
+
+  const targetLabel = (target: InstallMappingTarget | null) =>
+    t(`structure.target.${target ?? "skip"}`);
+
+  const toggleExpanded = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const handleMappingChange = (path: string, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === INHERIT) {
+        delete next[path];
+      } else {
+        next[path] = value as InstallMappingTarget;
+      }
+      return next;
+    });
+  };
+
+  const renderEntry = (entry: ArchiveEntry, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `calc(${depth} * var(--space-4))` };
+
+    if (!entry.isDirectory) {
+      const target = getEffectiveTarget(mapping, getParentPath(entry.path));
+      return (
+        <li key={entry.path} className="structure-file" style={indent}>
+          <FileIcon size={14} />
+          <span className="structure-name">{entry.name}</span>
+          <span className="structure-size">{formatBytes(entry.size)}</span>
+          <span className={`structure-effective target-${target ?? "skip"}`}>
+            {targetLabel(target)}
+          </span>
+        </li>
+      );
+    }
+
+    const isRoot = entry.path === "";
+    const isExpanded = expanded.has(entry.path);
+    const inherited = isRoot
+      ? null
+      : getEffectiveTarget(mapping, getParentPath(entry.path));
+
+    return (
+      <React.Fragment key={entry.path}>
+        <li className="structure-folder" style={indent}>
+          <button
+            className="structure-toggle"
+            onClick={() => toggleExpanded(entry.path)}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? (
+              <ChevronDownIcon size={14} />
+            ) : (
+              <ChevronRightIcon size={14} />
+            )}
+            <FolderIcon size={14} />
+            <span className="structure-name">
+              {isRoot ? t("structure.root") : entry.name}
+            </span>
+          </button>
+          <span className="structure-size">{formatBytes(entry.size)}</span>
+          <select
+            className="select-input"
+            value={mapping[entry.path] ?? INHERIT}
+            onChange={(e) => handleMappingChange(entry.path, e.target.value)}
+            aria-label={t("structure.mapFolder", {
+              folder: isRoot ? t("structure.root") : entry.path,
+            })}
+          >
+            <option value={INHERIT}>
+              {isRoot
+                ? t("structure.notInstalled")
+                : t("structure.inherit", { target: targetLabel(inherited) })}
+            </option>
+            {MAPPING_TARGETS.map((target) => (
+              <option key={target} value={target}>
+                {targetLabel(target)}
+              </option>
+            ))}
+          </select>
+        </li>
+        {isExpanded &&
+          entry.children.map((child) => renderEntry(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={t("mods.structureTitle")} size="xl">
+      <div className="structure-choice">
+        <p className="spt-plan-summary">
+          {t("mods.structureMessage", { name: modName })}
+        </p>
+
+        {isLoading && (
+          <div className="spt-plan-loading">
+            <LoaderIcon size={18} className="spinning" />
+            <span>{t("structure.loading")}</span>
+          </div>
+        )}
+
+        {error && <p className="spt-plan-error">{error}</p>}
+
+        {tree && (
+          <>
+            <p className="structure-hint">{t("structure.mappingHint")}</p>
+            <ul className="structure-tree">{renderEntry(tree, 0)}</ul>
+          </>
+        )}
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("structure.later")}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => onInstall({ kind: "server" })}
+          >
+            {t("mods.structureServer")}
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => onInstall({ kind: "client" })}
+          >
+            {t("mods.structureClient")}
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={() => onInstall({ kind: "mapped", mapping })}
+            disabled={!hasMapping}
+            title={t("structure.installMappedTitle")}
+          >
+            {t("structure.installMapped")}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default StructureChoiceModal;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangleIcon, RefreshCwIcon } from "lucide-react";
+import Modal from "./Modal";
+import ModChangelog from "./ModChangelog";
+import type { Mod } from "../hooks/types";
+import { getCompatibility } from "../utils/versionUtils";
+import { useI18n } from "../i18n/I18nContext";
+
+interface UpdateAllModalProps {
+  isOpen: boolean;
+  mods: Mod[];
+  installedMods: Record<number, boolean>;
+  selectedSptVersion: string;
+  onClose: () => void;
+  onUpdate: (modIds: number[]) => Promise<boolean>;
+}
+
+const UpdateAllModal: React.FC<UpdateAllModalProps> = ({
+  isOpen,
+  mods,
+  installedMods,
+  selectedSptVersion,
+  onClose,
+  onUpdate,
+}) => {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const isIncompatible = (mod: Mod) =>
+    getCompatibility(mod.latestSptVersionConstraint, selectedSptVersion) ===
+    "incompatible";
+
+  // Installed mods whose update fits the list's SPT version are ticked by default
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(
+      new Set(
+        mods
+          .filter((mod) => installedMods[mod.id] && !isIncompatible(mod))
+          .map((mod) => mod.id)
+      )
+    );
+    // Only when the dialog opens, so ticks survive the update check refreshing the mods
+  }, [isOpen]);
+
+  const toggle = (modId: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(modId)) {
+        next.delete(modId);
+      } else {
+        next.add(modId);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = mods.length > 0 && selected.size === mods.length;
+
+  const handleUpdate = () => {
+    // Keep the list order, which is the order the job updates them in
+    const modIds = mods
+      .filter((mod) => selected.has(mod.id))
+      .map((mod) => mod.id);
+    onClose();
+    onUpdate(modIds);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t("updateAll.title", { count: mods.length })}
+      size="xl"
+    >
+      <div className="update-all">
+        <p className="spt-plan-summary">{t("updateAll.summary")}</p>
+
+        <table className="spt-plan-table">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() =>
+                    setSelected(
+                      allSelected ? new Set() : new Set(mods.map((m) => m.id))
+                    )
+                  }
+                  aria-label={t("updateAll.selectAll")}
+                />
+              </th>
+              <th>{t("sptPlan.columnMod")}</th>
+              <th>{t("updateAll.columnVersions")}</th>
+              <th>{t("updateAll.columnNotes")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mods.map((mod) => (
+              <tr key={mod.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(mod.id)}
+                    onChange={() => toggle(mod.id)}
+                    aria-label={t("updateAll.select", { name: mod.name })}
+                  />
+                </td>
+                <td>
+                  <span className="update-all-name">{mod.name}</span>
+                  {!installedMods[mod.id] && (
+                    <span className="update-all-note">
+                      {t("updateAll.notInstalled")}
+                    </span>
+                  )}
+                  {isIncompatible(mod) && (
+                    <span className="update-all-note warning">
+                      <AlertTriangleIcon size={12} />
+                      {t("mod.updateNeedsSptTitle", {
+                        version: mod.latestVersion ?? "",
+                        constraint: mod.latestSptVersionConstraint ?? "",
+                      })}
+                    </span>
+                  )}
+                </td>
+                <td>
+                  {t("changelog.reviewVersions", {
+                    from: mod.version,
+                    to: mod.latestVersion ?? "",
+                  })}
+                </td>
+                <td>
+                  {mod.changelog?.length ? (
+                    <ModChangelog entries={mod.changelog} />
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="modal-actions">
+          <button className="btn btn-secondary" onClick={onClose}>
+            {t("common.cancel")}
+          </button>
+          <button
+            className="btn btn-warning"
+            onClick={handleUpdate}
+            disabled={selected.size === 0}
+          >
+            <RefreshCwIcon size={16} />
+            <span className="btn-text">
+              {t("updateAll.confirm", { count: selected.size })}
+            </span>
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default UpdateAllModal;
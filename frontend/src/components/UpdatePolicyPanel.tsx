@@ -0,0 +1,216 @@
+import React, { useState } from "react";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LoaderIcon,
+  PlayIcon,
+  RefreshCwIcon,
+} from "lucide-react";
+import { useModal } from "./ModalContext";
+import { UPDATE_POLICIES, useUpdatePolicy } from "../hooks/useUpdatePolicy";
+import type { UpdatePolicy, UpdateRun } from "../hooks/types";
+import { useI18n } from "../i18n/I18nContext";
+
+interface UpdatePolicyPanelProps {
+  currentList: string;
+  onUpdatesApplied?: () => void;
+}
+
+const countOutcome = (run: UpdateRun, outcome: string) =>
+  run.changes.filter((change) => change.outcome === outcome).length;
+
+const UpdatePolicyPanel: React.FC<UpdatePolicyPanelProps> = ({
+  currentList,
+  onUpdatesApplied,
+}) => {
+  const { showModal } = useModal();
+  const { t, formatDateTime } = useI18n();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const {
+    policy,
+    runs,
+    isLoading,
+    error,
+    refresh,
+    setPolicy,
+    isSavingPolicy,
+    runUpdates,
+    isRunning,
+  } = useUpdatePolicy(currentList, isExpanded);
+
+  const handlePolicyChange = async (
+    e: React.ChangeEvent<HTMLSelectElement>
+  ) => {
+    try {
+      await setPolicy(e.target.value as UpdatePolicy);
+      // Freezing clears the updates already found, so the cards change too
+      onUpdatesApplied?.();
+    } catch (err) {
+      showModal({
+        type: "error",
+        title: t("updatePolicy.saveFailed"),
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      const run = await runUpdates();
+      showModal({
+        type: countOutcome(run, "failed") > 0 ? "warning" : "success",
+        title: t("updatePolicy.runFinishedTitle"),
+        message: t("updatePolicy.runSummary", {
+          applied: countOutcome(run, "applied"),
+          available: countOutcome(run, "available"),
+          failed: countOutcome(run, "failed"),
+        }),
+      });
+      onUpdatesApplied?.();
+    } catch (err) {
+      showModal({
+        type: "error",
+        title: t("updatePolicy.runFailed"),
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  if (!currentList) return null;
+
+  return (
+    <div className="panel update-policy-panel">
+      <div className="panel-header">
+        <button
+          className="panel-toggle"
+          onClick={() => setIsExpanded((prev) => !prev)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDownIcon size={16} />
+          ) : (
+            <ChevronRightIcon size={16} />
+          )}
+          <span className="panel-title">{t("updatePolicy.title")}</span>
+          <span className="panel-status">
+            {policy
+              ? t(`updatePolicy.policy.${policy}`)
+              : t("updatePolicy.subtitle")}
+          </span>
+        </button>
+        {isExpanded && (
+          <button
+            onClick={() => refresh()}
+            className="btn btn-secondary"
+            disabled={isLoading}
+            title={t("updatePolicy.refreshTitle")}
+          >
+            {isLoading ? (
+              <LoaderIcon size={16} className="spinning" />
+            ) : (
+              <RefreshCwIcon size={16} />
+            )}
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <>
+          <div className="update-policy-controls">
+            <label className="update-policy-label">
+              {t("updatePolicy.listPolicy", { list: currentList })}
+              <select
+                className="select-input"
+                value={policy ?? ""}
+                onChange={handlePolicyChange}
+                disabled={!policy || isSavingPolicy}
+              >
+                {UPDATE_POLICIES.map((option) => (
+                  <option key={option} value={option}>
+                    {t(`updatePolicy.policy.${option}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleRunNow}
+              className="btn btn-primary"
+              disabled={isRunning}
+              title={t("updatePolicy.runNowTitle")}
+            >
+              {isRunning ? (
+                <LoaderIcon size={16} className="spinning" />
+              ) : (
+                <PlayIcon size={16} />
+              )}
+              <span className="btn-text">{t("updatePolicy.runNow")}</span>
+            </button>
+          </div>
+          {policy && (
+            <p className="update-policy-hint">
+              {t(`updatePolicy.hint.${policy}`)}
+            </p>
+          )}
+
+          {error && <p className="panel-error">{error}</p>}
+          {!error && !isLoading && runs.length === 0 && (
+            <p className="panel-empty">{t("updatePolicy.empty")}</p>
+          )}
+          {runs.length > 0 && (
+            <ul className="update-runs-list">
+              {runs.map((run) => (
+                <li key={`${run.jobId}-${run.startedAt}`}>
+                  <div className="update-run-header">
+                    <span className="update-run-date">
+                      {formatDateTime(run.startedAt)}
+                      {run.scheduled && ` · ${t("updatePolicy.runScheduled")}`}
+                    </span>
+                    <span>
+                      {run.changes.length > 0
+                        ? t("updatePolicy.runSummary", {
+                            applied: countOutcome(run, "applied"),
+                            available: countOutcome(run, "available"),
+                            failed: countOutcome(run, "failed"),
+                          })
+                        : t("updatePolicy.runNoChanges")}
+                    </span>
+                  </div>
+                  {run.changes.length > 0 && (
+                    <ul className="update-run-changes">
+                      {run.changes.map((change) => (
+                        <li
+                          key={`${change.listName}-${change.modId}`}
+                          className={`update-run-change outcome-${change.outcome}`}
+                        >
+                          <span className="update-run-outcome">
+                            {t(`updatePolicy.outcome.${change.outcome}`)}
+                          </span>
+                          <span className="update-run-mod">
+                            {change.modName}
+                          </span>
+                          <span>
+                            {change.fromVersion} → {change.toVersion}
+                          </span>
+                          <span className="update-run-meta">
+                            {change.message ||
+                              (change.reinstalled
+                                ? t("updatePolicy.reinstalled", {
+                                    list: change.listName,
+                                  })
+                                : change.listName)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UpdatePolicyPanel;
@@ -8,10 +8,14 @@ export { useListManagement } from "./useListManagement";
 export { useInstallStatus } from "./useInstallStatus";
 export { useSPTFikaManagement } from "./useSPTFikaManagement";
 export { useListOperations } from "./useListOperations";
+export { useDownloadProgress } from "./useDownloadProgress";
 export type {
   Mod,
   SptVersion,
   UpdateInfo,
-  ApiResponse,
+  ServerStatusInfo,
+  DownloadResult,
+  DownloadPhase,
+  DownloadProgress,
   UseModManagerProps,
 } from "./types";
@@ -7,6 +7,15 @@ export interface UseModManagerProps {
   showConfirmation?: (options: any) => void;
 }
 
+export type ModType = "server" | "client" | "both" | "unknown";
+
+export interface ModDependency {
+  modId: number;
+  name: string;
+  constraint: string;
+  resolvedVersion?: string | null;
+}
+
 export interface Mod {
   id: number;
   name: string;
@@ -16,17 +25,35 @@ export interface Mod {
   detailUrl: string;
   downloadUrl?: string;
   sptVersionConstraint?: string;
+  latestSptVersionConstraint?: string;
   thumbnail?: string;
   teaser?: string;
   contentLength?: string;
+  contentLengthBytes?: number | null;
+  modType?: ModType;
+  enabled?: boolean;
+  pinnedVersion?: string | null;
+  // null follows the list's update policy
+  updatePolicy?: UpdatePolicy | null;
+  // Remembered install location for archives without SPT/ or BepInEx/ folders
+  installTarget?: InstallTarget | null;
+  dependencies?: ModDependency[];
+  // Release notes between version and latestVersion, newest first
+  changelog?: ModChangelogEntry[];
   author?: string;
   updatedAt?: string;
   description?: string;
 }
 
+export interface ModChangelogEntry {
+  version: string;
+  publishedAt?: string | null;
+  notes: string;
+}
+
 export interface SptVersion {
   version: string;
-  displayName: string;
+  versionMajor: number;
 }
 
 export interface UpdateInfo {
@@ -34,57 +61,525 @@ export interface UpdateInfo {
   latestVersion: string;
   downloadUrl: string;
   updateAvailable: boolean;
+  releaseNotes?: string;
 }
 
-export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
+export interface ServerStatusInfo {
+  sptVersion: string;
+  isRunning: boolean;
+  consoleAttached?: boolean;
+  players: string;
+  uptime: string;
+  timestamp: string;
 }
 
-export interface DownloadResult {
+export type ServerConsoleStream = "stdout" | "stderr" | "system";
+
+export interface ServerConsoleLine {
+  id: number;
+  stream: ServerConsoleStream;
+  text: string;
+  timestamp: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface CreateListResponse extends MessageResponse {
+  sptVersion: string;
+}
+
+export interface ExportedMod {
+  id: number;
+  name: string;
+  detailUrl: string;
+  version: string;
+  sptVersionConstraint: string;
+  modType: string;
+  enabled: boolean;
+  pinned: boolean;
+  installTarget?: InstallTarget | null;
+  checksum?: string | null;
+}
+
+export interface ModListExport {
+  format: string;
+  schemaVersion: number;
+  exportedAt: string;
+  listName: string;
+  sptVersion: string;
+  mods: ExportedMod[];
+  loadOrder: number[];
+}
+
+export interface ImportValidationError {
+  path: string;
+  message: string;
+}
+
+export interface ImportValidation {
+  valid: boolean;
+  sourceVersion: number;
+  migrated: boolean;
+  export?: ModListExport | null;
+  errors: ImportValidationError[];
+}
+
+export interface ImportedModResult {
+  index: number;
   modId: number;
+  modName: string;
+  version: string;
   success: boolean;
-  error?: string;
-  message?: string;
-  ModName?: string;
-  requiresUserChoice?: boolean;
-  TempExtractPath?: string;
+  error?: string | null;
 }
 
-export interface ModOperationResult {
+export interface ListImportResult {
   success: boolean;
-  message?: string;
-  mod?: Mod;
+  listName: string;
+  sourceVersion: number;
+  errors: ImportValidationError[];
+  mods: ImportedModResult[];
 }
 
-export interface DownloadModResponse {
+export interface DuplicateListResponse extends MessageResponse {
+  name: string;
+  modCount: number;
+}
+
+export interface UpdatePolicyResponse {
+  updatePolicy: UpdatePolicy;
+}
+
+export interface SelectedSptVersionResponse {
+  selectedSptVersion: string;
+}
+
+export interface InstalledResponse {
+  installed: boolean;
+}
+
+export interface FileConflict {
+  path: string;
+  ownerModId: number;
+  ownerModName: string;
+}
+
+export interface FileConflictOwner {
+  modId: number;
+  modName: string;
+  isCurrent: boolean;
+}
+
+export interface ListFileConflict {
+  path: string;
+  owners: FileConflictOwner[];
+}
+
+export interface DownloadResult {
   success: boolean;
-  message?: string;
+  message: string;
+  modName?: string;
+  modId?: number;
   requiresUserChoice?: boolean;
-  TempExtractPath?: string;
-  ModName?: string;
-  error?: string;
+  tempExtractPath?: string;
+  conflicts?: FileConflict[];
 }
 
-export interface CompleteInstallationResponse {
+export interface DownloadModResponse {
   success: boolean;
   message?: string;
-  error?: string;
+  modName?: string;
+  requiresUserChoice?: boolean;
+  tempExtractPath?: string;
+  conflicts?: FileConflict[];
 }
 
-export interface AddModResponse {
-  success: boolean;
-  message?: string;
-  mod?: Mod;
-  error?: string;
+export type InstallTargetKind = "server" | "client" | "custom" | "mapped";
+
+export type InstallMappingTarget = "server" | "client" | "config" | "skip";
+
+export interface InstallTarget {
+  kind: InstallTargetKind;
+  // Folder relative to the server directory, only for custom targets
+  path?: string | null;
+  // Archive folder ("" for the root) to where its files go, only for mapped targets
+  mapping?: Record<string, InstallMappingTarget> | null;
 }
 
-export interface RemoveModResponse {
-  success: boolean;
-  message?: string;
-  mod?: Mod;
-  filesRemoved?: boolean;
+export interface ArchiveEntry {
+  // Relative to the archive root; empty for the root itself
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  children: ArchiveEntry[];
+}
+
+export interface CompleteInstallationRequest {
+  modId?: number;
+  modName: string;
+  tempExtractPath: string;
+  installTarget: InstallTarget;
+  overwriteConflicts?: boolean;
+}
+
+export interface CompleteInstallationResponse extends MessageResponse {
+  conflicts?: FileConflict[];
+}
+
+export type InstalledFileStatus = "ok" | "modified" | "missing";
+
+export interface InstalledFile {
+  path: string;
+  size: number;
+  sha256: string;
+  status?: InstalledFileStatus;
+}
+
+export interface InstallManifest {
+  modId: number;
+  modName: string;
+  version: string;
+  installedAt: string;
+  files: InstalledFile[];
+  directories: string[];
+}
+
+export interface AddModResponse extends MessageResponse {
+  mod: Mod;
+  dependencies?: Mod[];
+}
+
+export interface MissingDependency {
+  mod: Mod;
+  constraint: string;
+  requiredBy: string;
+}
+
+export interface DependencyResolution {
+  mod: Mod;
+  missingDependencies: MissingDependency[];
+  unresolvableDependencies: MissingDependency[];
+}
+
+export interface RemoveModResponse extends MessageResponse {
+  mod: Mod;
+  filesRemoved: boolean;
+}
+
+export interface SetModEnabledResponse extends MessageResponse {
+  mod: Mod;
+}
+
+export interface PinModVersionResponse extends MessageResponse {
+  mod: Mod;
+}
+
+export interface SetModUpdatePolicyResponse extends MessageResponse {
+  mod: Mod;
+}
+
+export interface SetModInstallTargetResponse extends MessageResponse {
+  mod: Mod;
+}
+
+export interface ModRelease {
+  version: string;
+  sptVersionConstraint: string;
+  downloadUrl: string;
+  contentLength: string;
+  contentLengthBytes?: number | null;
+  publishedAt?: string | null;
+  description?: string;
+}
+
+export interface ForceUpdateResponse extends MessageResponse {
+  mod: Mod;
+  requiresUserChoice?: boolean;
+  tempExtractPath?: string;
+  conflicts?: FileConflict[];
+}
+
+export type DownloadPhase =
+  | "queued"
+  | "fetching_metadata"
+  | "downloading"
+  | "extracting"
+  | "installing"
+  | "awaiting_choice"
+  | "completed"
+  | "skipped"
+  | "failed"
+  | "cancelled";
+
+export interface DownloadProgress {
+  operationId: string;
+  modId: number;
+  modName: string;
+  phase: DownloadPhase;
+  bytesReceived: number;
+  totalBytes?: number | null;
+  target?: string | null;
+  message?: string | null;
+  index: number;
+  total: number;
+  timestamp: string;
+}
+
+export interface DownloadOperationComplete {
+  operationId: string;
+  cancelled: boolean;
+}
+
+export type SptSwitchAction =
+  | "keep"
+  | "upgrade"
+  | "downgrade"
+  | "no_compatible_release"
+  | "unknown";
+
+export interface SptSwitchPlanItem {
+  modId: number;
+  modName: string;
+  currentVersion: string;
+  currentConstraint: string;
+  action: SptSwitchAction;
+  targetVersion?: string | null;
+  targetConstraint?: string | null;
+  downloadUrl?: string | null;
+  contentLength?: string | null;
+  contentLengthBytes?: number | null;
+  publishedAt?: string | null;
+}
+
+export interface SptSwitchPlan {
+  listName: string;
+  currentSptVersion: string;
+  targetSptVersion: string;
+  items: SptSwitchPlanItem[];
+  hash: string;
+  blockingCount: number;
+}
+
+export interface ApplySptSwitchPlanResponse extends MessageResponse {
+  plan: SptSwitchPlan;
+  reinstallRequired: string[];
+}
+
+export type ActivationAction = "install" | "update" | "remove" | "keep";
+
+export interface ActivationPlanItem {
+  modId: number;
+  modName: string;
+  action: ActivationAction;
+  installedVersion?: string | null;
+  targetVersion?: string | null;
+  unmanaged: boolean;
+}
+
+export interface ActivationPlan {
+  listName: string;
+  items: ActivationPlanItem[];
+  hash: string;
+  changeCount: number;
+}
+
+export interface ActiveListState {
+  name?: string | null;
+  activatedAt?: string | null;
+  inSync: boolean;
+}
+
+export interface ActivationResult {
+  listName: string;
+  removed: string[];
+  results: DownloadResult[];
+}
+
+// auto applies patch releases in the nightly run, notify only reports updates, frozen hides them
+export type UpdatePolicy = "auto" | "notify" | "frozen";
+
+export type UpdateOutcome = "applied" | "available" | "failed";
+
+export interface UpdateRunChange {
+  listName: string;
+  modId: number;
+  modName: string;
+  fromVersion: string;
+  toVersion: string;
+  outcome: UpdateOutcome;
+  reinstalled: boolean;
+  message?: string | null;
+}
+
+export interface UpdateRun {
+  jobId: string;
+  scheduled: boolean;
+  startedAt: string;
+  finishedAt?: string | null;
+  changes: UpdateRunChange[];
+}
+
+export type LoadOrderRule = "load_after" | "load_before";
+
+export interface LoadOrderEntry {
+  modId: number;
+  modName: string;
+  folder?: string | null;
+  packageName?: string | null;
+  enabled: boolean;
+  loadAfter: string[];
+  loadBefore: string[];
+}
+
+export interface LoadOrderWarning {
+  modId: number;
+  modName: string;
+  rule: LoadOrderRule;
+  otherModId: number;
+  otherModName: string;
+}
+
+export interface LoadOrder {
+  listName: string;
+  entries: LoadOrderEntry[];
+  warnings: LoadOrderWarning[];
+}
+
+export interface ModVersionDifference {
+  modId: number;
+  modName: string;
+  left: Mod;
+  right: Mod;
+  comparison: number;
+}
+
+export interface ListDiff {
+  leftList: string;
+  rightList: string;
+  leftSptVersion: string;
+  rightSptVersion: string;
+  onlyInLeft: Mod[];
+  onlyInRight: Mod[];
+  versionDifferences: ModVersionDifference[];
+  identicalCount: number;
+}
+
+export type BisectStatus = "testing" | "found";
+
+export type BisectOutcome = "booted" | "crashed";
+
+export interface BisectStep {
+  round: number;
+  enabledModIds: number[];
+  outcome: BisectOutcome;
+}
+
+export interface BisectSession {
+  listName: string;
+  status: BisectStatus;
+  startedAt: string;
+  originalEnabledModIds: number[];
+  serverWasRunning: boolean;
+  suspects: number[];
+  testingModIds: number[];
+  round: number;
+  steps: BisectStep[];
+  culpritModId?: number | null;
+  culpritModName?: string | null;
+  detectedOutcome?: BisectOutcome | null;
+}
+
+export interface BisectResponse extends MessageResponse {
+  session: BisectSession;
+}
+
+export type SnapshotKind = "spt" | "fika" | "mod";
+
+export interface Snapshot {
+  id: string;
+  kind: SnapshotKind;
+  label: string;
+  modId?: number;
+  version?: string;
+  createdAt: string;
+  files: string[];
+  addedFiles: string[];
+  sizeBytes: number;
+}
+
+export type LogSource = "spt" | "bepinex";
+
+export type LogLineLevel = "info" | "warning" | "error";
+
+export interface LogFile {
+  path: string;
+  source: LogSource;
+  name: string;
+  sizeBytes: number;
+  modifiedAt: string;
+}
+
+export interface LogLine {
+  number: number;
+  text: string;
+  level: LogLineLevel;
+  modId?: number | null;
+  modName?: string | null;
+}
+
+export interface LogPage {
+  path: string;
+  offset: number;
+  totalLines: number;
+  lines: LogLine[];
+}
+
+export type JobType =
+  | "download_mod"
+  | "download_all"
+  | "force_update"
+  | "spt_update"
+  | "fika_update"
+  | "activate_list"
+  | "apply_updates"
+  | "update_mods";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "awaiting_choice"
+  | "failed"
+  | "cancelled";
+
+export interface JobRequest {
+  type: JobType;
+  listName?: string;
+  modId?: number;
+  modIds?: number[];
+  overwriteConflicts?: boolean;
+  downloadUrl?: string;
+  planHash?: string;
+}
+
+export interface JobLogEntry {
+  timestamp: string;
+  message: string;
+}
+
+export interface Job<TResult = unknown> {
+  id: string;
+  type: JobType;
+  title: string;
+  request: JobRequest;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  logs: JobLogEntry[];
+  result?: TResult;
   error?: string;
 }
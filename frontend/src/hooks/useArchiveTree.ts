@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const archiveTreeKeys = {
+  all: ["archive-tree"] as const,
+  pending: (tempExtractPath: string) =>
+    [...archiveTreeKeys.all, tempExtractPath] as const,
+};
+
+export function useArchiveTree(tempExtractPath: string, enabled: boolean) {
+  const query = useQuery({
+    queryKey: archiveTreeKeys.pending(tempExtractPath),
+    queryFn: ({ signal }) => api.mods.pendingTree(tempExtractPath, { signal }),
+    enabled: enabled && !!tempExtractPath,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    tree: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+  };
+}
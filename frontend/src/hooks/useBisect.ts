@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, ApiError } from "../lib/apiClient";
+import type { BisectOutcome } from "./types";
+
+// Polled while a round waits for the server to boot or crash
+const DETECTION_POLL_MS = 3000;
+
+export const bisectKeys = {
+  all: ["bisect"] as const,
+  list: (listName: string) => [...bisectKeys.all, listName] as const,
+};
+
+export function useBisect(listName: string) {
+  const queryClient = useQueryClient();
+  const queryKey = bisectKeys.list(listName);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async ({ signal }) => {
+      try {
+        return await api.bisect.get(listName, { signal });
+      } catch (error) {
+        if (error instanceof ApiError && error.isNotFound) return null;
+        throw error;
+      }
+    },
+    enabled: !!listName,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+    refetchInterval: (query) => {
+      const session = query.state.data;
+      return session?.status === "testing" && !session.detectedOutcome
+        ? DETECTION_POLL_MS
+        : false;
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => api.bisect.start(listName),
+    onSuccess: (result) => queryClient.setQueryData(queryKey, result.session),
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: (outcome: BisectOutcome) =>
+      api.bisect.submitOutcome(listName, outcome),
+    onSuccess: (result) => queryClient.setQueryData(queryKey, result.session),
+  });
+
+  const endMutation = useMutation({
+    mutationFn: () => api.bisect.end(listName),
+    onSuccess: () => queryClient.setQueryData(queryKey, null),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    session: query.data ?? null,
+    error: query.error?.message ?? null,
+    startBisect: startMutation.mutateAsync,
+    submitOutcome: outcomeMutation.mutateAsync,
+    endBisect: endMutation.mutateAsync,
+    isBusy:
+      startMutation.isPending ||
+      outcomeMutation.isPending ||
+      endMutation.isPending,
+  };
+}
@@ -0,0 +1,132 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { api, settle } from "../lib/apiClient";
+import type { DownloadProgress, DownloadOperationComplete } from "./types";
+
+export interface DownloadProgressState {
+  operationId: string | null;
+  label: string;
+  items: DownloadProgress[];
+  isRunning: boolean;
+  isCancelling: boolean;
+  wasCancelled: boolean;
+}
+
+const STREAM_GRACE_MS = 3000;
+
+const initialState: DownloadProgressState = {
+  operationId: null,
+  label: "",
+  items: [],
+  isRunning: false,
+  isCancelling: false,
+  wasCancelled: false,
+};
+
+const createOperationId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export function useDownloadProgress() {
+  const [state, setState] = useState<DownloadProgressState>(initialState);
+  const sourceRef = useRef<EventSource | null>(null);
+  const closeTimeoutRef = useRef<number>();
+
+  const closeStream = useCallback(() => {
+    if (closeTimeoutRef.current) {
+      window.clearTimeout(closeTimeoutRef.current);
+      closeTimeoutRef.current = undefined;
+    }
+    sourceRef.current?.close();
+    sourceRef.current = null;
+  }, []);
+
+  useEffect(() => closeStream, [closeStream]);
+
+  const start = useCallback(
+    (label: string, operationId: string = createOperationId()) => {
+      closeStream();
+
+      setState({ ...initialState, operationId, label, isRunning: true });
+
+      const source = new EventSource(api.downloads.eventsUrl(operationId));
+      sourceRef.current = source;
+
+      source.addEventListener("progress", (event) => {
+        const progress = JSON.parse(
+          (event as MessageEvent).data
+        ) as DownloadProgress;
+
+        setState((prev) => {
+          if (prev.operationId !== operationId) return prev;
+
+          const items = prev.items.some((item) => item.modId === progress.modId)
+            ? prev.items.map((item) =>
+                item.modId === progress.modId ? progress : item
+              )
+            : [...prev.items, progress];
+
+          return { ...prev, items };
+        });
+      });
+
+      source.addEventListener("complete", (event) => {
+        const { cancelled } = JSON.parse(
+          (event as MessageEvent).data
+        ) as DownloadOperationComplete;
+
+        setState((prev) =>
+          prev.operationId === operationId
+            ? {
+                ...prev,
+                isRunning: false,
+                isCancelling: false,
+                wasCancelled: cancelled,
+              }
+            : prev
+        );
+        closeStream();
+      });
+
+      return operationId;
+    },
+    [closeStream]
+  );
+
+  // Called once the download request has returned; the stream normally
+  // closes itself on the "complete" event, this only covers a lost stream.
+  const finish = useCallback(() => {
+    if (!sourceRef.current) return;
+
+    closeTimeoutRef.current = window.setTimeout(() => {
+      closeStream();
+      setState((prev) => ({ ...prev, isRunning: false, isCancelling: false }));
+    }, STREAM_GRACE_MS);
+  }, [closeStream]);
+
+  const cancel = useCallback(async () => {
+    const { operationId, isRunning } = state;
+    if (!operationId || !isRunning) return;
+
+    setState((prev) => ({ ...prev, isCancelling: true }));
+    const result = await settle(api.downloads.cancel(operationId));
+
+    if (!result.success) {
+      console.error("Failed to cancel downloads:", result.error);
+      setState((prev) => ({ ...prev, isCancelling: false }));
+    }
+  }, [state]);
+
+  const dismiss = useCallback(() => {
+    closeStream();
+    setState(initialState);
+  }, [closeStream]);
+
+  return {
+    downloadProgress: state,
+    startDownloadTracking: start,
+    finishDownloadTracking: finish,
+    cancelDownloads: cancel,
+    dismissDownloadProgress: dismiss,
+  };
+}
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const fileConflictKeys = {
+  all: ["file-conflicts"] as const,
+  list: (listName: string) => [...fileConflictKeys.all, listName] as const,
+};
+
+export function useFileConflicts(listName: string, installedCount: number) {
+  const query = useQuery({
+    queryKey: [...fileConflictKeys.list(listName), installedCount],
+    queryFn: ({ signal }) => api.lists.conflicts(listName, { signal }),
+    enabled: !!listName,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    conflicts: query.data ?? [],
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+  };
+}
@@ -1,67 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from "react";
+import { api, settle } from "../lib/apiClient";
 import { Mod } from "./types";
 
 export function useInstallStatus(currentList: string, currentMods: Mod[]) {
+  // The backend's install manifests are the source of truth, so this is only
+  // an in-memory view of the last check
   const [installedMods, setInstalledMods] = useState<Record<number, boolean>>(
-    loadInstalledModsFromStorage
+    {}
   );
 
   const isCheckingRef = useRef(false);
   const lastCheckRef = useRef<number>(0);
 
-  const saveInstalledModsToStorage = useCallback(
-    (modsStatus: Record<number, boolean>) => {
-      try {
-        localStorage.setItem("installedMods", JSON.stringify(modsStatus));
-      } catch (e) {
-        console.error("Error saving installedMods to localStorage:", e);
-      }
-    },
-    []
-  );
-
-  function loadInstalledModsFromStorage(): Record<number, boolean> {
-    try {
-      const saved = localStorage.getItem("installedMods");
-      return saved ? JSON.parse(saved) : {};
-    } catch (e) {
-      console.error("Error loading installedMods from localStorage:", e);
-      return {};
-    }
-  }
-
-  const apiCall = useCallback(
-    async <T>(
-      url: string,
-      options?: RequestInit
-    ): Promise<{ success: boolean; data?: T; error?: string }> => {
-      try {
-        const response = await fetch(url, options);
-        if (response.ok) {
-          const data = await response.json();
-          return { success: true, data };
-        } else {
-          const error = await response.json();
-          return { success: false, error: error.error || "Request failed" };
-        }
-      } catch (error) {
-        return { success: false, error: "Network error" };
-      }
-    },
-    []
-  );
-
   const checkModInstalled = useCallback(
     async (modId: number): Promise<boolean> => {
       if (!currentList) return false;
 
-      const result = await apiCall<{ installed: boolean }>(
-        `/api/mod_list/${encodeURIComponent(currentList)}/is_installed/${modId}`
-      );
+      const result = await settle(api.mods.isInstalled(currentList, modId));
 
-      return result.success && result.data ? result.data.installed : false;
+      return result.success ? result.data.installed : false;
     },
-    [currentList, apiCall]
+    [currentList]
   );
 
   const updateInstalledStatusOnce = useCallback(async () => {
@@ -89,13 +48,12 @@ export function useInstallStatus(currentList: string, currentMods: Mod[]) {
       await Promise.allSettled(promises);
 
       setInstalledMods(installedStatus);
-      saveInstalledModsToStorage(installedStatus);
     } catch (error) {
       console.error("Error updating installed status:", error);
     } finally {
       isCheckingRef.current = false;
     }
-  }, [currentList, currentMods, checkModInstalled, saveInstalledModsToStorage]);
+  }, [currentList, currentMods, checkModInstalled]);
 
   useEffect(() => {
     if (!currentList || currentMods.length === 0) return;
@@ -114,13 +72,9 @@ export function useInstallStatus(currentList: string, currentMods: Mod[]) {
         }
       });
 
-      if (needsUpdate) {
-        saveInstalledModsToStorage(updated);
-      }
-
       return needsUpdate ? updated : prev;
     });
-  }, [currentList, currentMods, saveInstalledModsToStorage]);
+  }, [currentList, currentMods]);
 
   useEffect(() => {
     if (!currentList || !currentMods.length) return;
@@ -129,28 +83,17 @@ export function useInstallStatus(currentList: string, currentMods: Mod[]) {
     return () => clearTimeout(timeoutId);
   }, [currentList, currentMods.length, updateInstalledStatusOnce]);
 
-  const setModInstalled = useCallback(
-    (modId: number, installed: boolean) => {
-      setInstalledMods((prev) => {
-        const newStatus = { ...prev, [modId]: installed };
-        saveInstalledModsToStorage(newStatus);
-        return newStatus;
-      });
-    },
-    [saveInstalledModsToStorage]
-  );
+  const setModInstalled = useCallback((modId: number, installed: boolean) => {
+    setInstalledMods((prev) => ({ ...prev, [modId]: installed }));
+  }, []);
 
-  const removeModInstallStatus = useCallback(
-    (modId: number) => {
-      setInstalledMods((prev) => {
-        const newStatus = { ...prev };
-        delete newStatus[modId];
-        saveInstalledModsToStorage(newStatus);
-        return newStatus;
-      });
-    },
-    [saveInstalledModsToStorage]
-  );
+  const removeModInstallStatus = useCallback((modId: number) => {
+    setInstalledMods((prev) => {
+      const newStatus = { ...prev };
+      delete newStatus[modId];
+      return newStatus;
+    });
+  }, []);
 
   return {
     installedMods,
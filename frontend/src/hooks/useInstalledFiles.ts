@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { api, ApiError } from "../lib/apiClient";
+
+export const installedFilesKeys = {
+  all: ["installed-files"] as const,
+  mod: (listName: string, modId: number) =>
+    [...installedFilesKeys.all, listName, modId] as const,
+};
+
+export function useInstalledFiles(
+  listName: string,
+  modId: number,
+  enabled: boolean
+) {
+  const query = useQuery({
+    queryKey: installedFilesKeys.mod(listName, modId),
+    queryFn: ({ signal }) =>
+      api.mods.installedFiles(listName, modId, { signal }),
+    enabled: enabled && !!listName,
+    staleTime: 0,
+    retry: (failureCount, error) =>
+      !(error instanceof ApiError && error.isNotFound) && failureCount < 2,
+    refetchOnWindowFocus: false,
+  });
+
+  const notTracked = query.error instanceof ApiError && query.error.isNotFound;
+
+  return {
+    manifest: query.data ?? null,
+    isLoading: query.isFetching,
+    notTracked,
+    error: notTracked ? null : query.error?.message ?? null,
+    refresh: query.refetch,
+  };
+}
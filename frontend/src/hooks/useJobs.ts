@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, isJobFinished } from "../lib/apiClient";
+
+export const jobKeys = {
+  all: ["jobs"] as const,
+};
+
+const ACTIVE_REFRESH_MS = 2000;
+const IDLE_REFRESH_MS = 5000;
+
+export function useJobs() {
+  const queryClient = useQueryClient();
+
+  const jobsQuery = useQuery({
+    queryKey: jobKeys.all,
+    queryFn: ({ signal }) => api.jobs.list({ signal }),
+    staleTime: 0,
+    refetchOnWindowFocus: true,
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => !isJobFinished(job))
+        ? ACTIVE_REFRESH_MS
+        : IDLE_REFRESH_MS,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (jobId: string) => api.jobs.cancel(jobId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: jobKeys.all });
+    },
+  });
+
+  const jobs = jobsQuery.data ?? [];
+
+  return {
+    jobs,
+    activeCount: jobs.filter((job) => !isJobFinished(job)).length,
+    isLoading: jobsQuery.isFetching,
+    error: jobsQuery.error?.message ?? null,
+    refresh: jobsQuery.refetch,
+    cancelJob: cancelMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const activationKeys = {
+  all: ["list-activation"] as const,
+  active: (installedCount: number) =>
+    [...activationKeys.all, "active", installedCount] as const,
+  plan: (listName: string) =>
+    [...activationKeys.all, "plan", listName] as const,
+};
+
+// installedCount only re-keys the query so installs and removals refresh the sync state
+export function useActiveList(installedCount: number) {
+  const query = useQuery({
+    queryKey: activationKeys.active(installedCount),
+    queryFn: ({ signal }) => api.lists.active({ signal }),
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    activeList: query.data ?? null,
+    refresh: query.refetch,
+  };
+}
+
+export function useActivationPlan(listName: string, enabled: boolean) {
+  const query = useQuery({
+    queryKey: activationKeys.plan(listName),
+    queryFn: ({ signal }) => api.lists.activationPlan(listName, { signal }),
+    enabled: enabled && !!listName,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    plan: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+  };
+}
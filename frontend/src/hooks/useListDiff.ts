@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const listDiffKeys = {
+  all: ["list-diff"] as const,
+  pair: (left: string, right: string) =>
+    [...listDiffKeys.all, left, right] as const,
+};
+
+interface CherryPickVariables {
+  targetList: string;
+  sourceList: string;
+  modIds: number[];
+}
+
+export function useListDiff(left: string, right: string) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: listDiffKeys.pair(left, right),
+    queryFn: ({ signal }) => api.lists.diff(left, right, { signal }),
+    enabled: !!left && !!right && left !== right,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const cherryPickMutation = useMutation({
+    mutationFn: ({ targetList, sourceList, modIds }: CherryPickVariables) =>
+      api.lists.cherryPick(targetList, sourceList, modIds),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listDiffKeys.all });
+    },
+  });
+
+  return {
+    diff: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+    cherryPick: cherryPickMutation.mutateAsync,
+    isPicking: cherryPickMutation.isPending,
+  };
+}
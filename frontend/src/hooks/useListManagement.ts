@@ -1,7 +1,9 @@
 import { useCallback } from "react";
 import { useModal } from "../components/ModalContext";
 import { useModUpdates } from "./useModUpdates";
+import { api, settle } from "../lib/apiClient";
 import type { SptVersion } from "./types";
+import { useI18n } from "../i18n/I18nContext";
 
 interface UseListManagementProps {
   currentList: string;
@@ -11,24 +13,6 @@ interface UseListManagementProps {
   navigate: any;
 }
 
-const apiCall = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<{ success: boolean; data?: T; error?: string }> => {
-  try {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      const data = await response.json();
-      return { success: true, data };
-    } else {
-      const error = await response.json();
-      return { success: false, error: error.error || "Request failed" };
-    }
-  } catch (error) {
-    return { success: false, error: "Network error" };
-  }
-};
-
 export function useListManagement({
   currentList,
   sptVersions,
@@ -37,6 +21,7 @@ export function useListManagement({
   navigate,
 }: UseListManagementProps) {
   const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
   const { modLists, refetchModLists } = useModUpdates();
 
   const showTimedModal = useCallback(
@@ -101,12 +86,11 @@ export function useListManagement({
       if (!listNameStr) {
         return new Promise<boolean>((resolve) => {
           showConfirmation({
-            title: "Create New List",
-            message: "Enter the name for the new list:",
+            title: t("lists.createTitle"),
+            message: t("lists.createPrompt"),
             showInput: true,
-            inputPlaceholder: "List name",
-            confirmText: "Create",
-            cancelText: "Cancel",
+            inputPlaceholder: t("lists.namePlaceholder"),
+            confirmText: t("lists.create"),
             onConfirm: (inputValue: string | undefined) => {
               const name = inputValue || "";
               if (name.trim()) {
@@ -130,17 +114,13 @@ export function useListManagement({
       if (exists) {
         showTimedModal({
           type: "error",
-          title: "Name Exists",
-          message: "A list with this name already exists",
+          title: t("lists.nameExistsTitle"),
+          message: t("lists.nameExists"),
         });
         return false;
       }
 
-      const result = await apiCall("/api/mod_list", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: listNameStr }),
-      });
+      const result = await settle(api.lists.create(listNameStr));
 
       if (result.success) {
         await refetchModLists();
@@ -152,15 +132,15 @@ export function useListManagement({
 
         showTimedModal({
           type: "success",
-          title: "List Created",
-          message: `List "${listNameStr}" created successfully`,
+          title: t("lists.createdTitle"),
+          message: t("lists.created", { name: listNameStr }),
         });
         return true;
       } else {
         showTimedModal({
           type: "error",
-          title: "Create Failed",
-          message: result.error || "Failed to create list",
+          title: t("lists.createFailed"),
+          message: result.error.message,
         });
         return false;
       }
@@ -172,6 +152,7 @@ export function useListManagement({
       showConfirmation,
       refetchModLists,
       onSptVersionChange,
+      t,
     ]
   );
 
@@ -180,8 +161,8 @@ export function useListManagement({
       if (!currentList) {
         showTimedModal({
           type: "warning",
-          title: "No List Selected",
-          message: "Please select a list first",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return false;
       }
@@ -190,13 +171,12 @@ export function useListManagement({
       if (!listNameStr) {
         listNameStr = await new Promise<string>((resolve) => {
           showConfirmation({
-            title: "Rename List",
-            message: "Enter the new name for the list:",
+            title: t("lists.renameTitle"),
+            message: t("lists.renamePrompt"),
             showInput: true,
-            inputPlaceholder: "New list name",
+            inputPlaceholder: t("lists.newNamePlaceholder"),
             inputDefaultValue: currentList,
-            confirmText: "Rename",
-            cancelText: "Cancel",
+            confirmText: t("lists.rename"),
             onConfirm: (inputValue: string | undefined) =>
               resolve(inputValue || ""),
             onCancel: () => resolve(""),
@@ -215,17 +195,13 @@ export function useListManagement({
       if (exists) {
         showTimedModal({
           type: "error",
-          title: "Name Exists",
-          message: "A list with this name already exists",
+          title: t("lists.nameExistsTitle"),
+          message: t("lists.nameExists"),
         });
         return false;
       }
 
-      const result = await apiCall("/api/mod_list/rename", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ oldName: currentList, newName: listNameStr }),
-      });
+      const result = await settle(api.lists.rename(currentList, listNameStr));
 
       if (result.success) {
         await refetchModLists();
@@ -233,41 +209,90 @@ export function useListManagement({
 
         showTimedModal({
           type: "success",
-          title: "List Renamed",
-          message: `List renamed to "${listNameStr}" successfully`,
+          title: t("lists.renamedTitle"),
+          message: t("lists.renamed", { name: listNameStr }),
         });
         return true;
       } else {
         showTimedModal({
           type: "error",
-          title: "Rename Failed",
-          message: result.error || "Failed to rename list",
+          title: t("lists.renameFailed"),
+          message: result.error.message,
         });
         return false;
       }
     },
-    [currentList, modLists, handleListChange, showConfirmation, refetchModLists]
+    [
+      currentList,
+      modLists,
+      handleListChange,
+      showConfirmation,
+      refetchModLists,
+      t,
+    ]
+  );
+
+  const duplicateList = useCallback(
+    async (newName: string, installedOnly: boolean): Promise<boolean> => {
+      if (!currentList || !newName.trim()) return false;
+
+      const exists = modLists.some(
+        (list) => list.toLowerCase() === newName.trim().toLowerCase()
+      );
+      if (exists) {
+        showTimedModal({
+          type: "error",
+          title: t("lists.nameExistsTitle"),
+          message: t("lists.nameExists"),
+        });
+        return false;
+      }
+
+      const result = await settle(
+        api.lists.duplicate(currentList, newName.trim(), installedOnly)
+      );
+
+      if (result.success) {
+        await refetchModLists();
+        handleListChange(result.data.name);
+        showTimedModal({
+          type: "success",
+          title: t("lists.duplicatedTitle"),
+          message: t("lists.duplicated", {
+            name: currentList,
+            newName: result.data.name,
+            count: result.data.modCount,
+          }),
+        });
+        return true;
+      }
+
+      showTimedModal({
+        type: "error",
+        title: t("lists.duplicateFailed"),
+        message: result.error.message,
+      });
+      return false;
+    },
+    [currentList, modLists, handleListChange, refetchModLists, t]
   );
 
   const deleteList = useCallback(async (): Promise<void> => {
     if (!currentList) {
       showTimedModal({
         type: "warning",
-        title: "No List Selected",
-        message: "Please select a list first",
+        title: t("common.noListSelected"),
+        message: t("common.selectListFirst"),
       });
       return;
     }
 
     showConfirmation({
-      title: "Delete List",
-      message: `Are you sure you want to delete "${currentList}"?`,
-      confirmText: "Delete",
+      title: t("lists.deleteTitle"),
+      message: t("lists.deleteConfirm", { name: currentList }),
+      confirmText: t("common.delete"),
       onConfirm: async () => {
-        const result = await apiCall(
-          `/api/mod_list/${encodeURIComponent(currentList)}`,
-          { method: "DELETE" }
-        );
+        const result = await settle(api.lists.remove(currentList));
 
         if (result.success) {
           await refetchModLists();
@@ -294,8 +319,8 @@ export function useListManagement({
                 handleListChange(updatedLists[0]);
                 showTimedModal({
                   type: "info",
-                  title: "Default List Loaded",
-                  message: `Automatically loaded "${updatedLists[0]}" list`,
+                  title: t("lists.defaultLoadedTitle"),
+                  message: t("lists.defaultLoaded", { name: updatedLists[0] }),
                   duration: 2000,
                 });
               }
@@ -304,14 +329,14 @@ export function useListManagement({
 
           showTimedModal({
             type: "success",
-            title: "List Deleted",
-            message: `List "${currentList}" deleted successfully`,
+            title: t("lists.deletedTitle"),
+            message: t("lists.deleted", { name: currentList }),
           });
         } else {
           showTimedModal({
             type: "error",
-            title: "Delete Failed",
-            message: result.error || "Failed to delete list",
+            title: t("lists.deleteFailed"),
+            message: result.error.message,
           });
         }
       },
@@ -323,6 +348,7 @@ export function useListManagement({
     navigate,
     showConfirmation,
     refetchModLists,
+    t,
   ]);
 
   const importList = useCallback(async (): Promise<void> => {
@@ -335,53 +361,97 @@ export function useListManagement({
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const listData = JSON.parse(text);
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(await file.text());
+        } catch {
+          throw new Error(t("lists.invalidFile"));
+        }
 
-        const listName = listData.listName || listData.Name;
-        const mods = listData.mods || listData.Mods;
-        const importedSptVersion =
-          listData.selectedSptVersion || listData.SelectedSptVersion;
+        const validation = await api.lists.validateImport(parsed);
+        const listData = validation.export;
 
-        if (!listName || !Array.isArray(mods)) {
-          throw new Error("Invalid file format");
+        if (!validation.valid || !listData) {
+          showConfirmation({
+            title: t("lists.importInvalidTitle"),
+            message: t("lists.importInvalid", {
+              count: validation.errors.length,
+            }),
+            details: validation.errors.map(
+              (error) => `${error.path}: ${error.message}`
+            ),
+            confirmText: t("common.close"),
+          });
+          return;
         }
 
+        const { listName, mods, sptVersion } = listData;
+        const hasSptVersion = sptVersion && sptVersion !== "unknown";
+
         showConfirmation({
-          title: "Import List",
-          message: `Import list "${listName}" with ${mods.length} mods${
-            importedSptVersion ? ` for SPT ${importedSptVersion}` : ""
-          }?`,
-          confirmText: "Import",
+          title: t("lists.importTitle"),
+          message: hasSptVersion
+            ? t("lists.importConfirmWithSpt", {
+                name: listName,
+                count: mods.length,
+                sptVersion,
+              })
+            : t("lists.importConfirm", { name: listName, count: mods.length }),
+          details: validation.migrated
+            ? [
+                t("lists.importMigrated", {
+                  version: validation.sourceVersion,
+                }),
+              ]
+            : undefined,
+          confirmText: t("lists.import"),
           onConfirm: async () => {
-            await apiCall("/api/mod_list", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ name: listName }),
+            showTimedModal({
+              type: "info",
+              title: t("lists.importTitle"),
+              message: t("lists.importing", {
+                name: listName,
+                count: mods.length,
+              }),
             });
-
-            if (importedSptVersion) {
-              await apiCall(
-                `/api/mod_list/${encodeURIComponent(listName)}/spt_version`,
-                {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ sptVersion: importedSptVersion }),
-                }
-              );
+            const result = await settle(api.lists.import(parsed));
+
+            if (!result.success) {
+              showTimedModal({
+                type: "error",
+                title: t("lists.importFailed"),
+                message: t("lists.importError", {
+                  error: result.error.message,
+                }),
+              });
+              return;
             }
 
-            for (const mod of mods) {
-              await apiCall(
-                `/api/mod_list/${encodeURIComponent(listName)}/add_mod`,
-                {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    url: mod.detailUrl || mod.url || mod.DetailUrl,
-                  }),
-                }
-              );
+            const report = result.data;
+            if (!report.success) {
+              const failed = report.mods.filter((mod) => !mod.success);
+              showConfirmation({
+                title: t("lists.importRejectedTitle"),
+                message: t("lists.importRejected", {
+                  name: listName,
+                  count: failed.length,
+                  total: report.mods.length,
+                }),
+                details: [
+                  ...report.errors.map(
+                    (error) => `${error.path}: ${error.message}`
+                  ),
+                  ...failed.map((mod) =>
+                    t("lists.importModFailed", {
+                      name: mod.modName,
+                      version: mod.version || "?",
+                      error: mod.error ?? "",
+                    })
+                  ),
+                ],
+                confirmText: t("common.close"),
+              });
+              return;
             }
 
             await refetchModLists();
@@ -389,50 +459,35 @@ export function useListManagement({
 
             showTimedModal({
               type: "success",
-              title: "Import Successful",
-              message: `List "${listName}" imported successfully!`,
+              title: t("lists.importedTitle"),
+              message: t("lists.imported", { name: listName }),
             });
           },
         });
       } catch (error) {
         showTimedModal({
           type: "error",
-          title: "Import Failed",
-          message: "Import error: " + (error as Error).message,
+          title: t("lists.importFailed"),
+          message: t("lists.importError", { error: (error as Error).message }),
         });
       }
     };
 
     input.click();
-  }, [handleListChange, showConfirmation, refetchModLists]);
+  }, [handleListChange, showConfirmation, refetchModLists, t]);
 
   const downloadList = useCallback(async (): Promise<void> => {
     if (!currentList) {
       showTimedModal({
         type: "warning",
-        title: "No List Selected",
-        message: "Please select a list first",
+        title: t("common.noListSelected"),
+        message: t("common.selectListFirst"),
       });
       return;
     }
 
     try {
-      const [modsRes, sptRes] = await Promise.all([
-        fetch(`/api/mod_list/${encodeURIComponent(currentList)}`),
-        fetch(`/api/mod_list/${encodeURIComponent(currentList)}/spt_version`),
-      ]);
-
-      if (!modsRes.ok || !sptRes.ok) throw new Error("Error loading list data");
-
-      const modsData = await modsRes.json();
-      const sptData = await sptRes.json();
-
-      const listData = {
-        listName: currentList,
-        exportedAt: new Date().toISOString(),
-        selectedSptVersion: sptData.selectedSptVersion,
-        mods: modsData,
-      };
+      const listData = await api.lists.export(currentList);
 
       const blob = new Blob([JSON.stringify(listData, null, 2)], {
         type: "application/json",
@@ -448,22 +503,23 @@ export function useListManagement({
 
       showTimedModal({
         type: "success",
-        title: "List Exported",
-        message: `List "${currentList}" exported successfully`,
+        title: t("lists.exportedTitle"),
+        message: t("lists.exported", { name: currentList }),
       });
     } catch (e) {
       showTimedModal({
         type: "error",
-        title: "Export Failed",
-        message: "Error exporting list: " + (e as Error).message,
+        title: t("lists.exportFailed"),
+        message: t("lists.exportError", { error: (e as Error).message }),
       });
     }
-  }, [currentList]);
+  }, [currentList, t]);
 
   return {
     handleListChange,
     addList,
     renameList,
+    duplicateList,
     deleteList,
     importList,
     downloadList,
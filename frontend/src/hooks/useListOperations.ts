@@ -1,6 +1,7 @@
 // useListOperations.ts
 import { useCallback } from "react";
 import { useModal } from "../components/ModalContext";
+import { useI18n } from "../i18n/I18nContext";
 
 export function useListOperations(
   currentList: string,
@@ -10,16 +11,16 @@ export function useListOperations(
   onDeleteList: () => Promise<void>
 ) {
   const { showConfirmation } = useModal();
+  const { t } = useI18n();
 
   const handleAddList = useCallback(async () => {
     const newListName = await new Promise<string | undefined>((resolve) => {
       showConfirmation({
-        title: "Create New List",
-        message: "Enter the name for the new list:",
+        title: t("lists.createTitle"),
+        message: t("lists.createPrompt"),
         showInput: true,
-        inputPlaceholder: "List name",
-        confirmText: "Create",
-        cancelText: "Cancel",
+        inputPlaceholder: t("lists.namePlaceholder"),
+        confirmText: t("lists.create"),
         onConfirm: (inputValue: string | undefined) => {
           resolve(inputValue);
         },
@@ -35,20 +36,19 @@ export function useListOperations(
         onListChange(newListName);
       }
     }
-  }, [onAddList, onListChange, showConfirmation]);
+  }, [onAddList, onListChange, showConfirmation, t]);
 
   const handleRenameList = useCallback(async () => {
     if (!currentList) return;
 
     const newName = await new Promise<string | undefined>((resolve) => {
       showConfirmation({
-        title: "Rename List",
-        message: "Enter the new name for the list:",
+        title: t("lists.renameTitle"),
+        message: t("lists.renamePrompt"),
         showInput: true,
-        inputPlaceholder: "New list name",
+        inputPlaceholder: t("lists.newNamePlaceholder"),
         inputDefaultValue: currentList,
-        confirmText: "Rename",
-        cancelText: "Cancel",
+        confirmText: t("lists.rename"),
         onConfirm: (inputValue: string | undefined) => {
           resolve(inputValue);
         },
@@ -64,21 +64,20 @@ export function useListOperations(
         onListChange(newName);
       }
     }
-  }, [currentList, onRenameList, onListChange, showConfirmation]);
+  }, [currentList, onRenameList, onListChange, showConfirmation, t]);
 
   const handleDeleteList = useCallback(async () => {
     if (!currentList) return;
 
     showConfirmation({
-      title: "Delete List",
-      message: `Are you sure you want to delete "${currentList}"? This action cannot be undone.`,
-      confirmText: "Delete",
-      cancelText: "Cancel",
+      title: t("lists.deleteTitle"),
+      message: t("lists.deleteConfirmPermanent", { name: currentList }),
+      confirmText: t("common.delete"),
       onConfirm: async () => {
         await onDeleteList();
       },
     });
-  }, [currentList, onDeleteList, showConfirmation]);
+  }, [currentList, onDeleteList, showConfirmation, t]);
 
   return {
     handleAddList,
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+import type { LoadOrderEntry, LoadOrderWarning } from "./types";
+
+// Stable fallbacks so consumers syncing local state from `entries` don't loop
+const NO_ENTRIES: LoadOrderEntry[] = [];
+const NO_WARNINGS: LoadOrderWarning[] = [];
+
+export const loadOrderKeys = {
+  all: ["load-order"] as const,
+  list: (listName: string) => [...loadOrderKeys.all, listName] as const,
+};
+
+export function useLoadOrder(
+  listName: string,
+  installedCount: number,
+  disabledCount: number
+) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: [...loadOrderKeys.list(listName), installedCount, disabledCount],
+    queryFn: ({ signal }) => api.lists.loadOrder(listName, { signal }),
+    enabled: !!listName,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (order: number[]) => api.lists.setLoadOrder(listName, order),
+    onSuccess: (loadOrder) => {
+      queryClient.setQueryData(
+        [...loadOrderKeys.list(listName), installedCount, disabledCount],
+        loadOrder
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: loadOrderKeys.list(listName),
+      });
+    },
+  });
+
+  return {
+    entries: query.data?.entries ?? NO_ENTRIES,
+    warnings: query.data?.warnings ?? NO_WARNINGS,
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+    saveLoadOrder: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -0,0 +1,55 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const LOG_PAGE_SIZE = 500;
+
+export const logKeys = {
+  all: ["logs"] as const,
+  files: () => [...logKeys.all, "files"] as const,
+  page: (path: string, offset: number | undefined, listName: string) =>
+    [...logKeys.all, "page", path, offset ?? "tail", listName] as const,
+};
+
+export function useLogFiles() {
+  const query = useQuery({
+    queryKey: logKeys.files(),
+    queryFn: ({ signal }) => api.logs.list({ signal }),
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    files: query.data ?? [],
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+  };
+}
+
+// Without an offset the page follows the tail of the file
+export function useLogPage(
+  path: string | null,
+  offset: number | undefined,
+  listName: string
+) {
+  const query = useQuery({
+    queryKey: logKeys.page(path ?? "", offset, listName),
+    queryFn: ({ signal }) =>
+      api.logs.read(
+        path!,
+        { offset, limit: LOG_PAGE_SIZE, list: listName || undefined },
+        { signal }
+      ),
+    enabled: !!path,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    page: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+    refresh: query.refetch,
+  };
+}
@@ -1,5 +1,16 @@
-import { useCallback } from "react";
-import type { Mod } from "./types";
+import { useCallback, useState } from "react";
+import { api, runJob, settle } from "../lib/apiClient";
+import { useI18n } from "../i18n/I18nContext";
+import type {
+  Mod,
+  DownloadResult,
+  DownloadModResponse,
+  ActivationResult,
+  ForceUpdateResponse,
+  FileConflict,
+  UpdatePolicy,
+  InstallTarget,
+} from "./types";
 
 interface UseModCRUDProps {
   currentList: string;
@@ -14,34 +25,17 @@ interface UseModCRUDProps {
   showModal: (options: any) => void;
   showConfirmation: (options: any) => void;
   updateInstalledStatusOnce?: () => Promise<void>;
+  checkModInstalled?: (modId: number) => Promise<boolean>;
+  startDownloadTracking?: (label: string, operationId?: string) => string;
+  finishDownloadTracking?: () => void;
 }
 
-const apiCall = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<{ success: boolean; data?: T; error?: string }> => {
-  try {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      const data = await response.json();
-      return { success: true, data };
-    } else {
-      const error = await response.json();
-      return { success: false, error: error.error || "Request failed" };
-    }
-  } catch (error) {
-    console.error(`API call failed: ${url}`, error);
-    return { success: false, error: "Network error" };
-  }
-};
-
-interface ModDownloadResponse {
-  success: boolean;
-  message?: string;
-  error?: string;
-  requiresUserChoice?: boolean;
-  TempExtractPath?: string;
-  ModName?: string;
+interface PendingStructureChoice {
+  modId?: number;
+  modName: string;
+  tempExtractPath: string;
+  onComplete: () => void;
+  onSettled?: () => void;
 }
 
 export function useModCRUD({
@@ -57,38 +51,129 @@ export function useModCRUD({
   showModal,
   showConfirmation,
   updateInstalledStatusOnce,
+  startDownloadTracking,
+  finishDownloadTracking,
 }: UseModCRUDProps) {
+  const { t } = useI18n();
+
+  // The archive waiting in the structure dialog; further ones are asked from onSettled
+  const [structureChoice, setStructureChoice] =
+    useState<PendingStructureChoice | null>(null);
+
   const handleModStructureChoice = useCallback(
-    (modName: string, tempExtractPath: string, onComplete: () => void) => {
+    (
+      modId: number | undefined,
+      modName: string,
+      tempExtractPath: string,
+      onComplete: () => void,
+      onSettled?: () => void
+    ) => {
+      setStructureChoice({
+        modId,
+        modName,
+        tempExtractPath,
+        onComplete,
+        onSettled,
+      });
+    },
+    []
+  );
+
+  const confirmFileConflicts = useCallback(
+    (
+      modName: string,
+      conflicts: FileConflict[],
+      onOverwrite: () => void,
+      onSkip?: () => void
+    ) => {
       let choiceMade = false;
 
-      const completeInstallation = async (installAsServerMod: boolean) => {
+      const choose = (overwrite: boolean) => {
         if (choiceMade) return;
         choiceMade = true;
+        if (overwrite) onOverwrite();
+        else onSkip?.();
+      };
+
+      showConfirmation({
+        title: t("mods.conflictTitle"),
+        message: t("mods.conflictMessage", {
+          name: modName,
+          count: conflicts.length,
+        }),
+        details: conflicts.map(
+          (conflict) => `${conflict.path} — ${conflict.ownerModName}`
+        ),
+        cancelText: t("mods.conflictSkip"),
+        confirmText: t("mods.conflictOverwrite"),
+        onConfirm: () => choose(true),
+        onCancel: () => choose(false),
+      });
+    },
+    [showConfirmation, t]
+  );
 
-        const modType = installAsServerMod ? "Server" : "Client";
+  // Installs the archive of the open dialog to the chosen target; null leaves it pending
+  const resolveStructureChoice = useCallback(
+    async (installTarget: InstallTarget | null) => {
+      const choice = structureChoice;
+      if (!choice) return;
+      setStructureChoice(null);
 
+      const { modId, modName, tempExtractPath, onComplete, onSettled } = choice;
+      if (!installTarget) {
+        onSettled?.();
+        return;
+      }
+
+      const modType = installTarget.kind;
+
+      const install = async (overwriteConflicts: boolean) => {
+        // Settled here unless the conflict prompt takes over and retries the install
+        let settled = true;
         try {
-          const result = await apiCall(
-            `/api/mod_list/${encodeURIComponent(
-              currentList
-            )}/complete_installation`,
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                modName,
-                tempExtractPath,
-                installAsServerMod,
-              }),
-            }
+          const result = await settle(
+            api.mods.completeInstallation(currentList, {
+              modId,
+              modName,
+              tempExtractPath,
+              installTarget,
+              overwriteConflicts,
+            })
           );
 
-          if (result.success) {
+          if (result.success && result.data.conflicts?.length) {
+            // Skipping leaves the archive pending, like closing the dialog
+            settled = false;
+            confirmFileConflicts(
+              modName,
+              result.data.conflicts,
+              () => install(true),
+              onSettled
+            );
+          } else if (result.success) {
+            // The backend remembers the answer for the mod's next install, replacing
+            // a saved mapping that matched nothing in this archive
+            setCurrentMods((prev) =>
+              prev.map((mod) =>
+                mod.id === modId &&
+                (!mod.installTarget || mod.installTarget.kind === "mapped")
+                  ? { ...mod, installTarget }
+                  : mod
+              )
+            );
             showModal({
               type: "success",
-              title: "Installazione Completata",
-              message: `Mod installata con successo come ${modType} Mod`,
+              title: t("mods.installCompleteTitle"),
+              message:
+                modType === "server" || modType === "client"
+                  ? t("mods.installComplete", {
+                      type:
+                        modType === "server"
+                          ? t("mods.typeServer")
+                          : t("mods.typeClient"),
+                    })
+                  : t("mods.installCompleteMapped", { name: modName }),
             });
             onComplete();
           } else {
@@ -98,78 +183,92 @@ export function useModCRUD({
             );
             showModal({
               type: "error",
-              title: "Installazione Fallita",
-              message: result.error || "Installazione fallita",
+              title: t("mods.installFailedTitle"),
+              message: result.error.message || t("mods.installFailed"),
             });
           }
         } catch (error) {
           console.error(`💥 Error completing ${modType} installation:`, error);
           showModal({
             type: "error",
-            title: "Installazione Fallita",
-            message: "Errore durante l'installazione",
+            title: t("mods.installFailedTitle"),
+            message: t("mods.installError"),
           });
+        } finally {
+          if (settled) onSettled?.();
         }
       };
 
-      showConfirmation({
-        title: "Scelta Installazione Mod",
-        message: `La mod "${modName}" non ha una struttura standard. Dove vuoi installarla?`,
-        cancelText: "Mod Server (SPT/user/mods)",
-        confirmText: "Mod Client (BepInEx/plugins)",
-        onConfirm: () => completeInstallation(false),
-        onCancel: () => completeInstallation(true),
-      });
+      await install(false);
     },
-    [currentList, showModal, showConfirmation]
+    [
+      structureChoice,
+      currentList,
+      setCurrentMods,
+      showModal,
+      confirmFileConflicts,
+      t,
+    ]
   );
 
-  const handleAddMod = useCallback(
-    async (e: React.FormEvent<HTMLFormElement>) => {
-      e.preventDefault();
-      if (!modUrl.trim() || !currentList) {
-        showModal({
-          type: "warning",
-          title: "URL Vuoto",
-          message: "Inserisci un URL della mod",
-        });
-        return false;
-      }
-
+  const addModToList = useCallback(
+    async (url: string, includeDependencies: boolean) => {
       try {
-        const result = await apiCall<any>(
-          `/api/mod_list/${encodeURIComponent(currentList)}/add_mod`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ url: modUrl }),
-          }
+        const result = await settle(
+          api.mods.add(currentList, url, includeDependencies)
         );
 
-        if (result.success && result.data?.mod) {
+        if (result.success && result.data.mod) {
+          const addedMod = result.data.mod;
+          const addedDependencies = result.data.dependencies || [];
+
           setCurrentMods((prev) => {
-            if (prev.some((mod) => mod.id === result.data.mod.id)) {
+            const newDependencies = addedDependencies.filter(
+              (dep) => !prev.some((mod) => mod.id === dep.id)
+            );
+
+            if (prev.some((mod) => mod.id === addedMod.id)) {
+              if (newDependencies.length === 0) {
+                showModal({
+                  type: "warning",
+                  title: t("mods.alreadyPresentTitle"),
+                  message: t("mods.alreadyPresent", { name: addedMod.name }),
+                });
+                return prev;
+              }
               showModal({
-                type: "warning",
-                title: "Mod Già Presente",
-                message: `La mod "${result.data.mod.name}" è già nella lista`,
+                type: "success",
+                title: t("mods.dependenciesAddedTitle"),
+                message: t("mods.dependenciesAdded", {
+                  count: newDependencies.length,
+                  name: addedMod.name,
+                }),
               });
-              return prev;
+              return [...prev, ...newDependencies];
             }
+
             showModal({
               type: "success",
-              title: "Mod Aggiunta",
-              message: `Mod "${result.data.mod.name}" aggiunta con successo`,
+              title: t("mods.addedTitle"),
+              message:
+                newDependencies.length > 0
+                  ? t("mods.addedWithDependencies", {
+                      name: addedMod.name,
+                      count: newDependencies.length,
+                    })
+                  : t("mods.added", { name: addedMod.name }),
             });
-            return [...prev, result.data.mod];
+            return [...prev, ...newDependencies, addedMod];
           });
           setModUrl("");
           return true;
         } else {
           showModal({
             type: "error",
-            title: "Aggiunta Mod Fallita",
-            message: result.error || "Impossibile aggiungere la mod",
+            title: t("mods.addFailedTitle"),
+            message: result.success
+              ? t("mods.addFailed")
+              : result.error.message,
           });
           return false;
         }
@@ -177,13 +276,86 @@ export function useModCRUD({
         console.error("Add mod failed:", error);
         showModal({
           type: "error",
-          title: "Aggiunta Mod Fallita",
-          message: "Errore durante l'aggiunta della mod",
+          title: t("mods.addFailedTitle"),
+          message: t("mods.addError"),
+        });
+        return false;
+      }
+    },
+    [currentList, showModal, setCurrentMods, setModUrl, t]
+  );
+
+  const handleAddMod = useCallback(
+    async (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+      if (!modUrl.trim() || !currentList) {
+        showModal({
+          type: "warning",
+          title: t("mods.emptyUrlTitle"),
+          message: t("mods.emptyUrl"),
+        });
+        return false;
+      }
+
+      const url = modUrl.trim();
+      const resolution = await settle(
+        api.mods.resolveDependencies(currentList, url)
+      );
+
+      if (!resolution.success) {
+        showModal({
+          type: "error",
+          title: t("mods.addFailedTitle"),
+          message: resolution.error.message,
         });
         return false;
       }
+
+      const { mod, missingDependencies, unresolvableDependencies } =
+        resolution.data;
+      if (
+        missingDependencies.length === 0 &&
+        unresolvableDependencies.length === 0
+      ) {
+        return addModToList(url, false);
+      }
+
+      const includeDependencies = missingDependencies.length > 0;
+      showConfirmation({
+        title: t("mods.missingDependenciesTitle"),
+        message: includeDependencies
+          ? t("mods.missingDependencies", {
+              name: mod.name,
+              count: missingDependencies.length,
+            })
+          : t("mods.unresolvableDependencies", { name: mod.name }),
+        details: [
+          ...missingDependencies.map((dep) =>
+            t("mods.dependencyDetail", {
+              name: dep.mod.name,
+              version: dep.mod.version,
+              requiredBy: dep.requiredBy,
+              constraint: dep.constraint,
+            })
+          ),
+          ...unresolvableDependencies.map((dep) =>
+            t("mods.dependencyUnresolvable", {
+              name: dep.mod.name,
+              requiredBy: dep.requiredBy,
+              constraint: dep.constraint,
+            })
+          ),
+        ],
+        confirmText: includeDependencies
+          ? t("mods.addWithDependencies")
+          : t("mods.addAnyway"),
+        onConfirm: () => {
+          addModToList(url, includeDependencies);
+        },
+      });
+      return false;
     },
-    [modUrl, currentList, showModal, setCurrentMods, setModUrl]
+    [modUrl, currentList, showModal, showConfirmation, addModToList, t]
   );
 
   const handleRemoveMod = useCallback(
@@ -191,8 +363,8 @@ export function useModCRUD({
       if (!currentList) {
         showModal({
           type: "warning",
-          title: "Nessuna Lista Selezionata",
-          message: "Seleziona prima una lista",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return;
       }
@@ -200,48 +372,45 @@ export function useModCRUD({
       const isInstalled = installedMods[id] || false;
 
       showConfirmation({
-        title: "Rimuovi Mod",
-        message: `Rimuovere "${modName}" dalla lista?${
-          isInstalled
-            ? " Puoi anche scegliere di eliminare i file installati."
-            : ""
-        }`,
-        cancelText: "Annulla",
-        confirmText: "Rimuovi dalla Lista",
+        title: t("mods.removeTitle"),
+        message: isInstalled
+          ? t("mods.removeConfirmInstalled", { name: modName })
+          : t("mods.removeConfirm", { name: modName }),
+        confirmText: t("mods.removeFromList"),
         showDeleteOption: isInstalled,
-        deleteOptionText: "Elimina anche i file installati",
         onConfirm: async (deleteFiles?: string | boolean) => {
           const shouldDeleteFiles = Boolean(deleteFiles);
-          const url = `/api/mod_list/${encodeURIComponent(
-            currentList
-          )}/remove_mod/${id}${shouldDeleteFiles ? "?deleteFiles=true" : ""}`;
 
           try {
-            const result = await apiCall(url, { method: "DELETE" });
+            const result = await settle(
+              api.mods.remove(currentList, id, shouldDeleteFiles)
+            );
 
             if (result.success) {
               removeModInstallStatus(id);
               setCurrentMods((prev) => prev.filter((mod) => mod.id !== id));
               showModal({
                 type: "success",
-                title: "Mod Rimossa",
-                message: `Mod "${modName}" rimossa con successo${
-                  shouldDeleteFiles ? " e file eliminati" : ""
-                }`,
+                title: t("mods.removedTitle"),
+                message: shouldDeleteFiles
+                  ? t("mods.removedWithFiles", { name: modName })
+                  : t("mods.removed", { name: modName }),
               });
             } else {
               showModal({
                 type: "error",
-                title: "Rimozione Fallita",
-                message: result.error || `Impossibile rimuovere "${modName}"`,
+                title: t("mods.removeFailedTitle"),
+                message:
+                  result.error.message ||
+                  t("mods.removeFailed", { name: modName }),
               });
             }
           } catch (error) {
             console.error("Remove mod failed:", error);
             showModal({
               type: "error",
-              title: "Rimozione Fallita",
-              message: `Errore durante la rimozione di "${modName}"`,
+              title: t("mods.removeFailedTitle"),
+              message: t("mods.removeError", { name: modName }),
             });
           }
         },
@@ -254,33 +423,56 @@ export function useModCRUD({
       showModal,
       showConfirmation,
       setCurrentMods,
+      t,
     ]
   );
 
   const handleDownloadMod = useCallback(
-    async (modId: number, modName: string) => {
+    async (
+      modId: number,
+      modName: string,
+      overwriteConflicts = false
+    ): Promise<boolean> => {
       if (!currentList) {
         showModal({
           type: "warning",
-          title: "Nessuna Lista Selezionata",
-          message: "Seleziona prima una lista",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return false;
       }
 
       try {
-        const result = await apiCall<any>(
-          `/api/mod_list/${encodeURIComponent(
-            currentList
-          )}/download_mod/${modId}`,
-          { method: "POST" }
+        // Runs as a server-side job so the download survives a closed tab;
+        // the job ID is also the download operation tracked for progress
+        const result = await settle(
+          runJob<DownloadModResponse>(
+            {
+              type: "download_mod",
+              listName: currentList,
+              modId,
+              overwriteConflicts,
+            },
+            { onQueued: (job) => startDownloadTracking?.(modName, job.id) }
+          )
         );
 
-        if (
-          result.data?.requiresUserChoice === true &&
+        if (result.success && result.data.conflicts?.length) {
+          confirmFileConflicts(
+            result.data.modName || modName,
+            result.data.conflicts,
+            () => {
+              handleDownloadMod(modId, modName, true);
+            }
+          );
+          return false;
+        } else if (
+          result.success &&
+          result.data.requiresUserChoice === true &&
           result.data.tempExtractPath
         ) {
           handleModStructureChoice(
+            modId,
             result.data.modName || modName,
             result.data.tempExtractPath,
             () => {
@@ -293,7 +485,7 @@ export function useModCRUD({
             }
           );
           return false;
-        } else if (result.success && result.data?.success !== false) {
+        } else if (result.success && result.data.success !== false) {
           setModInstalled(modId, true);
           if (updateInstalledStatusOnce) {
             setTimeout(() => {
@@ -302,17 +494,21 @@ export function useModCRUD({
           }
           showModal({
             type: "success",
-            title: "Download Completato",
+            title: t("mods.downloadCompleteTitle"),
             message:
-              result.data?.message || `Mod "${modName}" scaricata con successo`,
+              result.data.message ||
+              t("mods.downloadComplete", { name: modName }),
           });
           return true;
         } else {
-          console.error("❌ Download failed:", result.error);
+          const message = result.success
+            ? result.data.message
+            : result.error.message;
+          console.error("❌ Download failed:", message);
           showModal({
             type: "error",
-            title: "Download Fallito",
-            message: result.error || `Impossibile scaricare "${modName}"`,
+            title: t("mods.downloadFailedTitle"),
+            message: message || t("mods.downloadFailed", { name: modName }),
           });
           return false;
         }
@@ -320,10 +516,12 @@ export function useModCRUD({
         console.error("💥 Download failed with exception:", error);
         showModal({
           type: "error",
-          title: "Download Fallito",
-          message: `Errore durante il download di "${modName}"`,
+          title: t("mods.downloadFailedTitle"),
+          message: t("mods.downloadError", { name: modName }),
         });
         return false;
+      } finally {
+        finishDownloadTracking?.();
       }
     },
     [
@@ -332,81 +530,401 @@ export function useModCRUD({
       showModal,
       updateInstalledStatusOnce,
       handleModStructureChoice,
+      confirmFileConflicts,
+      startDownloadTracking,
+      finishDownloadTracking,
+      t,
     ]
   );
 
-  const handleUpdateAndDownload = useCallback(
-    async (modId: number, modName: string) => {
-      if (!currentList) {
+  const resolvePendingChoices = useCallback(
+    (pending: DownloadResult[], onDone?: () => void) => {
+      const [next, ...rest] = pending;
+      if (!next || !next.tempExtractPath) return;
+
+      handleModStructureChoice(
+        next.modId,
+        next.modName || "",
+        next.tempExtractPath,
+        () => {
+          if (next.modId !== undefined) setModInstalled(next.modId, true);
+        },
+        () => {
+          if (rest.length > 0) {
+            resolvePendingChoices(rest, onDone);
+            return;
+          }
+          if (updateInstalledStatusOnce) {
+            setTimeout(() => {
+              updateInstalledStatusOnce();
+            }, 500);
+          }
+          onDone?.();
+        }
+      );
+    },
+    [handleModStructureChoice, setModInstalled, updateInstalledStatusOnce]
+  );
+
+  const resolveConflictedDownloads = useCallback(
+    (conflicted: DownloadResult[]) => {
+      const [next, ...rest] = conflicted;
+      if (!next || next.modId === undefined || !next.conflicts) return;
+
+      const modId = next.modId;
+      const modName = next.modName || String(modId);
+
+      confirmFileConflicts(
+        modName,
+        next.conflicts,
+        async () => {
+          await handleDownloadMod(modId, modName, true);
+          resolveConflictedDownloads(rest);
+        },
+        () => resolveConflictedDownloads(rest)
+      );
+    },
+    [confirmFileConflicts, handleDownloadMod]
+  );
+
+  // Summarizes a batch of downloads and walks the user through the ones waiting for a choice
+  const reportBatchResults = useCallback(
+    (
+      results: DownloadResult[],
+      {
+        extraSummary,
+        isUpdate = false,
+      }: { extraSummary?: string; isUpdate?: boolean } = {}
+    ) => {
+      const pending = results.filter(
+        (r) => r.requiresUserChoice && r.tempExtractPath
+      );
+      const conflicted = results.filter((r) => r.conflicts?.length);
+      const cancelled = results.filter(
+        (r) => !r.success && r.message === "Cancelled"
+      );
+      const failed = results.filter(
+        (r) => !r.success && r.message !== "Cancelled" && !r.conflicts?.length
+      );
+      const installed =
+        results.length -
+        pending.length -
+        conflicted.length -
+        cancelled.length -
+        failed.length;
+
+      results.forEach((r) => {
+        if (r.success && !r.requiresUserChoice && r.modId !== undefined) {
+          setModInstalled(r.modId, true);
+        }
+      });
+
+      const summary = [
+        extraSummary,
+        isUpdate
+          ? t("mods.summaryUpdated", { count: installed })
+          : t("mods.summaryInstalled", { count: installed }),
+        pending.length > 0 &&
+          t("mods.summaryPending", { count: pending.length }),
+        conflicted.length > 0 &&
+          t("mods.summaryConflicts", { count: conflicted.length }),
+        failed.length > 0 &&
+          t("mods.summaryFailed", {
+            count: failed.length,
+            mods: failed.map((r) => r.modName || r.modId).join(", "),
+          }),
+        cancelled.length > 0 &&
+          t("mods.summaryCancelled", { count: cancelled.length }),
+      ]
+        .filter(Boolean)
+        .join(" · ");
+
+      showModal({
+        type:
+          failed.length > 0
+            ? "error"
+            : cancelled.length > 0
+            ? "warning"
+            : "success",
+        title: isUpdate
+          ? cancelled.length > 0
+            ? t("mods.updateAllCancelledTitle")
+            : t("mods.updateAllCompleteTitle")
+          : cancelled.length > 0
+          ? t("mods.downloadCancelledTitle")
+          : t("mods.downloadCompleteTitle"),
+        message: summary,
+      });
+
+      if (pending.length > 0) {
+        resolvePendingChoices(pending, () =>
+          resolveConflictedDownloads(conflicted)
+        );
+      } else if (conflicted.length > 0) {
+        resolveConflictedDownloads(conflicted);
+      } else if (updateInstalledStatusOnce) {
+        setTimeout(() => {
+          updateInstalledStatusOnce();
+        }, 500);
+      }
+
+      return failed.length === 0 && cancelled.length === 0;
+    },
+    [
+      showModal,
+      setModInstalled,
+      updateInstalledStatusOnce,
+      resolvePendingChoices,
+      resolveConflictedDownloads,
+      t,
+    ]
+  );
+
+  const runDownloadAll = useCallback(async () => {
+    try {
+      const result = await settle(
+        runJob<DownloadResult[]>(
+          { type: "download_all", listName: currentList },
+          { onQueued: (job) => startDownloadTracking?.(currentList, job.id) }
+        )
+      );
+
+      if (!result.success) {
         showModal({
-          type: "warning",
-          title: "Nessuna Lista Selezionata",
-          message: "Seleziona prima una lista",
+          type: "error",
+          title: t("mods.downloadFailedTitle"),
+          message:
+            result.error.message ||
+            t("mods.downloadAllFailed", { list: currentList }),
         });
-        return;
+        return false;
       }
 
-      showConfirmation({
-        title: "Aggiorna Mod Forzatamente",
-        message: `Aggiornare forzatamente "${modName}"? La versione esistente verrà sovrascritta.`,
-        confirmText: "Aggiorna",
-        onConfirm: async () => {
-          try {
-            const result = await apiCall<ModDownloadResponse>(
-              `/api/mod_list/${encodeURIComponent(
-                currentList
-              )}/force_update/${modId}`,
-              { method: "POST" }
-            );
+      return reportBatchResults(result.data);
+    } catch (error) {
+      console.error("💥 Download all failed with exception:", error);
+      showModal({
+        type: "error",
+        title: t("mods.downloadFailedTitle"),
+        message: t("mods.downloadAllError", { list: currentList }),
+      });
+      return false;
+    } finally {
+      finishDownloadTracking?.();
+    }
+  }, [
+    currentList,
+    showModal,
+    reportBatchResults,
+    startDownloadTracking,
+    finishDownloadTracking,
+    t,
+  ]);
+
+  // One job for all the picked mods; structure choices and conflicts are resolved afterwards, as for download all
+  const handleUpdateMods = useCallback(
+    async (modIds: number[]) => {
+      if (!currentList || modIds.length === 0) return false;
+
+      try {
+        const result = await settle(
+          runJob<DownloadResult[]>(
+            { type: "update_mods", listName: currentList, modIds },
+            { onQueued: (job) => startDownloadTracking?.(currentList, job.id) }
+          )
+        );
+
+        if (!result.success) {
+          showModal({
+            type: "error",
+            title: t("mods.updateFailedTitle"),
+            message:
+              result.error.message ||
+              t("mods.updateAllFailed", { list: currentList }),
+          });
+          return false;
+        }
 
-            if (
-              result.success ||
-              (result.data?.requiresUserChoice && result.data.TempExtractPath)
-            ) {
-              if (
-                result.data?.requiresUserChoice &&
-                result.data.TempExtractPath
-              ) {
-                handleModStructureChoice(
-                  modName,
-                  result.data.TempExtractPath,
-                  async () => {
-                    setModInstalled(modId, true);
-                    if (updateInstalledStatusOnce) {
-                      await updateInstalledStatusOnce();
-                    }
-                    await loadModsOfList(currentList);
-                  }
-                );
-              } else {
+        return reportBatchResults(result.data, { isUpdate: true });
+      } catch (error) {
+        console.error("Update all failed:", error);
+        showModal({
+          type: "error",
+          title: t("mods.updateFailedTitle"),
+          message: t("mods.updateAllFailed", { list: currentList }),
+        });
+        return false;
+      } finally {
+        finishDownloadTracking?.();
+        await loadModsOfList(currentList);
+      }
+    },
+    [
+      currentList,
+      showModal,
+      reportBatchResults,
+      loadModsOfList,
+      startDownloadTracking,
+      finishDownloadTracking,
+      t,
+    ]
+  );
+
+  // Applies the plan the user reviewed; the job fails if it changed since
+  const handleActivateList = useCallback(
+    async (planHash: string) => {
+      if (!currentList) return false;
+
+      try {
+        const result = await settle(
+          runJob<ActivationResult>(
+            { type: "activate_list", listName: currentList, planHash },
+            { onQueued: (job) => startDownloadTracking?.(currentList, job.id) }
+          )
+        );
+
+        if (!result.success) {
+          showModal({
+            type: "error",
+            title: t("activation.failedTitle"),
+            message:
+              result.error.message ||
+              t("activation.failed", { list: currentList }),
+          });
+          return false;
+        }
+
+        const removed = result.data.removed.length;
+        return reportBatchResults(result.data.results, {
+          extraSummary:
+            removed > 0
+              ? t("activation.removed", { count: removed })
+              : undefined,
+        });
+      } catch (error) {
+        console.error("Activate list failed:", error);
+        showModal({
+          type: "error",
+          title: t("activation.failedTitle"),
+          message: t("activation.failed", { list: currentList }),
+        });
+        return false;
+      } finally {
+        finishDownloadTracking?.();
+      }
+    },
+    [
+      currentList,
+      showModal,
+      reportBatchResults,
+      startDownloadTracking,
+      finishDownloadTracking,
+      t,
+    ]
+  );
+
+  const handleDownloadAll = useCallback(() => {
+    if (!currentList) {
+      showModal({
+        type: "warning",
+        title: t("common.noListSelected"),
+        message: t("common.selectListFirst"),
+      });
+      return;
+    }
+
+    if (currentMods.length === 0) {
+      showModal({
+        type: "warning",
+        title: t("mods.emptyListTitle"),
+        message: t("mods.emptyList"),
+      });
+      return;
+    }
+
+    showConfirmation({
+      title: t("mods.downloadAllTitle"),
+      message: t("mods.downloadAllConfirm", {
+        count: currentMods.length,
+        list: currentList,
+      }),
+      confirmText: t("modList.downloadAll"),
+      onConfirm: () => {
+        runDownloadAll();
+      },
+    });
+  }, [
+    currentList,
+    currentMods,
+    showModal,
+    showConfirmation,
+    runDownloadAll,
+    t,
+  ]);
+
+  const runForceUpdate = useCallback(
+    async (modId: number, modName: string, overwriteConflicts = false) => {
+      if (!currentList) return;
+
+      try {
+        const result = await settle(
+          runJob<ForceUpdateResponse>({
+            type: "force_update",
+            listName: currentList,
+            modId,
+            overwriteConflicts,
+          })
+        );
+
+        if (result.success) {
+          if (result.data.conflicts?.length) {
+            confirmFileConflicts(modName, result.data.conflicts, () =>
+              runForceUpdate(modId, modName, true)
+            );
+          } else if (
+            result.data.requiresUserChoice &&
+            result.data.tempExtractPath
+          ) {
+            handleModStructureChoice(
+              modId,
+              modName,
+              result.data.tempExtractPath,
+              async () => {
                 setModInstalled(modId, true);
                 if (updateInstalledStatusOnce) {
                   await updateInstalledStatusOnce();
                 }
                 await loadModsOfList(currentList);
-                showModal({
-                  type: "success",
-                  title: "Aggiornamento Completato",
-                  message: `Mod "${modName}" aggiornata con successo`,
-                });
               }
-            } else {
-              showModal({
-                type: "error",
-                title: "Aggiornamento Fallita",
-                message: result.error || `Impossibile aggiornare "${modName}"`,
-              });
+            );
+          } else {
+            setModInstalled(modId, true);
+            if (updateInstalledStatusOnce) {
+              await updateInstalledStatusOnce();
             }
-          } catch (error) {
-            console.error("Update failed:", error);
+            await loadModsOfList(currentList);
             showModal({
-              type: "error",
-              title: "Aggiornamento Fallita",
-              message: `Errore durante l'aggiornamento di "${modName}"`,
+              type: "success",
+              title: t("mods.updatedTitle"),
+              message: t("mods.updated", { name: modName }),
             });
           }
-        },
-      });
+        } else {
+          showModal({
+            type: "error",
+            title: t("mods.updateFailedTitle"),
+            message:
+              result.error.message || t("mods.updateFailed", { name: modName }),
+          });
+        }
+      } catch (error) {
+        console.error("Update failed:", error);
+        showModal({
+          type: "error",
+          title: t("mods.updateFailedTitle"),
+          message: t("mods.updateError", { name: modName }),
+        });
+      }
     },
     [
       currentList,
@@ -414,15 +932,203 @@ export function useModCRUD({
       loadModsOfList,
       updateInstalledStatusOnce,
       showModal,
-      showConfirmation,
       handleModStructureChoice,
+      confirmFileConflicts,
+      t,
     ]
   );
 
+  const handleUpdateAndDownload = useCallback(
+    (modId: number, modName: string) => {
+      if (!currentList) {
+        showModal({
+          type: "warning",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
+        });
+        return;
+      }
+
+      // ModItem's review dialog, with the changelog, is the confirmation
+      runForceUpdate(modId, modName);
+    },
+    [currentList, showModal, runForceUpdate, t]
+  );
+
+  const handlePinModVersion = useCallback(
+    async (modId: number, modName: string, version: string | null) => {
+      if (!currentList) return;
+
+      const result = await settle(
+        api.mods.pinVersion(currentList, modId, version)
+      );
+
+      if (!result.success) {
+        showModal({
+          type: "error",
+          title: t("mods.pinFailedTitle"),
+          message: result.error.message,
+        });
+        return;
+      }
+
+      const pinned = result.data.mod;
+      setCurrentMods((prev) =>
+        prev.map((mod) => (mod.id === modId ? { ...mod, ...pinned } : mod))
+      );
+
+      // An installed mod still has the old release on disk until it is reinstalled
+      if (version && installedMods[modId]) {
+        showConfirmation({
+          title: t("mods.pinInstallTitle"),
+          message: t("mods.pinInstallConfirm", { name: modName, version }),
+          confirmText: t("mods.pinInstall", { version }),
+          onConfirm: () => runForceUpdate(modId, modName),
+        });
+        return;
+      }
+
+      showModal({
+        type: "success",
+        title: version ? t("mods.pinnedTitle") : t("mods.unpinnedTitle"),
+        message: version
+          ? t("mods.pinned", { name: modName, version })
+          : t("mods.unpinned", { name: modName }),
+        duration: 2000,
+      });
+    },
+    [
+      currentList,
+      installedMods,
+      setCurrentMods,
+      showModal,
+      showConfirmation,
+      runForceUpdate,
+      t,
+    ]
+  );
+
+  const handleSetModUpdatePolicy = useCallback(
+    async (modId: number, modName: string, policy: UpdatePolicy | null) => {
+      if (!currentList) return;
+
+      const result = await settle(
+        api.mods.setUpdatePolicy(currentList, modId, policy)
+      );
+
+      if (!result.success) {
+        showModal({
+          type: "error",
+          title: t("mods.updatePolicyFailedTitle"),
+          message: result.error.message,
+        });
+        return;
+      }
+
+      const updated = result.data.mod;
+      setCurrentMods((prev) =>
+        prev.map((mod) => (mod.id === modId ? { ...mod, ...updated } : mod))
+      );
+
+      showModal({
+        type: "success",
+        title: t("mods.updatePolicySetTitle"),
+        message: policy
+          ? t("mods.updatePolicySet", {
+              name: modName,
+              policy: t(`updatePolicy.policy.${policy}`),
+            })
+          : t("mods.updatePolicyInherited", { name: modName }),
+        duration: 2000,
+      });
+    },
+    [currentList, setCurrentMods, showModal, t]
+  );
+
+  const handleSetModInstallTarget = useCallback(
+    async (modId: number, modName: string, target: InstallTarget | null) => {
+      if (!currentList) return;
+
+      const result = await settle(
+        api.mods.setInstallTarget(currentList, modId, target)
+      );
+
+      if (!result.success) {
+        showModal({
+          type: "error",
+          title: t("mods.installTargetFailedTitle"),
+          message: result.error.message,
+        });
+        return;
+      }
+
+      const updated = result.data.mod;
+      setCurrentMods((prev) =>
+        prev.map((mod) => (mod.id === modId ? { ...mod, ...updated } : mod))
+      );
+
+      showModal({
+        type: "success",
+        title: t("mods.installTargetSetTitle"),
+        message: target
+          ? t("mods.installTargetSet", {
+              name: modName,
+              target:
+                target.kind === "custom"
+                  ? target.path ?? ""
+                  : t(`installTarget.kind.${target.kind}`),
+            })
+          : t("mods.installTargetCleared", { name: modName }),
+        duration: 2000,
+      });
+    },
+    [currentList, setCurrentMods, showModal, t]
+  );
+
+  const handleToggleModEnabled = useCallback(
+    async (id: number, modName: string, enabled: boolean) => {
+      if (!currentList) return;
+
+      const result = await settle(
+        api.mods.setEnabled(currentList, id, enabled)
+      );
+
+      if (result.success) {
+        setCurrentMods((prev) =>
+          prev.map((mod) => (mod.id === id ? { ...mod, enabled } : mod))
+        );
+        showModal({
+          type: "success",
+          title: enabled ? t("mods.enabledTitle") : t("mods.disabledTitle"),
+          message: enabled
+            ? t("mods.enabled", { name: modName })
+            : t("mods.disabled", { name: modName }),
+          duration: 2000,
+        });
+      } else {
+        showModal({
+          type: "error",
+          title: t("mods.toggleFailedTitle"),
+          message: result.error.message,
+        });
+      }
+    },
+    [currentList, setCurrentMods, showModal, t]
+  );
+
   return {
     addMod: handleAddMod,
     downloadMod: handleDownloadMod,
+    downloadAllMods: handleDownloadAll,
+    activateList: handleActivateList,
+    updateMods: handleUpdateMods,
     handleUpdateAndDownload,
     removeMod: handleRemoveMod,
+    toggleModEnabled: handleToggleModEnabled,
+    pinModVersion: handlePinModVersion,
+    setModUpdatePolicy: handleSetModUpdatePolicy,
+    setModInstallTarget: handleSetModInstallTarget,
+    structureChoice,
+    resolveStructureChoice,
   };
 }
@@ -1,6 +1,8 @@
 import { useCallback } from "react";
 import { NavigateFunction } from "react-router-dom";
+import { api, settle } from "../lib/apiClient";
 import type { Mod, SptVersion } from "./types";
+import { useI18n } from "../i18n/I18nContext";
 
 interface UseModListOperationsProps {
   navigate: NavigateFunction;
@@ -17,25 +19,6 @@ interface UseModListOperationsProps {
   showConfirmation: (options: any) => void;
 }
 
-const apiCall = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<{ success: boolean; data?: T; error?: string }> => {
-  try {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      const data = await response.json();
-      return { success: true, data };
-    } else {
-      const error = await response.json();
-      return { success: false, error: error.error || "Request failed" };
-    }
-  } catch (error) {
-    console.error(`API call failed: ${url}`, error);
-    return { success: false, error: "Network error" };
-  }
-};
-
 export function useModListOperations({
   navigate,
   modLists,
@@ -50,6 +33,8 @@ export function useModListOperations({
   showModal,
   showConfirmation,
 }: UseModListOperationsProps) {
+  const { t } = useI18n();
+
   const handleListChange = useCallback(
     (newListName: string) => {
       if (!newListName) {
@@ -87,12 +72,11 @@ export function useModListOperations({
       if (!listNameStr) {
         return new Promise<boolean>((resolve) => {
           showConfirmation({
-            title: "Create New List",
-            message: "Enter the name for the new list:",
+            title: t("lists.createTitle"),
+            message: t("lists.createPrompt"),
             showInput: true,
-            inputPlaceholder: "List name",
-            confirmText: "Create",
-            cancelText: "Cancel",
+            inputPlaceholder: t("lists.namePlaceholder"),
+            confirmText: t("lists.create"),
             onConfirm: (inputValue: string | boolean | undefined) => {
               const name = typeof inputValue === "string" ? inputValue : "";
               if (name?.trim()) {
@@ -119,17 +103,13 @@ export function useModListOperations({
       if (exists) {
         showModal({
           type: "error",
-          title: "Name Exists",
-          message: "A list with this name already exists",
+          title: t("lists.nameExistsTitle"),
+          message: t("lists.nameExists"),
         });
         return false;
       }
 
-      const result = await apiCall("/api/mod_list", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: listNameStr }),
-      });
+      const result = await settle(api.lists.create(listNameStr));
 
       if (result.success) {
         await refetchModLists?.();
@@ -137,20 +117,27 @@ export function useModListOperations({
 
         showModal({
           type: "success",
-          title: "List Created",
-          message: `List "${listNameStr}" created successfully`,
+          title: t("lists.createdTitle"),
+          message: t("lists.created", { name: listNameStr }),
         });
         return true;
       } else {
         showModal({
           type: "error",
-          title: "Create Failed",
-          message: result.error || "Failed to create list",
+          title: t("lists.createFailed"),
+          message: result.error.message,
         });
         return false;
       }
     },
-    [modLists, handleListChange, showModal, showConfirmation, refetchModLists]
+    [
+      modLists,
+      handleListChange,
+      showModal,
+      showConfirmation,
+      refetchModLists,
+      t,
+    ]
   );
 
   const renameList = useCallback(
@@ -158,8 +145,8 @@ export function useModListOperations({
       if (!currentList) {
         showModal({
           type: "warning",
-          title: "No List Selected",
-          message: "Please select a list first",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return false;
       }
@@ -168,13 +155,12 @@ export function useModListOperations({
       if (!listNameStr) {
         listNameStr = await new Promise<string>((resolve) => {
           showConfirmation({
-            title: "Rename List",
-            message: "Enter the new name for the list:",
+            title: t("lists.renameTitle"),
+            message: t("lists.renamePrompt"),
             showInput: true,
-            inputPlaceholder: "New list name",
+            inputPlaceholder: t("lists.newNamePlaceholder"),
             inputDefaultValue: currentList,
-            confirmText: "Rename",
-            cancelText: "Cancel",
+            confirmText: t("lists.rename"),
             onConfirm: (inputValue: string | undefined) => {
               resolve(inputValue || "");
             },
@@ -197,17 +183,13 @@ export function useModListOperations({
       if (exists) {
         showModal({
           type: "error",
-          title: "Name Exists",
-          message: "A list with this name already exists",
+          title: t("lists.nameExistsTitle"),
+          message: t("lists.nameExists"),
         });
         return false;
       }
 
-      const result = await apiCall("/api/mod_list/rename", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ oldName: currentList, newName: listNameStr }),
-      });
+      const result = await settle(api.lists.rename(currentList, listNameStr));
 
       if (result.success) {
         await refetchModLists?.();
@@ -215,15 +197,15 @@ export function useModListOperations({
 
         showModal({
           type: "success",
-          title: "List Renamed",
-          message: `List renamed to "${listNameStr}" successfully`,
+          title: t("lists.renamedTitle"),
+          message: t("lists.renamed", { name: listNameStr }),
         });
         return true;
       } else {
         showModal({
           type: "error",
-          title: "Rename Failed",
-          message: result.error || "Failed to rename list",
+          title: t("lists.renameFailed"),
+          message: result.error.message,
         });
         return false;
       }
@@ -235,6 +217,7 @@ export function useModListOperations({
       showModal,
       showConfirmation,
       refetchModLists,
+      t,
     ]
   );
 
@@ -242,23 +225,18 @@ export function useModListOperations({
     if (!currentList) {
       showModal({
         type: "warning",
-        title: "No List Selected",
-        message: "Please select a list first",
+        title: t("common.noListSelected"),
+        message: t("common.selectListFirst"),
       });
       return;
     }
 
     showConfirmation({
-      title: "Delete List",
-      message: `Are you sure you want to delete "${currentList}"?`,
-      confirmText: "Delete",
+      title: t("lists.deleteTitle"),
+      message: t("lists.deleteConfirm", { name: currentList }),
+      confirmText: t("common.delete"),
       onConfirm: async () => {
-        const result = await apiCall(
-          `/api/mod_list/${encodeURIComponent(currentList)}`,
-          {
-            method: "DELETE",
-          }
-        );
+        const result = await settle(api.lists.remove(currentList));
 
         if (result.success) {
           await refetchModLists?.();
@@ -274,14 +252,14 @@ export function useModListOperations({
 
           showModal({
             type: "success",
-            title: "List Deleted",
-            message: `List "${currentList}" deleted successfully`,
+            title: t("lists.deletedTitle"),
+            message: t("lists.deleted", { name: currentList }),
           });
         } else {
           showModal({
             type: "error",
-            title: "Delete Failed",
-            message: result.error || "Failed to delete list",
+            title: t("lists.deleteFailed"),
+            message: result.error.message,
           });
         }
       },
@@ -296,29 +274,25 @@ export function useModListOperations({
     refetchModLists,
     setCurrentMods,
     setCurrentList,
+    t,
   ]);
 
   const downloadList = useCallback(async (): Promise<void> => {
     if (!currentList) {
       showModal({
         type: "warning",
-        title: "No List Selected",
-        message: "Please select a list first",
+        title: t("common.noListSelected"),
+        message: t("common.selectListFirst"),
       });
       return;
     }
 
     try {
-      const [modsRes, sptRes] = await Promise.all([
-        fetch(`/api/mod_list/${encodeURIComponent(currentList)}`),
-        fetch(`/api/mod_list/${encodeURIComponent(currentList)}/spt_version`),
+      const [modsData, sptData] = await Promise.all([
+        api.lists.mods(currentList),
+        api.lists.getSptVersion(currentList),
       ]);
 
-      if (!modsRes.ok || !sptRes.ok) throw new Error("Error loading list data");
-
-      const modsData = await modsRes.json();
-      const sptData = await sptRes.json();
-
       const listData = {
         listName: currentList,
         exportedAt: new Date().toISOString(),
@@ -340,17 +314,17 @@ export function useModListOperations({
 
       showModal({
         type: "success",
-        title: "List Exported",
-        message: `List "${currentList}" exported successfully`,
+        title: t("lists.exportedTitle"),
+        message: t("lists.exported", { name: currentList }),
       });
     } catch (e) {
       showModal({
         type: "error",
-        title: "Export Failed",
-        message: "Error exporting list: " + (e as Error).message,
+        title: t("lists.exportFailed"),
+        message: t("lists.exportError", { error: (e as Error).message }),
       });
     }
-  }, [currentList, showModal]);
+  }, [currentList, showModal, t]);
 
   const importList = useCallback(async (): Promise<void> => {
     try {
@@ -371,43 +345,37 @@ export function useModListOperations({
             listData.selectedSptVersion || listData.SelectedSptVersion;
 
           if (!listName || !Array.isArray(mods)) {
-            throw new Error("Invalid file format");
+            throw new Error(t("lists.invalidFile"));
           }
 
           showConfirmation({
-            title: "Import List",
-            message: `Import list "${listName}" with ${mods.length} mods${
-              importedSptVersion ? ` for SPT ${importedSptVersion}` : ""
-            }?`,
-            confirmText: "Import",
+            title: t("lists.importTitle"),
+            message: importedSptVersion
+              ? t("lists.importConfirmWithSpt", {
+                  name: listName,
+                  count: mods.length,
+                  sptVersion: importedSptVersion,
+                })
+              : t("lists.importConfirm", {
+                  name: listName,
+                  count: mods.length,
+                }),
+            confirmText: t("lists.import"),
             onConfirm: async () => {
-              await apiCall("/api/mod_list", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ name: listName }),
-              });
+              await settle(api.lists.create(listName));
 
               if (importedSptVersion) {
-                await apiCall(
-                  `/api/mod_list/${encodeURIComponent(listName)}/spt_version`,
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ sptVersion: importedSptVersion }),
-                  }
+                await settle(
+                  api.lists.setSptVersion(listName, importedSptVersion)
                 );
               }
 
               for (const mod of mods) {
-                await apiCall(
-                  `/api/mod_list/${encodeURIComponent(listName)}/add_mod`,
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      url: mod.detailUrl || mod.url || mod.DetailUrl,
-                    }),
-                  }
+                await settle(
+                  api.mods.add(
+                    listName,
+                    mod.detailUrl || mod.url || mod.DetailUrl
+                  )
                 );
               }
 
@@ -421,10 +389,8 @@ export function useModListOperations({
 
               showModal({
                 type: "success",
-                title: "Import Successful",
-                message: `List "${listName}" imported successfully${
-                  importedSptVersion ? ` for SPT ${importedSptVersion}` : ""
-                }!`,
+                title: t("lists.importedTitle"),
+                message: t("lists.imported", { name: listName }),
               });
             },
           });
@@ -432,8 +398,10 @@ export function useModListOperations({
           if ((error as Error).message !== "File selection cancelled") {
             showModal({
               type: "error",
-              title: "Import Failed",
-              message: "Import error: " + (error as Error).message,
+              title: t("lists.importFailed"),
+              message: t("lists.importError", {
+                error: (error as Error).message,
+              }),
             });
           }
         }
@@ -449,6 +417,7 @@ export function useModListOperations({
     showConfirmation,
     refetchModLists,
     setSelectedSptVersion,
+    t,
   ]);
 
   return {
@@ -4,6 +4,7 @@ import { useListManagement } from "./useListManagement";
 import { useModCRUD } from "./useModCRUD";
 import { useInstallStatus } from "./useInstallStatus";
 import { useSPTFikaManagement } from "./useSPTFikaManagement";
+import { useDownloadProgress } from "./useDownloadProgress";
 import type { UseModManagerProps } from "./types";
 
 export function useModManager(props: UseModManagerProps) {
@@ -18,6 +19,7 @@ export function useModManager(props: UseModManagerProps) {
   });
 
   const installStatus = useInstallStatus(state.currentList, state.currentMods);
+  const downloadProgress = useDownloadProgress();
 
   const modCRUD = useModCRUD({
     ...props,
@@ -28,6 +30,8 @@ export function useModManager(props: UseModManagerProps) {
     removeModInstallStatus: installStatus.removeModInstallStatus,
     updateInstalledStatusOnce: installStatus.updateInstalledStatusOnce,
     checkModInstalled: installStatus.checkModInstalled,
+    startDownloadTracking: downloadProgress.startDownloadTracking,
+    finishDownloadTracking: downloadProgress.finishDownloadTracking,
   });
 
   const sptFikaManagement = useSPTFikaManagement();
@@ -49,8 +53,10 @@ export function useModManager(props: UseModManagerProps) {
 
     handleListChange: listManagement.handleListChange,
     handleSptVersionChange: state.handleSptVersionChange,
+    reloadCurrentList: () => state.loadModsOfList(state.currentList),
     addList: listManagement.addList,
     renameList: listManagement.renameList,
+    duplicateList: listManagement.duplicateList,
     deleteList: listManagement.deleteList,
     downloadList: listManagement.downloadList,
     importList: listManagement.importList,
@@ -59,11 +65,22 @@ export function useModManager(props: UseModManagerProps) {
     downloadMod: modCRUD.downloadMod,
     handleUpdateAndDownload: modCRUD.handleUpdateAndDownload,
     removeMod: modCRUD.removeMod,
+    toggleModEnabled: modCRUD.toggleModEnabled,
+    pinModVersion: modCRUD.pinModVersion,
+    setModUpdatePolicy: modCRUD.setModUpdatePolicy,
+    setModInstallTarget: modCRUD.setModInstallTarget,
+    structureChoice: modCRUD.structureChoice,
+    resolveStructureChoice: modCRUD.resolveStructureChoice,
 
     updateInstalledStatusOnce: installStatus.updateInstalledStatusOnce,
     setModInstalled: installStatus.setModInstalled,
 
-    downloadAllMods: async () => false,
+    downloadAllMods: modCRUD.downloadAllMods,
+    activateList: modCRUD.activateList,
+    updateMods: modCRUD.updateMods,
+    downloadProgress: downloadProgress.downloadProgress,
+    cancelDownloads: downloadProgress.cancelDownloads,
+    dismissDownloadProgress: downloadProgress.dismissDownloadProgress,
     checkAllModUpdates: async () => {},
     checkSingleModUpdate: async () => null,
     isCheckingSptUpdate: false,
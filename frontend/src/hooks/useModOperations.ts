@@ -1,37 +1,18 @@
 import { useCallback } from "react";
 import { useModal } from "../components/ModalContext";
 import { useModUpdates } from "./useModUpdates";
-import { Mod, ApiResponse, DownloadResult, ModOperationResult } from "./types";
+import { api, settle } from "../lib/apiClient";
+import { Mod } from "./types";
+import { useI18n } from "../i18n/I18nContext";
 
 export function useModOperations(
   currentList: string,
   installedMods: Record<number, boolean>
 ) {
   const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
   const { refreshModUpdates } = useModUpdates(currentList);
 
-  const apiCall = useCallback(
-    async <T>(
-      url: string,
-      options?: RequestInit
-    ): Promise<{ success: boolean; data?: T; error?: string }> => {
-      try {
-        const response = await fetch(url, options);
-        if (response.ok) {
-          const data = await response.json();
-          return { success: true, data };
-        } else {
-          const error = await response.json();
-          return { success: false, error: error.error || "Request failed" };
-        }
-      } catch (error) {
-        console.error(`API call failed: ${url}`, error);
-        return { success: false, error: "Network error" };
-      }
-    },
-    []
-  );
-
   const showTimedModal = useCallback(
     (options: {
       type: "success" | "error" | "warning";
@@ -58,43 +39,40 @@ export function useModOperations(
       if (!currentList) {
         showTimedModal({
           type: "warning",
-          title: "No List Selected",
-          message: "Please select a list first",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return;
       }
 
       showConfirmation({
-        title: "Download Mod",
-        message: `Download and install "${modName}"?`,
-        confirmText: "Download",
+        title: t("mods.downloadTitle"),
+        message: t("mods.downloadConfirm", { name: modName }),
+        confirmText: t("mod.download"),
         onConfirm: async () => {
-          const result = await apiCall<ApiResponse>(
-            `/api/mod_list/${encodeURIComponent(
-              currentList
-            )}/download_mod/${modId}`,
-            { method: "POST" }
-          );
+          const result = await settle(api.mods.download(currentList, modId));
 
           if (result.success) {
             showTimedModal({
               type: "success",
-              title: "Download Complete",
-              message: result.data?.message || "Mod downloaded successfully",
+              title: t("mods.downloadCompleteTitle"),
+              message:
+                result.data.message ||
+                t("mods.downloadComplete", { name: modName }),
             });
             return true;
           } else {
             showTimedModal({
               type: "error",
-              title: "Download Failed",
-              message: result.error || "Download failed",
+              title: t("mods.downloadFailedTitle"),
+              message: result.error.message,
             });
             return false;
           }
         },
       });
     },
-    [currentList, apiCall, showModal, showConfirmation]
+    [currentList, showModal, showConfirmation, t]
   );
 
   const downloadAllMods = useCallback(
@@ -102,8 +80,8 @@ export function useModOperations(
       if (!currentList) {
         showTimedModal({
           type: "warning",
-          title: "No List Selected",
-          message: "Please select a list first",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return;
       }
@@ -111,52 +89,57 @@ export function useModOperations(
       if (currentMods.length === 0) {
         showTimedModal({
           type: "warning",
-          title: "Empty List",
-          message: "The list contains no mods",
+          title: t("mods.emptyListTitle"),
+          message: t("mods.emptyList"),
         });
         return;
       }
 
       showConfirmation({
-        title: "Download All Mods",
-        message: `Download and install all ${currentMods.length} mods?`,
-        confirmText: "Download All",
+        title: t("mods.downloadAllTitle"),
+        message: t("mods.downloadAllConfirm", {
+          count: currentMods.length,
+          list: currentList,
+        }),
+        confirmText: t("modList.downloadAll"),
         onConfirm: async () => {
-          const result = await apiCall<DownloadResult[]>(
-            `/api/mod_list/${encodeURIComponent(currentList)}/download_all`,
-            { method: "POST" }
-          );
+          const result = await settle(api.mods.downloadAll(currentList));
 
-          if (result.success && result.data) {
+          if (result.success) {
             const successCount = result.data.filter((r) => r.success).length;
             const errorCount = result.data.filter((r) => !r.success).length;
 
             if (errorCount === 0) {
               showTimedModal({
                 type: "success",
-                title: "Download Complete",
-                message: `All ${successCount} mods downloaded successfully!`,
+                title: t("mods.downloadCompleteTitle"),
+                message: t("mods.downloadAllSucceeded", {
+                  count: successCount,
+                }),
               });
             } else {
               showTimedModal({
                 type: "warning",
-                title: "Download Completed with Errors",
-                message: `${successCount} mods downloaded, ${errorCount} failed`,
+                title: t("mods.downloadWithErrorsTitle"),
+                message: t("mods.downloadAllPartial", {
+                  succeeded: successCount,
+                  failed: errorCount,
+                }),
               });
             }
             return { success: successCount, error: errorCount };
           } else {
             showTimedModal({
               type: "error",
-              title: "Download Failed",
-              message: result.error || "Download failed",
+              title: t("mods.downloadFailedTitle"),
+              message: result.error.message,
             });
             return { success: 0, error: currentMods.length };
           }
         },
       });
     },
-    [currentList, apiCall, showModal, showConfirmation]
+    [currentList, showModal, showConfirmation, t]
   );
 
   const removeMod = useCallback(
@@ -170,44 +153,40 @@ export function useModOperations(
       const isInstalled = installedMods[id] || false;
 
       showConfirmation({
-        title: "Remove Mod",
-        message: `Remove "${modName}" from list?${
-          isInstalled ? " You can also choose to delete installed files." : ""
-        }`,
-        cancelText: "Cancel",
-        confirmText: "Remove from List",
+        title: t("mods.removeTitle"),
+        message: isInstalled
+          ? t("mods.removeConfirmInstalled", { name: modName })
+          : t("mods.removeConfirm", { name: modName }),
+        confirmText: t("mods.removeFromList"),
         showDeleteOption: isInstalled,
-        deleteOptionText: "Also delete installed files",
         onConfirm: async (inputValue?: string | boolean) => {
           const deleteFiles = Boolean(inputValue);
-          const url = `/api/mod_list/${encodeURIComponent(
-            currentList
-          )}/remove_mod/${id}${deleteFiles ? "?deleteFiles=true" : ""}`;
-
-          const result = await apiCall<ApiResponse>(url, { method: "DELETE" });
+          const result = await settle(
+            api.mods.remove(currentList, id, deleteFiles)
+          );
 
           if (result.success) {
             onRemove(id, deleteFiles);
             showTimedModal({
               type: "success",
-              title: "Mod Removed",
+              title: t("mods.removedTitle"),
               message:
-                result.data?.message ||
-                `Mod "${modName}" removed successfully${
-                  deleteFiles ? " and files deleted" : ""
-                }`,
+                result.data.message ||
+                (deleteFiles
+                  ? t("mods.removedWithFiles", { name: modName })
+                  : t("mods.removed", { name: modName })),
             });
           } else {
             showTimedModal({
               type: "error",
-              title: "Remove Failed",
-              message: result.error || "Remove failed",
+              title: t("mods.removeFailedTitle"),
+              message: result.error.message,
             });
           }
         },
       });
     },
-    [currentList, installedMods, apiCall, showModal, showConfirmation]
+    [currentList, installedMods, showModal, showConfirmation, t]
   );
 
   const addMod = useCallback(
@@ -215,8 +194,8 @@ export function useModOperations(
       if (!modUrl.trim()) {
         showTimedModal({
           type: "warning",
-          title: "Empty URL",
-          message: "Please enter a mod URL",
+          title: t("mods.emptyUrlTitle"),
+          message: t("mods.emptyUrl"),
         });
         return false;
       }
@@ -224,30 +203,25 @@ export function useModOperations(
       if (!currentList) {
         showTimedModal({
           type: "warning",
-          title: "No List Selected",
-          message: "Please select a list first",
+          title: t("common.noListSelected"),
+          message: t("common.selectListFirst"),
         });
         return false;
       }
 
-      const result = await apiCall<ModOperationResult>(
-        `/api/mod_list/${encodeURIComponent(currentList)}/add_mod`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ url: modUrl }),
-        }
-      );
+      const result = await settle(api.mods.add(currentList, modUrl));
 
       if (result.success) {
         showTimedModal({
           type: "success",
-          title: "Mod Added",
-          message: result.data?.message || "Mod added successfully",
+          title: t("mods.addedTitle"),
+          message:
+            result.data.message ||
+            t("mods.added", { name: result.data.mod?.name ?? modUrl }),
         });
 
         if (
-          result.data?.mod &&
+          result.data.mod &&
           result.data.message !== "Mod already present in the list"
         ) {
           onAdd(result.data.mod);
@@ -256,13 +230,13 @@ export function useModOperations(
       } else {
         showTimedModal({
           type: "error",
-          title: "Add Mod Failed",
-          message: result.error || "Failed to add mod",
+          title: t("mods.addFailedTitle"),
+          message: result.error.message,
         });
         return false;
       }
     },
-    [currentList, apiCall, showModal]
+    [currentList, showModal, t]
   );
 
   const handleUpdateAndDownload = useCallback(
@@ -274,35 +248,31 @@ export function useModOperations(
       if (!currentList) return;
 
       showConfirmation({
-        title: "Force Update Mod",
-        message: `Force update "${modName}"? Existing version will be overwritten.`,
-        confirmText: "Update",
+        title: t("mods.forceUpdateTitle"),
+        message: t("mods.forceUpdateConfirm", { name: modName }),
+        confirmText: t("mod.update"),
         onConfirm: async () => {
-          const result = await apiCall<any>(
-            `/api/mod_list/${encodeURIComponent(
-              currentList
-            )}/force_update/${modId}`,
-            { method: "POST" }
-          );
+          const result = await settle(api.mods.forceUpdate(currentList, modId));
 
           if (result.success) {
             onUpdate(modId);
             showTimedModal({
               type: "success",
-              title: "Update Successful",
-              message: result.data?.message || "Mod updated successfully",
+              title: t("mods.updatedTitle"),
+              message:
+                result.data.message || t("mods.updated", { name: modName }),
             });
           } else {
             showTimedModal({
               type: "error",
-              title: "Update Failed",
-              message: result.error || "Update failed",
+              title: t("mods.updateFailedTitle"),
+              message: result.error.message,
             });
           }
         },
       });
     },
-    [currentList, apiCall, showModal, showConfirmation]
+    [currentList, showModal, showConfirmation, t]
   );
 
   return {
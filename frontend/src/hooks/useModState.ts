@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useModUpdates } from "./useModUpdates";
 import { useInstallStatus } from "./useInstallStatus";
+import { api, settle } from "../lib/apiClient";
 import type { UseModManagerProps, Mod } from "./types";
 
 const normalizeListName = (listName: string): string => {
@@ -8,24 +9,6 @@ const normalizeListName = (listName: string): string => {
   return listName.charAt(0).toUpperCase() + listName.slice(1).toLowerCase();
 };
 
-const apiCall = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<{ success: boolean; data?: T; error?: string }> => {
-  try {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      const data = await response.json();
-      return { success: true, data };
-    } else {
-      const error = await response.json();
-      return { success: false, error: error.error || "Request failed" };
-    }
-  } catch (error) {
-    return { success: false, error: "Network error" };
-  }
-};
-
 export function useModState({ listName, navigate }: UseModManagerProps) {
   const {
     modLists,
@@ -62,11 +45,9 @@ export function useModState({ listName, navigate }: UseModManagerProps) {
 
     setIsLoading(true);
     try {
-      const result = await apiCall<Mod[]>(
-        `/api/mod_list/${encodeURIComponent(listName)}`
-      );
+      const result = await settle(api.lists.mods(listName));
 
-      if (result.success && result.data) {
+      if (result.success) {
         setCurrentMods(result.data);
         setCurrentList(listName);
       } else {
@@ -74,10 +55,8 @@ export function useModState({ listName, navigate }: UseModManagerProps) {
         setCurrentList(listName);
       }
 
-      const sptResult = await apiCall<{ selectedSptVersion: string }>(
-        `/api/mod_list/${encodeURIComponent(listName)}/spt_version`
-      );
-      if (sptResult.success && sptResult.data) {
+      const sptResult = await settle(api.lists.getSptVersion(listName));
+      if (sptResult.success) {
         setSelectedSptVersion(sptResult.data.selectedSptVersion);
       }
     } catch {
@@ -289,19 +268,11 @@ export function useModState({ listName, navigate }: UseModManagerProps) {
   }, [listName, modLists, currentList, loadModsOfList, initializedRef.current]);
 
   const handleSptVersionChange = useCallback(
-    async (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const newVersion = e.target.value;
+    async (newVersion: string) => {
       setSelectedSptVersion(newVersion);
 
       if (currentList) {
-        await apiCall(
-          `/api/mod_list/${encodeURIComponent(currentList)}/spt_version`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ sptVersion: newVersion }),
-          }
-        );
+        await settle(api.lists.setSptVersion(currentList, newVersion));
       }
     },
     [currentList]
@@ -1,7 +1,8 @@
 import React from "react";
 import { useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Mod, SptVersion, UpdateInfo } from "./types";
+import { api } from "../lib/apiClient";
+import type { Mod } from "./types";
 
 export const modUpdateKeys = {
   all: ["mod-updates"] as const,
@@ -18,24 +19,6 @@ const normalizeListName = (listName: string): string => {
   return listName.charAt(0).toUpperCase() + listName.slice(1).toLowerCase();
 };
 
-const apiCall = async <T>(
-  url: string,
-  options?: RequestInit
-): Promise<{ success: boolean; data?: T; error?: string }> => {
-  try {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      const data = await response.json();
-      return { success: true, data };
-    } else {
-      const error = await response.json();
-      return { success: false, error: error.error || "Request failed" };
-    }
-  } catch (error) {
-    return { success: false, error: "Network error" };
-  }
-};
-
 export const useModUpdates = (listName?: string) => {
   const queryClient = useQueryClient();
   const hookInstanceId = React.useRef(
@@ -46,11 +29,7 @@ export const useModUpdates = (listName?: string) => {
 
   const sptVersionsQuery = useQuery({
     queryKey: modUpdateKeys.sptVersions(),
-    queryFn: async () => {
-      const result = await apiCall<SptVersion[]>("/api/spt_versions");
-      if (!result.success) throw new Error(result.error);
-      return result.data || [];
-    },
+    queryFn: async ({ signal }) => (await api.spt.versions({ signal })) || [],
     staleTime: 10 * 60 * 1000,
     gcTime: 30 * 60 * 1000,
     refetchOnMount: false,
@@ -59,11 +38,7 @@ export const useModUpdates = (listName?: string) => {
 
   const modListsQuery = useQuery({
     queryKey: modUpdateKeys.modLists(),
-    queryFn: async () => {
-      const result = await apiCall<string[]>("/api/mod_lists");
-      if (!result.success) throw new Error(result.error);
-      return result.data || [];
-    },
+    queryFn: async ({ signal }) => (await api.lists.names({ signal })) || [],
     staleTime: 5 * 60 * 1000,
     gcTime: 30 * 60 * 1000,
     refetchOnMount: false,
@@ -73,11 +48,8 @@ export const useModUpdates = (listName?: string) => {
 
   const sptUpdateQuery = useQuery({
     queryKey: modUpdateKeys.sptUpdate(),
-    queryFn: async () => {
-      const result = await apiCall<UpdateInfo>("/api/spt/check-update");
-      if (!result.success) throw new Error(result.error);
-      return result.data || null;
-    },
+    queryFn: async ({ signal }) =>
+      (await api.spt.checkUpdate({ signal })) || null,
     staleTime: 10 * 60 * 1000,
     gcTime: 15 * 60 * 1000,
     refetchOnMount: false,
@@ -87,11 +59,8 @@ export const useModUpdates = (listName?: string) => {
 
   const fikaUpdateQuery = useQuery({
     queryKey: modUpdateKeys.fikaUpdate(),
-    queryFn: async () => {
-      const result = await apiCall<UpdateInfo>("/api/fika/check-update");
-      if (!result.success) throw new Error(result.error);
-      return result.data || null;
-    },
+    queryFn: async ({ signal }) =>
+      (await api.fika.checkUpdate({ signal })) || null,
     staleTime: 10 * 60 * 1000,
     gcTime: 15 * 60 * 1000,
     refetchOnMount: false,
@@ -101,15 +70,12 @@ export const useModUpdates = (listName?: string) => {
 
   const modUpdatesQuery = useQuery({
     queryKey: modUpdateKeys.list(normalizedListName),
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!normalizedListName) return [];
 
-      const result = await apiCall<Mod[]>(
-        `/api/mod_list/${encodeURIComponent(normalizedListName)}/check_updates`
+      return (
+        (await api.mods.checkUpdates(normalizedListName, { signal })) || []
       );
-
-      if (!result.success) throw new Error(result.error);
-      return result.data || [];
     },
     enabled: !!normalizedListName,
     staleTime: 10 * 60 * 1000,
@@ -123,11 +89,7 @@ export const useModUpdates = (listName?: string) => {
   const checkAllModUpdatesMutation = useMutation({
     mutationFn: async (targetListName: string) => {
       const normalizedTarget = normalizeListName(targetListName);
-      const result = await apiCall<Mod[]>(
-        `/api/mod_list/${encodeURIComponent(normalizedTarget)}/check_updates`
-      );
-      if (!result.success) throw new Error(result.error);
-      return result.data || [];
+      return (await api.mods.checkUpdates(normalizedTarget)) || [];
     },
     onSuccess: (data: Mod[], listName: string) => {
       const normalized = normalizeListName(listName);
@@ -144,11 +106,7 @@ export const useModUpdates = (listName?: string) => {
       modId: number;
     }) => {
       const normalized = normalizeListName(listName);
-      const result = await apiCall<Mod>(
-        `/api/mod_list/${encodeURIComponent(normalized)}/check_update/${modId}`
-      );
-      if (!result.success) throw new Error(result.error);
-      return result.data;
+      return api.mods.checkUpdate(normalized, modId);
     },
     onSuccess: (
       updatedMod: Mod | undefined,
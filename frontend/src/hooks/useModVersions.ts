@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+// Releases only change when a mod author publishes, so a picker reopened soon after reuses them
+const RELEASES_STALE_MS = 5 * 60 * 1000;
+
+export const modVersionKeys = {
+  all: ["mod-versions"] as const,
+  mod: (modId: number) => [...modVersionKeys.all, modId] as const,
+};
+
+export function useModVersions(modId: number, enabled: boolean) {
+  const query = useQuery({
+    queryKey: modVersionKeys.mod(modId),
+    queryFn: ({ signal }) => api.mods.versions(modId, { signal }),
+    enabled,
+    staleTime: RELEASES_STALE_MS,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    versions: query.data ?? [],
+    isLoading: query.isFetching,
+    error: query.error?.message ?? null,
+  };
+}
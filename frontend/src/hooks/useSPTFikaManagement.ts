@@ -1,37 +1,19 @@
 import { useState, useCallback } from "react";
 import { useModal } from "../components/ModalContext";
 import { useModUpdates } from "./useModUpdates";
+import { runJob, settle } from "../lib/apiClient";
+import type { MessageResponse } from "./types";
+import { useI18n } from "../i18n/I18nContext";
 
 export function useSPTFikaManagement() {
   const { showModal, showConfirmation } = useModal();
+  const { t } = useI18n();
   const { sptUpdate, fikaUpdate, refreshSptUpdate, refreshFikaUpdate } =
     useModUpdates();
 
   const [isUpdatingSpt, setIsUpdatingSpt] = useState<boolean>(false);
   const [isUpdatingFika, setIsUpdatingFika] = useState<boolean>(false);
 
-  const apiCall = useCallback(
-    async <T>(
-      url: string,
-      options?: RequestInit
-    ): Promise<{ success: boolean; data?: T; error?: string }> => {
-      try {
-        const response = await fetch(url, options);
-        if (response.ok) {
-          const data = await response.json();
-          return { success: true, data };
-        } else {
-          const error = await response.json();
-          return { success: false, error: error.error || "Request failed" };
-        }
-      } catch (error) {
-        console.error(`API call failed: ${url}`, error);
-        return { success: false, error: "Network error" };
-      }
-    },
-    []
-  );
-
   const showTimedModal = useCallback(
     (options: {
       type: "success" | "error" | "warning";
@@ -61,22 +43,27 @@ export function useSPTFikaManagement() {
     if (!sptUpdate?.downloadUrl) return;
 
     showConfirmation({
-      title: "Update SPT",
-      message: `Update SPT from ${sptUpdate.currentVersion} to ${sptUpdate.latestVersion}? The server will restart automatically.`,
-      confirmText: "Update",
+      title: t("updates.confirmTitle", { product: "SPT" }),
+      message: t("updates.confirm", {
+        product: "SPT",
+        current: sptUpdate.currentVersion,
+        latest: sptUpdate.latestVersion,
+      }),
+      confirmText: t("updates.confirmButton"),
       onConfirm: async () => {
         setIsUpdatingSpt(true);
-        const result = await apiCall("/api/spt/update", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ downloadUrl: sptUpdate.downloadUrl }),
-        });
+        const result = await settle(
+          runJob<MessageResponse>({
+            type: "spt_update",
+            downloadUrl: sptUpdate.downloadUrl,
+          })
+        );
 
         if (result.success) {
           showTimedModal({
             type: "success",
-            title: "SPT Updated",
-            message: "SPT updated successfully! Server restarting...",
+            title: t("updates.doneTitle", { product: "SPT" }),
+            message: t("updates.done", { product: "SPT" }),
             duration: 5000,
           });
           refreshSptUpdate();
@@ -84,14 +71,14 @@ export function useSPTFikaManagement() {
         } else {
           showTimedModal({
             type: "error",
-            title: "SPT Update Failed",
-            message: result.error || "Update failed",
+            title: t("updates.failedTitle", { product: "SPT" }),
+            message: result.error.message,
           });
         }
         setIsUpdatingSpt(false);
       },
     });
-  }, [sptUpdate, showModal, showConfirmation, refreshSptUpdate]);
+  }, [sptUpdate, showModal, showConfirmation, refreshSptUpdate, t]);
 
   const checkFikaUpdate = useCallback(async () => {
     refreshFikaUpdate();
@@ -101,22 +88,27 @@ export function useSPTFikaManagement() {
     if (!fikaUpdate?.downloadUrl) return;
 
     showConfirmation({
-      title: "Update Fika",
-      message: `Update Fika from ${fikaUpdate.currentVersion} to ${fikaUpdate.latestVersion}? The server will restart automatically.`,
-      confirmText: "Update",
+      title: t("updates.confirmTitle", { product: "Fika" }),
+      message: t("updates.confirm", {
+        product: "Fika",
+        current: fikaUpdate.currentVersion,
+        latest: fikaUpdate.latestVersion,
+      }),
+      confirmText: t("updates.confirmButton"),
       onConfirm: async () => {
         setIsUpdatingFika(true);
-        const result = await apiCall("/api/fika/update", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ downloadUrl: fikaUpdate.downloadUrl }),
-        });
+        const result = await settle(
+          runJob<MessageResponse>({
+            type: "fika_update",
+            downloadUrl: fikaUpdate.downloadUrl,
+          })
+        );
 
         if (result.success) {
           showTimedModal({
             type: "success",
-            title: "Fika Updated",
-            message: "Fika updated successfully! Server restarting...",
+            title: t("updates.doneTitle", { product: "Fika" }),
+            message: t("updates.done", { product: "Fika" }),
             duration: 5000,
           });
           refreshFikaUpdate();
@@ -124,14 +116,14 @@ export function useSPTFikaManagement() {
         } else {
           showTimedModal({
             type: "error",
-            title: "Fika Update Failed",
-            message: result.error || "Update failed",
+            title: t("updates.failedTitle", { product: "Fika" }),
+            message: result.error.message,
           });
         }
         setIsUpdatingFika(false);
       },
     });
-  }, [fikaUpdate, showModal, showConfirmation, refreshFikaUpdate]);
+  }, [fikaUpdate, showModal, showConfirmation, refreshFikaUpdate, t]);
 
   return {
     isUpdatingSpt,
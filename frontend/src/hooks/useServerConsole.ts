@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { api } from "../lib/apiClient";
+import type { ServerConsoleLine } from "./types";
+
+// Matches the backend buffer, so a reconnect never shows more than a fresh page load
+const MAX_LINES = 2000;
+
+export function useServerConsole(enabled: boolean) {
+  const [lines, setLines] = useState<ServerConsoleLine[]>([]);
+  const [attached, setAttached] = useState<boolean | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource(api.server.consoleEventsUrl());
+
+    source.onopen = () => {
+      setIsConnected(true);
+      // The server replays its buffer on every (re)connect
+      setLines([]);
+    };
+
+    source.onerror = () => setIsConnected(false);
+
+    source.addEventListener("status", (event) => {
+      const status = JSON.parse((event as MessageEvent).data) as {
+        attached: boolean;
+      };
+      setAttached(status.attached);
+    });
+
+    source.addEventListener("line", (event) => {
+      const line = JSON.parse(
+        (event as MessageEvent).data
+      ) as ServerConsoleLine;
+
+      setLines((prev) => {
+        if (prev.length > 0 && prev[prev.length - 1].id >= line.id) return prev;
+        const next = [...prev, line];
+        return next.length > MAX_LINES ? next.slice(-MAX_LINES) : next;
+      });
+
+      if (line.stream !== "system") setAttached(true);
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [enabled]);
+
+  return {
+    lines,
+    attached,
+    isConnected,
+    clear: () => setLines([]),
+  };
+}
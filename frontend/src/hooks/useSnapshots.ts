@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "../lib/apiClient";
+
+export const snapshotKeys = {
+  all: ["snapshots"] as const,
+};
+
+export function useSnapshots(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const snapshotsQuery = useQuery({
+    queryKey: snapshotKeys.all,
+    queryFn: ({ signal }) => api.snapshots.list({ signal }),
+    enabled,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (snapshotId: string) => api.snapshots.restore(snapshotId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: snapshotKeys.all });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (snapshotId: string) => api.snapshots.remove(snapshotId),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: snapshotKeys.all });
+    },
+  });
+
+  return {
+    snapshots: snapshotsQuery.data ?? [],
+    isLoading: snapshotsQuery.isFetching,
+    error: snapshotsQuery.error?.message ?? null,
+    refresh: snapshotsQuery.refetch,
+    restoreSnapshot: restoreMutation.mutateAsync,
+    restoringId: restoreMutation.isPending ? restoreMutation.variables : null,
+    removeSnapshot: removeMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,85 @@
+import { useState, useCallback, useRef } from "react";
+import { api, settle } from "../lib/apiClient";
+import type { SptSwitchPlan, ApplySptSwitchPlanResponse } from "./types";
+
+export function useSptSwitchPlan(currentList: string) {
+  const [targetVersion, setTargetVersion] = useState<string | null>(null);
+  const [plan, setPlan] = useState<SptSwitchPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const openPlan = useCallback(
+    async (target: string) => {
+      if (!currentList) return;
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setTargetVersion(target);
+      setPlan(null);
+      setError(null);
+      setIsLoading(true);
+
+      const result = await settle(
+        api.lists.planSptVersion(currentList, target, {
+          signal: controller.signal,
+        })
+      );
+
+      if (controller.signal.aborted) return;
+
+      if (result.success) {
+        setPlan(result.data);
+      } else {
+        setError(result.error.message);
+      }
+      setIsLoading(false);
+    },
+    [currentList]
+  );
+
+  const closePlan = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setTargetVersion(null);
+    setPlan(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  const applyPlan =
+    useCallback(async (): Promise<ApplySptSwitchPlanResponse | null> => {
+      if (!currentList || !targetVersion || !plan) return null;
+
+      setIsApplying(true);
+      const result = await settle(
+        api.lists.applySptVersionPlan(currentList, targetVersion, plan.hash)
+      );
+      setIsApplying(false);
+
+      if (!result.success) {
+        // The plan changed since it was reviewed; show the new one instead of applying it
+        const body = result.error.body as { plan?: SptSwitchPlan } | undefined;
+        if (result.error.status === 409 && body?.plan) {
+          setPlan(body.plan);
+        }
+        setError(result.error.message);
+        return null;
+      }
+      return result.data;
+    }, [currentList, targetVersion, plan]);
+
+  return {
+    targetVersion,
+    plan,
+    planError: error,
+    isLoadingPlan: isLoading,
+    isApplyingPlan: isApplying,
+    openPlan,
+    closePlan,
+    applyPlan,
+  };
+}
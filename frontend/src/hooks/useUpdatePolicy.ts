@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, runJob } from "../lib/apiClient";
+import type { UpdatePolicy, UpdateRun } from "./types";
+
+export const UPDATE_POLICIES: UpdatePolicy[] = ["auto", "notify", "frozen"];
+
+export const updatePolicyKeys = {
+  all: ["update-policy"] as const,
+  list: (listName: string) =>
+    [...updatePolicyKeys.all, "list", listName] as const,
+  runs: () => [...updatePolicyKeys.all, "runs"] as const,
+};
+
+export function useUpdatePolicy(listName: string, enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const policyQuery = useQuery({
+    queryKey: updatePolicyKeys.list(listName),
+    queryFn: ({ signal }) => api.lists.getUpdatePolicy(listName, { signal }),
+    enabled: enabled && !!listName,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const runsQuery = useQuery({
+    queryKey: updatePolicyKeys.runs(),
+    queryFn: ({ signal }) => api.mods.updateRuns({ signal }),
+    enabled,
+    staleTime: 0,
+    refetchOnWindowFocus: false,
+  });
+
+  const setPolicyMutation = useMutation({
+    mutationFn: (policy: UpdatePolicy) =>
+      api.lists.setUpdatePolicy(listName, policy),
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: updatePolicyKeys.list(listName),
+      });
+    },
+  });
+
+  // Same job the nightly schedule queues, limited to this list
+  const runMutation = useMutation({
+    mutationFn: () => runJob<UpdateRun>({ type: "apply_updates", listName }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: updatePolicyKeys.runs() });
+    },
+  });
+
+  return {
+    policy: policyQuery.data?.updatePolicy ?? null,
+    runs: runsQuery.data ?? [],
+    isLoading: policyQuery.isFetching || runsQuery.isFetching,
+    error: policyQuery.error?.message ?? runsQuery.error?.message ?? null,
+    refresh: runsQuery.refetch,
+    setPolicy: setPolicyMutation.mutateAsync,
+    isSavingPolicy: setPolicyMutation.isPending,
+    runUpdates: runMutation.mutateAsync,
+    isRunning: runMutation.isPending,
+  };
+}
@@ -0,0 +1,73 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from "react";
+import {
+  formatBytes,
+  formatDate,
+  formatDateTime,
+  formatTime,
+  getLocale,
+  setCurrentLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from "./index";
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatBytes: (bytes: number) => string;
+  formatDate: (value: string | number | Date) => string;
+  formatDateTime: (value: string | number | Date) => string;
+  formatTime: (value: string | number | Date) => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+};
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setCurrentLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextType>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(key, params, locale),
+      formatBytes: (bytes) => formatBytes(bytes, locale),
+      formatDate: (date) => formatDate(date, locale),
+      formatDateTime: (date) => formatDateTime(date, locale),
+      formatTime: (date) => formatTime(date, locale),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,101 @@
+import { en, type MessageKey } from "./messages/en";
+import { it } from "./messages/it";
+
+export type { MessageKey };
+
+export type Locale = "en" | "it";
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: { code: Locale; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "it", label: "Italiano" },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, it };
+
+export const LOCALE_STORAGE_KEY = "locale";
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.code === value);
+
+export const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (private mode, disabled cookies)
+  }
+
+  return navigator.language?.toLowerCase().startsWith("it") ? "it" : "en";
+};
+
+// Non-React code (the API client) translates with whatever locale the provider last set
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = () => currentLocale;
+
+export const setCurrentLocale = (locale: Locale) => {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not persisted, but still applied for this session
+  }
+};
+
+export const translate = (
+  key: MessageKey,
+  params?: MessageParams,
+  locale: Locale = currentLocale
+): string => {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+const BYTE_UNITS = ["byte", "kilobyte", "megabyte", "gigabyte"] as const;
+
+export const formatBytes = (
+  bytes: number,
+  locale: Locale = currentLocale
+): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit: BYTE_UNITS[unit],
+    unitDisplay: "short",
+    maximumFractionDigits: unit === 0 ? 0 : 1,
+  }).format(value);
+};
+
+const toDate = (value: string | number | Date) =>
+  value instanceof Date ? value : new Date(value);
+
+export const formatDate = (
+  value: string | number | Date,
+  locale: Locale = currentLocale
+) => toDate(value).toLocaleDateString(locale, { dateStyle: "medium" });
+
+export const formatDateTime = (
+  value: string | number | Date,
+  locale: Locale = currentLocale
+) =>
+  toDate(value).toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export const formatTime = (
+  value: string | number | Date,
+  locale: Locale = currentLocale
+) => toDate(value).toLocaleTimeString(locale);
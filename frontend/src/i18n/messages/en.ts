@@ -0,0 +1,606 @@
+// English is the reference catalog: every other locale must provide the same keys
+export const en = {
+  "common.cancel": "Cancel",
+  "common.confirm": "Confirm",
+  "common.close": "Close",
+  "common.delete": "Delete",
+  "common.noListSelected": "No List Selected",
+  "common.selectListFirst": "Please select a list first",
+
+  "app.subtitle": "Manage your Single Player Tarkov experience",
+  "app.redirecting": "Redirecting...",
+  "language.label": "Language",
+
+  "api.timeout": "Request timed out after {seconds}s",
+  "api.cancelled": "Request was cancelled",
+  "api.network": "Network error: {reason}",
+  "api.unreachable": "unreachable",
+  "api.invalidResponse": "Invalid response from server",
+  "api.requestFailed": "Request failed with status {status}",
+  "api.unexpected": "Unexpected error",
+  "api.jobEnded": "Job {status}",
+
+  "confirm.removeAndDelete": "Remove & Delete",
+  "confirm.deleteFiles": "Also delete installed files",
+
+  "lists.select": "-- Select a list --",
+  "lists.selectLabel": "Select mod list",
+  "lists.selectTitle": "Choose which mod list to display",
+  "lists.new": "New List",
+  "lists.rename": "Rename",
+  "lists.duplicate": "Duplicate",
+  "lists.duplicateTitle": 'Duplicate "{name}"',
+  "lists.duplicatePrompt":
+    "The new list gets {count} mods at their current versions, the same SPT version and load order.",
+  "lists.duplicateDefaultName": "{name} copy",
+  "lists.duplicateInstalledOnly":
+    "Only mods installed on the server ({installed} of {total})",
+  "lists.duplicatedTitle": "List Duplicated",
+  "lists.duplicated": '"{name}" was copied to "{newName}" with {count} mods',
+  "lists.duplicateFailed": "Could Not Duplicate List",
+  "lists.export": "Export",
+  "lists.import": "Import",
+  "lists.createTitle": "Create New List",
+  "lists.createPrompt": "Enter the name for the new list:",
+  "lists.namePlaceholder": "List name",
+  "lists.create": "Create",
+  "lists.nameExistsTitle": "Name Exists",
+  "lists.nameExists": "A list with this name already exists",
+  "lists.createdTitle": "List Created",
+  "lists.created": 'List "{name}" created successfully',
+  "lists.createFailed": "Create Failed",
+  "lists.renameTitle": "Rename List",
+  "lists.renamePrompt": "Enter the new name for the list:",
+  "lists.newNamePlaceholder": "New list name",
+  "lists.renamedTitle": "List Renamed",
+  "lists.renamed": 'List renamed to "{name}" successfully',
+  "lists.renameFailed": "Rename Failed",
+  "lists.deleteTitle": "Delete List",
+  "lists.deleteConfirm": 'Are you sure you want to delete "{name}"?',
+  "lists.deleteConfirmPermanent":
+    'Are you sure you want to delete "{name}"? This action cannot be undone.',
+  "lists.deletedTitle": "List Deleted",
+  "lists.deleted": 'List "{name}" deleted successfully',
+  "lists.deleteFailed": "Delete Failed",
+  "lists.defaultLoadedTitle": "Default List Loaded",
+  "lists.defaultLoaded": 'Automatically loaded "{name}" list',
+  "lists.importTitle": "Import List",
+  "lists.importConfirm": 'Import list "{name}" with {count} mods?',
+  "lists.importConfirmWithSpt":
+    'Import list "{name}" with {count} mods for SPT {sptVersion}?',
+  "lists.invalidFile": "Invalid file format",
+  "lists.importInvalidTitle": "Invalid List File",
+  "lists.importInvalid":
+    "The file has {count} invalid entries and was not imported:",
+  "lists.importMigrated":
+    "This file uses the older export format (version {version}) and was converted on import.",
+  "lists.importing": 'Resolving {count} mods for "{name}"...',
+  "lists.importRejectedTitle": "List Not Imported",
+  "lists.importRejected":
+    '{count} of {total} mods could not be resolved, so "{name}" was not created:',
+  "lists.importModFailed": "{name} {version}: {error}",
+  "lists.importedTitle": "Import Successful",
+  "lists.imported": 'List "{name}" imported successfully!',
+  "lists.importFailed": "Import Failed",
+  "lists.importError": "Import error: {error}",
+  "lists.exportedTitle": "List Exported",
+  "lists.exported": 'List "{name}" exported successfully',
+  "lists.exportFailed": "Export Failed",
+  "lists.exportError": "Error exporting list: {error}",
+
+  "modList.noListTitle": "0 Mods",
+  "modList.noList":
+    "Select an existing list or create a new one to get started.",
+  "modList.heading": "{count} Mod(s) in {list}",
+  "modList.updatesTitle": "{count} mod(s) have updates",
+  "modList.updates": "{count} update(s)",
+  "modList.downloadAll": "Download All",
+  "modList.downloadAllTitle": "Download and install every mod in this list",
+  "modList.updateAll": "Update All ({count})",
+  "modList.updateAllTitle":
+    "Review and update the mods of this list that have a newer release",
+  "modList.empty": "No mods in this list. Add some mods to get started!",
+  "modList.addPlaceholder": "Add mod link here…",
+  "modList.addMod": "Add Mod",
+
+  "mod.download": "Download",
+  "mod.downloadTitle": "Download mod",
+  "mod.installed": "Installed",
+  "mod.alreadyInstalledTitle": "Already installed - use Update button",
+  "mod.update": "Update",
+  "mod.notInstalledTitle": "Mod not installed - download first",
+  "mod.updateToNeedsSpt": "Update to {version} (requires SPT {constraint})",
+  "mod.updateTo": "Update to {version}",
+  "mod.noUpdates": "No updates available",
+  "mod.files": "Files",
+  "mod.filesTitle": "Show files written by this mod",
+  "mod.remove": "Remove",
+  "mod.removeTitle": "Remove mod from list",
+  "mod.enable": "Enable",
+  "mod.disable": "Disable",
+  "mod.enableTitle": "Move this mod's files back into the server",
+  "mod.disableTitle":
+    "Move this mod's files out of the server without uninstalling it",
+  "mod.disabledTag": "Disabled",
+  "mod.noDescription": "No description",
+  "mod.version": "Version: {version}",
+  "mod.versionAvailable": "→ {version} available!",
+  "mod.sptUnknown": "SPT compatibility unknown",
+  "mod.sptCompatible": "Compatible with SPT {version}",
+  "mod.sptIncompatible": "Not compatible with SPT {version}",
+  "mod.typeServer": "Server Mod",
+  "mod.typeClient": "Client Mod",
+  "mod.typeBoth": "Server & Client",
+  "mod.typeUnknown": "Unknown Type",
+  "mod.updateNeedsSptTitle": "Version {version} requires SPT {constraint}",
+  "mod.updateNeedsSpt": "Update Needs Newer SPT",
+  "mod.versionPickerLabel": "Version of {name}",
+  "mod.versionPickerTitle":
+    "Pin this mod to a release, or follow the latest one",
+  "mod.followLatest": "Latest release",
+  "mod.pinnedTo": "Pinned to {version}",
+  "mod.loadingVersions": "Loading releases...",
+  "mod.updatePolicyLabel": "Update policy of {name}",
+  "mod.updatePolicyTitle": "How the nightly update run treats this mod",
+  "mod.updatePolicyListDefault": "List policy",
+  "mod.updateAvailable": "Update Available",
+  "mod.requiredBy": "Required by {mods}",
+  "mod.sizeUnknown": "Unknown",
+  "mod.updatedAt": "Updated {date}",
+
+  "mods.structureTitle": "Mod Install Location",
+  "mods.structureMessage":
+    'The mod "{name}" does not have a standard structure. Where do you want to install it? Your choice is remembered for future updates.',
+  "mods.structureServer": "Server Mod (SPT/user/mods)",
+  "mods.structureClient": "Client Mod (BepInEx/plugins)",
+  "mods.typeServer": "Server",
+  "mods.typeClient": "Client",
+  "mods.installCompleteTitle": "Installation Complete",
+  "mods.installComplete": "Mod installed successfully as {type} Mod",
+  "mods.installCompleteMapped":
+    '"{name}" installed to the locations of its folder mapping',
+  "mods.installFailedTitle": "Installation Failed",
+  "mods.installFailed": "Installation failed",
+  "mods.installError": "Error during installation",
+  "mods.conflictTitle": "File Conflict",
+  "mods.conflictMessage":
+    'The mod "{name}" would overwrite {count} file(s) installed by other mods. Overwrite them?',
+  "mods.conflictSkip": "Don't Install",
+  "mods.conflictOverwrite": "Overwrite",
+  "mods.alreadyPresentTitle": "Mod Already Present",
+  "mods.alreadyPresent": 'The mod "{name}" is already in the list',
+  "mods.dependenciesAddedTitle": "Dependencies Added",
+  "mods.dependenciesAdded":
+    '{count} dependencies of "{name}" added to the list',
+  "mods.addedTitle": "Mod Added",
+  "mods.addedWithDependencies": 'Mod "{name}" added with {count} dependencies',
+  "mods.added": 'Mod "{name}" added successfully',
+  "mods.addFailedTitle": "Add Mod Failed",
+  "mods.addFailed": "Could not add the mod",
+  "mods.addError": "Error while adding the mod",
+  "mods.emptyUrlTitle": "Empty URL",
+  "mods.emptyUrl": "Please enter a mod URL",
+  "mods.missingDependenciesTitle": "Missing Dependencies",
+  "mods.missingDependencies":
+    'The mod "{name}" requires {count} mods that are not in the list. Add them together with the mod?',
+  "mods.dependencyDetail":
+    "{name} {version} (required by {requiredBy}: {constraint})",
+  "mods.dependencyUnresolvable":
+    "{name}: no release matches {constraint} (required by {requiredBy}), not added",
+  "mods.unresolvableDependencies":
+    'Some dependencies of "{name}" have no release matching the required version. Add the mod anyway?',
+  "mods.addAnyway": "Add Anyway",
+  "mods.addWithDependencies": "Add with Dependencies",
+  "mods.removeTitle": "Remove Mod",
+  "mods.removeConfirm": 'Remove "{name}" from the list?',
+  "mods.removeConfirmInstalled":
+    'Remove "{name}" from the list? You can also choose to delete the installed files.',
+  "mods.removeFromList": "Remove from List",
+  "mods.removedTitle": "Mod Removed",
+  "mods.removed": 'Mod "{name}" removed successfully',
+  "mods.removedWithFiles":
+    'Mod "{name}" removed successfully and files deleted',
+  "mods.removeFailedTitle": "Remove Failed",
+  "mods.removeFailed": 'Could not remove "{name}"',
+  "mods.removeError": 'Error while removing "{name}"',
+  "mods.enabledTitle": "Mod Enabled",
+  "mods.disabledTitle": "Mod Disabled",
+  "mods.enabled": '"{name}" is enabled again. Restart the server to load it.',
+  "mods.disabled": '"{name}" is disabled. Restart the server to unload it.',
+  "mods.pinFailedTitle": "Could Not Change Version",
+  "mods.pinnedTitle": "Version Pinned",
+  "mods.pinned": '"{name}" is pinned to {version}',
+  "mods.unpinnedTitle": "Version Unpinned",
+  "mods.unpinned": '"{name}" follows the latest release again',
+  "mods.updatePolicyFailedTitle": "Could Not Change Update Policy",
+  "mods.updatePolicySetTitle": "Update Policy Changed",
+  "mods.updatePolicySet": '"{name}" is now set to {policy}',
+  "mods.updatePolicyInherited":
+    '"{name}" follows the list\'s update policy again',
+  "mods.installTargetFailedTitle": "Could Not Change Install Location",
+  "mods.installTargetSetTitle": "Install Location Saved",
+  "mods.installTargetSet": '"{name}" will be installed to {target}',
+  "mods.installTargetCleared":
+    'The install location of "{name}" will be asked again',
+  "mods.pinInstallTitle": "Install Pinned Version",
+  "mods.pinInstallConfirm":
+    '"{name}" is now pinned to {version}. Reinstall it now to replace the installed files?',
+  "mods.pinInstall": "Install {version}",
+  "mods.toggleFailedTitle": "Could Not Change Mod State",
+  "mods.downloadTitle": "Download Mod",
+  "mods.downloadConfirm": 'Download and install "{name}"?',
+  "mods.downloadCompleteTitle": "Download Complete",
+  "mods.downloadComplete": 'Mod "{name}" downloaded successfully',
+  "mods.downloadFailedTitle": "Download Failed",
+  "mods.downloadFailed": 'Could not download "{name}"',
+  "mods.downloadError": 'Error while downloading "{name}"',
+  "mods.downloadAllFailed": 'Could not download the mods of "{list}"',
+  "mods.downloadAllError": 'Error while downloading the mods of "{list}"',
+  "mods.summaryInstalled": "{count} mods installed or already present",
+  "mods.summaryUpdated": "{count} mods updated",
+  "mods.summaryPending": "{count} waiting for a choice",
+  "mods.summaryConflicts": "{count} with file conflicts",
+  "mods.summaryFailed": "{count} failed: {mods}",
+  "mods.summaryCancelled": "{count} cancelled",
+  "mods.downloadCancelledTitle": "Download Cancelled",
+  "mods.downloadWithErrorsTitle": "Download Completed with Errors",
+  "mods.downloadAllSucceeded": "All {count} mods downloaded successfully!",
+  "mods.downloadAllPartial": "{succeeded} mods downloaded, {failed} failed",
+  "mods.emptyListTitle": "Empty List",
+  "mods.emptyList": "The list contains no mods",
+  "mods.downloadAllTitle": "Download All Mods",
+  "mods.downloadAllConfirm":
+    'Download and install all {count} mods of "{list}"? Mods that are already installed will be skipped.',
+  "mods.forceUpdateTitle": "Force Update Mod",
+  "mods.forceUpdateConfirm":
+    'Force update "{name}"? The existing version will be overwritten, but a snapshot is taken first so you can restore it.',
+  "mods.updatedTitle": "Update Complete",
+  "mods.updated": 'Mod "{name}" updated successfully',
+  "mods.updateFailedTitle": "Update Failed",
+  "mods.updateFailed": 'Could not update "{name}"',
+  "mods.updateError": 'Error while updating "{name}"',
+  "mods.updateAllCompleteTitle": "Updates Complete",
+  "mods.updateAllCancelledTitle": "Updates Cancelled",
+  "mods.updateAllFailed": 'Could not update the mods of "{list}"',
+
+  "progress.phase.queued": "Queued",
+  "progress.phase.fetching_metadata": "Fetching metadata",
+  "progress.phase.downloading": "Downloading",
+  "progress.phase.extracting": "Extracting",
+  "progress.phase.installing": "Installing",
+  "progress.phase.awaiting_choice": "Awaiting install location",
+  "progress.phase.completed": "Installed",
+  "progress.phase.skipped": "Skipped",
+  "progress.phase.failed": "Failed",
+  "progress.phase.cancelled": "Cancelled",
+  "progress.cancelling": "Cancelling...",
+  "progress.done": "{finished} / {total} done",
+  "progress.cancelled": "Cancelled",
+  "progress.finishedWithErrors": "Finished with {count} error(s)",
+  "progress.finished": "Finished",
+  "progress.title": "Downloading {label}",
+  "progress.cancelTitle": "Cancel remaining downloads",
+  "progress.closeTitle": "Close progress panel",
+
+  "conflicts.title": "File Conflicts",
+  "conflicts.checking": "Checking installed files...",
+  "conflicts.found": "{count} file(s) written by more than one mod",
+  "conflicts.none": "No file conflicts between installed mods",
+  "conflicts.refreshTitle": "Check conflicts again",
+  "conflicts.current": "The file on disk is this mod's version",
+  "conflicts.overwritten": "Overwritten by another mod",
+
+  "loadOrder.title": "Load Order",
+  "loadOrder.count": "{count} server mod(s)",
+  "loadOrder.warnings": "{count} load order problem(s)",
+  "loadOrder.refreshTitle": "Reload load order",
+  "loadOrder.hint":
+    "Drag server mods to change the order SPT loads them in. Later mods override earlier ones.",
+  "loadOrder.notInstalled": "Not installed",
+  "loadOrder.disabled": "Disabled, not loaded",
+  "loadOrder.rule.load_after": "{mod} must load after {other}",
+  "loadOrder.rule.load_before": "{mod} must load before {other}",
+  "loadOrder.saveFailed": "Saving Load Order Failed",
+
+  "files.status.ok": "Unchanged",
+  "files.status.modified": "Modified since install",
+  "files.status.missing": "Missing",
+  "files.notTracked":
+    "No file manifest for this mod. It was installed before file tracking or is not installed; reinstall it to record its files.",
+  "files.summary": "{count} file(s), version {version}, installed {date}",
+  "files.changed": " — {count} changed or missing",
+  "files.loading": "Loading files…",
+  "files.refreshTitle": "Verify files again",
+
+  "diff.open": "Compare",
+  "diff.openTitle": "Compare this list with another one",
+  "diff.title": "Compare Lists",
+  "diff.subtitle":
+    "See what differs between two mod lists and copy mods or versions across",
+  "diff.refreshTitle": "Compare again",
+  "diff.noOtherList": "There is no other list to compare with.",
+  "diff.summary":
+    "{identical} identical · {changed} at different versions · {left} and {right} only in one list",
+  "diff.sptDiffers": "SPT {left} vs {right}",
+  "diff.identical": "Both lists have the same mods at the same versions.",
+  "diff.versionDifferences": "Different versions",
+  "diff.mod": "Mod",
+  "diff.onlyIn": "Only in {list}",
+  "diff.copyInto": "Copy {count} into {list}",
+  "diff.copyIntoTitle":
+    "Add the selected mods of {source} to {target}, or set them to {source}'s version",
+  "diff.pickedTitle": "Mods Copied",
+  "diff.pickFailed": "Could Not Copy Mods",
+  "activation.activate": "Activate",
+  "activation.activateTitle": "Make the installed mods match this list",
+  "activation.active": "Active",
+  "activation.activeTitle": "The installed mods match this list",
+  "activation.outOfSync": "Active, out of sync",
+  "activation.outOfSyncTitle":
+    "Mods were installed, updated or removed since this list was activated",
+  "activation.title": 'Activate "{list}"',
+  "activation.loading": "Comparing installed mods with the list...",
+  "activation.summary":
+    "{install} to install, {update} to update, {remove} to remove.",
+  "activation.inSync": 'The installed mods already match "{list}".',
+  "activation.columnInstalled": "Installed",
+  "activation.columnTarget": "List",
+  "activation.unmanaged": "Untracked install",
+  "activation.action.install": "Install",
+  "activation.action.update": "Update",
+  "activation.action.remove": "Remove",
+  "activation.action.keep": "Keep",
+  "activation.apply": "Activate",
+  "activation.applying": "Activating...",
+  "activation.removed": "{count} mods removed",
+  "activation.failedTitle": "Activation Failed",
+  "activation.failed": 'Could not activate "{list}"',
+  "bisect.title": "Crash Bisect",
+  "bisect.subtitle": "Find the server mod that stops SPT from booting",
+  "bisect.intro":
+    "Each round enables half of the remaining suspects, disables the rest and restarts the server. Tell it whether the server booted and it narrows the suspects down to a single mod, then puts every mod and the server back as they were.",
+  "bisect.start": "Start Bisect",
+  "bisect.startConfirmTitle": "Start Crash Bisect",
+  "bisect.startConfirm":
+    "The server will be restarted once per round with part of this list's server mods disabled. Players connected to it will be disconnected. Continue?",
+  "bisect.startFailed": "Could Not Start Bisect",
+  "bisect.roundStatus": "Round {round} · {count} suspects left",
+  "bisect.roundInfo":
+    "Round {round}: the server was restarted with {enabled} of {suspects} suspects enabled (about {left} rounds left).",
+  "bisect.detected.pending":
+    "Waiting for the server console to show whether it booted…",
+  "bisect.detected.booted": "The console shows the server booted.",
+  "bisect.detected.crashed": "The console shows the server exited.",
+  "bisect.booted": "It Booted",
+  "bisect.crashed": "It Crashed",
+  "bisect.outcomeFailed": "Could Not Record Result",
+  "bisect.cancel": "Cancel Bisect",
+  "bisect.cancelTitle": "Stop bisecting and restore the original mods",
+  "bisect.cancelConfirmTitle": "Cancel Bisect",
+  "bisect.cancelConfirm":
+    "Every mod will be re-enabled as it was before the bisect and the server put back in its original state.",
+  "bisect.endFailed": "Could Not End Bisect",
+  "bisect.culprit": "Culprit: {name}",
+  "bisect.foundTitle": "Culprit Found",
+  "bisect.found":
+    '"{name}" stops the server from booting. Your mods have been restored.',
+  "bisect.foundInfo":
+    'After {rounds} rounds the culprit is "{name}". Every mod is back as it was before the bisect.',
+  "bisect.disableCulprit": "Disable It",
+  "bisect.dismiss": "Dismiss",
+  "updatePolicy.title": "Automatic Updates",
+  "updatePolicy.subtitle": "Update policy and nightly update history",
+  "updatePolicy.refreshTitle": "Reload update history",
+  "updatePolicy.listPolicy": 'Policy of "{list}"',
+  "updatePolicy.policy.auto": "Auto-apply patch updates",
+  "updatePolicy.policy.notify": "Notify only",
+  "updatePolicy.policy.frozen": "Frozen",
+  "updatePolicy.hint.auto":
+    "Patch releases (e.g. 1.2.0 → 1.2.3) that fit the list's SPT version are applied every night; bigger updates are only reported.",
+  "updatePolicy.hint.notify":
+    "Updates are reported but never applied automatically.",
+  "updatePolicy.hint.frozen":
+    "No updates are checked or offered. Mods can still be updated by hand.",
+  "updatePolicy.runNow": "Run now",
+  "updatePolicy.runNowTitle": "Apply the allowed updates to this list now",
+  "updatePolicy.runFinishedTitle": "Update Run Finished",
+  "updatePolicy.runSummary":
+    "{applied} applied, {available} available, {failed} failed",
+  "updatePolicy.runNoChanges": "No updates found",
+  "updatePolicy.runScheduled": "nightly",
+  "updatePolicy.runFailed": "Update Run Failed",
+  "updatePolicy.saveFailed": "Could Not Change Update Policy",
+  "updatePolicy.empty": "No update runs yet.",
+  "updatePolicy.reinstalled": "{list}, reinstalled",
+  "updatePolicy.outcome.applied": "Applied",
+  "updatePolicy.outcome.available": "Available",
+  "updatePolicy.outcome.failed": "Failed",
+  "changelog.toggle": "What's new ({count} releases)",
+  "changelog.noNotes": "No release notes.",
+  "changelog.reviewTitle": "Review update: {name}",
+  "changelog.reviewVersions": "{from} → {to}",
+  "changelog.unavailable":
+    "No release notes were found for this update. Run an update check to fetch them from Forge.",
+  "updateAll.title": "Update mods ({count} available)",
+  "updateAll.summary":
+    "Pick the mods to update. They are updated one after another in a single job, with a snapshot taken before each one.",
+  "updateAll.selectAll": "Select all mods",
+  "updateAll.select": "Select {name}",
+  "updateAll.columnVersions": "Versions",
+  "updateAll.columnNotes": "Release notes",
+  "updateAll.notInstalled": "Not installed, will be downloaded",
+  "updateAll.confirm": "Update {count} mods",
+  "installTarget.label": "Install location of {name}",
+  "installTarget.title":
+    "Where this mod's files go when its archive has no SPT or BepInEx folder",
+  "installTarget.ask": "Ask on install",
+  "installTarget.kind.server": "Server (SPT/user/mods)",
+  "installTarget.kind.client": "Client (BepInEx/plugins)",
+  "installTarget.kind.custom": "Custom folder…",
+  "installTarget.kind.mapped": "Folder mapping",
+  "installTarget.editPath": "Change folder…",
+  "installTarget.customTitle": "Custom Install Folder",
+  "installTarget.customMessage":
+    'Folder, relative to the server directory, that the files of "{name}" are copied into.',
+  "structure.root": "Archive root",
+  "structure.loading": "Reading the archive…",
+  "structure.mappingHint":
+    "Or map folders one by one: each file goes where the closest mapped folder above it goes, and files under no mapped folder are not installed.",
+  "structure.mapFolder": "Install location of {folder}",
+  "structure.inherit": "Same as parent ({target})",
+  "structure.notInstalled": "Not mapped",
+  "structure.target.server": "Server (SPT/user/mods)",
+  "structure.target.client": "Client (BepInEx/plugins)",
+  "structure.target.config": "Config (BepInEx/config)",
+  "structure.target.skip": "Skip",
+  "structure.later": "Decide Later",
+  "structure.installMapped": "Install with Mapping",
+  "structure.installMappedTitle":
+    "Install each folder where it is mapped; the mapping is reused on future updates",
+  "snapshots.title": "Snapshots",
+  "snapshots.subtitle": "Taken automatically before SPT, Fika and mod updates",
+  "snapshots.refreshTitle": "Reload snapshots",
+  "snapshots.empty": "No snapshots yet.",
+  "snapshots.kind.spt": "SPT",
+  "snapshots.kind.fika": "Fika",
+  "snapshots.kind.mod": "Mod",
+  "snapshots.meta": "{date} · {count} file(s) · {size}",
+  "snapshots.restore": "Restore",
+  "snapshots.restoreTitle": "Restore these files and restart the server",
+  "snapshots.deleteTitle": "Delete snapshot",
+  "snapshots.restoreConfirmTitle": "Restore Snapshot",
+  "snapshots.restoreConfirm":
+    'Roll back to "{label}"? {files} file(s) will be restored, {added} file(s) added by the update will be deleted and the server will restart.',
+  "snapshots.restoredTitle": "Snapshot Restored",
+  "snapshots.restoreFailed": "Restore Failed",
+  "snapshots.deleteConfirmTitle": "Delete Snapshot",
+  "snapshots.deleteConfirm":
+    'Delete the snapshot "{label}"? You will no longer be able to roll back to it.',
+  "snapshots.deleteFailed": "Delete Failed",
+
+  "jobs.title": "Jobs",
+  "jobs.active": "{count} in progress",
+  "jobs.subtitle": "Downloads and updates run on the server",
+  "jobs.refreshTitle": "Reload jobs",
+  "jobs.empty": "No jobs have run yet.",
+  "jobs.showLog": "Show log",
+  "jobs.cancelTitle": "Cancel job",
+  "jobs.cancelFailed": "Cancel Failed",
+  "jobs.status.queued": "Queued",
+  "jobs.status.running": "Running",
+  "jobs.status.succeeded": "Succeeded",
+  "jobs.status.awaiting_choice": "Needs a choice",
+  "jobs.status.failed": "Failed",
+  "jobs.status.cancelled": "Cancelled",
+
+  "server.title": "Server Status",
+  "server.refreshTitle": "Check for SPT, Fika, and mod updates",
+  "server.status": "Status",
+  "server.online": "Online",
+  "server.offline": "Offline",
+  "server.version": "Version",
+  "server.uptime": "Uptime",
+  "server.players": "Players",
+  "server.updatesTitle": "Updates Available",
+  "server.updatesFound": "Found updates for: {updates}",
+  "server.modUpdates": "{count} mods",
+  "server.upToDateTitle": "All Up to Date",
+  "server.upToDate": "No updates available for SPT, Fika, or mods",
+  "server.refreshFailedTitle": "Refresh Failed",
+  "server.refreshFailed": "An error occurred during refresh",
+  "server.start": "Start",
+  "server.stop": "Stop",
+  "server.restart": "Restart",
+  "server.startTitle": "Start the SPT server",
+  "server.stopTitle": "Stop the SPT server",
+  "server.restartTitle": "Restart the SPT server",
+  "server.stopConfirmTitle": "Stop Server",
+  "server.stopConfirm":
+    "Stop the SPT server? Connected players will be disconnected.",
+  "server.restartConfirmTitle": "Restart Server",
+  "server.restartConfirm":
+    "Restart the SPT server? Connected players will be disconnected.",
+  "server.startDoneTitle": "Server Started",
+  "server.stopDoneTitle": "Server Stopped",
+  "server.restartDoneTitle": "Server Restarted",
+  "server.startFailedTitle": "Start Failed",
+  "server.stopFailedTitle": "Stop Failed",
+  "server.restartFailedTitle": "Restart Failed",
+
+  "console.title": "Server Console",
+  "console.subtitle": "Live output of the SPT server",
+  "console.connecting": "Connecting...",
+  "console.notAttached":
+    "The server was started outside the manager; restart it here to capture its output",
+  "console.lines": "{count} line(s)",
+  "console.matches": "{count} of {total} line(s) match",
+  "console.searchPlaceholder": "Search output...",
+  "console.autoScroll": "Auto-scroll",
+  "console.clearTitle": "Clear the console view",
+  "console.empty": "No output yet.",
+  "console.noMatches": "No lines match your search.",
+
+  "logs.open": "Logs",
+  "logs.openTitle": "Open the SPT and BepInEx logs",
+  "logs.title": "Server Logs",
+  "logs.subtitle":
+    "SPT server and BepInEx logs, with errors traced back to your mods",
+  "logs.backToList": "Back to {list}",
+  "logs.source.spt": "SPT",
+  "logs.source.bepinex": "BepInEx",
+  "logs.fileOption": "{source} · {path} ({size}, {date})",
+  "logs.errorsOnly": "Errors only",
+  "logs.refreshTitle": "Reload logs",
+  "logs.noFiles": "No log files found.",
+  "logs.range": "Lines {first}–{last} of {total}",
+  "logs.errors": "{count} error line(s)",
+  "logs.modLinkTitle": "Show this mod in the list",
+  "logs.empty": "This part of the log is empty.",
+  "logs.noErrors": "No errors on this page.",
+  "logs.older": "Older",
+  "logs.newer": "Newer",
+  "logs.latest": "Latest",
+
+  "updates.available": "{product} Update Available!",
+  "updates.versions": "Current: {current} → New: {latest}",
+  "updates.updating": "Updating...",
+  "updates.update": "Update {product}",
+  "updates.confirmTitle": "Update {product}",
+  "updates.confirm":
+    "Update {product} from {current} to {latest}? A snapshot of the replaced files is taken first so you can roll back. The server will restart automatically.",
+  "updates.confirmButton": "Update",
+  "updates.doneTitle": "{product} Updated",
+  "updates.done": "{product} updated successfully! Server restarting...",
+  "updates.failedTitle": "{product} Update Failed",
+
+  "sptVersion.selectLabel": "Select SPT version",
+  "sptVersion.selectTitle": "Choose SPT version",
+  "sptVersion.optionIncompatible": "{version} ({count} incompatible)",
+  "sptVersion.title": "SPT Version",
+  "sptVersion.changed": 'SPT version changed to {version} for list "{list}"',
+  "sptVersion.reinstallTitle": "Reinstall Required",
+  "sptVersion.reinstall":
+    "{message}. Download these mods again to install the planned versions: {mods}",
+
+  "sptPlan.title": "Switch to SPT {version}",
+  "sptPlan.loading": "Checking Forge releases for every mod…",
+  "sptPlan.summary": "{count} mod(s) will change version.",
+  "sptPlan.summaryBlocking":
+    "{count} mod(s) will change version, {blocking} have no release for SPT {version}.",
+  "sptPlan.columnMod": "Mod",
+  "sptPlan.columnCurrent": "Current",
+  "sptPlan.columnAction": "Action",
+  "sptPlan.columnPlanned": "Planned",
+  "sptPlan.action.keep": "Keep",
+  "sptPlan.action.upgrade": "Upgrade",
+  "sptPlan.action.downgrade": "Downgrade",
+  "sptPlan.action.no_compatible_release": "No compatible release",
+  "sptPlan.action.unknown": "Unknown",
+  "sptPlan.switchOnly": "Switch Version Only",
+  "sptPlan.switchOnlyTitle":
+    "Change the list's SPT version without touching mod versions",
+  "sptPlan.applying": "Applying…",
+  "sptPlan.apply": "Apply Plan",
+};
+
+export type MessageKey = keyof typeof en;
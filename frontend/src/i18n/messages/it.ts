@@ -0,0 +1,611 @@
+import type { MessageKey } from "./en";
+
+export const it: Record<MessageKey, string> = {
+  "common.cancel": "Annulla",
+  "common.confirm": "Conferma",
+  "common.close": "Chiudi",
+  "common.delete": "Elimina",
+  "common.noListSelected": "Nessuna Lista Selezionata",
+  "common.selectListFirst": "Seleziona prima una lista",
+
+  "app.subtitle": "Gestisci la tua esperienza di Single Player Tarkov",
+  "app.redirecting": "Reindirizzamento...",
+  "language.label": "Lingua",
+
+  "api.timeout": "Richiesta scaduta dopo {seconds}s",
+  "api.cancelled": "Richiesta annullata",
+  "api.network": "Errore di rete: {reason}",
+  "api.unreachable": "server non raggiungibile",
+  "api.invalidResponse": "Risposta non valida dal server",
+  "api.requestFailed": "Richiesta fallita con stato {status}",
+  "api.unexpected": "Errore imprevisto",
+  "api.jobEnded": "Job {status}",
+
+  "confirm.removeAndDelete": "Rimuovi ed Elimina",
+  "confirm.deleteFiles": "Elimina anche i file installati",
+
+  "lists.select": "-- Seleziona una lista --",
+  "lists.selectLabel": "Seleziona lista mod",
+  "lists.selectTitle": "Scegli quale lista di mod mostrare",
+  "lists.new": "Nuova Lista",
+  "lists.rename": "Rinomina",
+  "lists.duplicate": "Duplica",
+  "lists.duplicateTitle": 'Duplica "{name}"',
+  "lists.duplicatePrompt":
+    "La nuova lista avrà {count} mod alle versioni attuali, la stessa versione SPT e lo stesso ordine di caricamento.",
+  "lists.duplicateDefaultName": "{name} copia",
+  "lists.duplicateInstalledOnly":
+    "Solo le mod installate sul server ({installed} su {total})",
+  "lists.duplicatedTitle": "Lista duplicata",
+  "lists.duplicated": '"{name}" è stata copiata in "{newName}" con {count} mod',
+  "lists.duplicateFailed": "Impossibile duplicare la lista",
+  "lists.export": "Esporta",
+  "lists.import": "Importa",
+  "lists.createTitle": "Crea Nuova Lista",
+  "lists.createPrompt": "Inserisci il nome della nuova lista:",
+  "lists.namePlaceholder": "Nome lista",
+  "lists.create": "Crea",
+  "lists.nameExistsTitle": "Nome Esistente",
+  "lists.nameExists": "Esiste già una lista con questo nome",
+  "lists.createdTitle": "Lista Creata",
+  "lists.created": 'Lista "{name}" creata con successo',
+  "lists.createFailed": "Creazione Fallita",
+  "lists.renameTitle": "Rinomina Lista",
+  "lists.renamePrompt": "Inserisci il nuovo nome della lista:",
+  "lists.newNamePlaceholder": "Nuovo nome lista",
+  "lists.renamedTitle": "Lista Rinominata",
+  "lists.renamed": 'Lista rinominata in "{name}" con successo',
+  "lists.renameFailed": "Rinomina Fallita",
+  "lists.deleteTitle": "Elimina Lista",
+  "lists.deleteConfirm": 'Sei sicuro di voler eliminare "{name}"?',
+  "lists.deleteConfirmPermanent":
+    'Sei sicuro di voler eliminare "{name}"? L\'operazione non può essere annullata.',
+  "lists.deletedTitle": "Lista Eliminata",
+  "lists.deleted": 'Lista "{name}" eliminata con successo',
+  "lists.deleteFailed": "Eliminazione Fallita",
+  "lists.defaultLoadedTitle": "Lista Predefinita Caricata",
+  "lists.defaultLoaded": 'Caricata automaticamente la lista "{name}"',
+  "lists.importTitle": "Importa Lista",
+  "lists.importConfirm": 'Importare la lista "{name}" con {count} mod?',
+  "lists.importConfirmWithSpt":
+    'Importare la lista "{name}" con {count} mod per SPT {sptVersion}?',
+  "lists.invalidFile": "Formato file non valido",
+  "lists.importInvalidTitle": "File della lista non valido",
+  "lists.importInvalid":
+    "Il file contiene {count} voci non valide e non è stato importato:",
+  "lists.importMigrated":
+    "Questo file usa il vecchio formato di esportazione (versione {version}) ed è stato convertito durante l'importazione.",
+  "lists.importing": 'Risoluzione di {count} mod per "{name}"...',
+  "lists.importRejectedTitle": "Lista non importata",
+  "lists.importRejected":
+    '{count} mod su {total} non sono state risolte, quindi "{name}" non è stata creata:',
+  "lists.importModFailed": "{name} {version}: {error}",
+  "lists.importedTitle": "Importazione Riuscita",
+  "lists.imported": 'Lista "{name}" importata con successo!',
+  "lists.importFailed": "Importazione Fallita",
+  "lists.importError": "Errore di importazione: {error}",
+  "lists.exportedTitle": "Lista Esportata",
+  "lists.exported": 'Lista "{name}" esportata con successo',
+  "lists.exportFailed": "Esportazione Fallita",
+  "lists.exportError": "Errore durante l'esportazione: {error}",
+
+  "modList.noListTitle": "0 Mod",
+  "modList.noList":
+    "Seleziona una lista esistente o creane una nuova per iniziare.",
+  "modList.heading": "{count} Mod in {list}",
+  "modList.updatesTitle": "{count} mod hanno aggiornamenti",
+  "modList.updates": "{count} aggiornamenti",
+  "modList.downloadAll": "Scarica Tutte",
+  "modList.downloadAllTitle": "Scarica e installa tutte le mod della lista",
+  "modList.updateAll": "Aggiorna Tutte ({count})",
+  "modList.updateAllTitle":
+    "Verifica e aggiorna le mod della lista che hanno una release più recente",
+  "modList.empty":
+    "Nessuna mod in questa lista. Aggiungine qualcuna per iniziare!",
+  "modList.addPlaceholder": "Incolla qui il link della mod…",
+  "modList.addMod": "Aggiungi Mod",
+
+  "mod.download": "Scarica",
+  "mod.downloadTitle": "Scarica mod",
+  "mod.installed": "Installata",
+  "mod.alreadyInstalledTitle": "Già installata - usa il pulsante Aggiorna",
+  "mod.update": "Aggiorna",
+  "mod.notInstalledTitle": "Mod non installata - scaricala prima",
+  "mod.updateToNeedsSpt": "Aggiorna a {version} (richiede SPT {constraint})",
+  "mod.updateTo": "Aggiorna a {version}",
+  "mod.noUpdates": "Nessun aggiornamento disponibile",
+  "mod.files": "File",
+  "mod.filesTitle": "Mostra i file scritti da questa mod",
+  "mod.remove": "Rimuovi",
+  "mod.removeTitle": "Rimuovi la mod dalla lista",
+  "mod.enable": "Abilita",
+  "mod.disable": "Disabilita",
+  "mod.enableTitle": "Riporta i file di questa mod nel server",
+  "mod.disableTitle":
+    "Sposta i file di questa mod fuori dal server senza disinstallarla",
+  "mod.disabledTag": "Disabilitata",
+  "mod.noDescription": "Nessuna descrizione",
+  "mod.version": "Versione: {version}",
+  "mod.versionAvailable": "→ {version} disponibile!",
+  "mod.sptUnknown": "Compatibilità SPT sconosciuta",
+  "mod.sptCompatible": "Compatibile con SPT {version}",
+  "mod.sptIncompatible": "Non compatibile con SPT {version}",
+  "mod.typeServer": "Mod Server",
+  "mod.typeClient": "Mod Client",
+  "mod.typeBoth": "Server e Client",
+  "mod.typeUnknown": "Tipo Sconosciuto",
+  "mod.updateNeedsSptTitle": "La versione {version} richiede SPT {constraint}",
+  "mod.updateNeedsSpt": "L'Aggiornamento Richiede SPT più Recente",
+  "mod.versionPickerLabel": "Versione di {name}",
+  "mod.versionPickerTitle": "Blocca questa mod su una release o segui l'ultima",
+  "mod.followLatest": "Ultima release",
+  "mod.pinnedTo": "Bloccata su {version}",
+  "mod.loadingVersions": "Caricamento release...",
+  "mod.updatePolicyLabel": "Criterio di aggiornamento di {name}",
+  "mod.updatePolicyTitle": "Come l'aggiornamento notturno tratta questa mod",
+  "mod.updatePolicyListDefault": "Criterio della lista",
+  "mod.updateAvailable": "Aggiornamento Disponibile",
+  "mod.requiredBy": "Richiesta da {mods}",
+  "mod.sizeUnknown": "Sconosciuta",
+  "mod.updatedAt": "Aggiornata il {date}",
+
+  "mods.structureTitle": "Scelta Installazione Mod",
+  "mods.structureMessage":
+    'La mod "{name}" non ha una struttura standard. Dove vuoi installarla? La scelta verrà ricordata per i prossimi aggiornamenti.',
+  "mods.structureServer": "Mod Server (SPT/user/mods)",
+  "mods.structureClient": "Mod Client (BepInEx/plugins)",
+  "mods.typeServer": "Server",
+  "mods.typeClient": "Client",
+  "mods.installCompleteTitle": "Installazione Completata",
+  "mods.installComplete": "Mod installata con successo come {type} Mod",
+  "mods.installCompleteMapped":
+    '"{name}" installata nelle posizioni della sua mappatura delle cartelle',
+  "mods.installFailedTitle": "Installazione Fallita",
+  "mods.installFailed": "Installazione fallita",
+  "mods.installError": "Errore durante l'installazione",
+  "mods.conflictTitle": "Conflitto di File",
+  "mods.conflictMessage":
+    'La mod "{name}" sovrascriverebbe {count} file installati da altre mod. Vuoi sovrascriverli?',
+  "mods.conflictSkip": "Non Installare",
+  "mods.conflictOverwrite": "Sovrascrivi",
+  "mods.alreadyPresentTitle": "Mod Già Presente",
+  "mods.alreadyPresent": 'La mod "{name}" è già nella lista',
+  "mods.dependenciesAddedTitle": "Dipendenze Aggiunte",
+  "mods.dependenciesAdded":
+    '{count} dipendenze di "{name}" aggiunte alla lista',
+  "mods.addedTitle": "Mod Aggiunta",
+  "mods.addedWithDependencies": 'Mod "{name}" aggiunta con {count} dipendenze',
+  "mods.added": 'Mod "{name}" aggiunta con successo',
+  "mods.addFailedTitle": "Aggiunta Mod Fallita",
+  "mods.addFailed": "Impossibile aggiungere la mod",
+  "mods.addError": "Errore durante l'aggiunta della mod",
+  "mods.emptyUrlTitle": "URL Vuoto",
+  "mods.emptyUrl": "Inserisci un URL della mod",
+  "mods.missingDependenciesTitle": "Dipendenze Mancanti",
+  "mods.missingDependencies":
+    'La mod "{name}" richiede {count} mod non presenti nella lista. Aggiungerle insieme alla mod?',
+  "mods.dependencyDetail":
+    "{name} {version} (richiesta da {requiredBy}: {constraint})",
+  "mods.dependencyUnresolvable":
+    "{name}: nessuna release soddisfa {constraint} (richiesta da {requiredBy}), non aggiunta",
+  "mods.unresolvableDependencies":
+    'Alcune dipendenze di "{name}" non hanno una release compatibile con la versione richiesta. Aggiungere comunque la mod?',
+  "mods.addAnyway": "Aggiungi Comunque",
+  "mods.addWithDependencies": "Aggiungi con Dipendenze",
+  "mods.removeTitle": "Rimuovi Mod",
+  "mods.removeConfirm": 'Rimuovere "{name}" dalla lista?',
+  "mods.removeConfirmInstalled":
+    'Rimuovere "{name}" dalla lista? Puoi anche scegliere di eliminare i file installati.',
+  "mods.removeFromList": "Rimuovi dalla Lista",
+  "mods.removedTitle": "Mod Rimossa",
+  "mods.removed": 'Mod "{name}" rimossa con successo',
+  "mods.removedWithFiles": 'Mod "{name}" rimossa con successo e file eliminati',
+  "mods.removeFailedTitle": "Rimozione Fallita",
+  "mods.removeFailed": 'Impossibile rimuovere "{name}"',
+  "mods.removeError": 'Errore durante la rimozione di "{name}"',
+  "mods.enabledTitle": "Mod abilitata",
+  "mods.disabledTitle": "Mod disabilitata",
+  "mods.enabled":
+    '"{name}" è di nuovo abilitata. Riavvia il server per caricarla.',
+  "mods.disabled": '"{name}" è disabilitata. Riavvia il server per scaricarla.',
+  "mods.pinFailedTitle": "Impossibile cambiare versione",
+  "mods.pinnedTitle": "Versione bloccata",
+  "mods.pinned": '"{name}" è bloccata su {version}',
+  "mods.unpinnedTitle": "Versione sbloccata",
+  "mods.unpinned": '"{name}" segue di nuovo l\'ultima release',
+  "mods.updatePolicyFailedTitle":
+    "Impossibile cambiare il criterio di aggiornamento",
+  "mods.updatePolicySetTitle": "Criterio di aggiornamento cambiato",
+  "mods.updatePolicySet": '"{name}" ora è impostata su {policy}',
+  "mods.updatePolicyInherited":
+    '"{name}" segue di nuovo il criterio della lista',
+  "mods.installTargetFailedTitle":
+    "Impossibile Cambiare la Posizione di Installazione",
+  "mods.installTargetSetTitle": "Posizione di Installazione Salvata",
+  "mods.installTargetSet": '"{name}" verrà installata in {target}',
+  "mods.installTargetCleared":
+    'La posizione di installazione di "{name}" verrà chiesta di nuovo',
+  "mods.pinInstallTitle": "Installa versione bloccata",
+  "mods.pinInstallConfirm":
+    '"{name}" è ora bloccata su {version}. Reinstallarla ora per sostituire i file installati?',
+  "mods.pinInstall": "Installa {version}",
+  "mods.toggleFailedTitle": "Impossibile cambiare lo stato della mod",
+  "mods.downloadTitle": "Scarica Mod",
+  "mods.downloadConfirm": 'Scaricare e installare "{name}"?',
+  "mods.downloadCompleteTitle": "Download Completato",
+  "mods.downloadComplete": 'Mod "{name}" scaricata con successo',
+  "mods.downloadFailedTitle": "Download Fallito",
+  "mods.downloadFailed": 'Impossibile scaricare "{name}"',
+  "mods.downloadError": 'Errore durante il download di "{name}"',
+  "mods.downloadAllFailed": 'Impossibile scaricare le mod di "{list}"',
+  "mods.downloadAllError": 'Errore durante il download delle mod di "{list}"',
+  "mods.summaryInstalled": "{count} mod installate o già presenti",
+  "mods.summaryUpdated": "{count} mod aggiornate",
+  "mods.summaryPending": "{count} in attesa di scelta",
+  "mods.summaryConflicts": "{count} con conflitti di file",
+  "mods.summaryFailed": "{count} fallite: {mods}",
+  "mods.summaryCancelled": "{count} annullate",
+  "mods.downloadCancelledTitle": "Download Annullato",
+  "mods.downloadWithErrorsTitle": "Download Completato con Errori",
+  "mods.downloadAllSucceeded": "Tutte le {count} mod scaricate con successo!",
+  "mods.downloadAllPartial": "{succeeded} mod scaricate, {failed} fallite",
+  "mods.emptyListTitle": "Lista Vuota",
+  "mods.emptyList": "La lista non contiene mod",
+  "mods.downloadAllTitle": "Scarica Tutte le Mod",
+  "mods.downloadAllConfirm":
+    'Scaricare e installare tutte le {count} mod di "{list}"? Le mod già installate verranno saltate.',
+  "mods.forceUpdateTitle": "Aggiorna Mod Forzatamente",
+  "mods.forceUpdateConfirm":
+    'Aggiornare forzatamente "{name}"? La versione esistente verrà sovrascritta, ma ne viene prima creato uno snapshot per poterla ripristinare.',
+  "mods.updatedTitle": "Aggiornamento Completato",
+  "mods.updated": 'Mod "{name}" aggiornata con successo',
+  "mods.updateFailedTitle": "Aggiornamento Fallito",
+  "mods.updateFailed": 'Impossibile aggiornare "{name}"',
+  "mods.updateError": 'Errore durante l\'aggiornamento di "{name}"',
+  "mods.updateAllCompleteTitle": "Aggiornamenti Completati",
+  "mods.updateAllCancelledTitle": "Aggiornamenti Annullati",
+  "mods.updateAllFailed": 'Impossibile aggiornare le mod di "{list}"',
+
+  "progress.phase.queued": "In coda",
+  "progress.phase.fetching_metadata": "Lettura metadati",
+  "progress.phase.downloading": "Download",
+  "progress.phase.extracting": "Estrazione",
+  "progress.phase.installing": "Installazione",
+  "progress.phase.awaiting_choice": "In attesa della destinazione",
+  "progress.phase.completed": "Installata",
+  "progress.phase.skipped": "Saltata",
+  "progress.phase.failed": "Fallita",
+  "progress.phase.cancelled": "Annullata",
+  "progress.cancelling": "Annullamento...",
+  "progress.done": "{finished} / {total} completate",
+  "progress.cancelled": "Annullato",
+  "progress.finishedWithErrors": "Terminato con {count} errori",
+  "progress.finished": "Terminato",
+  "progress.title": "Download di {label}",
+  "progress.cancelTitle": "Annulla i download rimanenti",
+  "progress.closeTitle": "Chiudi il pannello di avanzamento",
+
+  "conflicts.title": "Conflitti di File",
+  "conflicts.checking": "Controllo dei file installati...",
+  "conflicts.found": "{count} file scritti da più di una mod",
+  "conflicts.none": "Nessun conflitto di file tra le mod installate",
+  "conflicts.refreshTitle": "Controlla di nuovo i conflitti",
+  "conflicts.current": "Il file su disco è la versione di questa mod",
+  "conflicts.overwritten": "Sovrascritto da un'altra mod",
+
+  "loadOrder.title": "Ordine di caricamento",
+  "loadOrder.count": "{count} mod server",
+  "loadOrder.warnings": "{count} problema/i nell'ordine di caricamento",
+  "loadOrder.refreshTitle": "Ricarica ordine di caricamento",
+  "loadOrder.hint":
+    "Trascina le mod server per cambiare l'ordine in cui SPT le carica. Le mod successive sovrascrivono le precedenti.",
+  "loadOrder.notInstalled": "Non installata",
+  "loadOrder.disabled": "Disabilitata, non caricata",
+  "loadOrder.rule.load_after": "{mod} deve essere caricata dopo {other}",
+  "loadOrder.rule.load_before": "{mod} deve essere caricata prima di {other}",
+  "loadOrder.saveFailed": "Salvataggio ordine di caricamento non riuscito",
+
+  "files.status.ok": "Invariato",
+  "files.status.modified": "Modificato dopo l'installazione",
+  "files.status.missing": "Mancante",
+  "files.notTracked":
+    "Nessun elenco file per questa mod. È stata installata prima del tracciamento dei file o non è installata; reinstallala per registrarne i file.",
+  "files.summary": "{count} file, versione {version}, installata il {date}",
+  "files.changed": " — {count} modificati o mancanti",
+  "files.loading": "Caricamento file…",
+  "files.refreshTitle": "Verifica di nuovo i file",
+
+  "diff.open": "Confronta",
+  "diff.openTitle": "Confronta questa lista con un'altra",
+  "diff.title": "Confronta liste",
+  "diff.subtitle":
+    "Vedi cosa cambia tra due liste di mod e copia mod o versioni dall'una all'altra",
+  "diff.refreshTitle": "Confronta di nuovo",
+  "diff.noOtherList": "Non ci sono altre liste con cui confrontare.",
+  "diff.summary":
+    "{identical} identiche · {changed} con versioni diverse · {left} e {right} solo in una lista",
+  "diff.sptDiffers": "SPT {left} contro {right}",
+  "diff.identical": "Le due liste hanno le stesse mod alle stesse versioni.",
+  "diff.versionDifferences": "Versioni diverse",
+  "diff.mod": "Mod",
+  "diff.onlyIn": "Solo in {list}",
+  "diff.copyInto": "Copia {count} in {list}",
+  "diff.copyIntoTitle":
+    "Aggiunge le mod selezionate di {source} a {target}, o le porta alla versione di {source}",
+  "diff.pickedTitle": "Mod copiate",
+  "diff.pickFailed": "Impossibile copiare le mod",
+  "activation.activate": "Attiva",
+  "activation.activateTitle": "Allinea le mod installate a questa lista",
+  "activation.active": "Attiva",
+  "activation.activeTitle": "Le mod installate corrispondono a questa lista",
+  "activation.outOfSync": "Attiva, non allineata",
+  "activation.outOfSyncTitle":
+    "Sono state installate, aggiornate o rimosse mod dopo l'attivazione di questa lista",
+  "activation.title": 'Attiva "{list}"',
+  "activation.loading": "Confronto delle mod installate con la lista...",
+  "activation.summary":
+    "{install} da installare, {update} da aggiornare, {remove} da rimuovere.",
+  "activation.inSync": 'Le mod installate corrispondono già a "{list}".',
+  "activation.columnInstalled": "Installata",
+  "activation.columnTarget": "Lista",
+  "activation.unmanaged": "Installazione non tracciata",
+  "activation.action.install": "Installa",
+  "activation.action.update": "Aggiorna",
+  "activation.action.remove": "Rimuovi",
+  "activation.action.keep": "Mantieni",
+  "activation.apply": "Attiva",
+  "activation.applying": "Attivazione...",
+  "activation.removed": "{count} mod rimosse",
+  "activation.failedTitle": "Attivazione non riuscita",
+  "activation.failed": 'Impossibile attivare "{list}"',
+  "bisect.title": "Bisect dei crash",
+  "bisect.subtitle": "Trova la mod server che impedisce l'avvio di SPT",
+  "bisect.intro":
+    "Ogni round abilita metà dei sospetti rimasti, disabilita gli altri e riavvia il server. Indica se il server si è avviato e i sospetti si restringono fino a una sola mod, poi tutte le mod e il server tornano come prima.",
+  "bisect.start": "Avvia bisect",
+  "bisect.startConfirmTitle": "Avvia bisect dei crash",
+  "bisect.startConfirm":
+    "Il server verrà riavviato a ogni round con parte delle mod server di questa lista disabilitate. I giocatori connessi verranno disconnessi. Continuare?",
+  "bisect.startFailed": "Impossibile avviare il bisect",
+  "bisect.roundStatus": "Round {round} · {count} sospetti rimasti",
+  "bisect.roundInfo":
+    "Round {round}: il server è stato riavviato con {enabled} sospetti abilitati su {suspects} (circa {left} round rimanenti).",
+  "bisect.detected.pending":
+    "In attesa che la console del server mostri se si è avviato…",
+  "bisect.detected.booted": "La console mostra che il server si è avviato.",
+  "bisect.detected.crashed": "La console mostra che il server si è chiuso.",
+  "bisect.booted": "Si è avviato",
+  "bisect.crashed": "È crashato",
+  "bisect.outcomeFailed": "Impossibile registrare il risultato",
+  "bisect.cancel": "Annulla bisect",
+  "bisect.cancelTitle": "Interrompi il bisect e ripristina le mod originali",
+  "bisect.cancelConfirmTitle": "Annulla bisect",
+  "bisect.cancelConfirm":
+    "Tutte le mod torneranno abilitate come prima del bisect e il server tornerà allo stato originale.",
+  "bisect.endFailed": "Impossibile terminare il bisect",
+  "bisect.culprit": "Colpevole: {name}",
+  "bisect.foundTitle": "Colpevole trovato",
+  "bisect.found":
+    '"{name}" impedisce l\'avvio del server. Le tue mod sono state ripristinate.',
+  "bisect.foundInfo":
+    'Dopo {rounds} round il colpevole è "{name}". Tutte le mod sono tornate come prima del bisect.',
+  "bisect.disableCulprit": "Disabilitala",
+  "bisect.dismiss": "Chiudi",
+  "updatePolicy.title": "Aggiornamenti automatici",
+  "updatePolicy.subtitle": "Criterio di aggiornamento e storico notturno",
+  "updatePolicy.refreshTitle": "Ricarica lo storico degli aggiornamenti",
+  "updatePolicy.listPolicy": 'Criterio di "{list}"',
+  "updatePolicy.policy.auto": "Applica le patch automaticamente",
+  "updatePolicy.policy.notify": "Solo notifica",
+  "updatePolicy.policy.frozen": "Bloccata",
+  "updatePolicy.hint.auto":
+    "Le patch (es. 1.2.0 → 1.2.3) compatibili con la versione SPT della lista vengono applicate ogni notte; gli aggiornamenti maggiori vengono solo segnalati.",
+  "updatePolicy.hint.notify":
+    "Gli aggiornamenti vengono segnalati ma mai applicati automaticamente.",
+  "updatePolicy.hint.frozen":
+    "Nessun aggiornamento viene cercato o proposto. Le mod si possono comunque aggiornare a mano.",
+  "updatePolicy.runNow": "Esegui ora",
+  "updatePolicy.runNowTitle":
+    "Applica ora gli aggiornamenti consentiti a questa lista",
+  "updatePolicy.runFinishedTitle": "Aggiornamento completato",
+  "updatePolicy.runSummary":
+    "{applied} applicati, {available} disponibili, {failed} falliti",
+  "updatePolicy.runNoChanges": "Nessun aggiornamento trovato",
+  "updatePolicy.runScheduled": "notturno",
+  "updatePolicy.runFailed": "Aggiornamento fallito",
+  "updatePolicy.saveFailed":
+    "Impossibile cambiare il criterio di aggiornamento",
+  "updatePolicy.empty": "Nessun aggiornamento eseguito finora.",
+  "updatePolicy.reinstalled": "{list}, reinstallata",
+  "updatePolicy.outcome.applied": "Applicato",
+  "updatePolicy.outcome.available": "Disponibile",
+  "updatePolicy.outcome.failed": "Fallito",
+  "changelog.toggle": "Novità ({count} release)",
+  "changelog.noNotes": "Nessuna nota di rilascio.",
+  "changelog.reviewTitle": "Verifica aggiornamento: {name}",
+  "changelog.reviewVersions": "{from} → {to}",
+  "changelog.unavailable":
+    "Nessuna nota di rilascio trovata per questo aggiornamento. Esegui un controllo aggiornamenti per scaricarle da Forge.",
+  "updateAll.title": "Aggiorna mod ({count} disponibili)",
+  "updateAll.summary":
+    "Scegli le mod da aggiornare. Vengono aggiornate una dopo l'altra in un unico job, con uno snapshot prima di ciascuna.",
+  "updateAll.selectAll": "Seleziona tutte le mod",
+  "updateAll.select": "Seleziona {name}",
+  "updateAll.columnVersions": "Versioni",
+  "updateAll.columnNotes": "Note di rilascio",
+  "updateAll.notInstalled": "Non installata, verrà scaricata",
+  "updateAll.confirm": "Aggiorna {count} mod",
+  "installTarget.label": "Posizione di installazione di {name}",
+  "installTarget.title":
+    "Dove vanno i file di questa mod quando l'archivio non ha una cartella SPT o BepInEx",
+  "installTarget.ask": "Chiedi all'installazione",
+  "installTarget.kind.server": "Server (SPT/user/mods)",
+  "installTarget.kind.client": "Client (BepInEx/plugins)",
+  "installTarget.kind.custom": "Cartella personalizzata…",
+  "installTarget.kind.mapped": "Mappatura cartelle",
+  "installTarget.editPath": "Cambia cartella…",
+  "installTarget.customTitle": "Cartella di Installazione Personalizzata",
+  "installTarget.customMessage":
+    'Cartella, relativa alla directory del server, in cui vengono copiati i file di "{name}".',
+  "structure.root": "Radice dell'archivio",
+  "structure.loading": "Lettura dell'archivio…",
+  "structure.mappingHint":
+    "Oppure mappa le cartelle una per una: ogni file va dove va la cartella mappata più vicina sopra di esso, e i file sotto nessuna cartella mappata non vengono installati.",
+  "structure.mapFolder": "Posizione di installazione di {folder}",
+  "structure.inherit": "Come la cartella superiore ({target})",
+  "structure.notInstalled": "Non mappata",
+  "structure.target.server": "Server (SPT/user/mods)",
+  "structure.target.client": "Client (BepInEx/plugins)",
+  "structure.target.config": "Configurazione (BepInEx/config)",
+  "structure.target.skip": "Salta",
+  "structure.later": "Decidi Dopo",
+  "structure.installMapped": "Installa con Mappatura",
+  "structure.installMappedTitle":
+    "Installa ogni cartella dove è mappata; la mappatura viene riutilizzata nei prossimi aggiornamenti",
+  "snapshots.title": "Snapshot",
+  "snapshots.subtitle":
+    "Creati automaticamente prima degli aggiornamenti di SPT, Fika e mod",
+  "snapshots.refreshTitle": "Ricarica snapshot",
+  "snapshots.empty": "Ancora nessuno snapshot.",
+  "snapshots.kind.spt": "SPT",
+  "snapshots.kind.fika": "Fika",
+  "snapshots.kind.mod": "Mod",
+  "snapshots.meta": "{date} · {count} file · {size}",
+  "snapshots.restore": "Ripristina",
+  "snapshots.restoreTitle": "Ripristina questi file e riavvia il server",
+  "snapshots.deleteTitle": "Elimina snapshot",
+  "snapshots.restoreConfirmTitle": "Ripristina Snapshot",
+  "snapshots.restoreConfirm":
+    'Tornare a "{label}"? Verranno ripristinati {files} file, eliminati {added} file aggiunti dall\'aggiornamento e il server verrà riavviato.',
+  "snapshots.restoredTitle": "Snapshot Ripristinato",
+  "snapshots.restoreFailed": "Ripristino Fallito",
+  "snapshots.deleteConfirmTitle": "Elimina Snapshot",
+  "snapshots.deleteConfirm":
+    'Eliminare lo snapshot "{label}"? Non potrai più tornare a questo stato.',
+  "snapshots.deleteFailed": "Eliminazione Fallita",
+
+  "jobs.title": "Job",
+  "jobs.active": "{count} in corso",
+  "jobs.subtitle": "Download e aggiornamenti vengono eseguiti sul server",
+  "jobs.refreshTitle": "Ricarica job",
+  "jobs.empty": "Nessun job eseguito finora.",
+  "jobs.showLog": "Mostra log",
+  "jobs.cancelTitle": "Annulla job",
+  "jobs.cancelFailed": "Annullamento Fallito",
+  "jobs.status.queued": "In coda",
+  "jobs.status.running": "In esecuzione",
+  "jobs.status.succeeded": "Completato",
+  "jobs.status.awaiting_choice": "Richiede una scelta",
+  "jobs.status.failed": "Fallito",
+  "jobs.status.cancelled": "Annullato",
+
+  "server.title": "Stato del Server",
+  "server.refreshTitle": "Controlla aggiornamenti di SPT, Fika e mod",
+  "server.status": "Stato",
+  "server.online": "Online",
+  "server.offline": "Offline",
+  "server.version": "Versione",
+  "server.uptime": "Uptime",
+  "server.players": "Giocatori",
+  "server.updatesTitle": "Aggiornamenti Disponibili",
+  "server.updatesFound": "Trovati aggiornamenti per: {updates}",
+  "server.modUpdates": "{count} mod",
+  "server.upToDateTitle": "Tutto Aggiornato",
+  "server.upToDate": "Nessun aggiornamento disponibile per SPT, Fika o mod",
+  "server.refreshFailedTitle": "Aggiornamento Fallito",
+  "server.refreshFailed": "Si è verificato un errore durante l'aggiornamento",
+  "server.start": "Avvia",
+  "server.stop": "Arresta",
+  "server.restart": "Riavvia",
+  "server.startTitle": "Avvia il server SPT",
+  "server.stopTitle": "Arresta il server SPT",
+  "server.restartTitle": "Riavvia il server SPT",
+  "server.stopConfirmTitle": "Arresta server",
+  "server.stopConfirm":
+    "Arrestare il server SPT? I giocatori connessi verranno disconnessi.",
+  "server.restartConfirmTitle": "Riavvia server",
+  "server.restartConfirm":
+    "Riavviare il server SPT? I giocatori connessi verranno disconnessi.",
+  "server.startDoneTitle": "Server avviato",
+  "server.stopDoneTitle": "Server arrestato",
+  "server.restartDoneTitle": "Server riavviato",
+  "server.startFailedTitle": "Avvio non riuscito",
+  "server.stopFailedTitle": "Arresto non riuscito",
+  "server.restartFailedTitle": "Riavvio non riuscito",
+
+  "console.title": "Console del server",
+  "console.subtitle": "Output in tempo reale del server SPT",
+  "console.connecting": "Connessione...",
+  "console.notAttached":
+    "Il server è stato avviato fuori dal manager; riavvialo da qui per catturarne l'output",
+  "console.lines": "{count} riga/e",
+  "console.matches": "{count} di {total} riga/e corrispondono",
+  "console.searchPlaceholder": "Cerca nell'output...",
+  "console.autoScroll": "Scorrimento automatico",
+  "console.clearTitle": "Svuota la vista della console",
+  "console.empty": "Ancora nessun output.",
+  "console.noMatches": "Nessuna riga corrisponde alla ricerca.",
+
+  "logs.open": "Log",
+  "logs.openTitle": "Apri i log di SPT e BepInEx",
+  "logs.title": "Log del server",
+  "logs.subtitle":
+    "Log del server SPT e di BepInEx, con gli errori ricondotti alle tue mod",
+  "logs.backToList": "Torna a {list}",
+  "logs.source.spt": "SPT",
+  "logs.source.bepinex": "BepInEx",
+  "logs.fileOption": "{source} · {path} ({size}, {date})",
+  "logs.errorsOnly": "Solo errori",
+  "logs.refreshTitle": "Ricarica i log",
+  "logs.noFiles": "Nessun file di log trovato.",
+  "logs.range": "Righe {first}–{last} di {total}",
+  "logs.errors": "{count} riga/e di errore",
+  "logs.modLinkTitle": "Mostra questa mod nella lista",
+  "logs.empty": "Questa parte del log è vuota.",
+  "logs.noErrors": "Nessun errore in questa pagina.",
+  "logs.older": "Precedenti",
+  "logs.newer": "Successive",
+  "logs.latest": "Più recenti",
+
+  "updates.available": "Aggiornamento di {product} Disponibile!",
+  "updates.versions": "Attuale: {current} → Nuova: {latest}",
+  "updates.updating": "Aggiornamento...",
+  "updates.update": "Aggiorna {product}",
+  "updates.confirmTitle": "Aggiorna {product}",
+  "updates.confirm":
+    "Aggiornare {product} da {current} a {latest}? Prima viene creato uno snapshot dei file sostituiti per poter tornare indietro. Il server verrà riavviato automaticamente.",
+  "updates.confirmButton": "Aggiorna",
+  "updates.doneTitle": "{product} Aggiornato",
+  "updates.done": "{product} aggiornato con successo! Riavvio del server...",
+  "updates.failedTitle": "Aggiornamento di {product} Fallito",
+
+  "sptVersion.selectLabel": "Seleziona versione SPT",
+  "sptVersion.selectTitle": "Scegli la versione SPT",
+  "sptVersion.optionIncompatible": "{version} ({count} incompatibili)",
+  "sptVersion.title": "Versione SPT",
+  "sptVersion.changed":
+    'Versione SPT cambiata in {version} per la lista "{list}"',
+  "sptVersion.reinstallTitle": "Reinstallazione Necessaria",
+  "sptVersion.reinstall":
+    "{message}. Scarica di nuovo queste mod per installare le versioni pianificate: {mods}",
+
+  "sptPlan.title": "Passa a SPT {version}",
+  "sptPlan.loading": "Controllo delle release Forge di ogni mod…",
+  "sptPlan.summary": "{count} mod cambieranno versione.",
+  "sptPlan.summaryBlocking":
+    "{count} mod cambieranno versione, {blocking} non hanno una release per SPT {version}.",
+  "sptPlan.columnMod": "Mod",
+  "sptPlan.columnCurrent": "Attuale",
+  "sptPlan.columnAction": "Azione",
+  "sptPlan.columnPlanned": "Pianificata",
+  "sptPlan.action.keep": "Mantieni",
+  "sptPlan.action.upgrade": "Aggiorna",
+  "sptPlan.action.downgrade": "Retrocedi",
+  "sptPlan.action.no_compatible_release": "Nessuna release compatibile",
+  "sptPlan.action.unknown": "Sconosciuta",
+  "sptPlan.switchOnly": "Cambia Solo Versione",
+  "sptPlan.switchOnlyTitle":
+    "Cambia la versione SPT della lista senza modificare le versioni delle mod",
+  "sptPlan.applying": "Applicazione…",
+  "sptPlan.apply": "Applica Piano",
+};
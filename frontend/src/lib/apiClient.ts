@@ -0,0 +1,826 @@
+// lib/apiClient.ts
+import type {
+  Mod,
+  SptVersion,
+  UpdateInfo,
+  ServerStatusInfo,
+  MessageResponse,
+  CreateListResponse,
+  DuplicateListResponse,
+  ModListExport,
+  ImportValidation,
+  ListImportResult,
+  SelectedSptVersionResponse,
+  InstalledResponse,
+  InstallManifest,
+  ListFileConflict,
+  LoadOrder,
+  ListDiff,
+  ActivationPlan,
+  ActiveListState,
+  BisectOutcome,
+  BisectResponse,
+  BisectSession,
+  Snapshot,
+  Job,
+  JobRequest,
+  LogFile,
+  LogPage,
+  DownloadResult,
+  DownloadModResponse,
+  CompleteInstallationRequest,
+  CompleteInstallationResponse,
+  AddModResponse,
+  DependencyResolution,
+  SptSwitchPlan,
+  ApplySptSwitchPlanResponse,
+  RemoveModResponse,
+  SetModEnabledResponse,
+  PinModVersionResponse,
+  SetModUpdatePolicyResponse,
+  SetModInstallTargetResponse,
+  InstallTarget,
+  ArchiveEntry,
+  UpdatePolicy,
+  UpdatePolicyResponse,
+  UpdateRun,
+  ModRelease,
+  ForceUpdateResponse,
+} from "../hooks/types";
+import { translate } from "../i18n";
+
+export const DEFAULT_TIMEOUT_MS = 30 * 1000;
+export const LONG_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const JOB_POLL_INTERVAL_MS = 1000;
+
+export type ApiErrorKind =
+  | "http"
+  | "network"
+  | "timeout"
+  | "aborted"
+  | "parse"
+  | "job";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number;
+  readonly method: string;
+  readonly url: string;
+  readonly body?: unknown;
+
+  constructor(options: {
+    kind: ApiErrorKind;
+    message: string;
+    method: string;
+    url: string;
+    status?: number;
+    body?: unknown;
+  }) {
+    super(options.message);
+    this.name = "ApiError";
+    this.kind = options.kind;
+    this.status = options.status ?? 0;
+    this.method = options.method;
+    this.url = options.url;
+    this.body = options.body;
+  }
+
+  get isNotFound(): boolean {
+    return this.kind === "http" && this.status === 404;
+  }
+
+  get isServerError(): boolean {
+    return this.kind === "http" && this.status >= 500;
+  }
+}
+
+export type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ApiError };
+
+type QueryValue = string | number | boolean | undefined;
+
+export interface RequestOptions {
+  method?: "GET" | "POST" | "DELETE";
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+const seg = (value: string | number) => encodeURIComponent(String(value));
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>) => {
+  if (!query) return path;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.append(key, String(value));
+  });
+
+  const queryString = params.toString();
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  const contentType = response.headers.get("Content-Type") || "";
+  if (contentType.includes("json")) {
+    return JSON.parse(text);
+  }
+  return text;
+};
+
+const errorMessageFrom = (body: unknown, response: Response): string => {
+  if (body && typeof body === "object") {
+    const { error, message } = body as { error?: unknown; message?: unknown };
+    if (typeof error === "string" && error) return error;
+    if (typeof message === "string" && message) return message;
+  }
+  if (typeof body === "string" && body.trim()) return body.trim();
+  return `${translate("api.requestFailed", { status: response.status })}${
+    response.statusText ? ` (${response.statusText})` : ""
+  }`;
+};
+
+export async function request<T>(
+  path: string,
+  {
+    method = "GET",
+    body,
+    query,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+  }: RequestOptions = {}
+): Promise<T> {
+  const url = buildUrl(path, query);
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timeoutId =
+    timeoutMs > 0
+      ? window.setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const abortFromCaller = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener("abort", abortFromCaller, { once: true });
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers:
+        body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError({
+        kind: "timeout",
+        message: translate("api.timeout", {
+          seconds: Math.round(timeoutMs / 1000),
+        }),
+        method,
+        url,
+      });
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError({
+        kind: "aborted",
+        message: translate("api.cancelled"),
+        method,
+        url,
+      });
+    }
+    throw new ApiError({
+      kind: "network",
+      message: translate("api.network", {
+        reason: (error as Error).message || translate("api.unreachable"),
+      }),
+      method,
+      url,
+    });
+  } finally {
+    if (timeoutId !== undefined) window.clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+
+  let responseBody: unknown;
+  try {
+    responseBody = await readBody(response);
+  } catch {
+    throw new ApiError({
+      kind: "parse",
+      message: translate("api.invalidResponse"),
+      method,
+      url,
+      status: response.status,
+    });
+  }
+
+  if (!response.ok) {
+    throw new ApiError({
+      kind: "http",
+      message: errorMessageFrom(responseBody, response),
+      method,
+      url,
+      status: response.status,
+      body: responseBody,
+    });
+  }
+
+  return responseBody as T;
+}
+
+export async function settle<T>(promise: Promise<T>): Promise<ApiResult<T>> {
+  try {
+    return { success: true, data: await promise };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ApiError({
+        kind: "network",
+        message: (error as Error)?.message || translate("api.unexpected"),
+        method: "GET",
+        url: "",
+      }),
+    };
+  }
+}
+
+type CallOptions = Pick<RequestOptions, "signal" | "timeoutMs">;
+
+interface DownloadCallOptions extends CallOptions {
+  operationId?: string;
+  overwriteConflicts?: boolean;
+}
+
+export const api = {
+  lists: {
+    names: (options?: CallOptions) =>
+      request<string[]>("/api/mod_lists", options),
+
+    mods: (listName?: string, options?: CallOptions) =>
+      request<Mod[]>(
+        listName ? `/api/mod_list/${seg(listName)}` : "/api/mod_list",
+        options
+      ),
+
+    create: (name: string, options?: CallOptions) =>
+      request<CreateListResponse>("/api/mod_list", {
+        ...options,
+        method: "POST",
+        body: { name },
+      }),
+
+    duplicate: (
+      listName: string,
+      newName: string,
+      installedOnly: boolean,
+      options?: CallOptions
+    ) =>
+      request<DuplicateListResponse>(
+        `/api/mod_list/${seg(listName)}/duplicate`,
+        { ...options, method: "POST", body: { newName, installedOnly } }
+      ),
+
+    export: (listName: string, options?: CallOptions) =>
+      request<ModListExport>(`/api/mod_list/${seg(listName)}/export`, options),
+
+    validateImport: (document: unknown, options?: CallOptions) =>
+      request<ImportValidation>("/api/mod_list/import/validate", {
+        ...options,
+        method: "POST",
+        body: document,
+      }),
+
+    import: (document: unknown, options?: CallOptions) =>
+      request<ListImportResult>("/api/mod_list/import", {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+        body: document,
+      }),
+
+    rename: (oldName: string, newName: string, options?: CallOptions) =>
+      request<MessageResponse>("/api/mod_list/rename", {
+        ...options,
+        method: "POST",
+        body: { oldName, newName },
+      }),
+
+    remove: (listName: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/mod_list/${seg(listName)}`, {
+        ...options,
+        method: "DELETE",
+      }),
+
+    getSptVersion: (listName: string, options?: CallOptions) =>
+      request<SelectedSptVersionResponse>(
+        `/api/mod_list/${seg(listName)}/spt_version`,
+        options
+      ),
+
+    setSptVersion: (
+      listName: string,
+      sptVersion: string,
+      options?: CallOptions
+    ) =>
+      request<MessageResponse>(`/api/mod_list/${seg(listName)}/spt_version`, {
+        ...options,
+        method: "POST",
+        body: { sptVersion },
+      }),
+
+    getUpdatePolicy: (listName: string, options?: CallOptions) =>
+      request<UpdatePolicyResponse>(
+        `/api/mod_list/${seg(listName)}/update_policy`,
+        options
+      ),
+
+    setUpdatePolicy: (
+      listName: string,
+      policy: UpdatePolicy,
+      options?: CallOptions
+    ) =>
+      request<MessageResponse>(`/api/mod_list/${seg(listName)}/update_policy`, {
+        ...options,
+        method: "POST",
+        body: { policy },
+      }),
+
+    planSptVersion: (listName: string, target: string, options?: CallOptions) =>
+      request<SptSwitchPlan>(
+        `/api/mod_list/${seg(listName)}/spt_version/plan`,
+        { timeoutMs: LONG_TIMEOUT_MS, ...options, query: { target } }
+      ),
+
+    applySptVersionPlan: (
+      listName: string,
+      sptVersion: string,
+      planHash: string,
+      options?: CallOptions
+    ) =>
+      request<ApplySptSwitchPlanResponse>(
+        `/api/mod_list/${seg(listName)}/spt_version/apply`,
+        {
+          timeoutMs: LONG_TIMEOUT_MS,
+          ...options,
+          method: "POST",
+          body: { sptVersion, planHash },
+        }
+      ),
+
+    conflicts: (listName: string, options?: CallOptions) =>
+      request<ListFileConflict[]>(
+        `/api/mod_list/${seg(listName)}/conflicts`,
+        options
+      ),
+
+    loadOrder: (listName: string, options?: CallOptions) =>
+      request<LoadOrder>(`/api/mod_list/${seg(listName)}/load_order`, options),
+
+    setLoadOrder: (listName: string, order: number[], options?: CallOptions) =>
+      request<LoadOrder>(`/api/mod_list/${seg(listName)}/load_order`, {
+        ...options,
+        method: "POST",
+        body: { order },
+      }),
+
+    diff: (listName: string, otherList: string, options?: CallOptions) =>
+      request<ListDiff>(
+        `/api/mod_list/${seg(listName)}/diff/${seg(otherList)}`,
+        options
+      ),
+
+    activationPlan: (listName: string, options?: CallOptions) =>
+      request<ActivationPlan>(
+        `/api/mod_list/${seg(listName)}/activation_plan`,
+        options
+      ),
+
+    active: (options?: CallOptions) =>
+      request<ActiveListState>("/api/active_list", options),
+
+    cherryPick: (
+      listName: string,
+      sourceList: string,
+      modIds: number[],
+      options?: CallOptions
+    ) =>
+      request<MessageResponse>(`/api/mod_list/${seg(listName)}/cherry_pick`, {
+        ...options,
+        method: "POST",
+        body: { sourceList, modIds },
+      }),
+  },
+
+  bisect: {
+    get: (listName: string, options?: CallOptions) =>
+      request<BisectSession>(`/api/mod_list/${seg(listName)}/bisect`, options),
+
+    start: (listName: string, options?: CallOptions) =>
+      request<BisectResponse>(`/api/mod_list/${seg(listName)}/bisect`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+      }),
+
+    submitOutcome: (
+      listName: string,
+      outcome: BisectOutcome,
+      options?: CallOptions
+    ) =>
+      request<BisectResponse>(`/api/mod_list/${seg(listName)}/bisect/outcome`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+        body: { outcome },
+      }),
+
+    end: (listName: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/mod_list/${seg(listName)}/bisect`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "DELETE",
+      }),
+  },
+
+  mods: {
+    add: (
+      listName: string,
+      url: string,
+      includeDependencies = false,
+      options?: CallOptions
+    ) =>
+      request<AddModResponse>(`/api/mod_list/${seg(listName)}/add_mod`, {
+        ...options,
+        method: "POST",
+        body: { url, includeDependencies },
+      }),
+
+    resolveDependencies: (
+      listName: string,
+      url: string,
+      options?: CallOptions
+    ) =>
+      request<DependencyResolution>(
+        `/api/mod_list/${seg(listName)}/resolve_dependencies`,
+        {
+          timeoutMs: LONG_TIMEOUT_MS,
+          ...options,
+          method: "POST",
+          body: { url },
+        }
+      ),
+
+    remove: (
+      listName: string,
+      modId: number,
+      deleteFiles = false,
+      options?: CallOptions
+    ) =>
+      request<RemoveModResponse>(
+        `/api/mod_list/${seg(listName)}/remove_mod/${seg(modId)}`,
+        {
+          ...options,
+          method: "DELETE",
+          query: deleteFiles ? { deleteFiles: true } : undefined,
+        }
+      ),
+
+    setEnabled: (
+      listName: string,
+      modId: number,
+      enabled: boolean,
+      options?: CallOptions
+    ) =>
+      request<SetModEnabledResponse>(
+        `/api/mod_list/${seg(listName)}/set_enabled/${seg(modId)}`,
+        { ...options, method: "POST", body: { enabled } }
+      ),
+
+    pinVersion: (
+      listName: string,
+      modId: number,
+      version: string | null,
+      options?: CallOptions
+    ) =>
+      request<PinModVersionResponse>(
+        `/api/mod_list/${seg(listName)}/pin_version/${seg(modId)}`,
+        { ...options, method: "POST", body: { version } }
+      ),
+
+    setUpdatePolicy: (
+      listName: string,
+      modId: number,
+      policy: UpdatePolicy | null,
+      options?: CallOptions
+    ) =>
+      request<SetModUpdatePolicyResponse>(
+        `/api/mod_list/${seg(listName)}/update_policy/${seg(modId)}`,
+        { ...options, method: "POST", body: { policy } }
+      ),
+
+    setInstallTarget: (
+      listName: string,
+      modId: number,
+      target: InstallTarget | null,
+      options?: CallOptions
+    ) =>
+      request<SetModInstallTargetResponse>(
+        `/api/mod_list/${seg(listName)}/install_target/${seg(modId)}`,
+        {
+          ...options,
+          method: "POST",
+          body: { kind: target?.kind ?? null, path: target?.path ?? null },
+        }
+      ),
+
+    versions: (modId: number, options?: CallOptions) =>
+      request<ModRelease[]>(`/api/mods/${seg(modId)}/versions`, options),
+
+    isInstalled: (listName: string, modId: number, options?: CallOptions) =>
+      request<InstalledResponse>(
+        `/api/mod_list/${seg(listName)}/is_installed/${seg(modId)}`,
+        options
+      ),
+
+    installedFiles: (listName: string, modId: number, options?: CallOptions) =>
+      request<InstallManifest>(
+        `/api/mod_list/${seg(listName)}/installed_files/${seg(modId)}`,
+        options
+      ),
+
+    download: (
+      listName: string,
+      modId: number,
+      { operationId, overwriteConflicts, ...options }: DownloadCallOptions = {}
+    ) =>
+      request<DownloadModResponse>(
+        `/api/mod_list/${seg(listName)}/download_mod/${seg(modId)}`,
+        {
+          timeoutMs: LONG_TIMEOUT_MS,
+          ...options,
+          method: "POST",
+          query: { operationId, overwriteConflicts },
+        }
+      ),
+
+    downloadAll: (
+      listName: string,
+      { operationId, ...options }: DownloadCallOptions = {}
+    ) =>
+      request<DownloadResult[]>(`/api/mod_list/${seg(listName)}/download_all`, {
+        timeoutMs: 0,
+        ...options,
+        method: "POST",
+        query: { operationId },
+      }),
+
+    pendingTree: (tempExtractPath: string, options?: CallOptions) =>
+      request<ArchiveEntry>("/api/pending_installation/tree", {
+        ...options,
+        query: { path: tempExtractPath },
+      }),
+
+    completeInstallation: (
+      listName: string,
+      payload: CompleteInstallationRequest,
+      options?: CallOptions
+    ) =>
+      request<CompleteInstallationResponse>(
+        `/api/mod_list/${seg(listName)}/complete_installation`,
+        {
+          timeoutMs: LONG_TIMEOUT_MS,
+          ...options,
+          method: "POST",
+          body: payload,
+        }
+      ),
+
+    checkUpdates: (listName: string, options?: CallOptions) =>
+      request<Mod[]>(`/api/mod_list/${seg(listName)}/check_updates`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+      }),
+
+    updateRuns: (options?: CallOptions) =>
+      request<UpdateRun[]>("/api/update_runs", options),
+
+    checkUpdate: (listName: string, modId: number, options?: CallOptions) =>
+      request<Mod>(
+        `/api/mod_list/${seg(listName)}/check_update/${seg(modId)}`,
+        options
+      ),
+
+    forceUpdate: (
+      listName: string,
+      modId: number,
+      overwriteConflicts = false,
+      options?: CallOptions
+    ) =>
+      request<ForceUpdateResponse>(
+        `/api/mod_list/${seg(listName)}/force_update/${seg(modId)}`,
+        {
+          timeoutMs: LONG_TIMEOUT_MS,
+          ...options,
+          method: "POST",
+          query: overwriteConflicts ? { overwriteConflicts: true } : undefined,
+        }
+      ),
+  },
+
+  spt: {
+    versions: (options?: CallOptions) =>
+      request<SptVersion[]>("/api/spt_versions", options),
+
+    checkUpdate: (options?: CallOptions) =>
+      request<UpdateInfo>("/api/spt/check-update", options),
+
+    update: (downloadUrl: string, options?: CallOptions) =>
+      request<MessageResponse>("/api/spt/update", {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+        body: { downloadUrl },
+      }),
+  },
+
+  fika: {
+    checkUpdate: (options?: CallOptions) =>
+      request<UpdateInfo>("/api/fika/check-update", options),
+
+    update: (downloadUrl: string, options?: CallOptions) =>
+      request<MessageResponse>("/api/fika/update", {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+        body: { downloadUrl },
+      }),
+  },
+
+  server: {
+    status: (options?: CallOptions) =>
+      request<ServerStatusInfo>("/api/server/status", options),
+
+    start: (options?: CallOptions) =>
+      request<MessageResponse>("/api/server/start", {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+      }),
+
+    stop: (options?: CallOptions) =>
+      request<MessageResponse>("/api/server/stop", {
+        ...options,
+        method: "POST",
+      }),
+
+    restart: (options?: CallOptions) =>
+      request<MessageResponse>("/api/server/restart", {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+      }),
+
+    consoleEventsUrl: () => "/api/server/console/events",
+  },
+
+  downloads: {
+    eventsUrl: (operationId: string) =>
+      `/api/downloads/${seg(operationId)}/events`,
+
+    cancel: (operationId: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/downloads/${seg(operationId)}/cancel`, {
+        ...options,
+        method: "POST",
+      }),
+  },
+
+  snapshots: {
+    list: (options?: CallOptions) =>
+      request<Snapshot[]>("/api/snapshots", options),
+
+    restore: (snapshotId: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/snapshots/${seg(snapshotId)}/restore`, {
+        timeoutMs: LONG_TIMEOUT_MS,
+        ...options,
+        method: "POST",
+      }),
+
+    remove: (snapshotId: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/snapshots/${seg(snapshotId)}`, {
+        ...options,
+        method: "DELETE",
+      }),
+  },
+
+  jobs: {
+    list: (options?: CallOptions) => request<Job[]>("/api/jobs", options),
+
+    get: <TResult = unknown>(jobId: string, options?: CallOptions) =>
+      request<Job<TResult>>(`/api/jobs/${seg(jobId)}`, options),
+
+    create: (jobRequest: JobRequest, options?: CallOptions) =>
+      request<Job>("/api/jobs", {
+        ...options,
+        method: "POST",
+        body: jobRequest,
+      }),
+
+    cancel: (jobId: string, options?: CallOptions) =>
+      request<MessageResponse>(`/api/jobs/${seg(jobId)}/cancel`, {
+        ...options,
+        method: "POST",
+      }),
+  },
+
+  logs: {
+    list: (options?: CallOptions) => request<LogFile[]>("/api/logs", options),
+
+    read: (
+      path: string,
+      page: { offset?: number; limit?: number; list?: string } = {},
+      options?: CallOptions
+    ) =>
+      request<LogPage>("/api/logs/content", {
+        ...options,
+        query: { path, ...page },
+      }),
+  },
+};
+
+export const isJobFinished = (job: Job) =>
+  job.status !== "queued" && job.status !== "running";
+
+const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeoutId = window.setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        window.clearTimeout(timeoutId);
+        reject(
+          new ApiError({
+            kind: "aborted",
+            message: translate("api.cancelled"),
+            method: "GET",
+            url: "/api/jobs",
+          })
+        );
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Queues a job and polls it until it finishes. Resolves with the job result, which has the same
+ * shape as the response of the matching synchronous endpoint; rejects when the job produced none.
+ * The job keeps running on the server if the caller goes away.
+ */
+export async function runJob<TResult>(
+  jobRequest: JobRequest,
+  {
+    signal,
+    onQueued,
+  }: { signal?: AbortSignal; onQueued?: (job: Job) => void } = {}
+): Promise<TResult> {
+  const queued = await api.jobs.create(jobRequest, { signal });
+  onQueued?.(queued);
+
+  let job = queued as Job<TResult>;
+  while (!isJobFinished(job)) {
+    await waitFor(JOB_POLL_INTERVAL_MS, signal);
+    job = await api.jobs.get<TResult>(queued.id, { signal });
+  }
+
+  if (job.result === undefined) {
+    throw new ApiError({
+      kind: "job",
+      message:
+        job.error ||
+        translate("api.jobEnded", {
+          status: translate(`jobs.status.${job.status}`),
+        }),
+      method: "POST",
+      url: "/api/jobs",
+      body: job,
+    });
+  }
+
+  return job.result;
+}
@@ -5,13 +5,16 @@ import App from "./App";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { ModalProvider } from "./components/ModalContext";
+import { I18nProvider } from "./i18n/I18nContext";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <ModalProvider>
-        <App />
-      </ModalProvider>
-    </QueryClientProvider>
+    <I18nProvider>
+      <QueryClientProvider client={queryClient}>
+        <ModalProvider>
+          <App />
+        </ModalProvider>
+      </QueryClientProvider>
+    </I18nProvider>
   </React.StrictMode>
 );
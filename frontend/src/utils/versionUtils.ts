@@ -3,3 +3,274 @@ export function getVersionMajor(version?: string): number {
   const cleaned = version.replace(/^[^\d]*/, "");
   return parseInt(cleaned.split(".")[0], 10);
 }
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+export type CompatibilityStatus = "compatible" | "incompatible" | "unknown";
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+interface Comparator {
+  operator: Operator;
+  version: ParsedVersion;
+}
+
+const VERSION_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const isWildcard = (part?: string) =>
+  part === undefined || part === "x" || part === "X" || part === "*";
+
+export function parseVersion(version?: string | null): ParsedVersion | null {
+  if (!version) return null;
+  const match = version.trim().match(VERSION_PATTERN);
+  if (!match || isWildcard(match[1])) return null;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: isWildcard(match[2]) ? 0 : parseInt(match[2], 10),
+    patch: isWildcard(match[3]) ? 0 : parseInt(match[3], 10),
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+const comparePrerelease = (a: string[], b: string[]) => {
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNum = /^\d+$/.test(a[i]);
+    const bNum = /^\d+$/.test(b[i]);
+    if (aNum && bNum) return parseInt(a[i], 10) - parseInt(b[i], 10);
+    if (aNum) return -1;
+    if (bNum) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+const compareParsed = (a: ParsedVersion, b: ParsedVersion) =>
+  a.major - b.major ||
+  a.minor - b.minor ||
+  a.patch - b.patch ||
+  comparePrerelease(a.prerelease, b.prerelease);
+
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) return 0;
+  return Math.sign(compareParsed(parsedA, parsedB));
+}
+
+const makeVersion = (
+  major: number,
+  minor = 0,
+  patch = 0,
+  prerelease: string[] = []
+): ParsedVersion => ({ major, minor, patch, prerelease });
+
+// Lowest prerelease of a version, so "<3.10.0" also excludes "3.10.0-beta"
+const floor = (version: ParsedVersion) => ({ ...version, prerelease: ["0"] });
+
+/**
+ * Expands a single range token (e.g. "~3.9.0", "^3.8", "3.9.x", ">=3.8.0")
+ * into the comparators it stands for. Returns null for unparseable tokens.
+ */
+function parseToken(token: string): Comparator[] | null {
+  if (token === "" || isWildcard(token)) return [];
+
+  const opMatch = token.match(/^(<=|>=|<|>|=|~>|~|\^)?\s*(.*)$/);
+  if (!opMatch) return null;
+  const [, op = "", rest] = opMatch;
+
+  const partsMatch = rest.match(VERSION_PATTERN);
+  if (!partsMatch) return null;
+  if (isWildcard(partsMatch[1])) return op === "<" || op === ">" ? null : [];
+
+  const major = parseInt(partsMatch[1], 10);
+  const minor = isWildcard(partsMatch[2])
+    ? undefined
+    : parseInt(partsMatch[2], 10);
+  const patch = isWildcard(partsMatch[3])
+    ? undefined
+    : parseInt(partsMatch[3], 10);
+  const prerelease = partsMatch[4] ? partsMatch[4].split(".") : [];
+  const full = makeVersion(major, minor ?? 0, patch ?? 0, prerelease);
+
+  // Upper bound of a partial version: "3.9" -> <3.10.0, "3" -> <4.0.0
+  const partialUpper =
+    minor === undefined
+      ? makeVersion(major + 1)
+      : patch === undefined
+      ? makeVersion(major, minor + 1)
+      : null;
+
+  switch (op) {
+    case "~":
+    case "~>":
+      return [
+        { operator: ">=", version: full },
+        {
+          operator: "<",
+          version: floor(
+            minor === undefined
+              ? makeVersion(major + 1)
+              : makeVersion(major, minor + 1)
+          ),
+        },
+      ];
+
+    case "^": {
+      let upper: ParsedVersion;
+      if (major > 0 || minor === undefined) upper = makeVersion(major + 1);
+      else if (minor > 0 || patch === undefined)
+        upper = makeVersion(0, minor + 1);
+      else upper = makeVersion(0, 0, (patch ?? 0) + 1);
+      return [
+        { operator: ">=", version: full },
+        { operator: "<", version: floor(upper) },
+      ];
+    }
+
+    case ">":
+      return partialUpper
+        ? [{ operator: ">=", version: partialUpper }]
+        : [{ operator: ">", version: full }];
+
+    case "<=":
+      return partialUpper
+        ? [{ operator: "<", version: floor(partialUpper) }]
+        : [{ operator: "<=", version: full }];
+
+    case "<":
+      return [{ operator: "<", version: floor(full) }];
+
+    case ">=":
+      return [{ operator: ">=", version: full }];
+
+    default:
+      return partialUpper
+        ? [
+            { operator: ">=", version: full },
+            { operator: "<", version: floor(partialUpper) },
+          ]
+        : [{ operator: "=", version: full }];
+  }
+}
+
+/**
+ * Parses a range such as ">=3.8.0 <3.10", "~3.9.0 || ^3.11" or
+ * "3.8.0 - 3.9.3" into a set of comparator groups (OR of ANDs).
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const groups: Comparator[][] = [];
+
+  for (const rawGroup of range.split("||")) {
+    const group = rawGroup
+      .trim()
+      .replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, "$1")
+      .replace(/,/g, " ");
+
+    const hyphen = group.match(/^(\S+)\s+-\s+(\S+)$/);
+    const tokens = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : group.split(/\s+/).filter(Boolean);
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const parsed = parseToken(token);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    groups.push(comparators);
+  }
+
+  return groups;
+}
+
+const testComparator = (
+  version: ParsedVersion,
+  { operator, version: target }: Comparator
+) => {
+  const cmp = compareParsed(version, target);
+  switch (operator) {
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    default:
+      return cmp === 0;
+  }
+};
+
+/**
+ * Returns whether `version` satisfies the semver `range`, or null when either
+ * side cannot be parsed (e.g. a missing "N/A" constraint).
+ */
+export function satisfies(
+  version?: string | null,
+  range?: string | null
+): boolean | null {
+  const parsedVersion = parseVersion(version);
+  if (!parsedVersion || !range || !range.trim() || range.trim() === "N/A") {
+    return null;
+  }
+
+  const groups = parseRange(range.trim());
+  if (!groups) return null;
+
+  return groups.some((group) =>
+    group.every((comparator) => testComparator(parsedVersion, comparator))
+  );
+}
+
+export function getCompatibility(
+  constraint?: string | null,
+  sptVersion?: string | null
+): CompatibilityStatus {
+  const result = satisfies(sptVersion, constraint);
+  if (result === null) return "unknown";
+  return result ? "compatible" : "incompatible";
+}
+
+export interface CompatibilityReport<T> {
+  sptVersion: string;
+  compatible: T[];
+  incompatible: T[];
+  unknown: T[];
+}
+
+/**
+ * Groups mods by whether their SPT constraint accepts `sptVersion`; the
+ * `incompatible` bucket is what blocks switching a list to that version.
+ */
+export function getCompatibilityReport<
+  T extends { sptVersionConstraint?: string }
+>(mods: T[], sptVersion: string): CompatibilityReport<T> {
+  const report: CompatibilityReport<T> = {
+    sptVersion,
+    compatible: [],
+    incompatible: [],
+    unknown: [],
+  };
+
+  mods.forEach((mod) => {
+    report[getCompatibility(mod.sptVersionConstraint, sptVersion)].push(mod);
+  });
+
+  return report;
+}
@@ -204,12 +204,15 @@ echo "Starting nginx..."
 nginx -g "daemon off;" &
 NGINX_PID=$!
 
-# Start SPT server
+# Start SPT server through the API, so its console output shows in the UI
 echo "Starting SPT server..."
 chmod +x "$SPT_DIR/SPT.Server.Linux"
-cd "$SPT_DIR"
-./SPT.Server.Linux --port 6970 --ip 0.0.0.0 &
-SPT_PID=$!
+curl -fsS -X POST http://localhost:5000/api/server/start > /dev/null || {
+    echo "ERROR: SPT server failed to start"
+    exit 1
+}
+# The API writes this file, and rewrites it whenever it restarts the server
+SPT_PID=$(cat /tmp/spt-server.pid)
 
 # Wait for SPT to initialize
 echo "Initializing SPT server..."
@@ -223,6 +226,7 @@ echo "All services started"
 
 cleanup() {
     echo "Shutting down services..."
+    [ -f /tmp/spt-server.pid ] && SPT_PID=$(cat /tmp/spt-server.pid)
     kill $NGINX_PID $SPT_PID $DOTNET_PID 2>/dev/null || true
     wait
     exit 0
@@ -238,8 +242,9 @@ echo "Health monitoring started..."
 
 while sleep 30; do
     [ -f /tmp/updating.flag ] && continue
-    
-    kill -0 $DOTNET_PID $SPT_PID $NGINX_PID 2>/dev/null || {
+
+    # The API starts, stops and restarts SPT itself, and a crash there (e.g. during a bisect) is not fatal
+    kill -0 $DOTNET_PID $NGINX_PID 2>/dev/null || {
         echo "Critical service terminated - shutting down"
         cleanup
     }